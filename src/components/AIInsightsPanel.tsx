@@ -11,31 +11,28 @@ import {
   Lightbulb
 } from 'lucide-react';
 import { AnalyzedClaim } from '../types/fraud';
+import { ScoreCalibration, isFlagged } from '../services/scoreCalibration';
+import { IdentityGraph, IDENTITY_NODE_LABELS } from '../services/identityGraph';
 
 interface AIInsightsPanelProps {
   claims: AnalyzedClaim[];
+  graph: IdentityGraph;
+  calibration: ScoreCalibration;
 }
 
-export function AIInsightsPanel({ claims }: AIInsightsPanelProps) {
+export function AIInsightsPanel({ claims, graph, calibration }: AIInsightsPanelProps) {
   const insights = React.useMemo(() => {
     if (claims.length === 0) return null;
 
-    const highRiskClaims = claims.filter(c => c.analysis.fraud_score > 0.7);
+    const highRiskClaims = claims.filter(c => isFlagged(c.analysis));
     const uniqueIPs = new Set(claims.map(c => c.IP_Address)).size;
     const uniqueDevices = new Set(claims.map(c => c.Device_ID)).size;
     const totalClaims = claims.length;
     const avgRiskScore = claims.reduce((sum, c) => sum + c.analysis.fraud_score, 0) / totalClaims;
 
-    // Pattern detection
-    const ipCounts: Record<string, number> = {};
-    const deviceCounts: Record<string, number> = {};
-    claims.forEach(claim => {
-      ipCounts[claim.IP_Address] = (ipCounts[claim.IP_Address] || 0) + 1;
-      deviceCounts[claim.Device_ID] = (deviceCounts[claim.Device_ID] || 0) + 1;
-    });
-
-    const suspiciousIPs = Object.entries(ipCounts).filter(([_, count]) => count > 1);
-    const suspiciousDevices = Object.entries(deviceCounts).filter(([_, count]) => count > 1);
+    // Claimants linked through shared attributes, in networks that reach a loaded claim
+    const loaded = new Set(claims.map(c => c.Claim_ID));
+    const networks = graph.components().filter(network => network.claimIds.some(id => loaded.has(id)));
 
     // Top employers by risk
     const employerRisks: Record<string, { total: number; count: number }> = {};
@@ -57,11 +54,11 @@ export function AIInsightsPanel({ claims }: AIInsightsPanelProps) {
       uniqueDevices,
       totalClaims,
       avgRiskScore,
-      suspiciousIPs,
-      suspiciousDevices,
+      bands: calibration.configuration.bands,
+      networks,
       topRiskyEmployer
     };
-  }, [claims]);
+  }, [claims, graph, calibration]);
 
   if (!insights) {
     return (
@@ -129,37 +126,32 @@ export function AIInsightsPanel({ claims }: AIInsightsPanelProps) {
               <span>Pattern Detection</span>
             </h4>
             
-            {insights.suspiciousIPs.length > 0 && (
-              <div className="p-3 border border-orange-500/30 rounded-lg bg-orange-500/5">
-                <div className="flex items-start space-x-2">
-                  <Badge className={getInsightSeverity('warning')}>Warning</Badge>
-                  <div>
-                    <p className="text-sm font-medium">Multiple Claims from Same IP</p>
-                    <p className="text-sm text-muted-foreground mt-1">
-                      {insights.suspiciousIPs.length} IP address(es) associated with multiple claims. 
-                      Top IP: {insights.suspiciousIPs[0][0]} ({insights.suspiciousIPs[0][1]} claims)
-                    </p>
-                  </div>
-                </div>
-              </div>
-            )}
-
-            {insights.suspiciousDevices.length > 0 && (
+            {insights.networks.length > 0 && (
               <div className="p-3 border border-orange-500/30 rounded-lg bg-orange-500/5">
                 <div className="flex items-start space-x-2">
                   <Badge className={getInsightSeverity('warning')}>Warning</Badge>
                   <div>
-                    <p className="text-sm font-medium">Shared Device Usage</p>
+                    <p className="text-sm font-medium">Linked Claimant Networks</p>
                     <p className="text-sm text-muted-foreground mt-1">
-                      {insights.suspiciousDevices.length} device(s) linked to multiple claims.
-                      This may indicate coordinated fraud attempts.
+                      {insights.networks.length} network(s) link{' '}
+                      {insights.networks.reduce((sum, network) => sum + network.claimantIds.length, 0)} claimants
+                      through shared devices, IPs, phones, emails or addresses.
                     </p>
+                    <ul className="text-sm text-muted-foreground mt-2 space-y-1">
+                      {insights.networks.slice(0, 3).map(network => (
+                        <li key={network.componentId}>
+                          <span className="font-medium text-foreground">{network.claimantIds.length} claimants</span>
+                          {' '}({network.claimIds.length} claims) sharing{' '}
+                          {Array.from(new Set(network.sharedAttributes.map(node => IDENTITY_NODE_LABELS[node.nodeType]))).join(', ')}
+                        </li>
+                      ))}
+                    </ul>
                   </div>
                 </div>
               </div>
             )}
 
-            {insights.topRiskyEmployer && insights.topRiskyEmployer.avgRisk > 0.6 && (
+            {insights.topRiskyEmployer && insights.topRiskyEmployer.avgRisk >= insights.bands.high && (
               <div className="p-3 border border-red-500/30 rounded-lg bg-red-500/5">
                 <div className="flex items-start space-x-2">
                   <Badge className={getInsightSeverity('critical')}>Critical</Badge>
@@ -233,20 +225,20 @@ export function AIInsightsPanel({ claims }: AIInsightsPanelProps) {
             <div className="p-3 border-l-4 border-blue-500 bg-blue-500/5 rounded-r-lg">
               <p className="text-sm font-medium">Enhanced Monitoring</p>
               <p className="text-sm text-muted-foreground mt-1">
-                Set up alerts for claims from the {insights.suspiciousIPs.length} flagged IP addresses
-                and {insights.suspiciousDevices.length} suspicious devices.
+                Set up alerts for new claims that join one of the {insights.networks.length} linked claimant
+                networks.
               </p>
             </div>
             
             <div className="p-3 border-l-4 border-green-500 bg-green-500/5 rounded-r-lg">
               <p className="text-sm font-medium">Process Improvement</p>
               <p className="text-sm text-muted-foreground mt-1">
-                Consider implementing additional identity verification for claims above 70% risk score
+                Consider implementing additional identity verification for claims above {(insights.bands.high * 100).toFixed(0)}% risk score
                 to reduce false positives and improve detection accuracy.
               </p>
             </div>
             
-            {insights.avgRiskScore > 0.5 && (
+            {insights.avgRiskScore >= insights.bands.high && (
               <div className="p-3 border-l-4 border-orange-500 bg-orange-500/5 rounded-r-lg">
                 <p className="text-sm font-medium">System Alert</p>
                 <p className="text-sm text-muted-foreground mt-1">
@@ -0,0 +1,191 @@
+import React from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Progress } from '@/components/ui/progress';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Brain, History, Pause, Play, RotateCcw, Square, Trash2 } from 'lucide-react';
+import { BatchCheckpointSummary, BatchJobProgress, BatchJobStatus } from '../types/fraud';
+
+interface BatchJobPanelProps {
+  progress: BatchJobProgress;
+  concurrency: number;
+  onPause: () => void;
+  onResume: () => void;
+  onCancel: () => void;
+  onRetryFailed: () => void;
+  onConcurrencyChange: (concurrency: number) => void;
+  onDismiss: () => void;
+}
+
+const CONCURRENCY_CHOICES = [1, 2, 4, 8, 16];
+const MAX_VISIBLE_FAILURES = 100;
+
+const STATUS_BADGES: Record<BatchJobStatus, { label: string; className: string }> = {
+  RUNNING: { label: 'Running', className: 'bg-blue-500/20 text-blue-400 border-blue-500/30' },
+  PAUSED: { label: 'Paused', className: 'bg-yellow-500/20 text-yellow-400 border-yellow-500/30' },
+  CANCELLED: { label: 'Cancelled', className: 'bg-gray-500/20 text-gray-400 border-gray-500/30' },
+  COMPLETED: { label: 'Completed', className: 'bg-green-500/20 text-green-400 border-green-500/30' }
+};
+
+export function BatchJobPanel({
+  progress,
+  concurrency,
+  onPause,
+  onResume,
+  onCancel,
+  onRetryFailed,
+  onConcurrencyChange,
+  onDismiss
+}: BatchJobPanelProps) {
+  const isActive = progress.status === 'RUNNING' || progress.status === 'PAUSED';
+  const finished = progress.completed + progress.failures.length;
+  const percent = progress.total > 0 ? (finished / progress.total) * 100 : 100;
+  const badge = STATUS_BADGES[progress.status];
+
+  return (
+    <Card className="card-hover">
+      <CardHeader>
+        <CardTitle className="flex items-center justify-between">
+          <span className="flex items-center space-x-2">
+            <Brain className={`h-5 w-5 ${progress.status === 'RUNNING' ? 'animate-pulse' : ''}`} />
+            <span>{isActive ? 'AI Analysis in Progress' : 'AI Analysis'}</span>
+          </span>
+          <Badge className={badge.className}>{badge.label}</Badge>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex items-center justify-between text-sm">
+          <span>
+            {progress.completed.toLocaleString()} of {progress.total.toLocaleString()} claims analyzed
+          </span>
+          <span>{Math.round(percent)}%</span>
+        </div>
+        <Progress value={percent} className="w-full" />
+
+        <div className="flex flex-wrap gap-2 text-xs">
+          {isActive && <Badge variant="secondary">{progress.inFlight} in flight</Badge>}
+          {progress.retrying > 0 && (
+            <Badge className="bg-yellow-500/20 text-yellow-400 border-yellow-500/30">
+              {progress.retrying.toLocaleString()} awaiting retry
+            </Badge>
+          )}
+          {progress.failures.length > 0 && (
+            <Badge className="bg-red-500/20 text-red-400 border-red-500/30">
+              {progress.failures.length.toLocaleString()} failed
+            </Badge>
+          )}
+        </div>
+
+        {progress.failures.length > 0 && !isActive && (
+          <ScrollArea className="h-32 rounded-md border p-2">
+            <ul className="space-y-1 text-xs">
+              {progress.failures.slice(0, MAX_VISIBLE_FAILURES).map(failure => (
+                <li key={failure.itemId}>
+                  <span className="font-mono">{failure.itemId}</span>
+                  <span className="text-muted-foreground">
+                    {' '}after {failure.attempts} attempts: {failure.error}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          </ScrollArea>
+        )}
+
+        <div className="flex flex-wrap items-center justify-between gap-2">
+          <div className="flex items-center space-x-2 text-sm">
+            <span className="text-muted-foreground">Concurrency</span>
+            <Select value={String(concurrency)} onValueChange={(value) => onConcurrencyChange(Number(value))}>
+              <SelectTrigger className="w-20 h-8">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {CONCURRENCY_CHOICES.map(choice => (
+                  <SelectItem key={choice} value={String(choice)}>{choice}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="flex items-center gap-2">
+            {progress.status === 'RUNNING' && (
+              <Button variant="outline" size="sm" onClick={onPause}>
+                <Pause className="h-4 w-4 mr-2" />
+                Pause
+              </Button>
+            )}
+            {progress.status === 'PAUSED' && (
+              <Button variant="outline" size="sm" onClick={onResume}>
+                <Play className="h-4 w-4 mr-2" />
+                Resume
+              </Button>
+            )}
+            {isActive && (
+              <Button variant="outline" size="sm" onClick={onCancel}>
+                <Square className="h-4 w-4 mr-2" />
+                Cancel
+              </Button>
+            )}
+            {!isActive && progress.failures.length > 0 && (
+              <Button variant="outline" size="sm" onClick={onRetryFailed}>
+                <RotateCcw className="h-4 w-4 mr-2" />
+                Retry Failed
+              </Button>
+            )}
+            {!isActive && (
+              <Button variant="ghost" size="sm" onClick={onDismiss}>
+                Dismiss
+              </Button>
+            )}
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
+interface ResumeJobPanelProps {
+  checkpoint: BatchCheckpointSummary;
+  onResume: () => void;
+  onDiscard: () => void;
+}
+
+export function ResumeJobPanel({ checkpoint, onResume, onDiscard }: ResumeJobPanelProps) {
+  return (
+    <Card className="card-hover">
+      <CardHeader>
+        <CardTitle className="flex items-center space-x-2">
+          <History className="h-5 w-5" />
+          <span>Interrupted Analysis</span>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <p className="text-sm">
+          {checkpoint.label} stopped after {checkpoint.completed.toLocaleString()} of{' '}
+          {checkpoint.total.toLocaleString()} claims.
+        </p>
+        <p className="text-xs text-muted-foreground">
+          Started {new Date(checkpoint.startedAt).toLocaleString()}, last saved{' '}
+          {new Date(checkpoint.updatedAt).toLocaleString()}
+        </p>
+        <div className="flex gap-2">
+          <Button size="sm" onClick={onResume}>
+            <Play className="h-4 w-4 mr-2" />
+            Resume
+          </Button>
+          <Button variant="ghost" size="sm" onClick={onDiscard}>
+            <Trash2 className="h-4 w-4 mr-2" />
+            Discard
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
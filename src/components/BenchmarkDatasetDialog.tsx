@@ -0,0 +1,156 @@
+import React, { useState } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Download, FlaskConical, Play } from 'lucide-react';
+import { downloadFile } from '@/lib/utils';
+import { EnterpriseClaimRow, FraudScheme } from '../types/fraud';
+import {
+  FRAUD_SCHEME_LABELS,
+  SyntheticClaimGenerator,
+  SyntheticDatasetOptions
+} from '../services/syntheticClaimGenerator';
+
+interface BenchmarkDatasetDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  // Load the generated claims straight into the dashboard
+  onLoad: (rows: EnterpriseClaimRow[], fileName: string) => void;
+}
+
+const MAX_CLAIMS = 100000;
+
+export function BenchmarkDatasetDialog({ isOpen, onClose, onLoad }: BenchmarkDatasetDialogProps) {
+  const [options, setOptions] = useState<SyntheticDatasetOptions>(SyntheticClaimGenerator.defaultOptions);
+
+  const fileName = `benchmark_${options.claimCount}_seed${options.seed}.csv`;
+  const injectedShare = Object.values(options.schemeRates).reduce((sum, rate) => sum + rate, 0);
+  const isValid =
+    options.claimCount > 0 &&
+    options.claimCount <= MAX_CLAIMS &&
+    injectedShare <= 1 &&
+    Date.parse(options.startDate) <= Date.parse(options.endDate);
+
+  const setRate = (scheme: FraudScheme, percent: number) => {
+    setOptions(prev => ({
+      ...prev,
+      schemeRates: { ...prev.schemeRates, [scheme]: Math.max(0, percent) / 100 }
+    }));
+  };
+
+  const generate = () => new SyntheticClaimGenerator(options).generate();
+
+  const handleDownload = () => {
+    downloadFile(SyntheticClaimGenerator.toCSV(generate().rows), fileName);
+  };
+
+  const handleLoad = () => {
+    onLoad(generate().rows, fileName);
+    onClose();
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle className="flex items-center space-x-2">
+            <FlaskConical className="h-5 w-5" />
+            <span>Benchmark Dataset</span>
+          </DialogTitle>
+          <DialogDescription>
+            Seeded synthetic claims with labeled fraud schemes. Every row carries a Ground_Truth_Label
+            column, and the same settings always produce the same file.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-1">
+              <Label htmlFor="benchmark-claims">Claims</Label>
+              <Input
+                id="benchmark-claims"
+                type="number"
+                min={1}
+                max={MAX_CLAIMS}
+                value={options.claimCount}
+                onChange={(e) => setOptions(prev => ({ ...prev, claimCount: Number(e.target.value) }))}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="benchmark-seed">Seed</Label>
+              <Input
+                id="benchmark-seed"
+                type="number"
+                value={options.seed}
+                onChange={(e) => setOptions(prev => ({ ...prev, seed: Number(e.target.value) }))}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="benchmark-start">From</Label>
+              <Input
+                id="benchmark-start"
+                type="date"
+                value={options.startDate}
+                onChange={(e) => setOptions(prev => ({ ...prev, startDate: e.target.value }))}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="benchmark-end">To</Label>
+              <Input
+                id="benchmark-end"
+                type="date"
+                value={options.endDate}
+                onChange={(e) => setOptions(prev => ({ ...prev, endDate: e.target.value }))}
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Injected schemes (% of claims)</Label>
+            {(Object.keys(FRAUD_SCHEME_LABELS) as FraudScheme[]).map(scheme => (
+              <div key={scheme} className="flex items-center justify-between gap-4">
+                <Label htmlFor={`benchmark-${scheme}`} className="text-sm font-normal">
+                  {FRAUD_SCHEME_LABELS[scheme]}
+                </Label>
+                <Input
+                  id={`benchmark-${scheme}`}
+                  type="number"
+                  min={0}
+                  max={100}
+                  step={0.5}
+                  className="w-24"
+                  value={Math.round(options.schemeRates[scheme] * 1000) / 10}
+                  onChange={(e) => setRate(scheme, Number(e.target.value))}
+                />
+              </div>
+            ))}
+            <p className="text-xs text-muted-foreground">
+              About {Math.round(options.claimCount * Math.min(injectedShare, 1)).toLocaleString()} fraudulent
+              claims, {(injectedShare * 100).toFixed(1)}% of the dataset
+              {injectedShare > 1 && ' (schemes cannot exceed 100%)'}
+            </p>
+          </div>
+        </div>
+
+        <DialogFooter className="gap-2">
+          <Button variant="outline" onClick={handleDownload} disabled={!isValid}>
+            <Download className="h-4 w-4 mr-2" />
+            Download CSV
+          </Button>
+          <Button onClick={handleLoad} disabled={!isValid}>
+            <Play className="h-4 w-4 mr-2" />
+            Load into Dashboard
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
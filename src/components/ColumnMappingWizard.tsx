@@ -0,0 +1,214 @@
+import React, { useMemo, useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { Columns, Save, Trash2, AlertCircle } from 'lucide-react';
+import { ColumnMapper } from '../services/columnMapper';
+import { ColumnMapping, ColumnMappingProfile, ColumnSuggestion } from '../types/fraud';
+
+interface ColumnMappingWizardProps {
+  fileName: string;
+  headers: string[];
+  sampleRows: Record<string, string>[];
+  suggestions: ColumnSuggestion[];
+  initialProfile?: ColumnMappingProfile;
+  onConfirm: (mapping: ColumnMapping) => void;
+  onCancel: () => void;
+}
+
+const IGNORE = '__ignore__';
+
+export function ColumnMappingWizard({
+  fileName,
+  headers,
+  sampleRows,
+  suggestions,
+  initialProfile,
+  onConfirm,
+  onCancel
+}: ColumnMappingWizardProps) {
+  const suggestedMapping = useMemo(() => ColumnMapper.toMapping(suggestions), [suggestions]);
+  const confidenceBySource = useMemo(
+    () => Object.fromEntries(suggestions.map(s => [s.source, s.confidence])),
+    [suggestions]
+  );
+
+  const mappingFromProfile = (profile: ColumnMappingProfile): ColumnMapping =>
+    Object.fromEntries(
+      headers.map(header => [
+        header,
+        header in profile.mapping ? profile.mapping[header] : suggestedMapping[header]
+      ])
+    );
+
+  const [mapping, setMapping] = useState<ColumnMapping>(() =>
+    initialProfile ? mappingFromProfile(initialProfile) : suggestedMapping
+  );
+  const [profiles, setProfiles] = useState<ColumnMappingProfile[]>(() => ColumnMapper.loadProfiles());
+  const [selectedProfile, setSelectedProfile] = useState<string>(initialProfile?.name || '');
+  const [profileName, setProfileName] = useState(initialProfile?.name || '');
+
+  const missingRequired = ColumnMapper.missingRequired(mapping);
+  const duplicateTargets = ColumnMapper.duplicateTargets(mapping);
+  const canConfirm = missingRequired.length === 0 && duplicateTargets.length === 0;
+
+  const applyProfile = (name: string) => {
+    const profile = profiles.find(p => p.name === name);
+    if (!profile) return;
+    setSelectedProfile(name);
+    setProfileName(name);
+    setMapping(mappingFromProfile(profile));
+  };
+
+  const saveProfile = () => {
+    const name = profileName.trim();
+    if (!name) return;
+    ColumnMapper.saveProfile(name, headers, mapping);
+    setProfiles(ColumnMapper.loadProfiles());
+    setSelectedProfile(name);
+  };
+
+  const deleteProfile = () => {
+    if (!selectedProfile) return;
+    ColumnMapper.deleteProfile(selectedProfile);
+    setProfiles(ColumnMapper.loadProfiles());
+    setSelectedProfile('');
+  };
+
+  return (
+    <Card className="card-hover">
+      <CardHeader>
+        <CardTitle className="flex items-center space-x-2">
+          <Columns className="h-5 w-5" />
+          <span>Map Columns: {fileName}</span>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <p className="text-sm text-muted-foreground">
+          The file's headers don't match the expected claim fields. Review the suggested
+          mapping, or apply a saved profile for this source system.
+        </p>
+
+        <div className="flex flex-col sm:flex-row gap-3">
+          <Select value={selectedProfile} onValueChange={applyProfile} disabled={profiles.length === 0}>
+            <SelectTrigger className="sm:w-64">
+              <SelectValue placeholder={profiles.length ? 'Apply saved profile' : 'No saved profiles'} />
+            </SelectTrigger>
+            <SelectContent>
+              {profiles.map(profile => (
+                <SelectItem key={profile.name} value={profile.name}>{profile.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button variant="outline" size="icon" onClick={deleteProfile} disabled={!selectedProfile}>
+            <Trash2 className="h-4 w-4" />
+          </Button>
+          <Input
+            placeholder="Profile name, e.g. Legacy Intake System"
+            value={profileName}
+            onChange={(e) => setProfileName(e.target.value)}
+            className="flex-1"
+          />
+          <Button variant="outline" onClick={saveProfile} disabled={!profileName.trim()}>
+            <Save className="h-4 w-4 mr-2" />
+            Save Profile
+          </Button>
+        </div>
+
+        <div className="rounded-md border max-h-96 overflow-y-auto">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Source Column</TableHead>
+                <TableHead>Sample</TableHead>
+                <TableHead className="w-64">Maps To</TableHead>
+                <TableHead className="w-24">Match</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {headers.map(header => {
+                const target = mapping[header];
+                const confidence = confidenceBySource[header] || 0;
+                const isSuggested = target !== null && target === suggestedMapping[header];
+
+                return (
+                  <TableRow key={header}>
+                    <TableCell className="font-mono text-xs">{header}</TableCell>
+                    <TableCell className="text-xs text-muted-foreground truncate max-w-[12rem]">
+                      {sampleRows.map(row => row[header]).filter(Boolean).slice(0, 2).join(', ') || '—'}
+                    </TableCell>
+                    <TableCell>
+                      <Select
+                        value={target ?? IGNORE}
+                        onValueChange={(value) =>
+                          setMapping(prev => ({ ...prev, [header]: value === IGNORE ? null : value }))
+                        }
+                      >
+                        <SelectTrigger className="h-8 text-xs">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value={IGNORE}>Ignore column</SelectItem>
+                          {ColumnMapper.targetFields.map(field => (
+                            <SelectItem key={field} value={field}>{field}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </TableCell>
+                    <TableCell>
+                      {isSuggested && (
+                        <Badge variant={confidence === 1 ? 'default' : 'secondary'}>
+                          {Math.round(confidence * 100)}%
+                        </Badge>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        </div>
+
+        {(missingRequired.length > 0 || duplicateTargets.length > 0) && (
+          <Alert variant="destructive">
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription className="space-y-1">
+              {missingRequired.length > 0 && (
+                <p>Required fields not mapped: {missingRequired.join(', ')}</p>
+              )}
+              {duplicateTargets.length > 0 && (
+                <p>Fields mapped more than once: {duplicateTargets.join(', ')}</p>
+              )}
+            </AlertDescription>
+          </Alert>
+        )}
+
+        <div className="flex flex-col sm:flex-row gap-3">
+          <Button onClick={() => onConfirm(mapping)} disabled={!canConfirm} className="flex-1">
+            Import with this Mapping
+          </Button>
+          <Button variant="ghost" onClick={onCancel} className="flex-1">
+            Cancel
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,122 @@
+import React, { useEffect, useState } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { GraduationCap, RotateCcw, Scale } from 'lucide-react';
+import { toast } from 'sonner';
+import { EnsembleEngineName } from '../types/enterprise';
+import { ScoringEnvironment } from '../services/scoringEnvironment';
+import {
+  ENSEMBLE_ENGINES,
+  ENSEMBLE_ENGINE_LABELS,
+  ScoringEnsemble,
+  ScoringEnsembleConfig
+} from '../services/scoringEnsemble';
+
+interface EnsembleSettingsDialogProps {
+  environment: ScoringEnvironment;
+  isOpen: boolean;
+  onClose: () => void;
+  // Called after new weights are in place, to rescore
+  onSaved: () => void;
+  // Set when there are labeled claims to learn the weights from
+  onLearn?: () => void;
+}
+
+export function EnsembleSettingsDialog({ environment, isOpen, onClose, onSaved, onLearn }: EnsembleSettingsDialogProps) {
+  const [draft, setDraft] = useState<ScoringEnsembleConfig>(environment.ensemble.configuration);
+
+  // Start from the live weights each time the dialog opens
+  useEffect(() => {
+    if (isOpen) setDraft(environment.ensemble.configuration);
+  }, [isOpen, environment]);
+
+  const setWeight = (engine: EnsembleEngineName, weight: number) => {
+    // A hand-set weight is no longer the learned one
+    setDraft(prev => ({ weights: { ...prev.weights, [engine]: weight } }));
+  };
+
+  const handleReset = () => {
+    setDraft(ScoringEnsemble.defaultConfig);
+  };
+
+  const handleSave = () => {
+    const ensemble = new ScoringEnsemble(draft);
+    environment.ensemble = ensemble;
+    ScoringEnsemble.save(ensemble);
+    toast.success('Engine weights saved');
+    onClose();
+    onSaved();
+  };
+
+  const handleLearn = () => {
+    onClose();
+    onLearn?.();
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle className="flex items-center space-x-2">
+            <Scale className="h-5 w-5" />
+            <span>Scoring Engines</span>
+          </DialogTitle>
+          <DialogDescription>
+            Each engine scores every claim; its points are multiplied by its weight and added to the risk score.
+            A weight of 0 leaves the engine's score on record without counting it.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-3">
+          {ENSEMBLE_ENGINES.map(engine => (
+            <div key={engine} className="grid grid-cols-[1fr_8rem] gap-2 items-center">
+              <Label htmlFor={`weight-${engine}`}>{ENSEMBLE_ENGINE_LABELS[engine]}</Label>
+              <Input
+                id={`weight-${engine}`}
+                type="number"
+                min={0}
+                step={0.05}
+                value={draft.weights[engine]}
+                onChange={(e) => setWeight(engine, Math.max(0, Number(e.target.value)))}
+              />
+            </div>
+          ))}
+          {draft.fittedAt && (
+            <p className="text-xs text-muted-foreground">
+              Learned from {draft.sampleSize?.toLocaleString()} labeled claims on{' '}
+              {new Date(draft.fittedAt).toLocaleString()}
+            </p>
+          )}
+        </div>
+
+        <DialogFooter className="sm:justify-between">
+          <div className="flex gap-2">
+            <Button variant="outline" size="sm" onClick={handleReset}>
+              <RotateCcw className="h-4 w-4 mr-2" />
+              Defaults
+            </Button>
+            {onLearn && (
+              <Button variant="outline" size="sm" onClick={handleLearn}>
+                <GraduationCap className="h-4 w-4 mr-2" />
+                Learn from labels
+              </Button>
+            )}
+          </div>
+          <div className="flex gap-2">
+            <Button variant="ghost" onClick={onClose}>Cancel</Button>
+            <Button onClick={handleSave}>Save</Button>
+          </div>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,43 +1,220 @@
 
-import React, { useCallback, useState } from 'react';
-import { useDropzone } from 'react-dropzone';
-import { Upload, FileText, Download, AlertCircle } from 'lucide-react';
+import React, { useRef, useState } from 'react';
+import { FileRejection, useDropzone } from 'react-dropzone';
+import { Upload, FileText, Download, AlertCircle, Sheet, FlaskConical } from 'lucide-react';
 import { Button } from '@/components/ui/button';
-import { Card, CardContent } from '@/components/ui/card';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Switch } from '@/components/ui/switch';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { downloadFile } from '@/lib/utils';
 import { CSVParser } from '../services/csvParser';
-import { ClaimData } from '../types/fraud';
+import { ColumnMapper } from '../services/columnMapper';
+import { ClaimFileOptions, ClaimIngestion } from '../services/claimIngestion';
+import { ClaimValidator } from '../services/claimValidator';
+import { DUPLICATE_POLICY_LABELS } from '../services/claimDatasetMerger';
+import {
+  ColumnMapping,
+  ColumnMappingProfile,
+  ColumnSuggestion,
+  DuplicatePolicy,
+  EnterpriseClaimRow,
+  ImportOptions,
+  ParsedClaims
+} from '../types/fraud';
+import { ValidationReportPanel } from './ValidationReportPanel';
+import { ColumnMappingWizard } from './ColumnMappingWizard';
+import { BenchmarkDatasetDialog } from './BenchmarkDatasetDialog';
 
 interface FileUploadProps {
-  onDataLoaded: (data: ClaimData[]) => void;
+  onDataLoaded: (data: EnterpriseClaimRow[], options: ImportOptions) => void;
+  // Receives files too large to parse in one pass; see CSVParser.streamCSV
+  onFileStream?: (file: File, mapping: ColumnMapping | undefined, options: ImportOptions) => void;
   isLoading?: boolean;
+  // Offer to append to the claims already loaded
+  hasData?: boolean;
 }
 
-export function FileUpload({ onDataLoaded, isLoading }: FileUploadProps) {
-  const [error, setError] = useState<string | null>(null);
+interface MappingRequest {
+  file: File;
+  sheet?: string;
+  headers: string[];
+  sampleRows: Record<string, string>[];
+  suggestions: ColumnSuggestion[];
+  profile?: ColumnMappingProfile;
+}
+
+interface SheetRequest {
+  file: File;
+  sheets: string[];
+  selected: string;
+}
+
+interface UploadBatch {
+  queue: File[];
+  results: ParsedClaims[];
+  options: ImportOptions;
+}
+
+interface PendingImport {
+  parsed: ParsedClaims;
+  options: ImportOptions;
+}
+
+const withSourceFile = (parsed: ParsedClaims, sourceFile: string): ParsedClaims => ({
+  rows: parsed.rows.map(row => ({ ...row, Source_File: sourceFile })),
+  report: {
+    ...parsed.report,
+    rejected: parsed.report.rejected.map(row => ({ ...row, sourceFile })),
+    warned: parsed.report.warned.map(row => ({ ...row, sourceFile }))
+  }
+});
+
+export function FileUpload({ onDataLoaded, onFileStream, isLoading, hasData }: FileUploadProps) {
+  const [errors, setErrors] = useState<string[]>([]);
   const [dragActive, setDragActive] = useState(false);
+  const [policy, setPolicy] = useState<DuplicatePolicy>('KEEP_FIRST');
+  const [append, setAppend] = useState(false);
+  const [showBenchmark, setShowBenchmark] = useState(false);
+  // Parsed files held back until the user has reviewed their validation report
+  const [pending, setPending] = useState<PendingImport | null>(null);
+  // File waiting on the user to map its columns onto claim fields
+  const [mappingRequest, setMappingRequest] = useState<MappingRequest | null>(null);
+  // Workbook with several sheets, waiting on the user to pick one
+  const [sheetRequest, setSheetRequest] = useState<SheetRequest | null>(null);
+  // Dropped files are read one at a time, since each may need user input
+  const batch = useRef<UploadBatch | null>(null);
+
+  const finishBatch = () => {
+    const current = batch.current;
+    batch.current = null;
+    if (!current || current.results.length === 0) return;
 
-  const onDrop = useCallback(async (acceptedFiles: File[]) => {
-    const file = acceptedFiles[0];
-    if (!file) return;
+    const parsed: ParsedClaims = {
+      rows: current.results.flatMap(result => result.rows),
+      report: current.results.reduce(
+        (merged, result) => ClaimValidator.mergeReports(merged, result.report),
+        ClaimValidator.emptyReport()
+      )
+    };
+    const { report } = parsed;
+
+    if (report.rejectedCount === 0 && report.warnedCount === 0) {
+      onDataLoaded(parsed.rows, current.options);
+      return;
+    }
+
+    if (report.acceptedRows === 0) {
+      setErrors(prev => [...prev, `None of the ${report.totalRows} rows passed validation`]);
+    }
+    setPending({ parsed, options: current.options });
+  };
 
-    setError(null);
-    
+  const skipFile = (file: File, err: unknown, fallback: string) => {
+    const message = err instanceof Error ? err.message : fallback;
+    setErrors(prev => [...prev, `${file.name}: ${message}`]);
+    nextFile();
+  };
+
+  const importFile = async (file: File, options: ClaimFileOptions = {}) => {
+    const current = batch.current;
+    if (!current) return;
+
+    try {
+      const parser = ClaimIngestion.parserFor(file);
+      // Streaming hands the file straight to the dashboard, so it is only
+      // used when the file was dropped on its own
+      const isOnlyFile = current.queue.length === 0 && current.results.length === 0;
+      if (parser.streamable && onFileStream && isOnlyFile && file.size > CSVParser.streamingThreshold) {
+        batch.current = null;
+        onFileStream(file, options.mapping, current.options);
+        return;
+      }
+
+      current.results.push(withSourceFile(await parser.parse(file, options), file.name));
+    } catch (err) {
+      skipFile(file, err, 'Failed to parse file');
+      return;
+    }
+    nextFile();
+  };
+
+  const prepareImport = async (file: File, sheet?: string) => {
     try {
-      const data = await CSVParser.parseCSV(file);
-      onDataLoaded(data);
+      // Files that already use the expected headers skip the mapping step
+      const { headers, sampleRows } = await ClaimIngestion.parserFor(file).readHeaders(file, { sheet });
+      const suggestions = ColumnMapper.suggest(headers);
+      const mapping = ColumnMapper.toMapping(suggestions);
+
+      if (ColumnMapper.isIdentity(mapping) && ColumnMapper.missingRequired(mapping).length === 0) {
+        await importFile(file, { sheet });
+        return;
+      }
+
+      setMappingRequest({
+        file,
+        sheet,
+        headers,
+        sampleRows,
+        suggestions,
+        profile: ColumnMapper.findProfileFor(headers)
+      });
     } catch (err) {
-      setError(err instanceof Error ? err.message : 'Failed to parse CSV file');
+      skipFile(file, err, 'Failed to read file headers');
+    }
+  };
+
+  const nextFile = async () => {
+    const file = batch.current?.queue.shift();
+    if (!file) {
+      finishBatch();
+      return;
     }
-  }, [onDataLoaded]);
+
+    try {
+      const parser = ClaimIngestion.parserFor(file);
+      const sheets = parser.listSheets ? await parser.listSheets(file) : [];
+
+      if (sheets.length > 1) {
+        setSheetRequest({ file, sheets, selected: sheets[0] });
+        return;
+      }
+
+      await prepareImport(file, sheets[0]);
+    } catch (err) {
+      skipFile(file, err, 'Failed to read file');
+    }
+  };
+
+  const onDrop = (acceptedFiles: File[], fileRejections: FileRejection[]) => {
+    setErrors(fileRejections.map(({ file }) =>
+      `${file.name}: Unsupported file type. Supported formats: ${ClaimIngestion.supportedExtensions.join(', ')}`
+    ));
+    setPending(null);
+    setMappingRequest(null);
+    setSheetRequest(null);
+
+    if (acceptedFiles.length === 0) return;
+
+    batch.current = {
+      queue: [...acceptedFiles],
+      results: [],
+      options: { policy, append: append && !!hasData }
+    };
+    nextFile();
+  };
 
   const { getRootProps, getInputProps, isDragActive } = useDropzone({
     onDrop,
-    accept: {
-      'text/csv': ['.csv'],
-      'application/vnd.ms-excel': ['.csv']
-    },
-    multiple: false,
+    accept: ClaimIngestion.accept,
+    multiple: true,
     disabled: isLoading
   });
 
@@ -45,32 +222,51 @@ export function FileUpload({ onDataLoaded, isLoading }: FileUploadProps) {
     try {
       const response = await fetch('/sample_enterprise_claims.csv');
       const csvContent = await response.text();
-      const blob = new Blob([csvContent], { type: 'text/csv' });
-      const url = URL.createObjectURL(blob);
-      const a = document.createElement('a');
-      a.href = url;
-      a.download = 'sample_enterprise_claims.csv';
-      document.body.appendChild(a);
-      a.click();
-      document.body.removeChild(a);
-      URL.revokeObjectURL(url);
+      downloadFile(csvContent, 'sample_enterprise_claims.csv');
     } catch (error) {
       // Fallback to generated sample
-      const sampleCSV = CSVParser.generateSampleCSV();
-      const blob = new Blob([sampleCSV], { type: 'text/csv' });
-      const url = URL.createObjectURL(blob);
-      const a = document.createElement('a');
-      a.href = url;
-      a.download = 'sample_claims.csv';
-      document.body.appendChild(a);
-      a.click();
-      document.body.removeChild(a);
-      URL.revokeObjectURL(url);
+      downloadFile(CSVParser.generateSampleCSV(), 'sample_claims.csv');
     }
   };
 
+  const loadBenchmark = (rows: EnterpriseClaimRow[], fileName: string) => {
+    onDataLoaded(
+      rows.map(row => ({ ...row, Source_File: fileName })),
+      { policy, append: append && !!hasData }
+    );
+  };
+
+  const continueWithValidRows = () => {
+    if (!pending) return;
+    onDataLoaded(pending.parsed.rows, pending.options);
+    setPending(null);
+    setErrors([]);
+  };
+
   return (
     <div className="space-y-4">
+      <div className="flex flex-col sm:flex-row sm:items-center gap-4 p-4 bg-muted/50 rounded-lg">
+        <div className="flex items-center gap-3">
+          <Label htmlFor="duplicate-policy" className="text-sm whitespace-nowrap">Duplicate Claim_IDs</Label>
+          <Select value={policy} onValueChange={(value) => setPolicy(value as DuplicatePolicy)}>
+            <SelectTrigger id="duplicate-policy" className="sm:w-56">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(DUPLICATE_POLICY_LABELS) as DuplicatePolicy[]).map(option => (
+                <SelectItem key={option} value={option}>{DUPLICATE_POLICY_LABELS[option]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        {hasData && (
+          <div className="flex items-center gap-2">
+            <Switch id="append-dataset" checked={append} onCheckedChange={setAppend} />
+            <Label htmlFor="append-dataset" className="text-sm">Append to current dataset</Label>
+          </div>
+        )}
+      </div>
+
       <Card className={`card-hover ${isDragActive ? 'border-primary' : ''}`}>
         <CardContent className="p-8">
           <div
@@ -90,12 +286,12 @@ export function FileUpload({ onDataLoaded, isLoading }: FileUploadProps) {
               
               <div className="space-y-2">
                 <h3 className="text-lg font-semibold">
-                  {isDragActive ? 'Drop your CSV file here' : 'Upload Claims Data'}
+                  {isDragActive ? 'Drop your claims files here' : 'Upload Claims Data'}
                 </h3>
                 <p className="text-muted-foreground">
                   {isLoading 
                     ? 'Processing your file...' 
-                    : 'Drag and drop your CSV file here, or click to browse'
+                    : 'Drag and drop one or more CSV, Excel, JSON or NDJSON files here, or click to browse'
                   }
                 </p>
               </div>
@@ -103,7 +299,7 @@ export function FileUpload({ onDataLoaded, isLoading }: FileUploadProps) {
               {!isLoading && (
                 <Button variant="outline" className="mt-4">
                   <FileText className="h-4 w-4 mr-2" />
-                  Select CSV File
+                  Select Files
                 </Button>
               )}
             </div>
@@ -111,22 +307,118 @@ export function FileUpload({ onDataLoaded, isLoading }: FileUploadProps) {
         </CardContent>
       </Card>
 
-      {error && (
+      {errors.length > 0 && (
         <Alert variant="destructive">
           <AlertCircle className="h-4 w-4" />
-          <AlertDescription>{error}</AlertDescription>
+          <AlertDescription className="space-y-1">
+            {errors.map((message, index) => <p key={index}>{message}</p>)}
+          </AlertDescription>
         </Alert>
       )}
 
+      {sheetRequest && (
+        <Card className="card-hover">
+          <CardHeader>
+            <CardTitle className="flex items-center space-x-2">
+              <Sheet className="h-5 w-5" />
+              <span>Choose a Worksheet: {sheetRequest.file.name}</span>
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <p className="text-sm text-muted-foreground">
+              This workbook has {sheetRequest.sheets.length} sheets. Pick the one that holds the claims.
+            </p>
+            <Select
+              value={sheetRequest.selected}
+              onValueChange={(selected) => setSheetRequest({ ...sheetRequest, selected })}
+            >
+              <SelectTrigger className="sm:w-64">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {sheetRequest.sheets.map(sheet => (
+                  <SelectItem key={sheet} value={sheet}>{sheet}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <div className="flex flex-col sm:flex-row gap-3">
+              <Button
+                className="flex-1"
+                onClick={() => {
+                  const { file, selected } = sheetRequest;
+                  setSheetRequest(null);
+                  prepareImport(file, selected);
+                }}
+              >
+                Use this Sheet
+              </Button>
+              <Button
+                variant="ghost"
+                className="flex-1"
+                onClick={() => {
+                  setSheetRequest(null);
+                  nextFile();
+                }}
+              >
+                Skip File
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {mappingRequest && (
+        <ColumnMappingWizard
+          fileName={mappingRequest.file.name}
+          headers={mappingRequest.headers}
+          sampleRows={mappingRequest.sampleRows}
+          suggestions={mappingRequest.suggestions}
+          initialProfile={mappingRequest.profile}
+          onConfirm={(mapping) => {
+            const { file, sheet } = mappingRequest;
+            setMappingRequest(null);
+            importFile(file, { mapping, sheet });
+          }}
+          onCancel={() => {
+            setMappingRequest(null);
+            nextFile();
+          }}
+        />
+      )}
+
+      {pending && (
+        <ValidationReportPanel
+          report={pending.parsed.report}
+          onContinue={continueWithValidRows}
+          onDownloadRejects={() => downloadFile(CSVParser.buildRejectsCSV(pending.parsed.report), 'rejected_claims.csv')}
+          onCancel={() => {
+            setPending(null);
+            setErrors([]);
+          }}
+        />
+      )}
+
       <div className="flex items-center justify-between p-4 bg-muted/50 rounded-lg">
         <div className="text-sm text-muted-foreground">
           Need a sample file to test with?
         </div>
-        <Button variant="outline" size="sm" onClick={downloadSample}>
-          <Download className="h-4 w-4 mr-2" />
-          Download Sample CSV
-        </Button>
+        <div className="flex gap-2">
+          <Button variant="outline" size="sm" onClick={downloadSample}>
+            <Download className="h-4 w-4 mr-2" />
+            Download Sample CSV
+          </Button>
+          <Button variant="outline" size="sm" onClick={() => setShowBenchmark(true)} disabled={isLoading}>
+            <FlaskConical className="h-4 w-4 mr-2" />
+            Generate Benchmark
+          </Button>
+        </div>
       </div>
+
+      <BenchmarkDatasetDialog
+        isOpen={showBenchmark}
+        onClose={() => setShowBenchmark(false)}
+        onLoad={loadBenchmark}
+      />
     </div>
   );
 }
@@ -0,0 +1,87 @@
+import React from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { Copy } from 'lucide-react';
+import { MergeReport } from '../types/fraud';
+import { DUPLICATE_POLICY_LABELS } from '../services/claimDatasetMerger';
+
+interface MergeReportPanelProps {
+  report: MergeReport;
+  onDismiss: () => void;
+}
+
+const MAX_VISIBLE_ROWS = 100;
+
+export function MergeReportPanel({ report, onDismiss }: MergeReportPanelProps) {
+  return (
+    <Card className="card-hover">
+      <CardHeader>
+        <CardTitle className="flex items-center space-x-2">
+          <Copy className="h-5 w-5" />
+          <span>Duplicate Claims</span>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-wrap gap-2 text-sm">
+          <Badge variant="secondary">Policy: {DUPLICATE_POLICY_LABELS[report.policy]}</Badge>
+          <Badge variant="secondary">{report.duplicateCount.toLocaleString()} duplicates</Badge>
+          <Badge className="bg-yellow-500/20 text-yellow-400 border-yellow-500/30">
+            {report.conflictCount.toLocaleString()} with conflicting values
+          </Badge>
+          {report.replacedRows > 0 && (
+            <Badge className="bg-blue-500/20 text-blue-400 border-blue-500/30">
+              {report.replacedRows.toLocaleString()} replaced by a later version
+            </Badge>
+          )}
+        </div>
+
+        <ScrollArea className="h-64 rounded-md border">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="w-32">Claim ID</TableHead>
+                <TableHead>Kept</TableHead>
+                <TableHead>Dropped</TableHead>
+                <TableHead>Differing Fields</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {report.duplicates.slice(0, MAX_VISIBLE_ROWS).map((duplicate, index) => (
+                <TableRow key={`${duplicate.claimId}-${index}`}>
+                  <TableCell className="font-mono text-xs">{duplicate.claimId}</TableCell>
+                  <TableCell className="text-xs">{duplicate.keptSource}</TableCell>
+                  <TableCell className="text-xs">{duplicate.droppedSource}</TableCell>
+                  <TableCell className="text-xs">
+                    {duplicate.differingFields.length > 0
+                      ? duplicate.differingFields.join(', ')
+                      : <span className="text-muted-foreground">Identical</span>}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </ScrollArea>
+
+        {report.duplicateCount > MAX_VISIBLE_ROWS && (
+          <p className="text-xs text-muted-foreground">
+            Showing the first {MAX_VISIBLE_ROWS} of {report.duplicateCount.toLocaleString()} duplicates
+          </p>
+        )}
+
+        <Button variant="ghost" onClick={onDismiss} className="w-full">
+          Dismiss
+        </Button>
+      </CardContent>
+    </Card>
+  );
+}
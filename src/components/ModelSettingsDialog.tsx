@@ -0,0 +1,274 @@
+import React, { useEffect, useState } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Separator } from '@/components/ui/separator';
+import { Switch } from '@/components/ui/switch';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Cpu, Trash2, WifiOff } from 'lucide-react';
+import { toast } from 'sonner';
+import {
+  MODEL_PROVIDER_LABELS,
+  MODEL_TASK_LABELS,
+  ModelConfig,
+  ModelRegistry,
+  ModelTask,
+  ModelTaskConfig,
+  RemoteProviderKind
+} from '../services/modelRegistry';
+import { LocalModelSettings, ModelEndpoint, ModelProviderKind } from '../services/modelProviders';
+import { InferenceCacheOptions, InferenceCacheStats } from '../services/inferenceCache';
+
+interface ModelSettingsDialogProps {
+  registry: ModelRegistry;
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+export function ModelSettingsDialog({ registry, isOpen, onClose }: ModelSettingsDialogProps) {
+  const [draft, setDraft] = useState<ModelConfig>(registry.configuration);
+  const [cacheStats, setCacheStats] = useState<InferenceCacheStats | null>(null);
+
+  // Start from the live configuration each time the dialog opens
+  useEffect(() => {
+    if (isOpen) {
+      setDraft(registry.configuration);
+      registry.cache.stats().then(setCacheStats);
+    }
+  }, [isOpen, registry]);
+
+  const setEndpoint = (kind: RemoteProviderKind, changes: Partial<ModelEndpoint>) => {
+    setDraft(prev => ({
+      ...prev,
+      endpoints: { ...prev.endpoints, [kind]: { ...prev.endpoints[kind], ...changes } }
+    }));
+  };
+
+  const setLocalModels = (changes: Partial<LocalModelSettings>) => {
+    setDraft(prev => ({ ...prev, localModels: { ...prev.localModels, ...changes } }));
+  };
+
+  const setCache = (changes: Partial<InferenceCacheOptions>) => {
+    setDraft(prev => ({ ...prev, cache: { ...prev.cache, ...changes } }));
+  };
+
+  const handleClearCache = async () => {
+    try {
+      await registry.cache.clear();
+      setCacheStats(await registry.cache.stats());
+      toast.success('Inference cache cleared');
+    } catch (error) {
+      console.error('Failed to clear inference cache:', error);
+      toast.error('Failed to clear the inference cache');
+    }
+  };
+
+  const lookups = cacheStats ? cacheStats.hits + cacheStats.misses : 0;
+
+  const setTask = (task: ModelTask, changes: Partial<ModelTaskConfig>) => {
+    setDraft(prev => ({
+      ...prev,
+      tasks: { ...prev.tasks, [task]: { ...prev.tasks[task], ...changes } }
+    }));
+  };
+
+  const setAllOffline = () => {
+    (Object.keys(draft.tasks) as ModelTask[]).forEach(task => setTask(task, { provider: 'offline' }));
+  };
+
+  const handleSave = () => {
+    registry.configure(draft);
+    ModelRegistry.saveConfig(draft);
+    toast.success('Model configuration saved');
+    onClose();
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center space-x-2">
+            <Cpu className="h-5 w-5" />
+            <span>Model Providers</span>
+          </DialogTitle>
+          <DialogDescription>
+            Choose the provider and model for each task. A task whose provider is unreachable falls back to
+            the offline stub.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-6">
+          <div className="space-y-3">
+            <h3 className="text-sm font-medium">Tasks</h3>
+            {(Object.keys(MODEL_TASK_LABELS) as ModelTask[]).map(task => (
+              <div key={task} className="grid grid-cols-1 sm:grid-cols-[1fr_12rem] gap-2 items-end">
+                <div className="space-y-1">
+                  <Label htmlFor={`model-${task}`}>{MODEL_TASK_LABELS[task]}</Label>
+                  <Input
+                    id={`model-${task}`}
+                    value={draft.tasks[task].model}
+                    placeholder="Model name"
+                    onChange={(e) => setTask(task, { model: e.target.value })}
+                  />
+                </div>
+                <Select
+                  value={draft.tasks[task].provider}
+                  onValueChange={(value) => setTask(task, { provider: value as ModelProviderKind })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(MODEL_PROVIDER_LABELS) as ModelProviderKind[]).map(kind => (
+                      <SelectItem key={kind} value={kind}>{MODEL_PROVIDER_LABELS[kind]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            ))}
+            <Button variant="outline" size="sm" onClick={setAllOffline}>
+              <WifiOff className="h-4 w-4 mr-2" />
+              Run fully offline
+            </Button>
+          </div>
+
+          <Separator />
+
+          {(Object.keys(draft.endpoints) as RemoteProviderKind[]).map(kind => (
+            <div key={kind} className="space-y-3">
+              <h3 className="text-sm font-medium">{MODEL_PROVIDER_LABELS[kind]}</h3>
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                <div className="space-y-1">
+                  <Label htmlFor={`${kind}-url`}>Base URL</Label>
+                  <Input
+                    id={`${kind}-url`}
+                    value={draft.endpoints[kind].baseUrl}
+                    onChange={(e) => setEndpoint(kind, { baseUrl: e.target.value })}
+                  />
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor={`${kind}-key`}>API key</Label>
+                  <Input
+                    id={`${kind}-key`}
+                    type="password"
+                    value={draft.endpoints[kind].apiKey}
+                    placeholder={kind === 'openai' ? 'Optional' : ''}
+                    onChange={(e) => setEndpoint(kind, { apiKey: e.target.value })}
+                  />
+                </div>
+              </div>
+            </div>
+          ))}
+
+          <div className="space-y-3">
+            <h3 className="text-sm font-medium">{MODEL_PROVIDER_LABELS.browser}</h3>
+            <p className="text-xs text-muted-foreground">
+              Runs ONNX models with Transformers.js in a Web Worker, so claim text never leaves this machine.
+              Each model is read from a folder named after it under the model files URL, and the
+              onnxruntime-web .wasm and .mjs files from the runtime files URL.
+            </p>
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+              <div className="space-y-1">
+                <Label htmlFor="browser-models">Model files URL</Label>
+                <Input
+                  id="browser-models"
+                  value={draft.localModels.modelPath}
+                  onChange={(e) => setLocalModels({ modelPath: e.target.value })}
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="browser-wasm">ONNX runtime files URL</Label>
+                <Input
+                  id="browser-wasm"
+                  value={draft.localModels.wasmPath}
+                  onChange={(e) => setLocalModels({ wasmPath: e.target.value })}
+                />
+              </div>
+            </div>
+          </div>
+
+          <Separator />
+
+          <div className="space-y-3">
+            <div className="flex items-center justify-between">
+              <h3 className="text-sm font-medium">Inference cache</h3>
+              <Switch
+                checked={draft.cache.enabled}
+                onCheckedChange={(enabled) => setCache({ enabled })}
+              />
+            </div>
+            <p className="text-xs text-muted-foreground">
+              Model answers are kept in this browser, keyed by model and input, so re-analyzing the same
+              claims does not call the model again.
+            </p>
+            <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+              <div className="space-y-1">
+                <Label htmlFor="cache-ttl">Keep answers for (hours)</Label>
+                <Input
+                  id="cache-ttl"
+                  type="number"
+                  min={1}
+                  value={draft.cache.ttlHours}
+                  onChange={(e) => setCache({ ttlHours: Math.max(1, Number(e.target.value)) })}
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="cache-entries">Maximum answers</Label>
+                <Input
+                  id="cache-entries"
+                  type="number"
+                  min={1}
+                  value={draft.cache.maxEntries}
+                  onChange={(e) => setCache({ maxEntries: Math.max(1, Number(e.target.value)) })}
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="cache-size">Maximum size (MB)</Label>
+                <Input
+                  id="cache-size"
+                  type="number"
+                  min={1}
+                  value={draft.cache.maxMegabytes}
+                  onChange={(e) => setCache({ maxMegabytes: Math.max(1, Number(e.target.value)) })}
+                />
+              </div>
+            </div>
+            {cacheStats && (
+              <div className="flex items-center justify-between text-xs text-muted-foreground">
+                <span>
+                  {cacheStats.entries.toLocaleString()} answers, {(cacheStats.bytes / (1024 * 1024)).toFixed(1)} MB.
+                  This session: {cacheStats.hits.toLocaleString()} hits, {cacheStats.misses.toLocaleString()} misses
+                  {lookups > 0 && ` (${Math.round((cacheStats.hits / lookups) * 100)}% hit rate)`},{' '}
+                  {cacheStats.expired.toLocaleString()} expired, {cacheStats.evicted.toLocaleString()} evicted
+                </span>
+                <Button variant="outline" size="sm" onClick={handleClearCache}>
+                  <Trash2 className="h-4 w-4 mr-2" />
+                  Clear
+                </Button>
+              </div>
+            )}
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="ghost" onClick={onClose}>Cancel</Button>
+          <Button onClick={handleSave}>Save</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,136 @@
+import React from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { ClipboardCheck, Download, XCircle, AlertTriangle } from 'lucide-react';
+import { ValidationReport } from '../types/fraud';
+
+interface ValidationReportPanelProps {
+  report: ValidationReport;
+  onDownloadRejects: () => void;
+  onContinue?: () => void;
+  onCancel?: () => void;
+}
+
+const MAX_VISIBLE_ROWS = 100;
+
+export function ValidationReportPanel({ report, onDownloadRejects, onContinue, onCancel }: ValidationReportPanelProps) {
+  const [view, setView] = React.useState<'rejected' | 'warned'>(
+    report.rejectedCount > 0 ? 'rejected' : 'warned'
+  );
+
+  const rows = view === 'rejected' ? report.rejected : report.warned;
+  const listedCount = view === 'rejected' ? report.rejectedCount : report.warnedCount;
+  // Only multi-file imports tag rows with their file
+  const showSource = rows.some(row => row.sourceFile);
+
+  return (
+    <Card className="card-hover">
+      <CardHeader>
+        <CardTitle className="flex items-center space-x-2">
+          <ClipboardCheck className="h-5 w-5" />
+          <span>Validation Report</span>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-wrap gap-2 text-sm">
+          <Badge variant="secondary">{report.totalRows.toLocaleString()} rows read</Badge>
+          <Badge className="bg-green-500/20 text-green-400 border-green-500/30">
+            {report.acceptedRows.toLocaleString()} accepted
+          </Badge>
+          <Badge className="bg-red-500/20 text-red-400 border-red-500/30">
+            {report.rejectedCount.toLocaleString()} rejected
+          </Badge>
+          <Badge className="bg-yellow-500/20 text-yellow-400 border-yellow-500/30">
+            {report.warnedCount.toLocaleString()} with warnings
+          </Badge>
+        </div>
+
+        <div className="flex gap-2">
+          <Button
+            variant={view === 'rejected' ? 'default' : 'outline'}
+            size="sm"
+            onClick={() => setView('rejected')}
+            disabled={report.rejectedCount === 0}
+          >
+            <XCircle className="h-4 w-4 mr-2" />
+            Rejected
+          </Button>
+          <Button
+            variant={view === 'warned' ? 'default' : 'outline'}
+            size="sm"
+            onClick={() => setView('warned')}
+            disabled={report.warnedCount === 0}
+          >
+            <AlertTriangle className="h-4 w-4 mr-2" />
+            Warnings
+          </Button>
+        </div>
+
+        {rows.length > 0 && (
+          <ScrollArea className="h-64 rounded-md border">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  {showSource && <TableHead className="w-40">File</TableHead>}
+                  <TableHead className="w-20">Row</TableHead>
+                  <TableHead className="w-32">Claim ID</TableHead>
+                  <TableHead>Reasons</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {rows.slice(0, MAX_VISIBLE_ROWS).map(row => (
+                  <TableRow key={`${view}-${row.sourceFile ?? ''}-${row.rowNumber}`}>
+                    {showSource && <TableCell className="text-xs truncate max-w-[10rem]">{row.sourceFile}</TableCell>}
+                    <TableCell className="font-mono text-xs">{row.rowNumber}</TableCell>
+                    <TableCell className="font-mono text-xs">{row.claimId || '—'}</TableCell>
+                    <TableCell className="text-xs">
+                      {row.issues.map(issue => issue.message).join('; ')}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </ScrollArea>
+        )}
+
+        {listedCount > MAX_VISIBLE_ROWS && (
+          <p className="text-xs text-muted-foreground">
+            Showing the first {MAX_VISIBLE_ROWS} of {listedCount.toLocaleString()} rows
+          </p>
+        )}
+
+        <div className="flex flex-col sm:flex-row gap-3">
+          {onContinue && (
+            <Button onClick={onContinue} disabled={report.acceptedRows === 0} className="flex-1">
+              Continue with {report.acceptedRows.toLocaleString()} valid claims
+            </Button>
+          )}
+          <Button
+            variant="outline"
+            onClick={onDownloadRejects}
+            disabled={report.rejectedCount === 0}
+            className="flex-1"
+          >
+            <Download className="h-4 w-4 mr-2" />
+            Download Rejected Rows
+          </Button>
+          {onCancel && (
+            <Button variant="ghost" onClick={onCancel} className="flex-1">
+              {onContinue ? 'Cancel' : 'Dismiss'}
+            </Button>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
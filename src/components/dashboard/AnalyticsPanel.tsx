@@ -4,24 +4,35 @@ import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, PieChart, Pie, Cell } from 'recharts';
 import { TrendingUp, MapPin, Flag, Building } from 'lucide-react';
 import { AnalyzedClaim } from '../../types/fraud';
+import { RiskLevel, ScoreCalibration, isFlagged } from '../../services/scoreCalibration';
 
 interface AnalyticsPanelProps {
   claims: AnalyzedClaim[];
+  calibration: ScoreCalibration;
 }
 
-export function AnalyticsPanel({ claims }: AnalyticsPanelProps) {
+// Text and bar colors for an employer's average risk, by the band it falls in
+const EMPLOYER_RISK_COLORS: Record<RiskLevel, { text: string; bar: string }> = {
+  CRITICAL: { text: 'text-red-400', bar: 'bg-red-500' },
+  HIGH: { text: 'text-red-400', bar: 'bg-red-500' },
+  MEDIUM: { text: 'text-orange-400', bar: 'bg-orange-500' },
+  LOW: { text: 'text-yellow-400', bar: 'bg-yellow-500' }
+};
+
+export function AnalyticsPanel({ claims, calibration }: AnalyticsPanelProps) {
   // Process data for analytics
   const timeSeriesData = React.useMemo(() => {
     const dateGroups: Record<string, { claims: number; total_risk: number; flagged: number }> = {};
     
     claims.forEach(claim => {
-      const date = new Date(claim.Claim_Date).toISOString().split('T')[0];
+      // Claim_Date is normalized to ISO at ingest
+      const date = claim.Claim_Date.slice(0, 10);
       if (!dateGroups[date]) {
         dateGroups[date] = { claims: 0, total_risk: 0, flagged: 0 };
       }
       dateGroups[date].claims += 1;
       dateGroups[date].total_risk += claim.analysis.fraud_score;
-      if (claim.analysis.fraud_score > 0.5) {
+      if (isFlagged(claim.analysis)) {
         dateGroups[date].flagged += 1;
       }
     });
@@ -72,12 +83,13 @@ export function AnalyticsPanel({ claims }: AnalyticsPanelProps) {
       .map(([employer, stats]) => ({
         employer: employer.length > 20 ? employer.substring(0, 20) + '...' : employer,
         avg_risk: (stats.risk_total / stats.count) * 100,
+        colors: EMPLOYER_RISK_COLORS[calibration.levelForProbability(stats.risk_total / stats.count)],
         claim_count: stats.count,
         total_amount: stats.amount_total
       }))
       .sort((a, b) => b.avg_risk - a.avg_risk)
       .slice(0, 5);
-  }, [claims]);
+  }, [claims, calibration]);
 
   const riskDistributionPieData = React.useMemo(() => {
     const distribution = { Low: 0, Medium: 0, High: 0, Severe: 0 };
@@ -228,10 +240,7 @@ export function AnalyticsPanel({ claims }: AnalyticsPanelProps) {
               <div key={index} className="border rounded-lg p-3">
                 <div className="flex items-center justify-between mb-2">
                   <p className="font-medium">{employer.employer}</p>
-                  <span className={`text-sm font-bold ${
-                    employer.avg_risk > 70 ? 'text-red-400' :
-                    employer.avg_risk > 50 ? 'text-orange-400' : 'text-yellow-400'
-                  }`}>
+                  <span className={`text-sm font-bold ${employer.colors.text}`}>
                     {employer.avg_risk.toFixed(1)}%
                   </span>
                 </div>
@@ -241,10 +250,7 @@ export function AnalyticsPanel({ claims }: AnalyticsPanelProps) {
                 </div>
                 <div className="w-full bg-muted rounded-full h-1.5 mt-2">
                   <div 
-                    className={`h-1.5 rounded-full transition-all ${
-                      employer.avg_risk > 70 ? 'bg-red-500' :
-                      employer.avg_risk > 50 ? 'bg-orange-500' : 'bg-yellow-500'
-                    }`}
+                    className={`h-1.5 rounded-full transition-all ${employer.colors.bar}`}
                     style={{ width: `${employer.avg_risk}%` }}
                   />
                 </div>
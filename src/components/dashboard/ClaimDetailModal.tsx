@@ -9,6 +9,7 @@ import {
 import { Badge } from '@/components/ui/badge';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Separator } from '@/components/ui/separator';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { 
   User, 
   Phone, 
@@ -19,17 +20,36 @@ import {
   Shield,
   AlertTriangle,
   Clock,
-  Monitor
+  Monitor,
+  FileText,
+  Network
 } from 'lucide-react';
-import { AnalyzedClaim } from '../../types/fraud';
+import { AnalyzedClaim, NormalizedField } from '../../types/fraud';
+import { ResultProvenance } from '../../types/enterprise';
+import { AddressParser } from '../../services/addressParser';
+import { ScoreWaterfallChart } from './ScoreWaterfallChart';
+import { ClaimNetworkGraph } from './ClaimNetworkGraph';
+import { ENSEMBLE_ENGINE_LABELS } from '../../services/scoringEnsemble';
+import { IdentityGraph } from '../../services/identityGraph';
 
 interface ClaimDetailModalProps {
   claim: AnalyzedClaim;
   isOpen: boolean;
   onClose: () => void;
+  graph: IdentityGraph;
+  // Analyzed claims by Claim_ID, for the network tab
+  claims: Map<string, AnalyzedClaim>;
+  onSelectClaim: (claimId: string) => void;
 }
 
-export function ClaimDetailModal({ claim, isOpen, onClose }: ClaimDetailModalProps) {
+// The value as it appeared in the upload, when normalization changed it
+function SubmittedValue({ claim, field }: { claim: AnalyzedClaim; field: NormalizedField }) {
+  const original = claim.Original_Values?.[field];
+  if (original === undefined) return null;
+  return <p className="text-xs text-muted-foreground">As submitted: {original}</p>;
+}
+
+export function ClaimDetailModal({ claim, isOpen, onClose, graph, claims, onSelectClaim }: ClaimDetailModalProps) {
   const getRiskBadgeColor = (label: string) => {
     switch (label.toLowerCase()) {
       case 'low': return 'bg-green-500/20 text-green-400 border-green-500/30';
@@ -40,6 +60,15 @@ export function ClaimDetailModal({ claim, isOpen, onClose }: ClaimDetailModalPro
     }
   };
 
+  const getRiskBarColor = (label: string) => {
+    switch (label.toLowerCase()) {
+      case 'severe': return 'bg-red-500';
+      case 'high': return 'bg-orange-500';
+      case 'medium': return 'bg-yellow-500';
+      default: return 'bg-green-500';
+    }
+  };
+
   const getRecommendationColor = (recommendation: string) => {
     if (recommendation.includes('DENY')) return 'text-red-400';
     if (recommendation.includes('HOLD')) return 'text-orange-400';
@@ -48,6 +77,15 @@ export function ClaimDetailModal({ claim, isOpen, onClose }: ClaimDetailModalPro
     return 'text-green-400';
   };
 
+  const getSourceBadgeColor = (source: ResultProvenance['source']) => {
+    switch (source) {
+      case 'FALLBACK': return 'bg-orange-500/20 text-orange-400 border-orange-500/30';
+      case 'STUB': return 'bg-yellow-500/20 text-yellow-400 border-yellow-500/30';
+      case 'RULES': return 'bg-blue-500/20 text-blue-400 border-blue-500/30';
+      default: return 'bg-green-500/20 text-green-400 border-green-500/30';
+    }
+  };
+
   return (
     <Dialog open={isOpen} onOpenChange={onClose}>
       <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
@@ -57,265 +95,399 @@ export function ClaimDetailModal({ claim, isOpen, onClose }: ClaimDetailModalPro
             <Badge className={getRiskBadgeColor(claim.analysis.fraud_label)}>
               {claim.analysis.fraud_label} Risk
             </Badge>
+            {claim.analysis.degraded && (
+              <Badge variant="outline" className="border-orange-500/50 text-orange-500">
+                Degraded Mode
+              </Badge>
+            )}
           </DialogTitle>
         </DialogHeader>
 
-        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
-          {/* Claimant Information */}
-          <Card>
-            <CardHeader>
-              <CardTitle className="flex items-center space-x-2">
-                <User className="h-5 w-5" />
-                <span>Claimant Information</span>
-              </CardTitle>
-            </CardHeader>
-            <CardContent className="space-y-4">
-              <div className="grid grid-cols-2 gap-4">
-                <div>
-                  <p className="text-sm text-muted-foreground">Full Name</p>
-                  <p className="font-medium">{claim.Name}</p>
-                </div>
-                <div>
-                  <p className="text-sm text-muted-foreground">Claimant ID</p>
-                  <p className="font-medium">{claim.Claimant_ID}</p>
-                </div>
-                <div>
-                  <p className="text-sm text-muted-foreground">Date of Birth</p>
-                  <p className="font-medium">{claim.DOB}</p>
-                </div>
-                <div>
-                  <p className="text-sm text-muted-foreground">SSN Hash</p>
-                  <p className="font-medium font-mono text-sm">{claim.SSN_Hash}</p>
-                </div>
-              </div>
+        <Tabs defaultValue="details" className="space-y-4">
+          <TabsList>
+            <TabsTrigger value="details" className="flex items-center space-x-2">
+              <FileText className="h-4 w-4" />
+              <span>Details</span>
+            </TabsTrigger>
+            <TabsTrigger value="network" className="flex items-center space-x-2">
+              <Network className="h-4 w-4" />
+              <span>Network</span>
+            </TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="details">
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+              {/* Claimant Information */}
+              <Card>
+                <CardHeader>
+                  <CardTitle className="flex items-center space-x-2">
+                    <User className="h-5 w-5" />
+                    <span>Claimant Information</span>
+                  </CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  <div className="grid grid-cols-2 gap-4">
+                    <div>
+                      <p className="text-sm text-muted-foreground">Full Name</p>
+                      <p className="font-medium">{claim.Name}</p>
+                      <SubmittedValue claim={claim} field="Name" />
+                    </div>
+                    <div>
+                      <p className="text-sm text-muted-foreground">Claimant ID</p>
+                      <p className="font-medium">{claim.Claimant_ID}</p>
+                    </div>
+                    <div>
+                      <p className="text-sm text-muted-foreground">Date of Birth</p>
+                      <p className="font-medium">{claim.DOB}</p>
+                      <SubmittedValue claim={claim} field="DOB" />
+                    </div>
+                    <div>
+                      <p className="text-sm text-muted-foreground">SSN Hash</p>
+                      <p className="font-medium font-mono text-sm">{claim.SSN_Hash}</p>
+                    </div>
+                  </div>
+              
+                  <Separator />
+              
+                  <div className="space-y-3">
+                    <div className="flex items-center space-x-3">
+                      <Mail className="h-4 w-4 text-muted-foreground" />
+                      <span>{claim.Email}</span>
+                    </div>
+                    <SubmittedValue claim={claim} field="Email" />
+                    <div className="flex items-center space-x-3">
+                      <Phone className="h-4 w-4 text-muted-foreground" />
+                      <span>{claim.Phone}</span>
+                    </div>
+                    <SubmittedValue claim={claim} field="Phone" />
+                    <div className="flex items-center space-x-3">
+                      <Monitor className="h-4 w-4 text-muted-foreground" />
+                      <span className="font-mono text-sm">{claim.IP_Address}</span>
+                    </div>
+                    <div className="flex items-center space-x-3">
+                      <Shield className="h-4 w-4 text-muted-foreground" />
+                      <span className="font-mono text-sm">{claim.Device_ID}</span>
+                    </div>
+                  </div>
+
+                  {claim.Address_History && claim.Address_History.length > 0 && (
+                    <>
+                      <Separator />
+                      <div>
+                        <p className="text-sm text-muted-foreground mb-2">Address History</p>
+                        <ul className="space-y-1 text-sm">
+                          {claim.Address_History.map((address, index) => (
+                            <li key={index} className="flex items-center justify-between">
+                              <span>{AddressParser.format(address)}</span>
+                              {index === 0 && <Badge variant="secondary" className="text-xs">Current</Badge>}
+                            </li>
+                          ))}
+                        </ul>
+                      </div>
+                    </>
+                  )}
               
-              <Separator />
+                  {/* Enterprise Identity Verification */}
+                  {claim.Identity_Verification_Status && (
+                    <>
+                      <Separator />
+                      <div>
+                        <p className="text-sm text-muted-foreground mb-2">Identity Verification</p>
+                        <div className="space-y-2">
+                          <div className="flex justify-between">
+                            <span className="text-sm">Status:</span>
+                            <Badge variant={claim.Identity_Verification_Status === 'VERIFIED' ? 'default' : 'destructive'}>
+                              {claim.Identity_Verification_Status}
+                            </Badge>
+                          </div>
+                          {claim.Identity_Score !== undefined && (
+                            <div className="flex justify-between">
+                              <span className="text-sm">Identity Score:</span>
+                              <span className="text-sm font-medium">{claim.Identity_Score}%</span>
+                            </div>
+                          )}
+                          {claim.Document_Types_Provided && (
+                            <div className="flex justify-between gap-4">
+                              <span className="text-sm">Documents:</span>
+                              <div className="flex flex-wrap justify-end gap-1">
+                                {claim.Document_Types_Provided.length > 0
+                                  ? claim.Document_Types_Provided.map(document => (
+                                      <Badge key={document} variant="outline" className="text-xs">
+                                        {document.replace(/_/g, ' ')}
+                                      </Badge>
+                                    ))
+                                  : <span className="text-sm text-muted-foreground">None</span>}
+                              </div>
+                            </div>
+                          )}
+                        </div>
+                      </div>
+                    </>
+                  )}
+                </CardContent>
+              </Card>
+
+              {/* Employment & Claim Details */}
+              <Card>
+                <CardHeader>
+                  <CardTitle className="flex items-center space-x-2">
+                    <Building className="h-5 w-5" />
+                    <span>Employment & Claim Details</span>
+                  </CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  <div className="grid grid-cols-1 gap-4">
+                    <div>
+                      <p className="text-sm text-muted-foreground">Employer</p>
+                      <p className="font-medium">{claim.Employer_Name}</p>
+                    </div>
+                    <div>
+                      <p className="text-sm text-muted-foreground">Employment Status</p>
+                      <p className="font-medium">{claim.Employment_Status}</p>
+                    </div>
+                    {claim.Previous_Employers && claim.Previous_Employers.length > 0 && (
+                      <div>
+                        <p className="text-sm text-muted-foreground">Previous Employers</p>
+                        <p className="font-medium">{claim.Previous_Employers.join(', ')}</p>
+                      </div>
+                    )}
+                    <div className="grid grid-cols-2 gap-4">
+                      <div>
+                        <p className="text-sm text-muted-foreground">Weekly Wage</p>
+                        <p className="font-medium">${parseFloat(claim.Wage_Reported).toLocaleString()}</p>
+                        <SubmittedValue claim={claim} field="Wage_Reported" />
+                      </div>
+                      <div>
+                        <p className="text-sm text-muted-foreground">Claim Amount</p>
+                        <p className="font-medium">${parseFloat(claim.Claim_Amount).toLocaleString()}</p>
+                        <SubmittedValue claim={claim} field="Claim_Amount" />
+                      </div>
+                    </div>
+                    <div>
+                      <p className="text-sm text-muted-foreground">Claim Date</p>
+                      <div className="flex items-center space-x-2">
+                        <Calendar className="h-4 w-4 text-muted-foreground" />
+                        <span>{claim.Claim_Date}</span>
+                      </div>
+                      <SubmittedValue claim={claim} field="Claim_Date" />
+                    </div>
+                  </div>
               
-              <div className="space-y-3">
-                <div className="flex items-center space-x-3">
-                  <Mail className="h-4 w-4 text-muted-foreground" />
-                  <span>{claim.Email}</span>
-                </div>
-                <div className="flex items-center space-x-3">
-                  <Phone className="h-4 w-4 text-muted-foreground" />
-                  <span>{claim.Phone}</span>
-                </div>
-                <div className="flex items-center space-x-3">
-                  <Monitor className="h-4 w-4 text-muted-foreground" />
-                  <span className="font-mono text-sm">{claim.IP_Address}</span>
-                </div>
-                <div className="flex items-center space-x-3">
-                  <Shield className="h-4 w-4 text-muted-foreground" />
-                  <span className="font-mono text-sm">{claim.Device_ID}</span>
-                </div>
-              </div>
+                  {claim.Justification_Text && (
+                    <>
+                      <Separator />
+                      <div>
+                        <p className="text-sm text-muted-foreground mb-2">Justification</p>
+                        <p className="text-sm bg-muted p-3 rounded-lg">
+                          {claim.Justification_Text}
+                        </p>
+                      </div>
+                    </>
+                  )}
               
-              {/* Enterprise Identity Verification */}
-              {(claim as any).Identity_Verification_Status && (
-                <>
+                  {/* Enterprise Employment Data */}
                   <Separator />
                   <div>
-                    <p className="text-sm text-muted-foreground mb-2">Identity Verification</p>
-                    <div className="space-y-2">
-                      <div className="flex justify-between">
-                        <span className="text-sm">Status:</span>
-                        <Badge variant={(claim as any).Identity_Verification_Status === 'VERIFIED' ? 'default' : 'destructive'}>
-                          {(claim as any).Identity_Verification_Status}
-                        </Badge>
-                      </div>
-                      {(claim as any).Identity_Score && (
+                    <p className="text-sm text-muted-foreground mb-2">Enterprise Risk Indicators</p>
+                    <div className="grid grid-cols-2 gap-4 text-sm">
+                      {claim.Employer_Risk_Score !== undefined && (
+                        <div className="flex justify-between">
+                          <span>Employer Risk:</span>
+                          <Badge variant={claim.Employer_Risk_Score > 70 ? 'destructive' : 'secondary'}>
+                            {claim.Employer_Risk_Score}%
+                          </Badge>
+                        </div>
+                      )}
+                      {claim.Geographic_Risk_Score !== undefined && (
+                        <div className="flex justify-between">
+                          <span>Geographic Risk:</span>
+                          <Badge variant={claim.Geographic_Risk_Score > 70 ? 'destructive' : 'secondary'}>
+                            {claim.Geographic_Risk_Score}%
+                          </Badge>
+                        </div>
+                      )}
+                      {claim.Employment_History_Verified !== undefined && (
                         <div className="flex justify-between">
-                          <span className="text-sm">Identity Score:</span>
-                          <span className="text-sm font-medium">{(claim as any).Identity_Score}%</span>
+                          <span>Employment Verified:</span>
+                          <Badge variant={claim.Employment_History_Verified ? 'default' : 'destructive'}>
+                            {claim.Employment_History_Verified ? 'YES' : 'NO'}
+                          </Badge>
                         </div>
                       )}
-                      {(claim as any).Document_Types_Provided && (
+                      {claim.Address_Verification_Status && (
                         <div className="flex justify-between">
-                          <span className="text-sm">Documents:</span>
-                          <span className="text-sm">{(claim as any).Document_Types_Provided}</span>
+                          <span>Address Status:</span>
+                          <Badge variant={claim.Address_Verification_Status === 'VERIFIED' ? 'default' : 'destructive'}>
+                            {claim.Address_Verification_Status}
+                          </Badge>
                         </div>
                       )}
                     </div>
                   </div>
-                </>
-              )}
-            </CardContent>
-          </Card>
+                </CardContent>
+              </Card>
 
-          {/* Employment & Claim Details */}
-          <Card>
-            <CardHeader>
-              <CardTitle className="flex items-center space-x-2">
-                <Building className="h-5 w-5" />
-                <span>Employment & Claim Details</span>
-              </CardTitle>
-            </CardHeader>
-            <CardContent className="space-y-4">
-              <div className="grid grid-cols-1 gap-4">
-                <div>
-                  <p className="text-sm text-muted-foreground">Employer</p>
-                  <p className="font-medium">{claim.Employer_Name}</p>
-                </div>
-                <div>
-                  <p className="text-sm text-muted-foreground">Employment Status</p>
-                  <p className="font-medium">{claim.Employment_Status}</p>
-                </div>
-                <div className="grid grid-cols-2 gap-4">
-                  <div>
-                    <p className="text-sm text-muted-foreground">Weekly Wage</p>
-                    <p className="font-medium">${parseFloat(claim.Wage_Reported).toLocaleString()}</p>
-                  </div>
-                  <div>
-                    <p className="text-sm text-muted-foreground">Claim Amount</p>
-                    <p className="font-medium">${parseFloat(claim.Claim_Amount).toLocaleString()}</p>
-                  </div>
-                </div>
-                <div>
-                  <p className="text-sm text-muted-foreground">Claim Date</p>
-                  <div className="flex items-center space-x-2">
-                    <Calendar className="h-4 w-4 text-muted-foreground" />
-                    <span>{claim.Claim_Date}</span>
-                  </div>
-                </div>
-              </div>
-              
-              {claim.Justification_Text && (
-                <>
-                  <Separator />
+              {/* Fraud Analysis */}
+              <Card className="lg:col-span-2">
+                <CardHeader>
+                  <CardTitle className="flex items-center space-x-2">
+                    <AlertTriangle className="h-5 w-5" />
+                    <span>Fraud Analysis</span>
+                  </CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-6">
+                  {/* Risk Score */}
                   <div>
-                    <p className="text-sm text-muted-foreground mb-2">Justification</p>
-                    <p className="text-sm bg-muted p-3 rounded-lg">
-                      {claim.Justification_Text}
-                    </p>
-                  </div>
-                </>
-              )}
-              
-              {/* Enterprise Employment Data */}
-              <Separator />
-              <div>
-                <p className="text-sm text-muted-foreground mb-2">Enterprise Risk Indicators</p>
-                <div className="grid grid-cols-2 gap-4 text-sm">
-                  {(claim as any).Employer_Risk_Score && (
-                    <div className="flex justify-between">
-                      <span>Employer Risk:</span>
-                      <Badge variant={parseFloat((claim as any).Employer_Risk_Score) > 70 ? 'destructive' : 'secondary'}>
-                        {(claim as any).Employer_Risk_Score}%
-                      </Badge>
+                    <div className="flex items-center justify-between mb-3">
+                      <span className="text-sm font-medium">Risk Score</span>
+                      <span className="text-lg font-bold">
+                        {(claim.analysis.fraud_score * 100).toFixed(1)}%
+                      </span>
                     </div>
-                  )}
-                  {(claim as any).Geographic_Risk_Score && (
-                    <div className="flex justify-between">
-                      <span>Geographic Risk:</span>
-                      <Badge variant={parseFloat((claim as any).Geographic_Risk_Score) > 70 ? 'destructive' : 'secondary'}>
-                        {(claim as any).Geographic_Risk_Score}%
-                      </Badge>
+                    <div className="w-full bg-muted rounded-full h-3">
+                      <div 
+                        className={`h-3 rounded-full transition-all ${getRiskBarColor(claim.analysis.fraud_label)}`}
+                        style={{ width: `${claim.analysis.fraud_score * 100}%` }}
+                      />
                     </div>
-                  )}
-                  {(claim as any).Employment_History_Verified && (
-                    <div className="flex justify-between">
-                      <span>Employment Verified:</span>
-                      <Badge variant={(claim as any).Employment_History_Verified === 'YES' ? 'default' : 'destructive'}>
-                        {(claim as any).Employment_History_Verified}
-                      </Badge>
+                  </div>
+
+                  {/* Engine Breakdown */}
+                  {claim.analysis.engine_scores?.length > 0 && (
+                    <div>
+                      <p className="text-sm font-medium mb-3">Scoring Engines</p>
+                      <div className="space-y-3">
+                        {claim.analysis.engine_scores.map(part => (
+                          <div key={part.engine}>
+                            <div className="flex items-center justify-between text-sm mb-1">
+                              <span>{ENSEMBLE_ENGINE_LABELS[part.engine]}</span>
+                              <span className="text-muted-foreground">
+                                {part.score} × {part.weight} = <span className="font-medium text-foreground">+{part.points}</span>
+                              </span>
+                            </div>
+                            <div className="w-full bg-muted rounded-full h-2">
+                              <div
+                                className="h-2 rounded-full bg-primary transition-all"
+                                style={{ width: `${Math.min(100, part.score / 10)}%` }}
+                              />
+                            </div>
+                          </div>
+                        ))}
+                      </div>
                     </div>
                   )}
-                  {(claim as any).Address_Verification_Status && (
-                    <div className="flex justify-between">
-                      <span>Address Status:</span>
-                      <Badge variant={(claim as any).Address_Verification_Status === 'VERIFIED' ? 'default' : 'destructive'}>
-                        {(claim as any).Address_Verification_Status}
-                      </Badge>
+
+                  {/* Score Breakdown */}
+                  {claim.analysis.contributions && (
+                    <div>
+                      <div className="flex items-center justify-between mb-3">
+                        <span className="text-sm font-medium">Score Breakdown</span>
+                        <span className="text-sm text-muted-foreground">{claim.analysis.risk_points} points</span>
+                      </div>
+                      <ScoreWaterfallChart contributions={claim.analysis.contributions} score={claim.analysis.risk_points} />
+                      <div className="space-y-2 mt-3">
+                        {claim.analysis.contributions.map(contribution => (
+                          <div key={contribution.contributionId} className="flex items-start justify-between gap-4 text-sm">
+                            <div>
+                              <p>{contribution.label}</p>
+                              <p className="text-xs text-muted-foreground">
+                                {contribution.evidence.map(item => `${item.name}: ${item.value}`).join(' · ')}
+                              </p>
+                            </div>
+                            <span className="font-medium whitespace-nowrap">
+                              {contribution.points >= 0 ? '+' : ''}{contribution.points}
+                            </span>
+                          </div>
+                        ))}
+                        {claim.analysis.contributions.length === 0 && (
+                          <p className="text-sm text-muted-foreground">No rule, model or match added risk points</p>
+                        )}
+                      </div>
                     </div>
                   )}
-                </div>
-              </div>
-            </CardContent>
-          </Card>
 
-          {/* Fraud Analysis */}
-          <Card className="lg:col-span-2">
-            <CardHeader>
-              <CardTitle className="flex items-center space-x-2">
-                <AlertTriangle className="h-5 w-5" />
-                <span>Fraud Analysis</span>
-              </CardTitle>
-            </CardHeader>
-            <CardContent className="space-y-6">
-              {/* Risk Score */}
-              <div>
-                <div className="flex items-center justify-between mb-3">
-                  <span className="text-sm font-medium">Risk Score</span>
-                  <span className="text-lg font-bold">
-                    {(claim.analysis.fraud_score * 100).toFixed(1)}%
-                  </span>
-                </div>
-                <div className="w-full bg-muted rounded-full h-3">
-                  <div 
-                    className={`h-3 rounded-full transition-all ${
-                      claim.analysis.fraud_score > 0.7 ? 'bg-red-500' :
-                      claim.analysis.fraud_score > 0.5 ? 'bg-orange-500' :
-                      claim.analysis.fraud_score > 0.3 ? 'bg-yellow-500' : 'bg-green-500'
-                    }`}
-                    style={{ width: `${claim.analysis.fraud_score * 100}%` }}
-                  />
-                </div>
-              </div>
-
-              {/* Flags */}
-              <div>
-                <p className="text-sm font-medium mb-3">Fraud Flags ({claim.analysis.flags.length})</p>
-                <div className="flex flex-wrap gap-2">
-                  {claim.analysis.flags.map((flag, index) => (
-                    <Badge key={index} variant="outline" className="border-orange-500/30 text-orange-400">
-                      {flag}
-                    </Badge>
-                  ))}
-                  {claim.analysis.flags.length === 0 && (
-                    <p className="text-sm text-muted-foreground">No flags detected</p>
-                  )}
-                </div>
-              </div>
+                  {/* Flags */}
+                  <div>
+                    <p className="text-sm font-medium mb-3">Fraud Flags ({claim.analysis.flags.length})</p>
+                    <div className="flex flex-wrap gap-2">
+                      {claim.analysis.flags.map((flag, index) => (
+                        <Badge key={index} variant="outline" className="border-orange-500/30 text-orange-400">
+                          {flag}
+                        </Badge>
+                      ))}
+                      {claim.analysis.flags.length === 0 && (
+                        <p className="text-sm text-muted-foreground">No flags detected</p>
+                      )}
+                    </div>
+                  </div>
 
-              <Separator />
+                  <Separator />
 
-              {/* AI Explanation */}
-              <div>
-                <p className="text-sm font-medium mb-3">AI Analysis Explanation</p>
-                <div className="bg-muted/50 p-4 rounded-lg">
-                  <p className="text-sm leading-relaxed">{claim.analysis.explanation}</p>
-                </div>
-              </div>
+                  {/* AI Explanation */}
+                  <div>
+                    <p className="text-sm font-medium mb-3">AI Analysis Explanation</p>
+                    <div className="bg-muted/50 p-4 rounded-lg">
+                      <p className="text-sm leading-relaxed">{claim.analysis.explanation}</p>
+                    </div>
+                  </div>
 
-              {/* Recommendation */}
-              <div>
-                <p className="text-sm font-medium mb-3">Recommended Action</p>
-                <div className="bg-muted/50 p-4 rounded-lg">
-                  <p className={`text-sm font-medium ${getRecommendationColor(claim.analysis.recommendation)}`}>
-                    {claim.analysis.recommendation}
-                  </p>
-                </div>
-              </div>
+                  {/* Recommendation */}
+                  <div>
+                    <p className="text-sm font-medium mb-3">Recommended Action</p>
+                    <div className="bg-muted/50 p-4 rounded-lg">
+                      <p className={`text-sm font-medium ${getRecommendationColor(claim.analysis.recommendation)}`}>
+                        {claim.analysis.recommendation}
+                      </p>
+                    </div>
+                  </div>
 
-              {/* Analysis Metadata */}
-              <div className="grid grid-cols-2 gap-4 pt-4 border-t border-border">
-                <div>
-                  <p className="text-sm text-muted-foreground">Confidence Level</p>
-                  <p className="font-medium">{(claim.analysis.confidence * 100).toFixed(1)}%</p>
-                </div>
-                <div>
-                  <p className="text-sm text-muted-foreground">Analyzed At</p>
-                  <div className="flex items-center space-x-2">
-                    <Clock className="h-4 w-4 text-muted-foreground" />
-                    <span className="text-sm">
-                      {new Date(claim.analysis.analyzed_at).toLocaleString()}
-                    </span>
+                  {/* Analysis Metadata */}
+                  <div className="grid grid-cols-2 gap-4 pt-4 border-t border-border">
+                    <div>
+                      <p className="text-sm text-muted-foreground">Confidence Level</p>
+                      <p className="font-medium">{(claim.analysis.confidence * 100).toFixed(1)}%</p>
+                    </div>
+                    <div>
+                      <p className="text-sm text-muted-foreground">Analyzed At</p>
+                      <div className="flex items-center space-x-2">
+                        <Clock className="h-4 w-4 text-muted-foreground" />
+                        <span className="text-sm">
+                          {new Date(claim.analysis.analyzed_at).toLocaleString()}
+                        </span>
+                      </div>
+                    </div>
                   </div>
-                </div>
-              </div>
-            </CardContent>
-          </Card>
-        </div>
+
+                  {/* Provenance */}
+                  {claim.analysis.provenance?.length > 0 && (
+                    <div>
+                      <p className="text-sm font-medium mb-3">Score Sources</p>
+                      <div className="space-y-2">
+                        {claim.analysis.provenance.map((part, index) => (
+                          <div key={index} className="flex items-start justify-between gap-4 text-sm">
+                            <div>
+                              <p>{part.component}</p>
+                              <p className="text-xs text-muted-foreground">
+                                {part.provider ? `${part.provider} · ` : ''}{part.model}
+                                {part.attempts && part.attempts > 1 ? ` · ${part.attempts} attempts` : ''}
+                              </p>
+                              {part.error && <p className="text-xs text-orange-400">{part.error}</p>}
+                            </div>
+                            <Badge className={getSourceBadgeColor(part.source)}>{part.source}</Badge>
+                          </div>
+                        ))}
+                      </div>
+                    </div>
+                  )}
+                </CardContent>
+              </Card>
+            </div>
+          </TabsContent>
+
+          <TabsContent value="network">
+            <ClaimNetworkGraph claimId={claim.Claim_ID} graph={graph} claims={claims} onSelectClaim={onSelectClaim} />
+          </TabsContent>
+        </Tabs>
       </DialogContent>
     </Dialog>
   );
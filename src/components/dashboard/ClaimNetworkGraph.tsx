@@ -0,0 +1,188 @@
+import React, { useMemo, useState } from 'react';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import { AnalyzedClaim } from '../../types/fraud';
+import { IdentityNodeType } from '../../types/enterprise';
+import { IdentityGraph, IDENTITY_NODE_LABELS, MIN_LINK_WEIGHT } from '../../services/identityGraph';
+import { forceLayout } from '@/lib/forceLayout';
+
+interface ClaimNetworkGraphProps {
+  claimId: string;
+  graph: IdentityGraph;
+  // Analyzed claims by Claim_ID, for risk bands and click-through
+  claims: Map<string, AnalyzedClaim>;
+  onSelectClaim: (claimId: string) => void;
+}
+
+const WIDTH = 720;
+const HEIGHT = 420;
+// Beyond this the drawing is unreadable; the nearest nodes are kept
+const MAX_NODES = 150;
+
+// Attribute types that can link claims, in the order the filter lists them
+const EDGE_TYPES: IdentityNodeType[] = ['IP_ADDRESS', 'DEVICE', 'PHONE', 'ADDRESS', 'EMAIL', 'SSN', 'CLAIMANT', 'EMPLOYER'];
+// Employers link whole workforces, so they start hidden
+const DEFAULT_EDGE_TYPES = EDGE_TYPES.filter(type => type !== 'EMPLOYER');
+
+const EDGE_COLORS: Partial<Record<IdentityNodeType, string>> = {
+  IP_ADDRESS: 'stroke-sky-400',
+  DEVICE: 'stroke-violet-400',
+  PHONE: 'stroke-emerald-400',
+  ADDRESS: 'stroke-amber-400',
+  EMAIL: 'stroke-pink-400',
+  SSN: 'stroke-red-400',
+  CLAIMANT: 'stroke-slate-300',
+  EMPLOYER: 'stroke-slate-500'
+};
+
+const getRiskFill = (claim?: AnalyzedClaim) => {
+  switch (claim?.analysis.fraud_label.toLowerCase()) {
+    case 'severe': return 'fill-red-500';
+    case 'high': return 'fill-orange-500';
+    case 'medium': return 'fill-yellow-500';
+    case 'low': return 'fill-green-500';
+    default: return 'fill-slate-500';
+  }
+};
+
+const RISK_LEGEND = [
+  { label: 'Low', fill: 'bg-green-500' },
+  { label: 'Medium', fill: 'bg-yellow-500' },
+  { label: 'High', fill: 'bg-orange-500' },
+  { label: 'Severe', fill: 'bg-red-500' },
+  { label: 'Earlier session', fill: 'bg-slate-500' }
+];
+
+export function ClaimNetworkGraph({ claimId, graph, claims, onSelectClaim }: ClaimNetworkGraphProps) {
+  // Claim to claim hops; each is two graph hops, through a shared attribute
+  const [hops, setHops] = useState('1');
+  const [edgeTypes, setEdgeTypes] = useState<string[]>(DEFAULT_EDGE_TYPES);
+
+  const network = useMemo(() => {
+    const subgraph = graph.neighborhood(claimId, {
+      hops: Number(hops) * 2,
+      minWeight: MIN_LINK_WEIGHT,
+      types: edgeTypes as IdentityNodeType[]
+    });
+    const nodes = subgraph.nodes.slice(0, MAX_NODES);
+    const nodeIds = new Set(nodes.map(node => node.nodeId));
+    const edges = subgraph.edges.filter(edge => nodeIds.has(edge.claimNodeId) && nodeIds.has(edge.attributeNodeId));
+    const positions = forceLayout(
+      nodes.map(node => node.nodeId),
+      edges.map(edge => ({ source: edge.claimNodeId, target: edge.attributeNodeId, weight: edge.weight })),
+      { width: WIDTH, height: HEIGHT, centerId: subgraph.rootId }
+    );
+    return { rootId: subgraph.rootId, nodes, edges, positions, totalNodes: subgraph.nodes.length };
+  }, [graph, claimId, hops, edgeTypes]);
+
+  const nodeTypes = new Map(network.nodes.map(node => [node.nodeId, node.nodeType]));
+  const linkedClaims = network.nodes.filter(node => node.nodeType === 'CLAIM' && node.nodeId !== network.rootId);
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-col lg:flex-row gap-4 justify-between">
+        <div className="flex items-center gap-2 text-sm">
+          <span className="text-muted-foreground">Hops</span>
+          <ToggleGroup type="single" size="sm" variant="outline" value={hops} onValueChange={value => value && setHops(value)}>
+            {['1', '2', '3'].map(value => (
+              <ToggleGroupItem key={value} value={value}>{value}</ToggleGroupItem>
+            ))}
+          </ToggleGroup>
+        </div>
+        <ToggleGroup type="multiple" size="sm" variant="outline" value={edgeTypes} onValueChange={setEdgeTypes} className="flex-wrap justify-start">
+          {EDGE_TYPES.map(type => (
+            <ToggleGroupItem key={type} value={type} className="capitalize">
+              {IDENTITY_NODE_LABELS[type]}
+            </ToggleGroupItem>
+          ))}
+        </ToggleGroup>
+      </div>
+
+      <div className="rounded-md border bg-muted/20">
+        <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-auto">
+          {network.edges.map(edge => {
+            const from = network.positions.get(edge.claimNodeId);
+            const to = network.positions.get(edge.attributeNodeId);
+            if (!from || !to) return null;
+            return (
+              <line
+                key={`${edge.claimNodeId}|${edge.attributeNodeId}`}
+                x1={from.x}
+                y1={from.y}
+                x2={to.x}
+                y2={to.y}
+                className={EDGE_COLORS[nodeTypes.get(edge.attributeNodeId) as IdentityNodeType]}
+                strokeWidth={1 + edge.weight * 2}
+                strokeOpacity={0.7}
+              />
+            );
+          })}
+          {network.nodes.map(node => {
+            const position = network.positions.get(node.nodeId);
+            if (!position) return null;
+
+            if (node.nodeType !== 'CLAIM') {
+              return (
+                <rect
+                  key={node.nodeId}
+                  x={position.x - 5}
+                  y={position.y - 5}
+                  width={10}
+                  height={10}
+                  transform={`rotate(45 ${position.x} ${position.y})`}
+                  className={`fill-background ${EDGE_COLORS[node.nodeType]}`}
+                  strokeWidth={2}
+                >
+                  <title>{`${IDENTITY_NODE_LABELS[node.nodeType]}: ${node.label}`}</title>
+                </rect>
+              );
+            }
+
+            const claim = claims.get(node.label);
+            const isRoot = node.nodeId === network.rootId;
+            const canSelect = !isRoot && !!claim;
+            return (
+              <g
+                key={node.nodeId}
+                className={canSelect ? 'cursor-pointer' : undefined}
+                onClick={canSelect ? () => onSelectClaim(node.label) : undefined}
+              >
+                <circle
+                  cx={position.x}
+                  cy={position.y}
+                  r={isRoot ? 14 : 10}
+                  className={`${getRiskFill(claim)} ${isRoot ? 'stroke-foreground' : 'stroke-background'}`}
+                  strokeWidth={isRoot ? 3 : 1.5}
+                />
+                <text x={position.x} y={position.y + (isRoot ? 26 : 22)} textAnchor="middle" className="fill-muted-foreground text-[10px]">
+                  {node.label}
+                </text>
+                <title>
+                  {claim
+                    ? `${node.label} · ${claim.Name} (${claim.Claimant_ID}) · ${claim.analysis.fraud_label} risk`
+                    : `${node.label} · from an earlier session`}
+                </title>
+              </g>
+            );
+          })}
+        </svg>
+      </div>
+
+      <div className="flex flex-wrap items-center justify-between gap-2 text-xs text-muted-foreground">
+        <div className="flex flex-wrap gap-3">
+          {RISK_LEGEND.map(({ label, fill }) => (
+            <span key={label} className="flex items-center gap-1">
+              <span className={`inline-block h-2.5 w-2.5 rounded-full ${fill}`} />
+              {label}
+            </span>
+          ))}
+        </div>
+        <span>
+          {linkedClaims.length === 0
+            ? 'No linked claims through the selected attributes'
+            : `${linkedClaims.length} linked claims · click one to open it`}
+          {network.totalNodes > MAX_NODES && ` · showing the nearest ${MAX_NODES} of ${network.totalNodes} nodes`}
+        </span>
+      </div>
+    </div>
+  );
+}
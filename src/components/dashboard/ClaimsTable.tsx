@@ -30,13 +30,16 @@ import {
 } from 'lucide-react';
 import { AnalyzedClaim } from '../../types/fraud';
 import { ClaimDetailModal } from './ClaimDetailModal';
+import { IdentityGraph } from '../../services/identityGraph';
 
 interface ClaimsTableProps {
   claims: AnalyzedClaim[];
   onExport?: (claims: AnalyzedClaim[]) => void;
+  // Linked claims for the detail view's network tab
+  graph: IdentityGraph;
 }
 
-export function ClaimsTable({ claims, onExport }: ClaimsTableProps) {
+export function ClaimsTable({ claims, onExport, graph }: ClaimsTableProps) {
   const [searchTerm, setSearchTerm] = useState('');
   const [riskFilter, setRiskFilter] = useState<string>('all');
   const [sortField, setSortField] = useState<string>('fraud_score');
@@ -45,6 +48,8 @@ export function ClaimsTable({ claims, onExport }: ClaimsTableProps) {
   const [currentPage, setCurrentPage] = useState(1);
   const itemsPerPage = 10;
 
+  const claimsById = useMemo(() => new Map(claims.map(claim => [claim.Claim_ID, claim])), [claims]);
+
   const filteredClaims = useMemo(() => {
     let filtered = claims;
 
@@ -53,7 +58,8 @@ export function ClaimsTable({ claims, onExport }: ClaimsTableProps) {
       filtered = filtered.filter(claim => 
         claim.Claim_ID.toLowerCase().includes(searchTerm.toLowerCase()) ||
         claim.Name.toLowerCase().includes(searchTerm.toLowerCase()) ||
-        claim.Employer_Name.toLowerCase().includes(searchTerm.toLowerCase())
+        claim.Employer_Name.toLowerCase().includes(searchTerm.toLowerCase()) ||
+        (claim.Source_File || '').toLowerCase().includes(searchTerm.toLowerCase())
       );
     }
 
@@ -116,6 +122,15 @@ export function ClaimsTable({ claims, onExport }: ClaimsTableProps) {
     }
   };
 
+  const getRiskBarColor = (label: string) => {
+    switch (label.toLowerCase()) {
+      case 'severe': return 'bg-red-500';
+      case 'high': return 'bg-orange-500';
+      case 'medium': return 'bg-yellow-500';
+      default: return 'bg-green-500';
+    }
+  };
+
   const SortIcon = ({ field }: { field: string }) => {
     if (sortField !== field) return <ChevronDown className="h-4 w-4 opacity-50" />;
     return sortDirection === 'asc' ? 
@@ -145,7 +160,7 @@ export function ClaimsTable({ claims, onExport }: ClaimsTableProps) {
             <div className="relative flex-1">
               <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-muted-foreground" />
               <Input
-                placeholder="Search claims, names, or employers..."
+                placeholder="Search claims, names, employers, or files..."
                 value={searchTerm}
                 onChange={(e) => setSearchTerm(e.target.value)}
                 className="pl-10"
@@ -220,17 +235,29 @@ export function ClaimsTable({ claims, onExport }: ClaimsTableProps) {
               <TableBody>
                 {paginatedClaims.map((claim) => (
                   <TableRow key={claim.Claim_ID} className="hover:bg-muted/50">
-                    <TableCell className="font-medium">{claim.Claim_ID}</TableCell>
+                    <TableCell className="font-medium">
+                      <div className="flex items-center gap-2">
+                        <span>{claim.Claim_ID}</span>
+                        {claim.Conflicting_Sources && (
+                          <Badge
+                            variant="outline"
+                            className="text-xs border-yellow-500/50 text-yellow-500"
+                            title={`Other versions in: ${claim.Conflicting_Sources.split('|').join(', ')}`}
+                          >
+                            Conflict
+                          </Badge>
+                        )}
+                      </div>
+                      {claim.Source_File && (
+                        <div className="text-xs text-muted-foreground font-normal">{claim.Source_File}</div>
+                      )}
+                    </TableCell>
                     <TableCell>{claim.Name}</TableCell>
                     <TableCell>
                       <div className="flex items-center space-x-2">
                         <div className="w-24 bg-muted rounded-full h-2">
                           <div 
-                            className={`h-2 rounded-full transition-all ${
-                              claim.analysis.fraud_score > 0.7 ? 'bg-red-500' :
-                              claim.analysis.fraud_score > 0.5 ? 'bg-orange-500' :
-                              claim.analysis.fraud_score > 0.3 ? 'bg-yellow-500' : 'bg-green-500'
-                            }`}
+                            className={`h-2 rounded-full transition-all ${getRiskBarColor(claim.analysis.fraud_label)}`}
                             style={{ width: `${claim.analysis.fraud_score * 100}%` }}
                           />
                         </div>
@@ -240,9 +267,20 @@ export function ClaimsTable({ claims, onExport }: ClaimsTableProps) {
                       </div>
                     </TableCell>
                     <TableCell>
-                      <Badge className={getRiskBadgeColor(claim.analysis.fraud_label)}>
-                        {claim.analysis.fraud_label}
-                      </Badge>
+                      <div className="flex items-center gap-2">
+                        <Badge className={getRiskBadgeColor(claim.analysis.fraud_label)}>
+                          {claim.analysis.fraud_label}
+                        </Badge>
+                        {claim.analysis.degraded && (
+                          <Badge
+                            variant="outline"
+                            className="text-xs border-orange-500/50 text-orange-500"
+                            title="A model was unavailable; part of this score came from its offline fallback"
+                          >
+                            Degraded
+                          </Badge>
+                        )}
+                      </div>
                     </TableCell>
                     <TableCell>
                       <Badge variant={claim.Identity_Verification_Status === 'VERIFIED' ? 'default' : claim.Identity_Verification_Status === 'FAILED' ? 'destructive' : 'secondary'}>
@@ -251,15 +289,15 @@ export function ClaimsTable({ claims, onExport }: ClaimsTableProps) {
                     </TableCell>
                     <TableCell>
                       <div className="flex items-center space-x-2">
-                        <Badge variant={parseFloat(claim.Employer_Risk_Score || '0') > 70 ? 'destructive' : parseFloat(claim.Employer_Risk_Score || '0') > 40 ? 'secondary' : 'default'}>
-                          {claim.Employer_Risk_Score ? `${claim.Employer_Risk_Score}%` : 'LOW'}
+                        <Badge variant={(claim.Employer_Risk_Score ?? 0) > 70 ? 'destructive' : (claim.Employer_Risk_Score ?? 0) > 40 ? 'secondary' : 'default'}>
+                          {claim.Employer_Risk_Score !== undefined ? `${claim.Employer_Risk_Score}%` : 'LOW'}
                         </Badge>
                       </div>
                     </TableCell>
                     <TableCell>
                       <div className="flex items-center space-x-2">
-                        <Badge variant={parseFloat(claim.Geographic_Risk_Score || '0') > 70 ? 'destructive' : parseFloat(claim.Geographic_Risk_Score || '0') > 40 ? 'secondary' : 'default'}>
-                          {claim.Geographic_Risk_Score ? `${claim.Geographic_Risk_Score}%` : 'LOW'}
+                        <Badge variant={(claim.Geographic_Risk_Score ?? 0) > 70 ? 'destructive' : (claim.Geographic_Risk_Score ?? 0) > 40 ? 'secondary' : 'default'}>
+                          {claim.Geographic_Risk_Score !== undefined ? `${claim.Geographic_Risk_Score}%` : 'LOW'}
                         </Badge>
                       </div>
                     </TableCell>
@@ -322,6 +360,9 @@ export function ClaimsTable({ claims, onExport }: ClaimsTableProps) {
           claim={selectedClaim}
           isOpen={!!selectedClaim}
           onClose={() => setSelectedClaim(null)}
+          graph={graph}
+          claims={claimsById}
+          onSelectClaim={claimId => setSelectedClaim(claimsById.get(claimId) ?? null)}
         />
       )}
     </>
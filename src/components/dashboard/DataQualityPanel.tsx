@@ -0,0 +1,187 @@
+import React, { useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { AlertTriangle, CheckCircle, Database } from 'lucide-react';
+import { DataQualityIssue, DataQualityProfile } from '../../types/fraud';
+
+interface DataQualityPanelProps {
+  // One profile per import, most recent first
+  profiles: DataQualityProfile[];
+}
+
+const ISSUE_LABELS: Record<DataQualityIssue['kind'], string> = {
+  NULL_RATE: 'Missing values',
+  PLACEHOLDER: 'Placeholders',
+  OUTLIER: 'Outliers',
+  FUTURE_DATE: 'Future dates'
+};
+
+const formatRate = (rate: number) => `${(rate * 100).toFixed(1)}%`;
+
+const getSeverityBadgeColor = (severity: DataQualityIssue['severity']) => {
+  switch (severity) {
+    case 'LOW': return 'bg-green-500/20 text-green-400 border-green-500/30';
+    case 'MEDIUM': return 'bg-yellow-500/20 text-yellow-400 border-yellow-500/30';
+    case 'HIGH': return 'bg-orange-500/20 text-orange-400 border-orange-500/30';
+    case 'CRITICAL': return 'bg-red-500/20 text-red-400 border-red-500/30';
+  }
+};
+
+const describeProfile = (profile: DataQualityProfile) =>
+  `${new Date(profile.profiledAt).toLocaleString()} · ${profile.sources.join(', ') || 'uploaded data'}`;
+
+export function DataQualityPanel({ profiles }: DataQualityPanelProps) {
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const profile = profiles.find(p => p.profileId === selectedId) || profiles[0];
+
+  if (!profile) {
+    return (
+      <Card className="card-hover">
+        <CardContent className="py-8 text-center text-muted-foreground">
+          No data quality profile yet. Profiles are built for each uploaded batch.
+        </CardContent>
+      </Card>
+    );
+  }
+
+  const examplesByColumn = new Map(profile.columns.map(column => [column.column, column.exampleClaimIds]));
+  const issueColumns = new Set(profile.issues.map(issue => issue.column));
+
+  return (
+    <div className="space-y-6">
+      <Card className="card-hover">
+        <CardHeader>
+          <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4">
+            <CardTitle className="flex items-center space-x-2">
+              <Database className="h-5 w-5" />
+              <span>Data Quality</span>
+            </CardTitle>
+            {profiles.length > 1 && (
+              <Select value={profile.profileId} onValueChange={setSelectedId}>
+                <SelectTrigger className="w-full sm:w-[320px]">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {profiles.map(p => (
+                    <SelectItem key={p.profileId} value={p.profileId}>{describeProfile(p)}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
+          </div>
+          <p className="text-sm text-muted-foreground">{describeProfile(profile)}</p>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex flex-wrap gap-2 text-sm">
+            <Badge variant="secondary">{profile.rowCount.toLocaleString()} rows</Badge>
+            <Badge variant="secondary">{profile.columns.length} columns</Badge>
+            <Badge className={profile.issues.length > 0
+              ? 'bg-orange-500/20 text-orange-400 border-orange-500/30'
+              : 'bg-green-500/20 text-green-400 border-green-500/30'}>
+              {profile.issues.length} issues
+            </Badge>
+            {profile.alertIds && profile.alertIds.length > 0 && (
+              <Badge className="bg-red-500/20 text-red-400 border-red-500/30">
+                {profile.alertIds.length} DATA_QUALITY alerts raised
+              </Badge>
+            )}
+          </div>
+
+          {profile.issues.length === 0 ? (
+            <div className="flex items-center space-x-2 text-sm text-green-400">
+              <CheckCircle className="h-4 w-4" />
+              <span>No column breached a data quality threshold</span>
+            </div>
+          ) : (
+            <div className="space-y-2">
+              {profile.issues.map(issue => (
+                <div
+                  key={`${issue.column}-${issue.kind}`}
+                  className="flex items-start justify-between gap-4 rounded-md border p-3 text-sm"
+                >
+                  <div className="flex items-start space-x-2">
+                    <AlertTriangle className="h-4 w-4 mt-0.5 text-orange-400 shrink-0" />
+                    <div>
+                      <div className="font-medium">{ISSUE_LABELS[issue.kind]} in {issue.column}</div>
+                      <div className="text-xs text-muted-foreground">{issue.message}</div>
+                      {issue.kind !== 'NULL_RATE' && examplesByColumn.get(issue.column)?.length > 0 && (
+                        <div className="text-xs text-muted-foreground font-mono">
+                          e.g. {examplesByColumn.get(issue.column).join(', ')}
+                        </div>
+                      )}
+                    </div>
+                  </div>
+                  <Badge className={getSeverityBadgeColor(issue.severity)}>{issue.severity}</Badge>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card className="card-hover">
+        <CardHeader>
+          <CardTitle>Column Profiles</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <ScrollArea className="h-96 rounded-md border">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Column</TableHead>
+                  <TableHead>Type</TableHead>
+                  <TableHead className="text-right">Empty</TableHead>
+                  <TableHead className="text-right">Distinct</TableHead>
+                  <TableHead>Top Values</TableHead>
+                  <TableHead>Range</TableHead>
+                  <TableHead className="text-right">Outliers</TableHead>
+                  <TableHead className="text-right">Placeholders</TableHead>
+                  <TableHead className="text-right">Future</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {profile.columns.map(column => (
+                  <TableRow key={column.column} className={issueColumns.has(column.column) ? 'bg-orange-500/5' : undefined}>
+                    <TableCell className="font-mono text-xs">{column.column}</TableCell>
+                    <TableCell className="text-xs capitalize">{column.kind}</TableCell>
+                    <TableCell className="text-right text-xs">{formatRate(column.nullRate)}</TableCell>
+                    <TableCell className="text-right text-xs">{column.distinctCount.toLocaleString()}</TableCell>
+                    <TableCell className="text-xs max-w-xs">
+                      <div className="truncate" title={column.topValues.map(v => `${v.value} (${v.count})`).join(', ')}>
+                        {column.topValues.slice(0, 3).map(v => `${v.value} (${v.count})`).join(', ')}
+                      </div>
+                    </TableCell>
+                    <TableCell className="text-xs whitespace-nowrap">
+                      {column.min !== undefined && column.max !== undefined
+                        ? `${column.min.toLocaleString()} – ${column.max.toLocaleString()} (median ${column.median?.toLocaleString()})`
+                        : '—'}
+                    </TableCell>
+                    <TableCell className="text-right text-xs">{column.outlierCount || '—'}</TableCell>
+                    <TableCell className="text-right text-xs">{column.placeholderCount || '—'}</TableCell>
+                    <TableCell className="text-right text-xs">{column.futureDateCount || '—'}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </ScrollArea>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,140 @@
+import React, { useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { Network } from 'lucide-react';
+import { FraudRing } from '../../types/enterprise';
+import { IDENTITY_NODE_LABELS } from '../../services/identityGraph';
+
+interface FraudRingsPanelProps {
+  // Riskiest first
+  rings: FraudRing[];
+  onOpenCase: (ringId: string) => Promise<void>;
+}
+
+const MAX_VISIBLE_CLAIMS = 6;
+
+const getRiskBadgeColor = (riskLevel: FraudRing['riskLevel']) => {
+  switch (riskLevel) {
+    case 'LOW': return 'bg-green-500/20 text-green-400 border-green-500/30';
+    case 'MEDIUM': return 'bg-yellow-500/20 text-yellow-400 border-yellow-500/30';
+    case 'HIGH': return 'bg-orange-500/20 text-orange-400 border-orange-500/30';
+    case 'CRITICAL': return 'bg-red-500/20 text-red-400 border-red-500/30';
+  }
+};
+
+const formatCurrency = (amount: number) =>
+  amount.toLocaleString(undefined, { style: 'currency', currency: 'USD', maximumFractionDigits: 0 });
+
+const linkedBy = (ring: FraudRing) =>
+  Array.from(new Set(ring.sharedAttributes.map(node => IDENTITY_NODE_LABELS[node.nodeType]))).join(', ');
+
+export function FraudRingsPanel({ rings, onOpenCase }: FraudRingsPanelProps) {
+  const [openingId, setOpeningId] = useState<string | null>(null);
+
+  const handleOpenCase = async (ringId: string) => {
+    setOpeningId(ringId);
+    try {
+      await onOpenCase(ringId);
+    } finally {
+      setOpeningId(null);
+    }
+  };
+
+  if (rings.length === 0) {
+    return (
+      <Card className="card-hover">
+        <CardContent className="py-8 text-center text-muted-foreground">
+          No fraud rings found. Rings are groups of three or more claimants linked through shared identities, devices, IPs, phones, emails or addresses.
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <Card className="card-hover">
+      <CardHeader>
+        <CardTitle className="flex items-center space-x-2">
+          <Network className="h-5 w-5" />
+          <span>Fraud Rings</span>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-wrap gap-2 text-sm">
+          <Badge variant="secondary">{rings.length.toLocaleString()} rings</Badge>
+          <Badge variant="secondary">
+            {rings.reduce((sum, ring) => sum + ring.metrics.claimantCount, 0).toLocaleString()} claimants
+          </Badge>
+          <Badge className="bg-red-500/20 text-red-400 border-red-500/30">
+            {formatCurrency(rings.reduce((sum, ring) => sum + ring.metrics.exposure, 0))} exposure
+          </Badge>
+        </div>
+
+        <ScrollArea className="h-[480px] rounded-md border">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Ring</TableHead>
+                <TableHead>Risk</TableHead>
+                <TableHead className="text-right">Claimants</TableHead>
+                <TableHead className="text-right">Density</TableHead>
+                <TableHead className="text-right">Claims / Week</TableHead>
+                <TableHead className="text-right">Shared Employers</TableHead>
+                <TableHead className="text-right">Exposure</TableHead>
+                <TableHead>Linked By</TableHead>
+                <TableHead />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {rings.map(ring => (
+                <TableRow key={ring.ringId}>
+                  <TableCell>
+                    <div className="font-mono text-xs">{ring.ringId}</div>
+                    <div className="text-xs text-muted-foreground">
+                      {ring.claimIds.slice(0, MAX_VISIBLE_CLAIMS).join(', ')}
+                      {ring.claimIds.length > MAX_VISIBLE_CLAIMS && ` +${ring.claimIds.length - MAX_VISIBLE_CLAIMS} more`}
+                    </div>
+                  </TableCell>
+                  <TableCell>
+                    <Badge className={getRiskBadgeColor(ring.riskLevel)}>
+                      {ring.riskLevel} · {ring.riskScore}
+                    </Badge>
+                  </TableCell>
+                  <TableCell className="text-right">{ring.metrics.claimantCount}</TableCell>
+                  <TableCell className="text-right">{(ring.metrics.density * 100).toFixed(0)}%</TableCell>
+                  <TableCell className="text-right">{ring.metrics.claimsPerWeek.toFixed(1)}</TableCell>
+                  <TableCell className="text-right">{ring.metrics.sharedEmployerCount}</TableCell>
+                  <TableCell className="text-right">{formatCurrency(ring.metrics.exposure)}</TableCell>
+                  <TableCell className="text-xs">{linkedBy(ring)}</TableCell>
+                  <TableCell className="text-right">
+                    {ring.caseId ? (
+                      <Badge variant="secondary">Case open</Badge>
+                    ) : (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => handleOpenCase(ring.ringId)}
+                        disabled={openingId !== null}
+                      >
+                        Open case
+                      </Button>
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </ScrollArea>
+      </CardContent>
+    </Card>
+  );
+}
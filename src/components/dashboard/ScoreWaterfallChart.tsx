@@ -0,0 +1,92 @@
+import React from 'react';
+import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Cell } from 'recharts';
+import { ScoreContribution } from '../../types/enterprise';
+
+interface ScoreWaterfallChartProps {
+  contributions: ScoreContribution[];
+  score: number;
+}
+
+interface WaterfallStep {
+  name: string;
+  // Invisible bar the visible one sits on
+  base: number;
+  value: number;
+  points: number;
+  color: string;
+  contribution?: ScoreContribution;
+}
+
+const SOURCE_COLORS: Record<ScoreContribution['source'], string> = {
+  RULE: '#f59e0b',
+  MODEL: '#8b5cf6',
+  CROSS_MATCH: '#ef4444',
+  REALTIME: '#06b6d4',
+  PATTERN: '#3b82f6',
+  ADJUSTMENT: '#6b7280'
+};
+
+// Each contribution as a step up (or down) from the running total, ending at the score
+export function ScoreWaterfallChart({ contributions, score }: ScoreWaterfallChartProps) {
+  const data = React.useMemo(() => {
+    const steps: WaterfallStep[] = [];
+    let running = 0;
+    for (const contribution of contributions) {
+      const next = running + contribution.points;
+      steps.push({
+        name: contribution.label,
+        base: Math.min(running, next),
+        value: Math.abs(contribution.points),
+        points: contribution.points,
+        color: SOURCE_COLORS[contribution.source],
+        contribution
+      });
+      running = next;
+    }
+    steps.push({ name: 'Total', base: 0, value: score, points: score, color: '#10b981' });
+    return steps;
+  }, [contributions, score]);
+
+  const CustomTooltip = ({ active, payload }: { active?: boolean; payload?: { payload: WaterfallStep }[] }) => {
+    if (active && payload && payload.length) {
+      const step: WaterfallStep = payload[0].payload;
+      return (
+        <div className="bg-card border border-border rounded-lg p-3 shadow-lg max-w-xs">
+          <p className="font-medium">{step.name}</p>
+          <p className="text-primary">
+            {step.contribution ? `${step.points >= 0 ? '+' : ''}${step.points} points` : `${step.points} points`}
+          </p>
+          {step.contribution?.evidence.map(item => (
+            <p key={item.name} className="text-muted-foreground text-xs">{`${item.name}: ${item.value}`}</p>
+          ))}
+        </div>
+      );
+    }
+    return null;
+  };
+
+  return (
+    <ResponsiveContainer width="100%" height={240}>
+      <BarChart data={data} margin={{ top: 10, right: 10, left: 0, bottom: 5 }}>
+        <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--muted-foreground))" opacity={0.2} />
+        <XAxis
+          dataKey="name"
+          tick={{ fill: 'hsl(var(--muted-foreground))', fontSize: 11 }}
+          axisLine={{ stroke: 'hsl(var(--muted-foreground))' }}
+          interval={0}
+        />
+        <YAxis
+          tick={{ fill: 'hsl(var(--muted-foreground))' }}
+          axisLine={{ stroke: 'hsl(var(--muted-foreground))' }}
+        />
+        <Tooltip content={<CustomTooltip />} cursor={{ fill: 'hsl(var(--muted))', opacity: 0.3 }} />
+        <Bar dataKey="base" stackId="waterfall" fill="transparent" isAnimationActive={false} />
+        <Bar dataKey="value" stackId="waterfall" radius={[4, 4, 0, 0]}>
+          {data.map((step, index) => (
+            <Cell key={`cell-${index}`} fill={step.color} />
+          ))}
+        </Bar>
+      </BarChart>
+    </ResponsiveContainer>
+  );
+}
@@ -0,0 +1,17 @@
+/**
+ * Source of the current time. Services take one instead of calling
+ * new Date() directly, so a run can be replayed at a fixed instant.
+ */
+export interface Clock {
+  now(): Date;
+}
+
+export const systemClock: Clock = {
+  now: () => new Date()
+};
+
+// Always reports the same instant
+export function createFixedClock(at: Date | string | number): Clock {
+  const time = new Date(at).getTime();
+  return { now: () => new Date(time) };
+}
@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest';
+import { louvain, WeightedLink } from './communityDetection';
+
+// Two triangles joined by one weak link
+const NODES = ['a', 'b', 'c', 'd', 'e', 'f'];
+const LINKS: WeightedLink[] = [
+  { source: 'a', target: 'b', weight: 1 },
+  { source: 'b', target: 'c', weight: 1 },
+  { source: 'a', target: 'c', weight: 1 },
+  { source: 'd', target: 'e', weight: 1 },
+  { source: 'e', target: 'f', weight: 1 },
+  { source: 'd', target: 'f', weight: 1 },
+  { source: 'c', target: 'd', weight: 0.1 }
+];
+
+const groups = (communities: Map<string, number>) => {
+  const members = new Map<number, string[]>();
+  communities.forEach((community, id) => members.set(community, [...(members.get(community) ?? []), id]));
+  return Array.from(members.values()).map(ids => ids.sort().join('')).sort();
+};
+
+describe('louvain', () => {
+  it('splits densely linked groups apart', () => {
+    expect(groups(louvain(NODES, LINKS))).toEqual(['abc', 'def']);
+  });
+
+  it('leaves nodes without links on their own', () => {
+    expect(groups(louvain([...NODES, 'g'], LINKS))).toEqual(['abc', 'def', 'g']);
+    expect(groups(louvain(['x', 'y'], []))).toEqual(['x', 'y']);
+  });
+
+  it('ignores self-links, links to unknown nodes and links without weight', () => {
+    const noise: WeightedLink[] = [
+      { source: 'a', target: 'a', weight: 5 },
+      { source: 'a', target: 'z', weight: 5 },
+      { source: 'c', target: 'e', weight: 0 }
+    ];
+
+    expect(groups(louvain(NODES, [...LINKS, ...noise]))).toEqual(['abc', 'def']);
+  });
+
+  it('splits the same graph the same way every time', () => {
+    expect(Array.from(louvain(NODES, LINKS))).toEqual(Array.from(louvain(NODES, LINKS)));
+  });
+});
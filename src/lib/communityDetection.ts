@@ -0,0 +1,91 @@
+export interface WeightedLink {
+  source: string;
+  target: string;
+  weight: number;
+}
+
+const MAX_PASSES = 20;
+
+/**
+ * Louvain community detection: moves each node to the neighbouring
+ * community that most raises modularity, then merges each community into
+ * one node and repeats until nothing moves. Nodes are visited in the order
+ * given, so the same graph always splits the same way. Returns a community
+ * number per node; nodes without links are communities of one.
+ */
+export function louvain(nodeIds: string[], links: WeightedLink[]): Map<string, number> {
+  const index = new Map(nodeIds.map((id, i) => [id, i]));
+  // Weighted adjacency, both directions; a self-loop holds a merged community's inner weight twice
+  let adjacency: Map<number, number>[] = nodeIds.map(() => new Map());
+  for (const { source, target, weight } of links) {
+    const a = index.get(source);
+    const b = index.get(target);
+    if (a === undefined || b === undefined || a === b || weight <= 0) continue;
+    adjacency[a].set(b, (adjacency[a].get(b) ?? 0) + weight);
+    adjacency[b].set(a, (adjacency[b].get(a) ?? 0) + weight);
+  }
+
+  // Community of each original node, in the current level's numbering
+  let membership = nodeIds.map((_, i) => i);
+
+  for (;;) {
+    const size = adjacency.length;
+    const degree = adjacency.map(neighbours => Array.from(neighbours.values()).reduce((sum, w) => sum + w, 0));
+    const totalWeight = degree.reduce((sum, k) => sum + k, 0);
+    if (totalWeight === 0) break;
+
+    const community = Array.from({ length: size }, (_, i) => i);
+    const communityDegree = [...degree];
+    let movedAny = false;
+
+    for (let pass = 0; pass < MAX_PASSES; pass++) {
+      let moved = false;
+      for (let node = 0; node < size; node++) {
+        const current = community[node];
+        // Weight from this node into each neighbouring community
+        const weightTo = new Map<number, number>();
+        adjacency[node].forEach((weight, neighbour) => {
+          if (neighbour === node) return;
+          weightTo.set(community[neighbour], (weightTo.get(community[neighbour]) ?? 0) + weight);
+        });
+
+        communityDegree[current] -= degree[node];
+        const gain = (target: number) =>
+          (weightTo.get(target) ?? 0) - (communityDegree[target] * degree[node]) / totalWeight;
+        let best = current;
+        let bestGain = gain(current);
+        for (const target of Array.from(weightTo.keys()).sort((a, b) => a - b)) {
+          const candidate = gain(target);
+          if (candidate > bestGain + 1e-12) {
+            best = target;
+            bestGain = candidate;
+          }
+        }
+        communityDegree[best] += degree[node];
+        if (best !== current) {
+          community[node] = best;
+          moved = true;
+          movedAny = true;
+        }
+      }
+      if (!moved) break;
+    }
+    if (!movedAny) break;
+
+    // Merge each community into a node of the next level
+    const renumber = new Map<number, number>();
+    for (const c of community) if (!renumber.has(c)) renumber.set(c, renumber.size);
+    const next: Map<number, number>[] = Array.from({ length: renumber.size }, () => new Map());
+    adjacency.forEach((neighbours, node) => {
+      const from = renumber.get(community[node]) as number;
+      neighbours.forEach((weight, neighbour) => {
+        const to = renumber.get(community[neighbour]) as number;
+        next[from].set(to, (next[from].get(to) ?? 0) + weight);
+      });
+    });
+    membership = membership.map(c => renumber.get(community[c]) as number);
+    adjacency = next;
+  }
+
+  return new Map(nodeIds.map((id, i) => [id, membership[i]]));
+}
@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest';
+import { WeightedLink } from './communityDetection';
+import { forceLayout, Point } from './forceLayout';
+
+const NODES = ['root', 'a', 'b', 'c', 'd', 'e'];
+// A pair linked strongly, the rest loosely to the root
+const LINKS: WeightedLink[] = [
+  { source: 'a', target: 'b', weight: 1 },
+  { source: 'root', target: 'a', weight: 0.2 },
+  { source: 'root', target: 'c', weight: 0.2 },
+  { source: 'root', target: 'd', weight: 0.2 },
+  { source: 'root', target: 'e', weight: 0.2 }
+];
+const OPTIONS = { width: 400, height: 300, centerId: 'root' };
+
+const distance = (p: Point, q: Point) => Math.hypot(p.x - q.x, p.y - q.y);
+
+describe('forceLayout', () => {
+  const layout = forceLayout(NODES, LINKS, OPTIONS);
+
+  it('holds the center node at the center', () => {
+    expect(layout.get('root')).toEqual({ x: 200, y: 150 });
+  });
+
+  it('keeps every node inside the drawing area, off its edges', () => {
+    for (const { x, y } of layout.values()) {
+      expect(x).toBeGreaterThanOrEqual(24);
+      expect(x).toBeLessThanOrEqual(376);
+      expect(y).toBeGreaterThanOrEqual(24);
+      expect(y).toBeLessThanOrEqual(276);
+    }
+  });
+
+  it('draws strongly linked nodes closer together than unlinked ones', () => {
+    const get = (id: string) => layout.get(id) as Point;
+
+    expect(distance(get('a'), get('b'))).toBeLessThan(distance(get('c'), get('d')));
+  });
+
+  it('lays out the same graph the same way every time', () => {
+    expect(Array.from(forceLayout(NODES, LINKS, OPTIONS))).toEqual(Array.from(layout));
+  });
+
+  it('lays out nothing for no nodes', () => {
+    expect(forceLayout([], [], OPTIONS).size).toBe(0);
+  });
+});
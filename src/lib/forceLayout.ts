@@ -0,0 +1,94 @@
+import { WeightedLink } from './communityDetection';
+
+export interface Point {
+  x: number;
+  y: number;
+}
+
+export interface ForceLayoutOptions {
+  width: number;
+  height: number;
+  // Held at the centre, such as the node the graph was grown from
+  centerId?: string;
+  iterations?: number;
+}
+
+const DEFAULT_ITERATIONS = 300;
+// Keeps nodes off the edges of the drawing area
+const MARGIN = 24;
+// Golden angle, so the starting spiral never lines nodes up
+const SPIRAL_ANGLE = Math.PI * (3 - Math.sqrt(5));
+
+/**
+ * Fruchterman-Reingold force-directed layout: every pair of nodes repels,
+ * linked nodes attract in proportion to their link weight, and the moves
+ * allowed shrink each iteration until the layout settles. Nodes start on a
+ * spiral in the order given, so the same graph always lays out the same.
+ */
+export function forceLayout(nodeIds: string[], links: WeightedLink[], options: ForceLayoutOptions): Map<string, Point> {
+  const { width, height, centerId, iterations = DEFAULT_ITERATIONS } = options;
+  const center = { x: width / 2, y: height / 2 };
+  const index = new Map(nodeIds.map((id, i) => [id, i]));
+  const count = nodeIds.length;
+  if (count === 0) return new Map();
+
+  // Ideal distance between nodes for the area available
+  const k = Math.sqrt(((width - 2 * MARGIN) * (height - 2 * MARGIN)) / count) * 0.8;
+  const startRadius = Math.min(width, height) / 2 - MARGIN;
+  const positions = nodeIds.map((id, i) => {
+    if (id === centerId) return { ...center };
+    const radius = startRadius * Math.sqrt((i + 0.5) / count);
+    return { x: center.x + radius * Math.cos(i * SPIRAL_ANGLE), y: center.y + radius * Math.sin(i * SPIRAL_ANGLE) };
+  });
+  const edges = links
+    .map(link => ({ a: index.get(link.source), b: index.get(link.target), weight: link.weight }))
+    .filter((edge): edge is { a: number; b: number; weight: number } =>
+      edge.a !== undefined && edge.b !== undefined && edge.a !== edge.b);
+
+  let temperature = Math.min(width, height) / 10;
+  const cooling = temperature / (iterations + 1);
+  for (let iteration = 0; iteration < iterations; iteration++) {
+    const moves = positions.map(() => ({ x: 0, y: 0 }));
+
+    for (let a = 0; a < count; a++) {
+      for (let b = a + 1; b < count; b++) {
+        let dx = positions[a].x - positions[b].x;
+        let dy = positions[a].y - positions[b].y;
+        // Nodes on top of each other are nudged apart by index
+        if (dx === 0 && dy === 0) {
+          dx = ((a - b) % 3) || 1;
+          dy = ((a + b) % 3) || 1;
+        }
+        const distance = Math.sqrt(dx * dx + dy * dy);
+        const force = (k * k) / distance;
+        moves[a].x += (dx / distance) * force;
+        moves[a].y += (dy / distance) * force;
+        moves[b].x -= (dx / distance) * force;
+        moves[b].y -= (dy / distance) * force;
+      }
+    }
+
+    for (const { a, b, weight } of edges) {
+      const dx = positions[a].x - positions[b].x;
+      const dy = positions[a].y - positions[b].y;
+      const distance = Math.sqrt(dx * dx + dy * dy) || 1;
+      const force = ((distance * distance) / k) * Math.max(weight, 0.1);
+      moves[a].x -= (dx / distance) * force;
+      moves[a].y -= (dy / distance) * force;
+      moves[b].x += (dx / distance) * force;
+      moves[b].y += (dy / distance) * force;
+    }
+
+    positions.forEach((position, i) => {
+      if (nodeIds[i] === centerId) return;
+      const length = Math.sqrt(moves[i].x ** 2 + moves[i].y ** 2);
+      if (length === 0) return;
+      const step = Math.min(length, temperature);
+      position.x = Math.min(width - MARGIN, Math.max(MARGIN, position.x + (moves[i].x / length) * step));
+      position.y = Math.min(height - MARGIN, Math.max(MARGIN, position.y + (moves[i].y / length) * step));
+    });
+    temperature -= cooling;
+  }
+
+  return new Map(nodeIds.map((id, i) => [id, { x: Math.round(positions[i].x), y: Math.round(positions[i].y) }]));
+}
@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest';
+import { fitLogistic, sigmoid } from './logistic';
+
+// Outcomes drawn exactly from a known curve: at each x, a share of positives
+// equal to its probability
+function samplesFrom(intercept: number, slope: number) {
+  const features: number[][] = [];
+  const outcomes: boolean[] = [];
+  for (let x = -3; x <= 3; x += 0.5) {
+    const positives = Math.round(sigmoid(intercept + slope * x) * 200);
+    for (let i = 0; i < 200; i++) {
+      features.push([x]);
+      outcomes.push(i < positives);
+    }
+  }
+  return { features, outcomes };
+}
+
+describe('fitLogistic', () => {
+  it('recovers the curve the outcomes were drawn from', () => {
+    const { features, outcomes } = samplesFrom(-0.5, 1.2);
+    const [intercept, slope] = fitLogistic(features, outcomes, 0);
+
+    expect(intercept).toBeCloseTo(-0.5, 1);
+    expect(slope).toBeCloseTo(1.2, 1);
+  });
+
+  it('stays finite when the outcomes separate perfectly', () => {
+    const features = [[-2], [-1], [1], [2]];
+    const [intercept, slope] = fitLogistic(features, [false, false, true, true], 0.01);
+
+    expect(Number.isFinite(intercept)).toBe(true);
+    expect(Number.isFinite(slope)).toBe(true);
+    expect(slope).toBeGreaterThan(0);
+  });
+
+  it('holds a given intercept and fits only the coefficients', () => {
+    const { features, outcomes } = samplesFrom(-0.5, 1.2);
+    const [intercept, slope] = fitLogistic(features, outcomes, 0, -0.5);
+
+    expect(intercept).toBe(-0.5);
+    expect(slope).toBeCloseTo(1.2, 1);
+  });
+});
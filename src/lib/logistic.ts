@@ -0,0 +1,92 @@
+const MAX_ITERATIONS = 50;
+const MAX_HALVINGS = 30;
+
+export const sigmoid = (x: number) => 1 / (1 + Math.exp(-x));
+
+// Solve a x = b by Gaussian elimination with partial pivoting; null if singular
+function solve(a: number[][], b: number[]): number[] | null {
+  const n = b.length;
+  const m = a.map((row, i) => [...row, b[i]]);
+  for (let col = 0; col < n; col++) {
+    let pivot = col;
+    for (let row = col + 1; row < n; row++) {
+      if (Math.abs(m[row][col]) > Math.abs(m[pivot][col])) pivot = row;
+    }
+    if (Math.abs(m[pivot][col]) < 1e-12) return null;
+    [m[col], m[pivot]] = [m[pivot], m[col]];
+    for (let row = col + 1; row < n; row++) {
+      const factor = m[row][col] / m[col][col];
+      for (let k = col; k <= n; k++) m[row][k] -= factor * m[col][k];
+    }
+  }
+  const x = new Array<number>(n).fill(0);
+  for (let row = n - 1; row >= 0; row--) {
+    let sum = m[row][n];
+    for (let k = row + 1; k < n; k++) sum -= m[row][k] * x[k];
+    x[row] = sum / m[row][row];
+  }
+  return x;
+}
+
+// Penalized log-likelihood of the outcomes under beta
+function logLikelihood(features: number[][], outcomes: boolean[], ridge: number, beta: number[]): number {
+  const penalty = beta.reduce((sum, b, j) => (j === 0 ? sum : sum + ridge * b * b / 2), 0);
+  return features.reduce((sum, row, index) => {
+    const z = row.reduce((total, value, j) => total + value * beta[j + 1], beta[0]);
+    // log(1 + e^z), without overflow for large z
+    const softplus = Math.max(z, 0) + Math.log1p(Math.exp(-Math.abs(z)));
+    return sum + (outcomes[index] ? z : 0) - softplus;
+  }, -penalty);
+}
+
+/**
+ * Logistic regression by Newton's method. Returns the intercept followed by
+ * one coefficient per feature. The ridge penalty applies to the coefficients
+ * only, and keeps them finite when outcomes separate perfectly. Given an
+ * `intercept`, only the coefficients are fitted and it is returned as is.
+ * A step that would lower the likelihood is halved until it does not, as
+ * full Newton steps can overshoot and oscillate.
+ */
+export function fitLogistic(features: number[][], outcomes: boolean[], ridge: number, intercept?: number): number[] {
+  const width = (features[0]?.length ?? 0) + 1;
+  const beta = new Array<number>(width).fill(0);
+  if (intercept !== undefined) beta[0] = intercept;
+
+  for (let iteration = 0; iteration < MAX_ITERATIONS; iteration++) {
+    // Gradient and Hessian of the penalized log-likelihood
+    const gradient = beta.map((b, j) => (j === 0 ? 0 : -ridge * b));
+    const hessian = beta.map((_, i) => beta.map((__, j) => (i === j && i > 0 ? ridge : 0)));
+
+    features.forEach((row, index) => {
+      const x = [1, ...row];
+      const p = sigmoid(x.reduce((sum, value, j) => sum + value * beta[j], 0));
+      const residual = (outcomes[index] ? 1 : 0) - p;
+      const weight = p * (1 - p);
+      for (let i = 0; i < width; i++) {
+        gradient[i] += residual * x[i];
+        for (let j = 0; j < width; j++) hessian[i][j] += weight * x[i] * x[j];
+      }
+    });
+
+    // A fixed intercept takes no step
+    if (intercept !== undefined) {
+      gradient[0] = 0;
+      hessian.forEach((row, i) => { row[0] = i === 0 ? 1 : 0; });
+      hessian[0].fill(0, 1);
+    }
+
+    const step = solve(hessian, gradient);
+    if (!step) break;
+    const current = logLikelihood(features, outcomes, ridge, beta);
+    let scale = 1;
+    for (let halving = 0; halving < MAX_HALVINGS; halving++) {
+      const next = beta.map((b, j) => b + scale * step[j]);
+      if (logLikelihood(features, outcomes, ridge, next) >= current) break;
+      scale /= 2;
+    }
+    step.forEach((delta, j) => { beta[j] += scale * delta; });
+    if (step.reduce((sum, delta) => sum + Math.abs(scale * delta), 0) < 1e-9) break;
+  }
+
+  return beta;
+}
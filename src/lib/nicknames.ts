@@ -0,0 +1,91 @@
+// Given names and the short and familiar forms filed in their place
+const NICKNAME_GROUPS: Record<string, string[]> = {
+  abigail: ['abby', 'abbie', 'gail'],
+  albert: ['al', 'bert', 'bertie'],
+  alexander: ['alex', 'alec', 'sandy', 'xander'],
+  alexandra: ['alex', 'alexa', 'lexi', 'sandra', 'sandy'],
+  alfred: ['al', 'alf', 'fred', 'freddie'],
+  andrew: ['andy', 'drew'],
+  anthony: ['tony', 'ant'],
+  barbara: ['barb', 'barbie', 'babs'],
+  benjamin: ['ben', 'benny', 'benji'],
+  catherine: ['cathy', 'cate', 'kate', 'katie', 'kathy', 'cat'],
+  charles: ['charlie', 'chuck', 'chas', 'chaz'],
+  christina: ['chris', 'christy', 'tina'],
+  christopher: ['chris', 'kit', 'topher'],
+  daniel: ['dan', 'danny'],
+  david: ['dave', 'davey'],
+  deborah: ['debbie', 'deb', 'debra'],
+  donald: ['don', 'donny'],
+  dorothy: ['dot', 'dottie', 'dolly'],
+  edward: ['ed', 'eddie', 'ted', 'ned'],
+  elizabeth: ['liz', 'lizzie', 'beth', 'betty', 'betsy', 'eliza', 'libby'],
+  eugene: ['gene'],
+  frances: ['fran', 'frannie'],
+  francis: ['frank', 'fran'],
+  frederick: ['fred', 'freddie', 'fritz'],
+  gregory: ['greg'],
+  harold: ['hal', 'harry'],
+  henry: ['hank', 'harry', 'hal'],
+  jacob: ['jake'],
+  james: ['jim', 'jimmy', 'jamie'],
+  jennifer: ['jen', 'jenny', 'jenn'],
+  jessica: ['jess', 'jessie'],
+  john: ['jack', 'johnny', 'jon'],
+  jonathan: ['jon', 'jonny', 'nathan'],
+  joseph: ['joe', 'joey'],
+  joshua: ['josh'],
+  katherine: ['kathy', 'kate', 'katie', 'kat', 'kay'],
+  kenneth: ['ken', 'kenny'],
+  lawrence: ['larry', 'laurie'],
+  leonard: ['leo', 'len', 'lenny'],
+  margaret: ['maggie', 'meg', 'peggy', 'marge', 'margie', 'greta'],
+  matthew: ['matt', 'matty'],
+  michael: ['mike', 'mikey', 'mick', 'mickey'],
+  nathaniel: ['nate', 'nathan', 'nat'],
+  nicholas: ['nick', 'nicky', 'nico'],
+  patricia: ['pat', 'patty', 'trish', 'tricia'],
+  patrick: ['pat', 'paddy'],
+  peter: ['pete'],
+  philip: ['phil'],
+  raymond: ['ray'],
+  rebecca: ['becky', 'becca'],
+  richard: ['rick', 'ricky', 'rich', 'dick'],
+  robert: ['bob', 'bobby', 'rob', 'robby', 'bert'],
+  ronald: ['ron', 'ronnie'],
+  samantha: ['sam', 'sammy'],
+  samuel: ['sam', 'sammy'],
+  stephen: ['steve', 'stevie'],
+  steven: ['steve', 'stevie'],
+  susan: ['sue', 'susie', 'suzy'],
+  theodore: ['ted', 'teddy', 'theo'],
+  thomas: ['tom', 'tommy'],
+  timothy: ['tim', 'timmy'],
+  victoria: ['vicky', 'tori'],
+  walter: ['walt', 'wally'],
+  william: ['bill', 'billy', 'will', 'willy', 'liam']
+};
+
+// Every given name a name may stand for, keyed by lowercase name
+const ROOTS = new Map<string, Set<string>>();
+for (const [given, nicknames] of Object.entries(NICKNAME_GROUPS)) {
+  for (const name of [given, ...nicknames]) {
+    const roots = ROOTS.get(name) || new Set<string>();
+    roots.add(given);
+    ROOTS.set(name, roots);
+  }
+}
+
+/**
+ * Whether two different first names can be the same person's, such as
+ * "Bob" and "Robert" or "Bob" and "Rob". Case-insensitive.
+ */
+export function areNicknames(a: string, b: string): boolean {
+  const left = a.toLowerCase();
+  const right = b.toLowerCase();
+  if (left === right) return false;
+  const rootsA = ROOTS.get(left);
+  const rootsB = ROOTS.get(right);
+  if (!rootsA || !rootsB) return false;
+  return Array.from(rootsA).some(root => rootsB.has(root));
+}
@@ -0,0 +1,25 @@
+// Values legacy systems and forms fill in when the real one is missing
+
+const PLACEHOLDER_TEXT = new Set([
+  'N/A', 'NA', 'NULL', 'NONE', 'UNKNOWN', 'TBD', 'TEST', '-', '?', 'XXX', 'LEGACY_SSN', 'LEGACY ADDRESS'
+]);
+const PLACEHOLDER_EMAIL_USERS = new Set(['unknown', 'test', 'noemail', 'none', 'na', 'null', 'noreply', 'no-reply']);
+const PLACEHOLDER_EMAIL_DOMAINS = new Set(['example.com', 'legacy.com', 'test.com']);
+const PLACEHOLDER_DATES = new Set(['1900-01-01', '1970-01-01', '9999-12-31']);
+
+export const isPlaceholderText = (value: string) => PLACEHOLDER_TEXT.has(value.trim().toUpperCase());
+
+// Repeated digits such as 000-000-0000, or 123-456-7890
+export const isPlaceholderPhone = (value: string) => {
+  const digits = value.replace(/\D/g, '').replace(/^1(?=\d{10}$)/, '');
+  return /^(\d)\1+$/.test(digits) || digits === '1234567890';
+};
+
+export const isPlaceholderEmail = (value: string) => {
+  const [user, domain = ''] = value.toLowerCase().split('@');
+  return PLACEHOLDER_EMAIL_USERS.has(user) || PLACEHOLDER_EMAIL_DOMAINS.has(domain);
+};
+
+export const isPlaceholderDate = (value: string) => PLACEHOLDER_DATES.has(value.slice(0, 10));
+
+export const isPlaceholderSsn = (value: string) => /^0+$/.test(value);
@@ -0,0 +1,17 @@
+// Floats in [0, 1), like Math.random
+export type RandomSource = () => number;
+
+/**
+ * Seeded pseudo-random source (mulberry32) returning floats in [0, 1).
+ * The same seed always yields the same sequence.
+ */
+export function createSeededRandom(seed: number): RandomSource {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
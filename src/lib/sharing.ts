@@ -0,0 +1,8 @@
+/**
+ * What a value shared by `claimants` claimants says about any two of them:
+ * the full `weight` for two, falling with the log of the count beyond that,
+ * so a device two claimants use links them far more than an IP fifty use.
+ */
+export function discountForSharing(weight: number, claimants: number): number {
+  return claimants <= 2 ? weight : weight / Math.log2(claimants);
+}
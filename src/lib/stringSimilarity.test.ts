@@ -0,0 +1,29 @@
+import { describe, expect, it } from 'vitest';
+import { doubleMetaphone, jaroWinkler, levenshtein, levenshteinSimilarity, soundex } from './stringSimilarity';
+
+describe('stringSimilarity', () => {
+  it('counts edits', () => {
+    expect(levenshtein('kitten', 'sitting')).toBe(3);
+    expect(levenshteinSimilarity('', '')).toBe(1);
+    expect(levenshteinSimilarity('abcd', 'abce')).toBe(0.75);
+  });
+
+  it('scores transpositions and shared prefixes with Jaro-Winkler', () => {
+    expect(jaroWinkler('MARTHA', 'MARHTA')).toBeCloseTo(0.961, 3);
+    expect(jaroWinkler('abc', '')).toBe(0);
+  });
+
+  it('codes names by Soundex', () => {
+    expect(soundex('Robert')).toBe('R163');
+    expect(soundex('Rupert')).toBe('R163');
+    // H does not separate the S and C
+    expect(soundex('Ashcraft')).toBe('A261');
+    expect(soundex('123')).toBe('');
+  });
+
+  it('gives names that sound alike a shared Double Metaphone code', () => {
+    expect(doubleMetaphone('Smith')).toContain('XMT');
+    expect(doubleMetaphone('Schmidt')).toContain('XMT');
+    expect(doubleMetaphone('Thomas')).toEqual(['TMS', 'TMS']);
+  });
+});
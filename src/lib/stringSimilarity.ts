@@ -0,0 +1,463 @@
+// Edit distance: insertions, deletions and substitutions to turn a into b
+export function levenshtein(a: string, b: string): number {
+  if (a === b) return 0;
+  if (!a.length) return b.length;
+  if (!b.length) return a.length;
+
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+// 1 for identical strings, 0 for nothing in common, relative to the longer
+export function levenshteinSimilarity(a: string, b: string): number {
+  const longest = Math.max(a.length, b.length);
+  return longest === 0 ? 1 : 1 - levenshtein(a, b) / longest;
+}
+
+/**
+ * Jaro-Winkler similarity, 0-1. Suited to short strings such as names:
+ * transpositions cost little and a shared prefix counts extra.
+ */
+export function jaroWinkler(a: string, b: string): number {
+  if (a === b) return 1;
+  if (!a.length || !b.length) return 0;
+
+  const window = Math.max(0, Math.floor(Math.max(a.length, b.length) / 2) - 1);
+  const aMatched = new Array<boolean>(a.length).fill(false);
+  const bMatched = new Array<boolean>(b.length).fill(false);
+
+  let matches = 0;
+  for (let i = 0; i < a.length; i++) {
+    const start = Math.max(0, i - window);
+    const end = Math.min(b.length - 1, i + window);
+    for (let j = start; j <= end; j++) {
+      if (bMatched[j] || a[i] !== b[j]) continue;
+      aMatched[i] = bMatched[j] = true;
+      matches++;
+      break;
+    }
+  }
+  if (matches === 0) return 0;
+
+  let transpositions = 0;
+  let k = 0;
+  for (let i = 0; i < a.length; i++) {
+    if (!aMatched[i]) continue;
+    while (!bMatched[k]) k++;
+    if (a[i] !== b[k]) transpositions++;
+    k++;
+  }
+
+  const jaro = (matches / a.length + matches / b.length + (matches - transpositions / 2) / matches) / 3;
+  let prefix = 0;
+  while (prefix < 4 && prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) prefix++;
+  return jaro + prefix * 0.1 * (1 - jaro);
+}
+
+const SOUNDEX_CODES: Record<string, string> = {
+  B: '1', F: '1', P: '1', V: '1',
+  C: '2', G: '2', J: '2', K: '2', Q: '2', S: '2', X: '2', Z: '2',
+  D: '3', T: '3',
+  L: '4',
+  M: '5', N: '5',
+  R: '6'
+};
+
+// American Soundex, e.g. "Robert" and "Rupert" are both R163; empty for no letters
+export function soundex(text: string): string {
+  const letters = text.toUpperCase().replace(/[^A-Z]/g, '');
+  if (!letters) return '';
+
+  let code = letters[0];
+  let last = SOUNDEX_CODES[letters[0]] ?? '';
+  for (const letter of letters.slice(1)) {
+    const digit = SOUNDEX_CODES[letter] ?? '';
+    if (digit && digit !== last) code += digit;
+    // H and W do not separate letters with the same code; vowels do
+    if (letter !== 'H' && letter !== 'W') last = digit;
+    if (code.length === 4) break;
+  }
+  return code.padEnd(4, '0');
+}
+
+const DM_VOWELS = 'AEIOUY';
+const DM_MAX_LENGTH = 4;
+
+/**
+ * Double Metaphone (Lawrence Philips): a primary and an alternate code for
+ * how a name may be pronounced, so "Smith" and "Schmidt" share XMT and
+ * "Thomas" and "Tomas" share TMS. Names match phonetically when any of
+ * their codes are equal.
+ */
+export function doubleMetaphone(text: string): [string, string] {
+  const word = text.toUpperCase().replace(/[^A-Z]/g, '');
+  const length = word.length;
+  const last = length - 1;
+  if (!length) return ['', ''];
+
+  const at = (i: number) => (i >= 0 && i < length ? word[i] : '');
+  const isVowel = (i: number) => DM_VOWELS.includes(at(i)) && at(i) !== '';
+  const stringAt = (start: number, size: number, ...options: string[]) =>
+    start >= 0 && options.includes(word.slice(start, start + size));
+  const slavoGermanic = /W|K|CZ|WITZ/.test(word);
+  const germanic = stringAt(0, 3, 'VAN', 'VON', 'SCH');
+
+  let primary = '';
+  let alternate = '';
+  const add = (main: string, other: string = main) => {
+    primary += main;
+    alternate += other;
+  };
+
+  let current = 0;
+  // Silent first letters
+  if (stringAt(0, 2, 'GN', 'KN', 'PN', 'WR', 'PS')) current++;
+  if (word[0] === 'X') {
+    add('S');
+    current++;
+  }
+
+  while ((primary.length < DM_MAX_LENGTH || alternate.length < DM_MAX_LENGTH) && current < length) {
+    const letter = word[current];
+    const next = at(current + 1);
+
+    switch (letter) {
+      case 'A': case 'E': case 'I': case 'O': case 'U': case 'Y':
+        if (current === 0) add('A');
+        current++;
+        break;
+
+      case 'B':
+        add('P');
+        current += next === 'B' ? 2 : 1;
+        break;
+
+      case 'C':
+        if (current > 1 && !isVowel(current - 2) && stringAt(current - 1, 3, 'ACH') &&
+            at(current + 2) !== 'I' && (at(current + 2) !== 'E' || stringAt(current - 2, 6, 'BACHER', 'MACHER'))) {
+          add('K');
+          current += 2;
+        } else if (current === 0 && stringAt(current, 6, 'CAESAR')) {
+          add('S');
+          current += 2;
+        } else if (stringAt(current, 4, 'CHIA')) {
+          add('K');
+          current += 2;
+        } else if (next === 'H') {
+          if (current > 0 && stringAt(current, 4, 'CHAE')) {
+            add('K', 'X');
+          } else if (current === 0 && (stringAt(current + 1, 5, 'HARAC', 'HARIS') ||
+              stringAt(current + 1, 3, 'HOR', 'HYM', 'HIA', 'HEM')) && !stringAt(0, 5, 'CHORE')) {
+            add('K');
+          } else if (germanic || stringAt(current - 2, 6, 'ORCHES', 'ARCHIT', 'ORCHID') ||
+              stringAt(current + 2, 1, 'T', 'S') ||
+              ((current === 0 || stringAt(current - 1, 1, 'A', 'O', 'U', 'E')) &&
+                (current + 2 >= length || stringAt(current + 2, 1, 'L', 'R', 'N', 'M', 'B', 'H', 'F', 'V', 'W')))) {
+            add('K');
+          } else if (current > 0) {
+            add(stringAt(0, 2, 'MC') ? 'K' : 'X', 'K');
+          } else {
+            add('X');
+          }
+          current += 2;
+        } else if (next === 'Z' && !stringAt(current - 2, 4, 'WICZ')) {
+          add('S', 'X');
+          current += 2;
+        } else if (stringAt(current + 1, 3, 'CIA')) {
+          add('X');
+          current += 3;
+        } else if (next === 'C' && !(current === 1 && word[0] === 'M')) {
+          if (stringAt(current + 2, 1, 'I', 'E', 'H') && !stringAt(current + 2, 2, 'HU')) {
+            add((current === 1 && word[0] === 'A') || stringAt(current - 1, 5, 'UCCEE', 'UCCES') ? 'KS' : 'X');
+            current += 3;
+          } else {
+            add('K');
+            current += 2;
+          }
+        } else if (stringAt(current, 2, 'CK', 'CG', 'CQ')) {
+          add('K');
+          current += 2;
+        } else if (stringAt(current, 2, 'CI', 'CE', 'CY')) {
+          add('S', stringAt(current, 3, 'CIO', 'CIE', 'CIA') ? 'X' : 'S');
+          current += 2;
+        } else {
+          add('K');
+          current += stringAt(current + 1, 1, 'C', 'K', 'Q') && !stringAt(current + 1, 2, 'CE', 'CI') ? 2 : 1;
+        }
+        break;
+
+      case 'D':
+        if (next === 'G') {
+          if (stringAt(current + 2, 1, 'I', 'E', 'Y')) {
+            add('J');
+            current += 3;
+          } else {
+            add('TK');
+            current += 2;
+          }
+        } else {
+          add('T');
+          current += next === 'T' || next === 'D' ? 2 : 1;
+        }
+        break;
+
+      case 'F':
+        add('F');
+        current += next === 'F' ? 2 : 1;
+        break;
+
+      case 'G':
+        if (next === 'H') {
+          if (current > 0 && !isVowel(current - 1)) {
+            add('K');
+          } else if (current === 0) {
+            add(at(current + 2) === 'I' ? 'J' : 'K');
+          } else if (stringAt(current - 2, 1, 'B', 'H', 'D') || stringAt(current - 3, 1, 'B', 'H', 'D') ||
+              stringAt(current - 4, 1, 'B', 'H')) {
+            // Silent, as in "Hugh" and "bough"
+          } else if (current > 2 && at(current - 1) === 'U' && stringAt(current - 3, 1, 'C', 'G', 'L', 'R', 'T')) {
+            add('F');
+          } else if (at(current - 1) !== 'I') {
+            add('K');
+          }
+          current += 2;
+        } else if (next === 'N') {
+          if (current === 1 && isVowel(0) && !slavoGermanic) {
+            add('KN', 'N');
+          } else if (!stringAt(current + 2, 2, 'EY') && !slavoGermanic) {
+            add('N', 'KN');
+          } else {
+            add('KN');
+          }
+          current += 2;
+        } else if (stringAt(current + 1, 2, 'LI') && !slavoGermanic) {
+          add('KL', 'L');
+          current += 2;
+        } else if (current === 0 && (next === 'Y' ||
+            stringAt(current + 1, 2, 'ES', 'EP', 'EB', 'EL', 'EY', 'IB', 'IL', 'IN', 'IE', 'EI', 'ER'))) {
+          add('K', 'J');
+          current += 2;
+        } else if ((stringAt(current + 1, 2, 'ER') || next === 'Y') && !stringAt(0, 6, 'DANGER', 'RANGER', 'MANGER') &&
+            !stringAt(current - 1, 1, 'E', 'I') && !stringAt(current - 1, 3, 'RGY', 'OGY')) {
+          add('K', 'J');
+          current += 2;
+        } else if (stringAt(current + 1, 1, 'E', 'I', 'Y') || stringAt(current - 1, 4, 'AGGI', 'OGGI')) {
+          if (germanic || stringAt(current + 1, 2, 'ET')) {
+            add('K');
+          } else if (stringAt(current + 1, 3, 'IER') && current + 3 === length) {
+            add('J');
+          } else {
+            add('J', 'K');
+          }
+          current += 2;
+        } else {
+          add('K');
+          current += next === 'G' ? 2 : 1;
+        }
+        break;
+
+      case 'H':
+        // Only sounded between vowels or at the start before one
+        if ((current === 0 || isVowel(current - 1)) && isVowel(current + 1)) {
+          add('H');
+          current += 2;
+        } else {
+          current++;
+        }
+        break;
+
+      case 'J':
+        if (stringAt(current, 4, 'JOSE') || stringAt(0, 3, 'SAN')) {
+          if ((current === 0 && current + 4 === length) || stringAt(0, 3, 'SAN')) {
+            add('H');
+          } else {
+            add('J', 'H');
+          }
+          current++;
+          break;
+        }
+        if (current === 0) {
+          add('J', 'A');
+        } else if (isVowel(current - 1) && !slavoGermanic && (next === 'A' || next === 'O')) {
+          add('J', 'H');
+        } else if (current === last) {
+          add('J', '');
+        } else if (!stringAt(current + 1, 1, 'L', 'T', 'K', 'S', 'N', 'M', 'B', 'Z') && !stringAt(current - 1, 1, 'S', 'K', 'L')) {
+          add('J');
+        }
+        current += next === 'J' ? 2 : 1;
+        break;
+
+      case 'K':
+        add('K');
+        current += next === 'K' ? 2 : 1;
+        break;
+
+      case 'L':
+        if (next === 'L') {
+          // Spanish "ll", as in "Cabrillo", has no L sound
+          if ((current === length - 3 && stringAt(current - 1, 4, 'ILLO', 'ILLA', 'ALLE')) ||
+              ((stringAt(last - 1, 2, 'AS', 'OS') || stringAt(last, 1, 'A', 'O')) && stringAt(current - 1, 4, 'ALLE'))) {
+            add('L', '');
+          } else {
+            add('L');
+          }
+          current += 2;
+        } else {
+          add('L');
+          current++;
+        }
+        break;
+
+      case 'M':
+        add('M');
+        current += (stringAt(current - 1, 3, 'UMB') && (current + 1 === last || stringAt(current + 2, 2, 'ER'))) ||
+          next === 'M' ? 2 : 1;
+        break;
+
+      case 'N':
+        add('N');
+        current += next === 'N' ? 2 : 1;
+        break;
+
+      case 'P':
+        if (next === 'H') {
+          add('F');
+          current += 2;
+        } else {
+          add('P');
+          current += next === 'P' || next === 'B' ? 2 : 1;
+        }
+        break;
+
+      case 'Q':
+        add('K');
+        current += next === 'Q' ? 2 : 1;
+        break;
+
+      case 'R':
+        // French final "-ier", as in "Rogier", may drop the R
+        if (current === last && !slavoGermanic && stringAt(current - 2, 2, 'IE') && !stringAt(current - 4, 2, 'ME', 'MA')) {
+          add('', 'R');
+        } else {
+          add('R');
+        }
+        current += next === 'R' ? 2 : 1;
+        break;
+
+      case 'S':
+        if (stringAt(current - 1, 3, 'ISL', 'YSL')) {
+          current++;
+        } else if (current === 0 && stringAt(current, 5, 'SUGAR')) {
+          add('X', 'S');
+          current++;
+        } else if (next === 'H') {
+          add(stringAt(current + 1, 4, 'HEIM', 'HOEK', 'HOLM', 'HOLZ') ? 'S' : 'X');
+          current += 2;
+        } else if (stringAt(current, 3, 'SIO', 'SIA')) {
+          add('S', slavoGermanic ? 'S' : 'X');
+          current += 3;
+        } else if ((current === 0 && stringAt(current + 1, 1, 'M', 'N', 'L', 'W')) || next === 'Z') {
+          add('S', 'X');
+          current += next === 'Z' ? 2 : 1;
+        } else if (next === 'C') {
+          if (at(current + 2) === 'H') {
+            if (stringAt(current + 3, 2, 'OO', 'ER', 'EN', 'UY', 'ED', 'EM')) {
+              add(stringAt(current + 3, 2, 'ER', 'EN') ? 'X' : 'SK', 'SK');
+            } else if (current === 0 && !isVowel(3) && at(3) !== 'W') {
+              add('X', 'S');
+            } else {
+              add('X');
+            }
+          } else {
+            add(stringAt(current + 2, 1, 'I', 'E', 'Y') ? 'S' : 'SK');
+          }
+          current += 3;
+        } else {
+          // French final S, as in "Dubois", is silent
+          if (current === last && stringAt(current - 2, 2, 'AI', 'OI')) {
+            add('', 'S');
+          } else {
+            add('S');
+          }
+          current += next === 'S' || next === 'Z' ? 2 : 1;
+        }
+        break;
+
+      case 'T':
+        if (stringAt(current, 4, 'TION') || stringAt(current, 3, 'TIA', 'TCH')) {
+          add('X');
+          current += 3;
+        } else if (next === 'H' || stringAt(current, 3, 'TTH')) {
+          add(stringAt(current + 2, 2, 'OM', 'AM') || germanic ? 'T' : '0', 'T');
+          current += 2;
+        } else {
+          add('T');
+          current += next === 'T' || next === 'D' ? 2 : 1;
+        }
+        break;
+
+      case 'V':
+        add('F');
+        current += next === 'V' ? 2 : 1;
+        break;
+
+      case 'W':
+        if (next === 'R') {
+          add('R');
+          current += 2;
+          break;
+        }
+        if (current === 0 && (isVowel(current + 1) || next === 'H')) {
+          add('A', isVowel(current + 1) ? 'F' : 'A');
+        }
+        // Polish "-ewski" and German "Sch-" names may sound the W as F
+        if ((current === last && isVowel(current - 1)) ||
+            stringAt(current - 1, 5, 'EWSKI', 'EWSKY', 'OWSKI', 'OWSKY') || stringAt(0, 3, 'SCH')) {
+          add('', 'F');
+          current++;
+        } else if (stringAt(current, 4, 'WICZ', 'WITZ')) {
+          add('TS', 'FX');
+          current += 4;
+        } else {
+          current++;
+        }
+        break;
+
+      case 'X':
+        // French final X, as in "Breaux", is silent
+        if (!(current === last && (stringAt(current - 3, 3, 'IAU', 'EAU') || stringAt(current - 2, 2, 'AU', 'OU')))) {
+          add('KS');
+        }
+        current += next === 'C' || next === 'X' ? 2 : 1;
+        break;
+
+      case 'Z':
+        if (next === 'H') {
+          add('J');
+          current += 2;
+        } else {
+          if (stringAt(current + 1, 2, 'ZO', 'ZI', 'ZA') || (slavoGermanic && current > 0 && at(current - 1) !== 'T')) {
+            add('S', 'TS');
+          } else {
+            add('S');
+          }
+          current += next === 'Z' ? 2 : 1;
+        }
+        break;
+
+      default:
+        current++;
+    }
+  }
+
+  return [primary.slice(0, DM_MAX_LENGTH), alternate.slice(0, DM_MAX_LENGTH)];
+}
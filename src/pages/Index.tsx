@@ -1,5 +1,5 @@
 
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
@@ -14,34 +14,87 @@ import {
   AlertTriangle,
   TrendingUp,
   Download,
-  FileText
+  FileText,
+  Database,
+  Cpu,
+  Scale,
+  Network
 } from 'lucide-react';
 
 import { FileUpload } from '../components/FileUpload';
 import { HuggingFaceSetup } from '../components/HuggingFaceSetup';
+import { ModelSettingsDialog } from '../components/ModelSettingsDialog';
+import { EnsembleSettingsDialog } from '../components/EnsembleSettingsDialog';
 import { StatsCards } from '../components/dashboard/StatsCards';
 import { RiskDistributionChart } from '../components/dashboard/RiskDistributionChart';
 import { ClaimsTable } from '../components/dashboard/ClaimsTable';
 import { AnalyticsPanel } from '../components/dashboard/AnalyticsPanel';
+import { DataQualityPanel } from '../components/dashboard/DataQualityPanel';
+import { FraudRingsPanel } from '../components/dashboard/FraudRingsPanel';
 import { AIInsightsPanel } from '../components/AIInsightsPanel';
 import AdvancedAnalytics from '../components/analytics/AdvancedAnalytics';
 import PerformanceMetrics from '../components/analytics/PerformanceMetrics';
 
 import { EnterpriseFraudAnalyzer } from '../services/EnterpriseeFraudAnalyzer';
-import { RealTimeRiskScoring } from '../services/RealTimeRiskScoring';
-import { PatternDetectionEngine } from '../services/PatternDetectionEngine';
-import { ClaimData, AnalyzedClaim, DashboardStats } from '../types/fraud';
-import { RiskAssessmentResult } from '../types/enterprise';
+import { ScoringResultAdapter } from '../services/scoringResultAdapter';
+import {
+  EnterpriseClaimRow,
+  AnalyzedClaim,
+  DashboardStats,
+  ValidationReport,
+  ColumnMapping,
+  ImportOptions,
+  MergeReport,
+  DataQualityProfile,
+  BatchJobProgress,
+  BatchCheckpointSummary
+} from '../types/fraud';
+import { FraudRing, RiskAssessmentResult } from '../types/enterprise';
+import { CSVParser, CSVStreamProgress } from '../services/csvParser';
+import { ClaimValidator } from '../services/claimValidator';
+import { EnterpriseClaimSchema } from '../services/enterpriseClaimSchema';
+import { ClaimDatasetMerger, MergeBatch } from '../services/claimDatasetMerger';
+import { DataQualityProfileBuilder, DataQualityProfiler } from '../services/dataQualityProfiler';
+import { ValidationReportPanel } from '../components/ValidationReportPanel';
+import { MergeReportPanel } from '../components/MergeReportPanel';
+import { BatchJobPanel, ResumeJobPanel } from '../components/BatchJobPanel';
+import { BatchJobManager } from '../services/batchJobManager';
+import { BatchCheckpointStore } from '../services/batchCheckpointStore';
+import { ClaimHistoryStore } from '../services/claimHistoryStore';
+import { ScoreCalibration, isFlagged } from '../services/scoreCalibration';
+import { ScoringEnsemble } from '../services/scoringEnsemble';
+import { downloadFile } from '@/lib/utils';
+
+const formatMegabytes = (bytes: number) => `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+
+// One row per Claim_ID, the last given for each winning
+const latestByClaimId = <T extends EnterpriseClaimRow>(rows: T[]): T[] =>
+  Array.from(new Map(rows.map(row => [row.Claim_ID, row] as const)).values());
+
+const DEFAULT_IMPORT_OPTIONS: ImportOptions = { policy: 'KEEP_FIRST', append: false };
 
 const Index = () => {
-  const [claims, setClaims] = useState<ClaimData[]>([]);
   const [analyzedClaims, setAnalyzedClaims] = useState<AnalyzedClaim[]>([]);
   const [isAnalyzing, setIsAnalyzing] = useState(false);
   const [analysisProgress, setAnalysisProgress] = useState(0);
+  const [streamProgress, setStreamProgress] = useState<CSVStreamProgress | null>(null);
+  // Validation report for streamed imports, which never pass through FileUpload's review step
+  const [importReport, setImportReport] = useState<ValidationReport | null>(null);
+  const [mergeReport, setMergeReport] = useState<MergeReport | null>(null);
+  const [showUpload, setShowUpload] = useState(false);
+  // One profile per uploaded batch, most recent first; kept across imports
+  const [dataQualityProfiles, setDataQualityProfiles] = useState<DataQualityProfile[]>([]);
+  // Riskiest first; detected again once each analysis finishes
+  const [fraudRings, setFraudRings] = useState<FraudRing[]>([]);
   const [isHuggingFaceConfigured, setIsHuggingFaceConfigured] = useState(false);
+  const [showModelSettings, setShowModelSettings] = useState(false);
+  const [showEnsembleSettings, setShowEnsembleSettings] = useState(false);
   const [enterpriseAnalyzer] = useState(() => new EnterpriseFraudAnalyzer());
-  const [realTimeScoring] = useState(() => new RealTimeRiskScoring());
-  const [patternEngine] = useState(() => new PatternDetectionEngine());
+  const [batchProgress, setBatchProgress] = useState<BatchJobProgress | null>(null);
+  const [batchConcurrency, setBatchConcurrency] = useState(() => BatchJobManager.loadOptions().concurrency);
+  // A run left unfinished by a reload, offered for resuming
+  const [interruptedJob, setInterruptedJob] = useState<BatchCheckpointSummary | null>(null);
+  const activeJob = useRef<BatchJobManager<EnterpriseClaimRow, AnalyzedClaim> | null>(null);
   const [dashboardStats, setDashboardStats] = useState<DashboardStats>({
     total_claims: 0,
     low_risk: 0,
@@ -52,10 +105,250 @@ const Index = () => {
     total_flagged: 0
   });
 
-  const handleDataLoaded = async (data: ClaimData[]) => {
-    setClaims(data);
+  const analyzeRow = async (legacyClaim: EnterpriseClaimRow): Promise<AnalyzedClaim> => {
+    const result = await enterpriseAnalyzer.scoreClaim(legacyClaim);
+    return {
+      ...legacyClaim,
+      analysis: ScoringResultAdapter.toFraudAnalysis(result)
+    };
+  };
+
+  // Claims from earlier sessions, for cross-matching
+  useEffect(() => {
+    ClaimHistoryStore.loadAll()
+      .then(entries => enterpriseAnalyzer.getScoringEnvironment().history.restore(entries))
+      .catch(error => console.warn('Failed to load claim history:', error));
+  }, [enterpriseAnalyzer]);
+
+  // Index claims for history lookups, and keep them for later sessions to match against
+  const indexClaims = (rows: EnterpriseClaimRow[]) => {
+    enterpriseAnalyzer.indexClaims(rows);
+    ClaimHistoryStore.append(enterpriseAnalyzer.getScoringEnvironment().history.sessionEntries())
+      .catch(error => console.warn('Failed to save claim history:', error));
+  };
+
+  // Offer to resume a run that a reload interrupted
+  useEffect(() => {
+    BatchCheckpointStore.latest()
+      .then(setInterruptedJob)
+      .catch(error => console.warn('Failed to read analysis checkpoint:', error));
+  }, []);
+
+  /**
+   * A batch job that analyzes claims concurrently, pausably, and checkpointed
+   * as it goes so a reload can resume it
+   */
+  const createAnalysisJob = (jobId: string, onAnalyzed: (analyzed: AnalyzedClaim[]) => void) => {
+    const job = new BatchJobManager<EnterpriseClaimRow, AnalyzedClaim>(jobId, {
+      itemId: row => row.Claim_ID,
+      process: analyzeRow,
+      onResults: (analyzed, progress) => {
+        if (analyzed.length > 0) onAnalyzed(analyzed);
+        setBatchProgress(progress);
+      },
+      onCheckpoint: (analyzed, progress) => BatchCheckpointStore.append(
+        jobId,
+        analyzed,
+        progress.completed,
+        enterpriseAnalyzer.getScoringEnvironment().clock
+      )
+    }, { ...BatchJobManager.loadOptions(), concurrency: batchConcurrency });
+
+    activeJob.current = job;
+    return job;
+  };
+
+  // Analyze claims as a batch job; `completedBefore` counts claims a resumed run already finished
+  const runAnalysisJob = (
+    jobId: string,
+    rows: EnterpriseClaimRow[],
+    onAnalyzed: (analyzed: AnalyzedClaim[]) => void,
+    completedBefore = 0
+  ) => createAnalysisJob(jobId, onAnalyzed).run(rows, completedBefore);
+
+  // Report how a run ended; the checkpoint is only needed while it runs
+  const settleAnalysisJob = async (progress: BatchJobProgress) => {
+    if (progress.status === 'CANCELLED') {
+      toast.info(`Analysis cancelled after ${progress.completed} of ${progress.total} claims`);
+    } else if (progress.failures.length > 0) {
+      toast.warning(`${progress.failures.length} claims could not be analyzed. Retry them from the analysis panel.`);
+    } else {
+      toast.success(`Analysis complete! Processed ${progress.total} claims`);
+    }
+
+    if (progress.failures.length === 0) {
+      setBatchProgress(null);
+    }
+    await BatchCheckpointStore.clear().catch(error => console.warn('Failed to clear analysis checkpoint:', error));
+  };
+
+  const handleRetryFailed = async () => {
+    const job = activeJob.current;
+    if (!job) return;
+
+    setIsAnalyzing(true);
+    try {
+      await settleAnalysisJob(await job.retryFailed());
+    } finally {
+      setIsAnalyzing(false);
+    }
+  };
+
+  const handleConcurrencyChange = (concurrency: number) => {
+    setBatchConcurrency(concurrency);
+    activeJob.current?.setConcurrency(concurrency);
+    BatchJobManager.saveOptions({ ...BatchJobManager.loadOptions(), concurrency });
+  };
+
+  const handleResumeJob = async () => {
+    const summary = interruptedJob;
+    if (!summary) return;
+    setInterruptedJob(null);
+
+    const checkpoint = await BatchCheckpointStore.load<EnterpriseClaimRow, AnalyzedClaim>(summary.jobId)
+      .catch(error => {
+        console.error('Failed to load analysis checkpoint:', error);
+        return null;
+      });
+    if (!checkpoint) {
+      toast.error('The interrupted analysis could not be loaded');
+      return;
+    }
+
+    // A streamed file can send a claim again, to replace it or to score it
+    // against the whole file's patterns; the last copy stands
+    const items = latestByClaimId(checkpoint.items);
+    const results = latestByClaimId<AnalyzedClaim>(checkpoint.results);
+    resetAnalysis();
+    enterpriseAnalyzer.getScoringEnvironment().history.clear();
+    indexClaims(items);
+    setAnalyzedClaims(results);
+    const done = new Set(results.map(claim => claim.Claim_ID));
+    toast.info(`Resuming analysis at claim ${done.size + 1} of ${items.length}`);
+
+    setIsAnalyzing(true);
+    try {
+      const progress = await runAnalysisJob(
+        summary.jobId,
+        items.filter(row => !done.has(row.Claim_ID)),
+        analyzed => setAnalyzedClaims(prev => prev.concat(analyzed)),
+        done.size
+      );
+      await settleAnalysisJob(progress);
+    } catch (error) {
+      console.error('Analysis error:', error);
+      toast.error('Failed to analyze claims. Please try again.');
+    } finally {
+      setIsAnalyzing(false);
+    }
+  };
+
+  const handleDiscardJob = () => {
+    setInterruptedJob(null);
+    BatchCheckpointStore.clear().catch(error => console.warn('Failed to clear analysis checkpoint:', error));
+  };
+
+  const resetAnalysis = () => {
     setAnalyzedClaims([]);
     setAnalysisProgress(0);
+    setStreamProgress(null);
+    setImportReport(null);
+    setMergeReport(null);
+    setBatchProgress(null);
+  };
+
+  /**
+   * Clear or keep the current dataset, and return a merger that reconciles
+   * incoming claims against whatever was kept.
+   */
+  const startImport = (options: ImportOptions) => {
+    setShowUpload(false);
+    if (options.append) {
+      setAnalysisProgress(0);
+      setImportReport(null);
+      setMergeReport(null);
+    } else {
+      resetAnalysis();
+      // A fresh import is scored against its own claims only
+      enterpriseAnalyzer.getScoringEnvironment().history.clear();
+    }
+    return new ClaimDatasetMerger(options.policy, options.append ? analyzedClaims : []);
+  };
+
+  // Fold analyzed claims from a merge batch into the dataset
+  const applyMergedClaims = (analyzed: AnalyzedClaim[], batch: MergeBatch) => {
+    const replacedIds = new Set(batch.replaced.map(claim => claim.Claim_ID));
+    setAnalyzedClaims(prev =>
+      ClaimDatasetMerger.applyBatch(
+        prev,
+        analyzed.filter(claim => replacedIds.has(claim.Claim_ID)),
+        batch.conflicts
+      ).concat(analyzed.filter(claim => !replacedIds.has(claim.Claim_ID)))
+    );
+  };
+
+  const finishMerge = (merger: ClaimDatasetMerger) => {
+    const report = merger.report;
+    if (report.duplicateCount > 0) {
+      toast.warning(`${report.duplicateCount} duplicate Claim_IDs found, ${report.conflictCount} with conflicting values`);
+      setMergeReport(report);
+    }
+  };
+
+  /**
+   * Record an upload's data quality profile and raise a DATA_QUALITY alert
+   * for every threshold it breaches.
+   */
+  const reportDataQuality = async (profile: DataQualityProfile) => {
+    try {
+      profile.alertIds = await DataQualityProfiler.raiseAlerts(profile, enterpriseAnalyzer.getCaseManagementService());
+      setDataQualityProfiles(prev => [profile, ...prev]);
+      if (profile.issues.length > 0) {
+        toast.warning(`${profile.issues.length} data quality issues found. See the Data Quality tab.`);
+      }
+    } catch (error) {
+      console.error('Data quality profiling error:', error);
+    }
+  };
+
+  const handleDataLoaded = (data: EnterpriseClaimRow[], options: ImportOptions = DEFAULT_IMPORT_OPTIONS) => {
+    const analysis = analyzeDataset(data, options);
+    reportDataQuality(DataQualityProfiler.profile(data, enterpriseAnalyzer.getScoringEnvironment().clock));
+    return analysis;
+  };
+
+  /**
+   * Analyze the claims a merge added or replaced as a checkpointed batch
+   * job, once they are all indexed
+   */
+  const runImportJob = async (batch: MergeBatch) => {
+    const toAnalyze = batch.added.concat(batch.replaced);
+    // Conflicts can flag claims that are already loaded
+    applyMergedClaims([], batch);
+    // History lookups should see the whole file, not just earlier batches
+    indexClaims(toAnalyze);
+
+    const now = enterpriseAnalyzer.getScoringEnvironment().clock.now();
+    const jobId = `JOB_${now.getTime()}`;
+    const sources = Array.from(new Set(toAnalyze.map(row => row.Source_File).filter(Boolean)));
+    await BatchCheckpointStore.start({
+      jobId,
+      label: sources.join(', ') || 'Claims dataset',
+      startedAt: now.toISOString(),
+      updatedAt: now.toISOString(),
+      total: toAnalyze.length,
+      completed: 0
+    }, toAnalyze).catch(error => console.warn('Analysis will not be resumable:', error));
+    setInterruptedJob(null);
+
+    // Results arrive in throttled batches rather than one state copy per claim
+    const progress = await runAnalysisJob(jobId, toAnalyze, analyzed => applyMergedClaims(analyzed, batch));
+    await settleAnalysisJob(progress);
+  };
+
+  const analyzeDataset = async (data: EnterpriseClaimRow[], options: ImportOptions) => {
+    const merger = startImport(options);
+    const batch = merger.merge(data);
     
     toast.success(`Successfully loaded ${data.length} claims`);
     
@@ -63,55 +356,8 @@ const Index = () => {
     setIsAnalyzing(true);
     
     try {
-      const analyses: AnalyzedClaim[] = [];
-      
-      for (let i = 0; i < data.length; i++) {
-        const legacyClaim = data[i];
-        
-        // Convert legacy data to enterprise format
-        const { claim, claimant, employer, contextData } = enterpriseAnalyzer.convertLegacyToEnterprise(legacyClaim);
-        
-        // Perform enterprise fraud analysis
-        const riskAssessment: RiskAssessmentResult = await enterpriseAnalyzer.analyzeClaimEnterprise(
-          claim, 
-          claimant, 
-          employer, 
-          contextData
-        );
-        
-        // Convert back to legacy format for UI compatibility
-        const analysis = {
-          claim_id: riskAssessment.claimId,
-          fraud_score: riskAssessment.overallRiskScore / 1000, // Normalize to 0-1 scale
-          fraud_label: (riskAssessment.riskLevel === 'CRITICAL' ? 'Severe' : 
-                       riskAssessment.riskLevel === 'HIGH' ? 'High' :
-                       riskAssessment.riskLevel === 'MEDIUM' ? 'Medium' : 'Low') as 'Low' | 'Medium' | 'High' | 'Severe',
-          explanation: riskAssessment.riskFactors.map(f => f.description).join('; '),
-          flags: riskAssessment.riskFactors.map(f => f.factorName),
-          recommendation: riskAssessment.recommendedActions.join('; '),
-          confidence: riskAssessment.confidenceScore,
-          analyzed_at: riskAssessment.assessmentDate
-        };
-        
-        const analyzedClaim: AnalyzedClaim = {
-          ...legacyClaim,
-          analysis,
-          // Add enterprise fields for UI display
-          Identity_Verification_Status: contextData.identity_verification_status || 'PENDING',
-          Employer_Risk_Score: contextData.employer_risk_score || '0',
-          Geographic_Risk_Score: contextData.geographic_risk_score || '0',
-          Device_Fingerprint: contextData.device_fingerprint,
-          Financial_Institution_Risk_Level: contextData.financial_institution_risk
-        };
-        
-        analyses.push(analyzedClaim);
-        setAnalysisProgress(((i + 1) / data.length) * 100);
-        
-        // Update state incrementally for real-time feel
-        setAnalyzedClaims([...analyses]);
-      }
-      
-      toast.success(`Analysis complete! Processed ${data.length} claims`);
+      await runImportJob(batch);
+      finishMerge(merger);
     } catch (error) {
       console.error('Analysis error:', error);
       toast.error('Failed to analyze claims. Please try again.');
@@ -120,6 +366,157 @@ const Index = () => {
     }
   };
 
+  const handleFileStream = async (
+    file: File,
+    mapping: ColumnMapping | undefined,
+    options: ImportOptions = DEFAULT_IMPORT_OPTIONS
+  ) => {
+    const merger = startImport(options);
+    setIsAnalyzing(true);
+    toast.info(`Streaming ${file.name} (${formatMegabytes(file.size)})`);
+    let report = ClaimValidator.emptyReport();
+    // Profiled chunk by chunk, as the rows arrive
+    const quality = new DataQualityProfileBuilder(enterpriseAnalyzer.getScoringEnvironment().clock);
+
+    const now = enterpriseAnalyzer.getScoringEnvironment().clock.now();
+    const jobId = `JOB_${now.getTime()}`;
+    // The merge batch being analyzed, and every conflict flagged so far
+    let batch: MergeBatch = { added: [], replaced: [], conflicts: {} };
+    const conflicts: Record<string, string> = {};
+    // This file's claims as analyzed, for the pattern pass across all of them
+    const fromFile = new Map<string, AnalyzedClaim>();
+    const job = createAnalysisJob(jobId, analyzed => {
+      analyzed.forEach(claim => fromFile.set(claim.Claim_ID, claim));
+      applyMergedClaims(analyzed, batch);
+    });
+
+    // Analyze claims already indexed, finishing them before anything else
+    // is indexed: pattern scores are only kept for the latest batch
+    const analyzeIndexed = async (next: MergeBatch) => {
+      batch = next;
+      const toAnalyze = next.added.concat(next.replaced);
+      await BatchCheckpointStore.addItems(jobId, toAnalyze, enterpriseAnalyzer.getScoringEnvironment().clock)
+        .catch(error => console.warn('Failed to checkpoint streamed claims:', error));
+      job.enqueue(toAnalyze);
+      await job.drain();
+    };
+
+    try {
+      await BatchCheckpointStore.start({
+        jobId,
+        label: file.name,
+        startedAt: now.toISOString(),
+        updatedAt: now.toISOString(),
+        total: 0,
+        completed: 0
+      }, []).catch(error => console.warn('Analysis will not be resumable:', error));
+      setInterruptedJob(null);
+      const finished = job.stream();
+
+      // Chunks are validated as the worker reads them, and the worker waits
+      // for each to be analyzed before reading the next
+      const rowCount = await CSVParser.streamCSV(file, {
+        onBatch: async (rows, progress, batchReport) => {
+          report = ClaimValidator.mergeReports(report, batchReport);
+          const sourced = rows.map(row => ({ ...row, Source_File: file.name }));
+          quality.add(sourced);
+          setStreamProgress(progress);
+          setAnalysisProgress((progress.bytesRead / progress.totalBytes) * 100);
+          if (job.progress.status === 'CANCELLED') return;
+
+          const chunk = merger.merge(sourced);
+          Object.assign(conflicts, chunk.conflicts);
+          // Conflicts can flag claims that are already loaded
+          applyMergedClaims([], chunk);
+          indexClaims(chunk.added.concat(chunk.replaced));
+          await analyzeIndexed(chunk);
+        }
+      }, mapping);
+
+      if (report.rejectedCount > 0 || report.warnedCount > 0) {
+        toast.warning(`${report.rejectedCount} of ${rowCount} rows rejected, ${report.warnedCount} with warnings`);
+      }
+      // Complete once the file is read, so not held back by the analysis
+      await reportDataQuality(quality.finish());
+
+      // Patterns were detected a chunk at a time; claims whose score differs
+      // across the whole file are scored again, so scores do not depend on
+      // where the chunks happened to split
+      if (job.progress.status !== 'CANCELLED') {
+        const rescored = enterpriseAnalyzer.detectPatternsAcross(Array.from(fromFile.values()));
+        if (rescored.length > 0) {
+          await analyzeIndexed({ added: [], replaced: rescored.map(({ analysis, ...claim }) => claim), conflicts });
+        }
+      }
+      job.close();
+      await settleAnalysisJob(await finished);
+      finishMerge(merger);
+    } catch (error) {
+      job.cancel();
+      job.close();
+      BatchCheckpointStore.clear().catch(clearError => console.warn('Failed to clear analysis checkpoint:', clearError));
+      console.error('Streaming analysis error:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to analyze claims. Please try again.');
+    } finally {
+      setIsAnalyzing(false);
+      setStreamProgress(null);
+      if (report.rejectedCount > 0 || report.warnedCount > 0) {
+        setImportReport(report);
+      }
+    }
+  };
+
+  const handleReanalyze = () => {
+    // Same rows as before, so there is nothing new to profile
+    analyzeDataset(analyzedClaims.map(({ analysis, ...claim }) => claim), DEFAULT_IMPORT_OPTIONS);
+  };
+
+  // Refit the score calibration to claims whose outcome is known, then rescore
+  const handleCalibrate = () => {
+    const samples = analyzedClaims
+      .filter(claim => claim.Ground_Truth_Label)
+      .map(claim => ({
+        points: claim.analysis.risk_points,
+        fraud: claim.Ground_Truth_Label !== 'LEGITIMATE'
+      }));
+
+    try {
+      const calibration = ScoreCalibration.fit(samples);
+      ScoreCalibration.save(calibration);
+      enterpriseAnalyzer.getScoringEnvironment().calibration = calibration;
+      toast.success(`Score calibration fitted to ${samples.length} labeled claims`);
+      handleReanalyze();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Calibration failed');
+    }
+  };
+
+  // Learn the engine weights from claims whose outcome is known, then rescore
+  const handleLearnWeights = () => {
+    const environment = enterpriseAnalyzer.getScoringEnvironment();
+    const samples = analyzedClaims
+      .filter(claim => claim.Ground_Truth_Label)
+      .map(claim => ({
+        scores: {
+          rules: 0,
+          realtime: 0,
+          pattern: 0,
+          ...Object.fromEntries(claim.analysis.engine_scores.map(part => [part.engine, part.score]))
+        },
+        fraud: claim.Ground_Truth_Label !== 'LEGITIMATE'
+      }));
+
+    try {
+      const ensemble = ScoringEnsemble.fit(samples, environment.calibration);
+      ScoringEnsemble.save(ensemble);
+      environment.ensemble = ensemble;
+      toast.success(`Engine weights learned from ${samples.length} labeled claims`);
+      handleReanalyze();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Learning engine weights failed');
+    }
+  };
+
   const handleApiKeySet = (apiKey: string) => {
     if (apiKey) {
       enterpriseAnalyzer.setApiKey(apiKey);
@@ -132,21 +529,40 @@ const Index = () => {
   };
 
   const handleExportClaims = (claimsToExport: AnalyzedClaim[]) => {
-    const csvData = claimsToExport.map(claim => ({
+    const csvData = claimsToExport.map(({ analysis, Original_Values, ...claim }) => ({
       ...claim,
-      fraud_score: claim.analysis.fraud_score,
-      fraud_label: claim.analysis.fraud_label,
-      flags: claim.analysis.flags.join('; '),
-      recommendation: claim.analysis.recommendation,
-      explanation: claim.analysis.explanation
+      // List columns go back out pipe-delimited, as they came in
+      ...Object.fromEntries(
+        EnterpriseClaimSchema.columns
+          .filter(column => claim[column.name] !== undefined)
+          .map(column => [column.name, EnterpriseClaimSchema.toText(column, claim[column.name])])
+      ),
+      // As-submitted values sit alongside their normalized columns
+      ...Object.fromEntries(
+        Object.entries(Original_Values || {}).map(([field, value]) => [`Original_${field}`, value])
+      ),
+      fraud_score: analysis.fraud_score,
+      risk_points: analysis.risk_points,
+      ...Object.fromEntries(
+        (analysis.engine_scores || []).map(part => [`${part.engine}_score`, part.score])
+      ),
+      score_breakdown: (analysis.contributions || []).map(part => `${part.label}: ${part.points}`).join('; '),
+      fraud_label: analysis.fraud_label,
+      flags: analysis.flags.join('; '),
+      recommendation: analysis.recommendation,
+      explanation: analysis.explanation,
+      degraded: Boolean(analysis.degraded),
+      // Results analyzed before provenance was recorded have none
+      model_sources: (analysis.provenance || []).map(part => `${part.component}: ${part.source}`).join('; ')
     }));
 
-    const headers = Object.keys(csvData[0] || {});
+    // Enterprise columns are optional per row, so take the union of keys
+    const headers = Array.from(new Set(csvData.flatMap(row => Object.keys(row))));
     const csvContent = [
       headers.join(','),
       ...csvData.map(row => 
         headers.map(header => {
-          const value = (row as any)[header];
+          const value = (row as Record<string, unknown>)[header] ?? '';
           return typeof value === 'string' && value.includes(',') 
             ? `"${value.replace(/"/g, '""')}"` 
             : value;
@@ -154,19 +570,27 @@ const Index = () => {
       )
     ].join('\n');
 
-    const blob = new Blob([csvContent], { type: 'text/csv' });
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = `fraud_analysis_${new Date().toISOString().split('T')[0]}.csv`;
-    document.body.appendChild(a);
-    a.click();
-    document.body.removeChild(a);
-    URL.revokeObjectURL(url);
+    downloadFile(csvContent, `fraud_analysis_${new Date().toISOString().split('T')[0]}.csv`);
     
     toast.success('Analysis results exported successfully');
   };
 
+  // Rings span every claim in the history, so wait for the whole batch
+  useEffect(() => {
+    if (isAnalyzing || analyzedClaims.length === 0) return;
+    setFraudRings(enterpriseAnalyzer.getRingDetector().detect());
+  }, [analyzedClaims, isAnalyzing, enterpriseAnalyzer]);
+
+  const handleOpenRingCase = async (ringId: string) => {
+    try {
+      const fraudCase = await enterpriseAnalyzer.openRingCase(ringId, 'INVESTIGATOR');
+      setFraudRings(enterpriseAnalyzer.getRingDetector().getRings());
+      toast.success(`Case ${fraudCase.caseNumber} opened covering ${fraudCase.relatedClaimIds.length} claims`);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'The case could not be opened');
+    }
+  };
+
   // Update dashboard stats when analyzed claims change
   useEffect(() => {
     if (analyzedClaims.length > 0) {
@@ -175,7 +599,7 @@ const Index = () => {
           acc.total_claims++;
           acc.avg_fraud_score += claim.analysis.fraud_score;
           
-          if (claim.analysis.fraud_score > 0.5) {
+          if (isFlagged(claim.analysis)) {
             acc.total_flagged++;
           }
           
@@ -228,6 +652,20 @@ const Index = () => {
           </div>
           
           <div className="flex items-center space-x-4">
+            <Button variant="outline" size="sm" onClick={() => setShowModelSettings(true)}>
+              <Cpu className="h-4 w-4 mr-2" />
+              Models
+            </Button>
+            <Button variant="outline" size="sm" onClick={() => setShowEnsembleSettings(true)}>
+              <Scale className="h-4 w-4 mr-2" />
+              Engines
+            </Button>
+            {analyzedClaims.length > 0 && !isAnalyzing && (
+              <Button variant="outline" size="sm" onClick={() => setShowUpload(prev => !prev)}>
+                <Upload className="h-4 w-4 mr-2" />
+                Add Files
+              </Button>
+            )}
             {analyzedClaims.length > 0 && (
               <Button variant="outline" size="sm" onClick={() => handleExportClaims(analyzedClaims)}>
                 <Download className="h-4 w-4 mr-2" />
@@ -238,6 +676,20 @@ const Index = () => {
         </div>
       </header>
 
+      <ModelSettingsDialog
+        registry={enterpriseAnalyzer.getModelRegistry()}
+        isOpen={showModelSettings}
+        onClose={() => setShowModelSettings(false)}
+      />
+
+      <EnsembleSettingsDialog
+        environment={enterpriseAnalyzer.getScoringEnvironment()}
+        isOpen={showEnsembleSettings}
+        onClose={() => setShowEnsembleSettings(false)}
+        onSaved={() => analyzedClaims.length > 0 && handleReanalyze()}
+        onLearn={analyzedClaims.some(claim => claim.Ground_Truth_Label) ? handleLearnWeights : undefined}
+      />
+
       <main className="container mx-auto px-4 py-8 space-y-8">
         {/* Setup Section */}
         {!isHuggingFaceConfigured && (
@@ -248,20 +700,42 @@ const Index = () => {
         )}
 
         {/* File Upload Section */}
-        {isHuggingFaceConfigured && claims.length === 0 && (
+        {isHuggingFaceConfigured && (analyzedClaims.length === 0 || showUpload) && !isAnalyzing && (
           <div className="space-y-6">
             <div className="text-center space-y-2">
               <h2 className="text-2xl font-bold">Upload Claims Data</h2>
               <p className="text-muted-foreground">
-                Get started by uploading your unemployment insurance claims CSV file
+                Get started by uploading your unemployment insurance claims file (CSV, Excel, JSON or NDJSON)
               </p>
             </div>
-            <FileUpload onDataLoaded={handleDataLoaded} isLoading={isAnalyzing} />
+            <FileUpload 
+              onDataLoaded={handleDataLoaded} 
+              onFileStream={handleFileStream} 
+              isLoading={isAnalyzing} 
+              hasData={analyzedClaims.length > 0}
+            />
           </div>
         )}
 
-        {/* Analysis Progress */}
-        {isAnalyzing && (
+        {interruptedJob && !isAnalyzing && (
+          <ResumeJobPanel checkpoint={interruptedJob} onResume={handleResumeJob} onDiscard={handleDiscardJob} />
+        )}
+
+        {batchProgress && (
+          <BatchJobPanel
+            progress={batchProgress}
+            concurrency={batchConcurrency}
+            onPause={() => activeJob.current?.pause()}
+            onResume={() => activeJob.current?.resume()}
+            onCancel={() => activeJob.current?.cancel()}
+            onRetryFailed={handleRetryFailed}
+            onConcurrencyChange={handleConcurrencyChange}
+            onDismiss={() => setBatchProgress(null)}
+          />
+        )}
+
+        {/* Streaming Progress */}
+        {isAnalyzing && !batchProgress && (
           <Card className="card-hover">
             <CardHeader>
               <CardTitle className="flex items-center space-x-2">
@@ -275,6 +749,14 @@ const Index = () => {
                 <span>{Math.round(analysisProgress)}%</span>
               </div>
               <Progress value={analysisProgress} className="w-full" />
+              {streamProgress && (
+                <div className="flex items-center justify-between text-xs text-muted-foreground">
+                  <span>{streamProgress.rowsParsed.toLocaleString()} claims read</span>
+                  <span>
+                    {formatMegabytes(streamProgress.bytesRead)} of {formatMegabytes(streamProgress.totalBytes)}
+                  </span>
+                </div>
+              )}
               <p className="text-xs text-muted-foreground">
                 Analyzing patterns, risk indicators, and generating explanations using AI models
               </p>
@@ -282,11 +764,23 @@ const Index = () => {
           </Card>
         )}
 
+        {importReport && (
+          <ValidationReportPanel
+            report={importReport}
+            onDownloadRejects={() => downloadFile(CSVParser.buildRejectsCSV(importReport), 'rejected_claims.csv')}
+            onCancel={() => setImportReport(null)}
+          />
+        )}
+
+        {mergeReport && (
+          <MergeReportPanel report={mergeReport} onDismiss={() => setMergeReport(null)} />
+        )}
+
         {/* Dashboard Content */}
         {analyzedClaims.length > 0 && (
           <Tabs defaultValue="overview" className="space-y-6">
             <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center space-y-4 sm:space-y-0">
-            <TabsList className="grid w-full sm:w-auto grid-cols-5">
+            <TabsList className="grid w-full sm:w-auto grid-cols-7">
                 <TabsTrigger value="overview" className="flex items-center space-x-2">
                   <BarChart3 className="h-4 w-4" />
                   <span>Overview</span>
@@ -307,11 +801,24 @@ const Index = () => {
                   <Brain className="h-4 w-4" />
                   <span>AI Insights</span>
                 </TabsTrigger>
+                <TabsTrigger value="rings" className="flex items-center space-x-2">
+                  <Network className="h-4 w-4" />
+                  <span>Rings</span>
+                </TabsTrigger>
+                <TabsTrigger value="quality" className="flex items-center space-x-2">
+                  <Database className="h-4 w-4" />
+                  <span>Data Quality</span>
+                </TabsTrigger>
               </TabsList>
               
               <div className="flex items-center space-x-4 text-sm text-muted-foreground">
                 <span>Last updated: {new Date().toLocaleTimeString()}</span>
-                <Button variant="outline" size="sm" onClick={() => handleDataLoaded(claims)}>
+                {analyzedClaims.some(claim => claim.Ground_Truth_Label) && (
+                  <Button variant="outline" size="sm" onClick={handleCalibrate} disabled={isAnalyzing}>
+                    Calibrate
+                  </Button>
+                )}
+                <Button variant="outline" size="sm" onClick={handleReanalyze} disabled={isAnalyzing}>
                   Re-analyze
                 </Button>
               </div>
@@ -322,12 +829,16 @@ const Index = () => {
               
               <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
                 <RiskDistributionChart stats={dashboardStats} />
-                <AnalyticsPanel claims={analyzedClaims} />
+                <AnalyticsPanel claims={analyzedClaims} calibration={enterpriseAnalyzer.getScoringEnvironment().calibration} />
               </div>
             </TabsContent>
 
             <TabsContent value="claims" className="space-y-6">
-              <ClaimsTable claims={analyzedClaims} onExport={handleExportClaims} />
+              <ClaimsTable
+                claims={analyzedClaims}
+                onExport={handleExportClaims}
+                graph={enterpriseAnalyzer.getScoringEnvironment().graph}
+              />
             </TabsContent>
 
             <TabsContent value="analytics" className="space-y-6">
@@ -339,7 +850,19 @@ const Index = () => {
             </TabsContent>
 
             <TabsContent value="insights" className="space-y-6">
-              <AIInsightsPanel claims={analyzedClaims} />
+              <AIInsightsPanel
+                claims={analyzedClaims}
+                graph={enterpriseAnalyzer.getScoringEnvironment().graph}
+                calibration={enterpriseAnalyzer.getScoringEnvironment().calibration}
+              />
+            </TabsContent>
+
+            <TabsContent value="rings" className="space-y-6">
+              <FraudRingsPanel rings={fraudRings} onOpenCase={handleOpenRingCase} />
+            </TabsContent>
+
+            <TabsContent value="quality" className="space-y-6">
+              <DataQualityPanel profiles={dataQualityProfiles} />
             </TabsContent>
           </Tabs>
         )}
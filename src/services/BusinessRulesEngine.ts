@@ -5,16 +5,24 @@ import {
   BusinessRuleTrigger, 
   BenefitsClaim, 
   ClaimantProfile, 
+  ContributionEvidence,
   EmployerRecord,
+  NetworkFeatures,
   RiskAssessmentResult,
-  RiskFactor
+  RiskFactor,
+  ScoreContribution
 } from '@/types/enterprise';
+import { createScoringEnvironment, ScoringEnvironment } from './scoringEnvironment';
+import { CrossMatcher } from './crossMatcher';
+
+// A claim stays active for one benefit year
+const ACTIVE_CLAIM_DAYS = 365;
 
 export class BusinessRulesEngine {
   private rules: BusinessRule[] = [];
   private auditLog: BusinessRuleTrigger[] = [];
 
-  constructor() {
+  constructor(private env: ScoringEnvironment = createScoringEnvironment()) {
     this.initializeDefaultRules();
   }
 
@@ -51,7 +59,7 @@ export class BusinessRulesEngine {
       effectiveDate: '2024-01-01',
       createdBy: 'SYSTEM',
       lastModifiedBy: 'SYSTEM',
-      lastModifiedDate: new Date().toISOString()
+      lastModifiedDate: this.env.clock.now().toISOString()
     });
 
     // Wage Validation Rules
@@ -86,7 +94,7 @@ export class BusinessRulesEngine {
       effectiveDate: '2024-01-01',
       createdBy: 'SYSTEM',
       lastModifiedBy: 'SYSTEM',
-      lastModifiedDate: new Date().toISOString()
+      lastModifiedDate: this.env.clock.now().toISOString()
     });
 
     // Employer Verification Rules
@@ -121,7 +129,7 @@ export class BusinessRulesEngine {
       effectiveDate: '2024-01-01',
       createdBy: 'SYSTEM',
       lastModifiedBy: 'SYSTEM',
-      lastModifiedDate: new Date().toISOString()
+      lastModifiedDate: this.env.clock.now().toISOString()
     });
 
     // Behavioral Analysis Rules
@@ -156,7 +164,7 @@ export class BusinessRulesEngine {
       effectiveDate: '2024-01-01',
       createdBy: 'SYSTEM',
       lastModifiedBy: 'SYSTEM',
-      lastModifiedDate: new Date().toISOString()
+      lastModifiedDate: this.env.clock.now().toISOString()
     });
 
     // Cross-Reference Rules
@@ -191,7 +199,36 @@ export class BusinessRulesEngine {
       effectiveDate: '2024-01-01',
       createdBy: 'SYSTEM',
       lastModifiedBy: 'SYSTEM',
-      lastModifiedDate: new Date().toISOString()
+      lastModifiedDate: this.env.clock.now().toISOString()
+    });
+
+    this.rules.push({
+      ruleId: 'XREF_002',
+      ruleName: 'Similar Identity Check',
+      ruleType: 'FLAGGING',
+      category: 'CROSS_REFERENCE',
+      description: 'Flag claimants whose name and date of birth match another claimant, allowing for nicknames, misspellings and sound-alikes',
+      conditions: [
+        {
+          conditionId: 'C006',
+          fieldName: 'name_match_count',
+          operator: 'GREATER_THAN',
+          value: 0
+        }
+      ],
+      actions: [
+        {
+          actionId: 'A011',
+          actionType: 'SET_FLAG',
+          parameters: { flag: 'SIMILAR_IDENTITY', severity: 'MEDIUM' }
+        }
+      ],
+      severity: 'WARNING',
+      isActive: true,
+      effectiveDate: '2024-01-01',
+      createdBy: 'SYSTEM',
+      lastModifiedBy: 'SYSTEM',
+      lastModifiedDate: this.env.clock.now().toISOString()
     });
   }
 
@@ -199,10 +236,14 @@ export class BusinessRulesEngine {
     claim: BenefitsClaim, 
     claimant: ClaimantProfile, 
     employer?: EmployerRecord,
-    contextData?: Record<string, any>
+    contextData?: Record<string, any>,
+    // Identity graph features, when the caller has them already
+    network: NetworkFeatures = this.env.graph.featuresFor(claim.claimId)
   ): Promise<RiskAssessmentResult> {
+    const now = this.env.clock.now();
     const triggeredRules: BusinessRuleTrigger[] = [];
     const riskFactors: RiskFactor[] = [];
+    const contributions: ScoreContribution[] = [];
     let totalRiskScore = 0;
     let shouldBlock = false;
     let requiresInvestigation = false;
@@ -214,11 +255,14 @@ export class BusinessRulesEngine {
       claimant,
       employer,
       // Add derived metrics
-      ssn_usage_count: await this.getSSNUsageCount(claimant.ssn),
+      ssn_usage_count: await this.getSSNUsageCount(claimant.ssn, claim.createdDate),
       wage_to_industry_ratio: await this.calculateWageToIndustryRatio(claim, employer),
       employer_risk_level: employer?.riskLevel || 'LOW',
-      claims_last_30_days: await this.getClaimsLast30Days(claimant.claimantId),
-      death_registry_match: await this.checkDeathRegistry(claimant.ssn)
+      claims_last_30_days: await this.getClaimsLast30Days(claimant.claimantId, claim.createdDate),
+      death_registry_match: await this.checkDeathRegistry(claimant.ssn),
+      name_match_count: await this.getNameMatchCount(claimant.claimantId),
+      // Identity graph features such as network_shared_device_claimants
+      ...network
     };
 
     // Evaluate each active rule
@@ -227,11 +271,11 @@ export class BusinessRulesEngine {
       
       if (isTriggered) {
         const trigger: BusinessRuleTrigger = {
-          triggerId: `${rule.ruleId}_${Date.now()}`,
+          triggerId: `${rule.ruleId}_${now.getTime()}`,
           ruleId: rule.ruleId,
           ruleName: rule.ruleName,
           claimId: claim.claimId,
-          triggerDate: new Date().toISOString(),
+          triggerDate: now.toISOString(),
           severity: rule.severity,
           message: this.generateRuleMessage(rule, evaluationContext),
           actionsTaken: [],
@@ -239,12 +283,13 @@ export class BusinessRulesEngine {
         };
 
         // Execute rule actions
+        let rulePoints = 0;
         for (const action of rule.actions) {
           const actionResult = await this.executeRuleAction(action, evaluationContext);
           trigger.actionsTaken.push(actionResult.description);
           
           if (action.actionType === 'ADD_SCORE') {
-            totalRiskScore += action.parameters.score || 0;
+            rulePoints += action.parameters.score || 0;
           } else if (action.actionType === 'BLOCK_CLAIM') {
             shouldBlock = true;
           } else if (action.actionType === 'CREATE_CASE' || action.actionType === 'REQUIRE_VERIFICATION') {
@@ -252,12 +297,23 @@ export class BusinessRulesEngine {
           }
         }
 
-        // Create risk factor
+        totalRiskScore += rulePoints;
+        if (rulePoints !== 0) {
+          contributions.push({
+            contributionId: rule.ruleId,
+            source: 'RULE',
+            label: rule.ruleName,
+            points: rulePoints,
+            evidence: this.conditionEvidence(rule.conditions, evaluationContext)
+          });
+        }
+
+        // Create risk factor; its impact is the points the rule added
         riskFactors.push({
           factorId: rule.ruleId,
           factorName: rule.ruleName,
           category: rule.category,
-          impact: this.calculateImpactScore(rule.severity),
+          impact: rulePoints,
           confidence: 0.95, // Business rules have high confidence
           description: rule.description,
           evidence: trigger.actionsTaken
@@ -280,10 +336,10 @@ export class BusinessRulesEngine {
     );
 
     return {
-      assessmentId: `RISK_${claim.claimId}_${Date.now()}`,
+      assessmentId: `RISK_${claim.claimId}_${now.getTime()}`,
       claimId: claim.claimId,
       claimantId: claimant.claimantId,
-      assessmentDate: new Date().toISOString(),
+      assessmentDate: now.toISOString(),
       overallRiskScore: totalRiskScore,
       riskLevel,
       riskFactors,
@@ -291,7 +347,10 @@ export class BusinessRulesEngine {
       requiresInvestigation,
       autoApprovalEligible: !shouldBlock && riskLevel === 'LOW',
       modelVersion: 'BRE_v2.1',
-      confidenceScore: this.calculateOverallConfidence(riskFactors)
+      confidenceScore: this.calculateOverallConfidence(riskFactors),
+      provenance: [{ component: 'Business rules', source: 'RULES', model: 'BRE_v2.1' }],
+      degraded: false,
+      contributions
     };
   }
 
@@ -360,21 +419,20 @@ export class BusinessRulesEngine {
     return `Rule "${rule.ruleName}" triggered: ${rule.description}`;
   }
 
-  private calculateImpactScore(severity: string): number {
-    switch (severity) {
-      case 'CRITICAL': return 100;
-      case 'ERROR': return 75;
-      case 'WARNING': return 50;
-      case 'INFO': return 25;
-      default: return 0;
-    }
+  // The value each tested field had, so a reviewer can see why the rule fired
+  private conditionEvidence(conditions: RuleCondition[], context: Record<string, unknown>): ContributionEvidence[] {
+    return conditions.map(condition => {
+      const value = this.getFieldValue(condition.fieldName, context);
+      return {
+        name: condition.fieldName,
+        value: value === undefined || value === null ? null : typeof value === 'object' ? JSON.stringify(value) : value
+      };
+    });
   }
 
   private determineRiskLevel(score: number, shouldBlock: boolean): 'LOW' | 'MEDIUM' | 'HIGH' | 'CRITICAL' {
-    if (shouldBlock || score >= 200) return 'CRITICAL';
-    if (score >= 100) return 'HIGH';
-    if (score >= 50) return 'MEDIUM';
-    return 'LOW';
+    if (shouldBlock) return 'CRITICAL';
+    return this.env.calibration.levelFor(score);
   }
 
   private generateRecommendations(
@@ -414,10 +472,10 @@ export class BusinessRulesEngine {
     return Math.round(avgConfidence * 100) / 100;
   }
 
-  // Mock data access methods (in enterprise system, these would query actual databases)
-  private async getSSNUsageCount(ssn: string): Promise<number> {
-    // Mock: Check if SSN is used in multiple active claims
-    return Math.random() > 0.9 ? Math.floor(Math.random() * 3) + 2 : 1;
+  // Data access methods, answered from the claims loaded so far
+  private async getSSNUsageCount(ssn: string, asOf: string): Promise<number> {
+    // Active claims filed under this SSN, including the one being scored
+    return this.env.history.ssnUsageCount(ssn, asOf, ACTIVE_CLAIM_DAYS);
   }
 
   private async calculateWageToIndustryRatio(claim: BenefitsClaim, employer?: EmployerRecord): Promise<number> {
@@ -427,14 +485,23 @@ export class BusinessRulesEngine {
     return reportedWages / industryAverage;
   }
 
-  private async getClaimsLast30Days(claimantId: string): Promise<number> {
-    // Mock: Count claims filed by claimant in last 30 days
-    return Math.random() > 0.95 ? Math.floor(Math.random() * 5) + 1 : 1;
+  private async getClaimsLast30Days(claimantId: string, asOf: string): Promise<number> {
+    // Claims filed by claimant in the 30 days up to this one
+    return this.env.history.claimantClaimCount(claimantId, asOf, 30);
   }
 
   private async checkDeathRegistry(ssn: string): Promise<boolean> {
-    // Mock: Check death registry (DMF - Death Master File)
-    return Math.random() > 0.999; // Very rare occurrence
+    // Death registry (DMF - Death Master File)
+    return this.env.deathRegistry.isDeceased(ssn);
+  }
+
+  private async getNameMatchCount(claimantId: string): Promise<number> {
+    // Other claimants with the same date of birth and a matching name
+    const related = new CrossMatcher(this.env.history, this.env.clock).match(claimantId)
+      .filter(match => match.sourceType === 'NAME')
+      .flatMap(match => match.relatedEntities.filter(entity => entity.entityType === 'CLAIMANT'))
+      .map(entity => entity.entityId);
+    return new Set(related).size;
   }
 
   // Administrative methods
@@ -445,7 +512,7 @@ export class BusinessRulesEngine {
   updateRule(ruleId: string, updates: Partial<BusinessRule>): boolean {
     const index = this.rules.findIndex(r => r.ruleId === ruleId);
     if (index !== -1) {
-      this.rules[index] = { ...this.rules[index], ...updates, lastModifiedDate: new Date().toISOString() };
+      this.rules[index] = { ...this.rules[index], ...updates, lastModifiedDate: this.env.clock.now().toISOString() };
       return true;
     }
     return false;
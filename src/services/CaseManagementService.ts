@@ -8,8 +8,11 @@ import {
   RiskAssessmentResult,
   AuditTrail,
   SystemAlert,
-  CrossMatchResult
+  CrossMatchResult,
+  FraudRing
 } from '@/types/enterprise';
+import { createScoringEnvironment, ScoringEnvironment } from './scoringEnvironment';
+import { CrossMatcher } from './crossMatcher';
 
 export class CaseManagementService {
   private cases: Map<string, FraudCase> = new Map();
@@ -18,6 +21,8 @@ export class CaseManagementService {
   private auditTrail: AuditTrail[] = [];
   private alerts: SystemAlert[] = [];
 
+  constructor(private env: ScoringEnvironment = createScoringEnvironment()) {}
+
   async createFraudCase(
     riskAssessment: RiskAssessmentResult,
     claim: BenefitsClaim,
@@ -25,7 +30,7 @@ export class CaseManagementService {
     initiatedBy: string
   ): Promise<FraudCase> {
     const caseNumber = this.generateCaseNumber();
-    const caseId = `CASE_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+    const caseId = `CASE_${this.env.clock.now().getTime()}_${this.env.random().toString(36).substr(2, 9)}`;
 
     const fraudCase: FraudCase = {
       caseId,
@@ -40,59 +45,57 @@ export class CaseManagementService {
       actualLoss: 0,
       recoveredAmount: 0,
       assignedInvestigator: await this.assignInvestigator(riskAssessment.riskLevel),
-      createdDate: new Date().toISOString(),
-      lastUpdatedDate: new Date().toISOString(),
+      createdDate: this.env.clock.now().toISOString(),
+      lastUpdatedDate: this.env.clock.now().toISOString(),
       investigationNotes: [],
       evidenceItems: [],
       businessRulesTriggered: []
     };
 
-    // Store case
-    this.cases.set(caseId, fraudCase);
-    this.investigations.set(caseId, []);
-    this.evidence.set(caseId, []);
-
-    // Create initial investigation note
-    await this.addInvestigationNote(
-      caseId,
-      'SYSTEM',
-      'GENERAL',
+    await this.openCase(
+      fraudCase,
+      initiatedBy,
       `Case created automatically based on risk assessment. Risk Level: ${riskAssessment.riskLevel}, Score: ${riskAssessment.overallRiskScore}`,
-      false
+      riskAssessment.riskLevel
     );
 
-    // Create audit trail entry
-    this.addAuditEntry({
-      auditId: `AUDIT_${Date.now()}`,
-      entityType: 'CASE',
-      entityId: caseId,
-      action: 'CREATE',
-      userId: initiatedBy,
-      userName: 'SYSTEM',
-      userRole: 'FRAUD_DETECTION_SYSTEM',
-      timestamp: new Date().toISOString(),
-      ipAddress: '127.0.0.1',
-      newValues: fraudCase,
-      systemGenerated: true
-    });
+    return fraudCase;
+  }
 
-    // Generate alert for high-priority cases
-    if (fraudCase.priority === 'HIGH' || fraudCase.priority === 'CRITICAL') {
-      await this.createSystemAlert({
-        alertType: 'FRAUD_THRESHOLD',
-        severity: fraudCase.priority === 'CRITICAL' ? 'CRITICAL' : 'HIGH',
-        title: 'High-Risk Fraud Case Created',
-        description: `New fraud case ${caseNumber} created with ${fraudCase.priority} priority`,
-        entityType: 'CASE',
-        entityId: caseId,
-        triggeredBy: initiatedBy,
-        metadata: {
-          fraudScore: fraudCase.fraudScore,
-          riskLevel: riskAssessment.riskLevel,
-          potentialLoss: fraudCase.potentialLoss
-        }
-      });
-    }
+  /**
+   * One ORGANIZED_FRAUD case covering every claim in a fraud ring, filed
+   * against the ring's first claimant
+   */
+  async createRingCase(ring: FraudRing, initiatedBy: string): Promise<FraudCase> {
+    const caseNumber = this.generateCaseNumber();
+    const caseId = `CASE_${this.env.clock.now().getTime()}_${this.env.random().toString(36).substr(2, 9)}`;
+
+    const fraudCase: FraudCase = {
+      caseId,
+      caseNumber,
+      caseType: 'ORGANIZED_FRAUD',
+      priority: this.determinePriority(ring.riskLevel),
+      status: 'OPEN',
+      claimantId: ring.claimantIds[0],
+      relatedClaimIds: [...ring.claimIds],
+      fraudScore: ring.riskScore,
+      potentialLoss: ring.metrics.exposure,
+      actualLoss: 0,
+      recoveredAmount: 0,
+      assignedInvestigator: await this.assignInvestigator(ring.riskLevel),
+      createdDate: this.env.clock.now().toISOString(),
+      lastUpdatedDate: this.env.clock.now().toISOString(),
+      investigationNotes: [],
+      evidenceItems: [],
+      businessRulesTriggered: []
+    };
+
+    await this.openCase(
+      fraudCase,
+      initiatedBy,
+      `Case opened for fraud ring ${ring.ringId}: ${ring.metrics.claimantCount} claimants, ${ring.metrics.claimCount} claims. Risk Level: ${ring.riskLevel}, Score: ${ring.riskScore}`,
+      ring.riskLevel
+    );
 
     return fraudCase;
   }
@@ -108,10 +111,10 @@ export class CaseManagementService {
 
     const oldStatus = fraudCase.status;
     fraudCase.status = newStatus;
-    fraudCase.lastUpdatedDate = new Date().toISOString();
+    fraudCase.lastUpdatedDate = this.env.clock.now().toISOString();
 
     if (newStatus === 'CLOSED') {
-      fraudCase.closureDate = new Date().toISOString();
+      fraudCase.closureDate = this.env.clock.now().toISOString();
       fraudCase.closureReason = reason;
     }
 
@@ -126,14 +129,14 @@ export class CaseManagementService {
 
     // Create audit trail
     this.addAuditEntry({
-      auditId: `AUDIT_${Date.now()}`,
+      auditId: `AUDIT_${this.env.clock.now().getTime()}`,
       entityType: 'CASE',
       entityId: caseId,
       action: 'UPDATE',
       userId: updatedBy,
       userName: updatedBy,
       userRole: 'INVESTIGATOR',
-      timestamp: new Date().toISOString(),
+      timestamp: this.env.clock.now().toISOString(),
       ipAddress: '192.168.1.100',
       oldValues: { status: oldStatus },
       newValues: { status: newStatus },
@@ -151,7 +154,7 @@ export class CaseManagementService {
     content: string,
     isConfidential: boolean
   ): Promise<string> {
-    const noteId = `NOTE_${Date.now()}_${Math.random().toString(36).substr(2, 6)}`;
+    const noteId = `NOTE_${this.env.clock.now().getTime()}_${this.env.random().toString(36).substr(2, 6)}`;
     
     const note: InvestigationNote = {
       noteId,
@@ -160,8 +163,8 @@ export class CaseManagementService {
       noteType,
       content,
       isConfidential,
-      createdDate: new Date().toISOString(),
-      lastModifiedDate: new Date().toISOString()
+      createdDate: this.env.clock.now().toISOString(),
+      lastModifiedDate: this.env.clock.now().toISOString()
     };
 
     const notes = this.investigations.get(caseId) || [];
@@ -172,7 +175,7 @@ export class CaseManagementService {
     const fraudCase = this.cases.get(caseId);
     if (fraudCase) {
       fraudCase.investigationNotes.push(note);
-      fraudCase.lastUpdatedDate = new Date().toISOString();
+      fraudCase.lastUpdatedDate = this.env.clock.now().toISOString();
     }
 
     return noteId;
@@ -186,7 +189,7 @@ export class CaseManagementService {
     filePath?: string,
     sourceSystem?: string
   ): Promise<string> {
-    const evidenceId = `EVID_${Date.now()}_${Math.random().toString(36).substr(2, 6)}`;
+    const evidenceId = `EVID_${this.env.clock.now().getTime()}_${this.env.random().toString(36).substr(2, 6)}`;
     
     const evidenceItem: EvidenceItem = {
       evidenceId,
@@ -196,12 +199,12 @@ export class CaseManagementService {
       filePath,
       sourceSystem,
       collectedBy,
-      collectedDate: new Date().toISOString(),
+      collectedDate: this.env.clock.now().toISOString(),
       chainOfCustody: [{
-        recordId: `CUST_${Date.now()}`,
+        recordId: `CUST_${this.env.clock.now().getTime()}`,
         evidenceId,
         custodian: collectedBy,
-        transferDate: new Date().toISOString(),
+        transferDate: this.env.clock.now().toISOString(),
         transferReason: 'Initial collection',
         digitallySigned: true
       }]
@@ -215,7 +218,7 @@ export class CaseManagementService {
     const fraudCase = this.cases.get(caseId);
     if (fraudCase) {
       fraudCase.evidenceItems.push(evidenceItem);
-      fraudCase.lastUpdatedDate = new Date().toISOString();
+      fraudCase.lastUpdatedDate = this.env.clock.now().toISOString();
     }
 
     // Add investigation note
@@ -230,37 +233,13 @@ export class CaseManagementService {
     return evidenceId;
   }
 
+  // Other claimants sharing identity details with this one, across every loaded and saved claim
   async performCrossMatch(claimantId: string): Promise<CrossMatchResult[]> {
-    // Mock cross-matching against various databases
-    const results: CrossMatchResult[] = [];
-
-    // Simulate various types of matches
-    const matchTypes = [
-      { sourceType: 'SSN' as const, matchType: 'EXACT' as const, confidence: 0.99 },
-      { sourceType: 'NAME' as const, matchType: 'FUZZY' as const, confidence: 0.85 },
-      { sourceType: 'ADDRESS' as const, matchType: 'EXACT' as const, confidence: 0.95 }
-    ];
-
-    for (const match of matchTypes) {
-      if (Math.random() > 0.7) { // 30% chance of match
-        results.push({
-          matchId: `MATCH_${Date.now()}_${Math.random().toString(36).substr(2, 6)}`,
-          sourceType: match.sourceType,
-          sourceValue: `MASKED_${match.sourceType}`,
-          matchType: match.matchType,
-          matchConfidence: match.confidence,
-          relatedEntities: this.generateRelatedEntities(),
-          riskImplications: this.generateRiskImplications(match.sourceType),
-          identifiedDate: new Date().toISOString()
-        });
-      }
-    }
-
-    return results;
+    return new CrossMatcher(this.env.history, this.env.clock).match(claimantId);
   }
 
   async assignInvestigator(riskLevel: string): Promise<string | undefined> {
-    // Mock investigator assignment based on workload and expertise
+    // Investigator assignment based on workload and expertise
     const investigators = {
       'LOW': ['INV_001', 'INV_002', 'INV_003'],
       'MEDIUM': ['INV_004', 'INV_005', 'INV_006'],
@@ -269,16 +248,22 @@ export class CaseManagementService {
     };
 
     const availableInvestigators = investigators[riskLevel as keyof typeof investigators] || investigators['MEDIUM'];
-    return availableInvestigators[Math.floor(Math.random() * availableInvestigators.length)];
+
+    // Fewest open cases wins; ties go to the first listed
+    const openCases = (investigatorId: string) => Array.from(this.cases.values())
+      .filter(c => c.assignedInvestigator === investigatorId && c.status !== 'CLOSED').length;
+    return availableInvestigators.reduce((best, candidate) =>
+      openCases(candidate) < openCases(best) ? candidate : best
+    );
   }
 
   async createSystemAlert(alertData: Omit<SystemAlert, 'alertId' | 'triggeredDate' | 'status'>): Promise<string> {
-    const alertId = `ALERT_${Date.now()}_${Math.random().toString(36).substr(2, 6)}`;
+    const alertId = `ALERT_${this.env.clock.now().getTime()}_${this.env.random().toString(36).substr(2, 6)}`;
     
     const alert: SystemAlert = {
       alertId,
       ...alertData,
-      triggeredDate: new Date().toISOString(),
+      triggeredDate: this.env.clock.now().toISOString(),
       status: 'OPEN'
     };
 
@@ -317,7 +302,7 @@ export class CaseManagementService {
         totalNotes: notes.length,
         evidenceCount: evidenceList.length,
         timelineEvents: auditEntries.length,
-        daysOpen: Math.floor((Date.now() - new Date(fraudCase.createdDate).getTime()) / (1000 * 60 * 60 * 24))
+        daysOpen: Math.floor((this.env.clock.now().getTime() - new Date(fraudCase.createdDate).getTime()) / (1000 * 60 * 60 * 24))
       },
       investigationNotes: notes,
       evidence: evidenceList,
@@ -326,9 +311,56 @@ export class CaseManagementService {
     };
   }
 
+  // Stores a new case with its opening note and audit entry, alerting on high priority
+  private async openCase(fraudCase: FraudCase, initiatedBy: string, note: string, riskLevel: string): Promise<void> {
+    const { caseId, caseNumber } = fraudCase;
+    this.cases.set(caseId, fraudCase);
+    this.investigations.set(caseId, []);
+    this.evidence.set(caseId, []);
+
+    // Create initial investigation note
+    await this.addInvestigationNote(caseId, 'SYSTEM', 'GENERAL', note, false);
+
+    // Create audit trail entry
+    this.addAuditEntry({
+      auditId: `AUDIT_${this.env.clock.now().getTime()}`,
+      entityType: 'CASE',
+      entityId: caseId,
+      action: 'CREATE',
+      userId: initiatedBy,
+      userName: 'SYSTEM',
+      userRole: 'FRAUD_DETECTION_SYSTEM',
+      timestamp: this.env.clock.now().toISOString(),
+      ipAddress: '127.0.0.1',
+      newValues: fraudCase,
+      systemGenerated: true
+    });
+
+    // Generate alert for high-priority cases
+    if (fraudCase.priority === 'HIGH' || fraudCase.priority === 'CRITICAL') {
+      await this.createSystemAlert({
+        alertType: 'FRAUD_THRESHOLD',
+        severity: fraudCase.priority === 'CRITICAL' ? 'CRITICAL' : 'HIGH',
+        title: 'High-Risk Fraud Case Created',
+        description: `New fraud case ${caseNumber} created with ${fraudCase.priority} priority`,
+        entityType: 'CASE',
+        entityId: caseId,
+        triggeredBy: initiatedBy,
+        metadata: {
+          fraudScore: fraudCase.fraudScore,
+          riskLevel,
+          potentialLoss: fraudCase.potentialLoss
+        }
+      });
+    }
+  }
+
   private generateCaseNumber(): string {
-    const year = new Date().getFullYear();
-    const sequence = Math.floor(Math.random() * 999999).toString().padStart(6, '0');
+    // Numbered in sequence within the year
+    const year = this.env.clock.now().getFullYear();
+    const sequence = (this.getAllCases().filter(c => c.caseNumber.startsWith(`FC${year}`)).length + 1)
+      .toString()
+      .padStart(6, '0');
     return `FC${year}${sequence}`;
   }
 
@@ -367,31 +399,6 @@ export class CaseManagementService {
     return weeklyAmount * maxWeeks;
   }
 
-  private generateRelatedEntities(): any[] {
-    // Mock related entities
-    return [
-      {
-        entityType: 'CLAIMANT',
-        entityId: `CLM_${Math.random().toString(36).substr(2, 8)}`,
-        relationshipType: 'SAME_ADDRESS',
-        strength: 0.8,
-        lastActivity: new Date().toISOString()
-      }
-    ];
-  }
-
-  private generateRiskImplications(sourceType: string): string[] {
-    const implications = {
-      'SSN': ['Identity theft risk', 'Multiple claim fraud'],
-      'NAME': ['Related party fraud', 'Organized fraud ring'],
-      'ADDRESS': ['Address farming', 'Mail fraud scheme'],
-      'PHONE': ['Contact fraud', 'Phone number sharing'],
-      'EMAIL': ['Account takeover', 'Email fraud pattern']
-    };
-    
-    return implications[sourceType as keyof typeof implications] || ['Unknown risk pattern'];
-  }
-
   private generateCaseRecommendations(fraudCase: FraudCase): string[] {
     const recommendations: string[] = [];
     
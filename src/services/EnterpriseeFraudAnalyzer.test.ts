@@ -0,0 +1,67 @@
+import { describe, expect, it } from 'vitest';
+import { createFixedClock } from '@/lib/clock';
+import { createSeededRandom } from '@/lib/random';
+import { claimRow } from '@/test/claimRow';
+import { AnalyzedClaim, FraudAnalysis } from '../types/fraud';
+import { EnterpriseFraudAnalyzer } from './EnterpriseeFraudAnalyzer';
+import { ModelRegistry } from './modelRegistry';
+import { createScoringEnvironment } from './scoringEnvironment';
+import { SyntheticClaimGenerator } from './syntheticClaimGenerator';
+
+const analyzer = () => new EnterpriseFraudAnalyzer(
+  new ModelRegistry(ModelRegistry.defaultConfig),
+  createScoringEnvironment({ clock: createFixedClock('2024-07-01T00:00:00Z'), random: createSeededRandom(1) })
+);
+
+const rows = new SyntheticClaimGenerator({ ...SyntheticClaimGenerator.defaultOptions, claimCount: 800, seed: 7 }).generate().rows;
+
+describe('EnterpriseFraudAnalyzer', () => {
+  describe('detectPatternsAcross', () => {
+    it('finds the claims whose pattern score changes across every chunk', () => {
+      const whole = analyzer();
+      whole.indexClaims(rows);
+      const expected = new Map(rows.map(row => [row.Claim_ID, whole.getPatternEngine().scoreFor(row.Claim_ID)?.score]));
+
+      // Scored as a streamed file would be, with each chunk's own patterns
+      const chunked = analyzer();
+      const analyzed: AnalyzedClaim[] = [];
+      for (let start = 0; start < rows.length; start += 200) {
+        const chunk = rows.slice(start, start + 200);
+        chunked.indexClaims(chunk);
+        for (const row of chunk) {
+          const score = chunked.getPatternEngine().scoreFor(row.Claim_ID)?.score ?? 0;
+          const analysis = { engine_scores: [{ engine: 'pattern', score, weight: 1, points: score }] } as FraudAnalysis;
+          analyzed.push({ ...row, analysis });
+        }
+      }
+
+      const changed = chunked.detectPatternsAcross(analyzed).map(claim => claim.Claim_ID);
+      const differing = analyzed
+        .filter(claim => claim.analysis.engine_scores[0].score !== expected.get(claim.Claim_ID))
+        .map(claim => claim.Claim_ID);
+      expect(changed).toEqual(differing);
+      expect(changed.length).toBeGreaterThan(0);
+
+      for (const row of rows) {
+        expect(chunked.getPatternEngine().scoreFor(row.Claim_ID)?.score).toBe(expected.get(row.Claim_ID));
+      }
+    });
+  });
+
+  describe('convertLegacyToEnterprise', () => {
+    const idOf = (row = claimRow({ Claim_ID: '' })) => analyzer().convertLegacyToEnterprise(row).claim.claimId;
+
+    it('gives a row without a Claim_ID the same ID every time it is loaded', () => {
+      expect(idOf()).toMatch(/^LEGACY_ROW_[0-9A-F]{14}$/);
+      expect(idOf({ ...claimRow({ Claim_ID: '' }) })).toBe(idOf());
+      expect(idOf(claimRow({ Claim_ID: '', Source_File: 'march.csv' }))).toMatch(/^LEGACY_MARCH_CSV_/);
+    });
+
+    it('tells rows apart by their content, not by what analysis added', () => {
+      const analyzed = { ...claimRow({ Claim_ID: '' }), analysis: {} as FraudAnalysis };
+
+      expect(idOf(claimRow({ Claim_ID: '', Claim_Amount: '4900' }))).not.toBe(idOf());
+      expect(idOf(analyzed)).toBe(idOf());
+    });
+  });
+});
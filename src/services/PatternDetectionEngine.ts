@@ -1,4 +1,6 @@
-import { BenefitsClaim, ClaimantProfile } from '@/types/enterprise';
+import { BenefitsClaim, ClaimantProfile, ScoreContribution } from '@/types/enterprise';
+import { createScoringEnvironment, ScoringEnvironment } from './scoringEnvironment';
+import { AddressParser } from './addressParser';
 
 interface FraudScheme {
   id: string;
@@ -24,13 +26,49 @@ interface PatternAlert {
   actionRequired: string[];
 }
 
+// A claim's part in the latest batch's pattern alerts
+export interface PatternClaimScore {
+  // 0-1000
+  score: number;
+  // One per alert the claim is caught up in
+  contributions: ScoreContribution[];
+}
+
+// Points an alert adds to each claim it names, before its confidence
+const ALERT_SEVERITY_POINTS: Record<PatternAlert['severity'], number> = {
+  LOW: 25,
+  MEDIUM: 50,
+  HIGH: 100,
+  CRITICAL: 200
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Accounts this young when they file look manufactured
+const NEW_ACCOUNT_DAYS = 30;
+
+// An employer burst is at least this many claims within the window, and
+// this many times the employer's usual rate
+const BURST_WINDOW_DAYS = 3;
+const MIN_BURST_CLAIMS = 8;
+const BURST_FACTOR = 4;
+
+// A filing cadence is at least this many claims at gaps this regular
+const MIN_CADENCE_CLAIMS = 6;
+const CADENCE_TOLERANCE = 0.1;
+const MIN_CADENCE_TOLERANCE_MS = 5000;
+const MIN_CADENCE_GAP_MS = 10 * 1000;
+const MAX_CADENCE_GAP_MS = 15 * 60 * 1000;
+
 export class PatternDetectionEngine {
   private knownSchemes: FraudScheme[] = [];
   private emergingPatterns: Map<string, any> = new Map();
   private alertHistory: PatternAlert[] = [];
   private isMonitoring: boolean = false;
+  private claimScores: Map<string, PatternClaimScore> = new Map();
+  private batchClaimIds: Set<string> = new Set();
 
-  constructor() {
+  constructor(private env: ScoringEnvironment = createScoringEnvironment()) {
     this.initializeKnownSchemes();
     this.startPatternMonitoring();
   }
@@ -59,7 +97,7 @@ export class PatternDetectionEngine {
           }
         ],
         firstDetected: '2024-01-15',
-        lastDetected: new Date().toISOString(),
+        lastDetected: this.env.clock.now().toISOString(),
         occurrenceCount: 23,
         successRate: 0.87
       },
@@ -75,15 +113,10 @@ export class PatternDetectionEngine {
         ],
         severity: 'HIGH',
         detectionRules: [
-          (claims, claimants) => {
-            const employerGroups = this.groupBy(claims, 'employerId');
-            return Object.values(employerGroups).some((group: any) => 
-              group.length > 10 && this.isWithinTimeWindow(group.map((c: any) => c.createdDate), 30)
-            );
-          }
+          (claims, claimants) => this.employerBurstClaims(claims).length > 0
         ],
         firstDetected: '2024-02-08',
-        lastDetected: new Date().toISOString(),
+        lastDetected: this.env.clock.now().toISOString(),
         occurrenceCount: 15,
         successRate: 0.73
       },
@@ -99,15 +132,10 @@ export class PatternDetectionEngine {
         ],
         severity: 'CRITICAL',
         detectionRules: [
-          (claims, claimants) => {
-            return claimants.some(claimant => 
-              claimant.riskScore > 80 && 
-              new Date(claimant.accountCreationDate).getTime() > Date.now() - 30 * 24 * 60 * 60 * 1000
-            );
-          }
+          (claims, claimants) => this.newIdentityClaims(claims, claimants).length > 0
         ],
         firstDetected: '2024-03-12',
-        lastDetected: new Date().toISOString(),
+        lastDetected: this.env.clock.now().toISOString(),
         occurrenceCount: 8,
         successRate: 0.95
       },
@@ -123,16 +151,13 @@ export class PatternDetectionEngine {
         ],
         severity: 'HIGH',
         detectionRules: [
-          (claims, claimants) => {
-            // Detect foreign IP patterns
-            const foreignIPs = claims.filter(claim => 
-              this.isNonDomesticIP(claim.ipAddress || '')
-            );
-            return foreignIPs.length > 3;
-          }
+          // Telling a foreign IP needs geolocation, which claims do not carry.
+          // Address prefixes say nothing about country, and private (RFC 1918)
+          // ranges are not foreign at all, so the scheme stays off until one is added.
+          () => false
         ],
         firstDetected: '2024-01-22',
-        lastDetected: new Date().toISOString(),
+        lastDetected: this.env.clock.now().toISOString(),
         occurrenceCount: 12,
         successRate: 0.68
       },
@@ -148,23 +173,10 @@ export class PatternDetectionEngine {
         ],
         severity: 'MEDIUM',
         detectionRules: [
-          (claims, claimants) => {
-            const timeDiffs = claims
-              .sort((a, b) => new Date(a.createdDate).getTime() - new Date(b.createdDate).getTime())
-              .slice(0, -1)
-              .map((claim, i) => 
-                new Date(claims[i + 1].createdDate).getTime() - new Date(claim.createdDate).getTime()
-              );
-            
-            // Detect suspiciously regular intervals (bot-like behavior)
-            const avgInterval = timeDiffs.reduce((sum, diff) => sum + diff, 0) / timeDiffs.length;
-            const variance = timeDiffs.reduce((sum, diff) => sum + Math.pow(diff - avgInterval, 2), 0) / timeDiffs.length;
-            
-            return variance < avgInterval * 0.1 && timeDiffs.length > 10; // Very low variance indicates bot
-          }
+          (claims, claimants) => this.filingCadenceClaims(claims).length > 0
         ],
         firstDetected: '2024-02-28',
-        lastDetected: new Date().toISOString(),
+        lastDetected: this.env.clock.now().toISOString(),
         occurrenceCount: 6,
         successRate: 0.42
       }
@@ -179,24 +191,25 @@ export class PatternDetectionEngine {
     claimants: ClaimantProfile[]
   ): PatternAlert[] {
     const alerts: PatternAlert[] = [];
+    const now = this.env.clock.now();
 
     // Check for known schemes
     for (const scheme of this.knownSchemes) {
       const detection = this.detectScheme(scheme, claims, claimants);
       if (detection.detected) {
         alerts.push({
-          id: `ALERT_${scheme.id}_${Date.now()}`,
+          id: `ALERT_${scheme.id}_${now.getTime()}`,
           schemeId: scheme.id,
           severity: scheme.severity,
           message: `${scheme.name} detected: ${detection.description}`,
           affectedClaims: detection.affectedClaims,
-          detectedAt: new Date().toISOString(),
+          detectedAt: now.toISOString(),
           confidence: detection.confidence,
           actionRequired: this.generateActionItems(scheme)
         });
 
         // Update scheme statistics
-        scheme.lastDetected = new Date().toISOString();
+        scheme.lastDetected = now.toISOString();
         scheme.occurrenceCount++;
       }
     }
@@ -208,9 +221,66 @@ export class PatternDetectionEngine {
     // Store alerts for analysis
     this.alertHistory.push(...alerts);
 
+    // Patterns seen often enough apply from the next run on
+    if (this.isMonitoring) {
+      this.promoteEmergingPatterns();
+    }
+
     return alerts;
   }
 
+  /**
+   * Run detection over a batch and keep a pattern score for each claim,
+   * read back with scoreFor() while the batch is scored
+   */
+  scoreBatch(claims: BenefitsClaim[], claimants: ClaimantProfile[]): PatternAlert[] {
+    const alerts = this.detectEmergingSchemes(claims, claimants);
+    this.claimScores = new Map();
+    this.batchClaimIds = new Set(claims.map(claim => claim.claimId));
+
+    for (const alert of alerts) {
+      const points = Math.round(ALERT_SEVERITY_POINTS[alert.severity] * alert.confidence);
+      if (points === 0) continue;
+      for (const claimId of new Set(alert.affectedClaims)) {
+        const claimScore = this.claimScores.get(claimId) || { score: 0, contributions: [] };
+        claimScore.contributions.push({
+          contributionId: `PATTERN_${alert.schemeId}`,
+          source: 'PATTERN',
+          label: alert.message.split(':')[0],
+          points,
+          evidence: [
+            { name: 'severity', value: alert.severity },
+            { name: 'confidence', value: alert.confidence },
+            { name: 'claims_in_pattern', value: alert.affectedClaims.length }
+          ]
+        });
+        claimScore.score += points;
+        this.claimScores.set(claimId, claimScore);
+      }
+    }
+
+    // Capped like the other engines, with the excess shown as an adjustment
+    for (const claimScore of this.claimScores.values()) {
+      if (claimScore.score <= 1000) continue;
+      claimScore.contributions.push({
+        contributionId: 'PATTERN_CAP',
+        source: 'ADJUSTMENT',
+        label: 'Pattern score cap',
+        points: 1000 - claimScore.score,
+        evidence: [{ name: 'uncapped_score', value: claimScore.score }]
+      });
+      claimScore.score = 1000;
+    }
+
+    return alerts;
+  }
+
+  // The claim's score from the latest batch; undefined if it was not in it
+  scoreFor(claimId: string): PatternClaimScore | undefined {
+    if (!this.batchClaimIds.has(claimId)) return undefined;
+    return this.claimScores.get(claimId) || { score: 0, contributions: [] };
+  }
+
   private detectScheme(
     scheme: FraudScheme, 
     claims: BenefitsClaim[], 
@@ -245,14 +315,22 @@ export class PatternDetectionEngine {
     
     for (const cluster of clusters) {
       if (cluster.suspiciousScore > 0.7 && cluster.members.length >= 5) {
-        const patternId = `EMERGING_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
-        
-        // Store as emerging pattern for further analysis
-        this.emergingPatterns.set(patternId, {
-          cluster,
-          firstDetected: new Date().toISOString(),
-          observations: 1
-        });
+        // The same cluster seen again is another observation, not a new pattern
+        const existing = this.getEmergingPatterns().find(p => p.pattern.cluster.description === cluster.description);
+        const patternId = existing?.id ??
+          `EMERGING_${this.env.clock.now().getTime()}_${this.env.random().toString(36).substr(2, 9)}`;
+
+        if (existing) {
+          existing.pattern.cluster = cluster;
+          existing.pattern.observations++;
+        } else {
+          // Store as emerging pattern for further analysis
+          this.emergingPatterns.set(patternId, {
+            cluster,
+            firstDetected: this.env.clock.now().toISOString(),
+            observations: 1
+          });
+        }
 
         alerts.push({
           id: `ALERT_${patternId}`,
@@ -260,7 +338,7 @@ export class PatternDetectionEngine {
           severity: cluster.suspiciousScore > 0.9 ? 'HIGH' : 'MEDIUM',
           message: `New emerging fraud pattern detected: ${cluster.description}`,
           affectedClaims: cluster.members.map(m => m.claimId),
-          detectedAt: new Date().toISOString(),
+          detectedAt: this.env.clock.now().toISOString(),
           confidence: cluster.suspiciousScore,
           actionRequired: [
             'Investigate pattern for potential new fraud scheme',
@@ -308,10 +386,12 @@ export class PatternDetectionEngine {
       }
     }
 
-    // Geographic clustering (same address patterns)
-    const addressGroups = this.groupBy(claimants, c => 
-      `${c.mailingAddress.streetAddress1}_${c.mailingAddress.city}_${c.mailingAddress.zipCode}`
-    );
+    // Geographic clustering (same address patterns), on standardized addresses so
+    // "12 Oak Street" and "12 oak st." are one address
+    const addressGroups = this.groupBy(claimants, c => {
+      const street = [c.mailingAddress.streetAddress1, c.mailingAddress.streetAddress2].filter(Boolean).join(', ');
+      return `${AddressParser.formatStreet(AddressParser.standardizeStreet(street))}_${c.mailingAddress.zipCode.slice(0, 5)}`;
+    });
     for (const [address, claimantGroup] of Object.entries(addressGroups)) {
       if ((claimantGroup as any[]).length >= 4) {
         const relatedClaims = claims.filter(claim => 
@@ -348,16 +428,17 @@ export class PatternDetectionEngine {
           .map(claim => claim.claimId);
           
       case 'EMPLOYER_COLLUSION_SCHEME':
-        const employerGroups = this.groupBy(claims, 'employerId');
-        const suspiciousEmployers = Object.entries(employerGroups)
-          .filter(([_, group]) => (group as any[]).length > 10)
-          .map(([employerId, _]) => employerId);
-        return claims
-          .filter(claim => suspiciousEmployers.includes(claim.employerId || ''))
-          .map(claim => claim.claimId);
-          
+        return this.employerBurstClaims(claims);
+
+      case 'SYNTHETIC_IDENTITY_SCHEME':
+        return this.newIdentityClaims(claims, claimants);
+
+      case 'AUTOMATED_FILING_SCHEME':
+        return this.filingCadenceClaims(claims);
+
       default:
-        return claims.slice(0, Math.min(10, claims.length)).map(claim => claim.claimId);
+        // Promoted and custom schemes have no per-claim rule, so name no claims
+        return [];
     }
   }
 
@@ -445,6 +526,93 @@ export class PatternDetectionEngine {
     return clusters;
   }
 
+  /**
+   * Claims filed by a high-risk identity within NEW_ACCOUNT_DAYS of its
+   * account being created. Measured from the claim's own date, so a batch
+   * scores the same whenever it is run.
+   */
+  private newIdentityClaims(claims: BenefitsClaim[], claimants: ClaimantProfile[]): string[] {
+    const highRisk = new Map(claimants
+      .filter(claimant => claimant.riskScore > 80)
+      .map(claimant => [claimant.claimantId, Date.parse(claimant.accountCreationDate)]));
+    return claims
+      .filter(claim => {
+        const accountCreated = highRisk.get(claim.claimantId);
+        if (accountCreated === undefined || isNaN(accountCreated)) return false;
+        const accountAge = Date.parse(claim.createdDate) - accountCreated;
+        return accountAge >= 0 && accountAge < NEW_ACCOUNT_DAYS * DAY_MS;
+      })
+      .map(claim => claim.claimId);
+  }
+
+  /**
+   * Claims in an employer's burst: at least MIN_BURST_CLAIMS filed within
+   * BURST_WINDOW_DAYS, and BURST_FACTOR times the employer's own rate over
+   * the batch. A large employer's steady flow of claims is not a burst.
+   */
+  private employerBurstClaims(claims: BenefitsClaim[]): string[] {
+    const windowMs = BURST_WINDOW_DAYS * DAY_MS;
+    const dated = claims.filter(claim => claim.employerId && !isNaN(Date.parse(claim.createdDate)));
+    if (dated.length === 0) return [];
+    const times = dated.map(claim => Date.parse(claim.createdDate));
+    const first = times.reduce((min, time) => Math.min(min, time));
+    const last = times.reduce((max, time) => Math.max(max, time));
+    // The batch's length in windows, so the baseline is claims per window
+    const windows = Math.max(1, (last - first) / windowMs);
+
+    const affected: string[] = [];
+    for (const group of Object.values(this.groupBy(dated, 'employerId'))) {
+      const threshold = Math.max(MIN_BURST_CLAIMS, (group.length / windows) * BURST_FACTOR);
+      if (group.length < threshold) continue;
+
+      const sorted = [...group].sort((a, b) => Date.parse(a.createdDate) - Date.parse(b.createdDate));
+      const inBurst = new Set<string>();
+      let start = 0;
+      for (let end = 0; end < sorted.length; end++) {
+        while (Date.parse(sorted[end].createdDate) - Date.parse(sorted[start].createdDate) > windowMs) start++;
+        if (end - start + 1 < threshold) continue;
+        for (let i = start; i <= end; i++) inBurst.add(sorted[i].claimId);
+      }
+      affected.push(...inBurst);
+    }
+    return affected;
+  }
+
+  /**
+   * Claims filed at a fixed interval: runs of at least MIN_CADENCE_CLAIMS
+   * whose gaps all match the first to within CADENCE_TOLERANCE. Bots rotate
+   * addresses within a subnet, so runs are looked for per /24 subnet.
+   */
+  private filingCadenceClaims(claims: BenefitsClaim[]): string[] {
+    const subnets = this.groupBy(
+      claims.filter(claim => claim.ipAddress && !isNaN(Date.parse(claim.createdDate))),
+      claim => (claim.ipAddress as string).split('.').slice(0, 3).join('.')
+    );
+
+    const affected: string[] = [];
+    for (const group of Object.values(subnets)) {
+      const sorted = [...group].sort((a, b) => Date.parse(a.createdDate) - Date.parse(b.createdDate));
+      const gapAfter = (i: number) => Date.parse(sorted[i + 1].createdDate) - Date.parse(sorted[i].createdDate);
+      // Claims dated to the day share a timestamp, which is not a rhythm
+      const isCadenceGap = (gap: number) => gap >= MIN_CADENCE_GAP_MS && gap <= MAX_CADENCE_GAP_MS;
+
+      let start = 0;
+      while (start < sorted.length - 1) {
+        const interval = gapAfter(start);
+        let end = start + 1;
+        if (isCadenceGap(interval)) {
+          const tolerance = Math.max(MIN_CADENCE_TOLERANCE_MS, interval * CADENCE_TOLERANCE);
+          while (end < sorted.length - 1 && Math.abs(gapAfter(end) - interval) <= tolerance) end++;
+        }
+        if (end - start + 1 >= MIN_CADENCE_CLAIMS) {
+          affected.push(...sorted.slice(start, end + 1).map(claim => claim.claimId));
+        }
+        start = end;
+      }
+    }
+    return affected;
+  }
+
   private isWithinTimeWindow(dates: string[], days: number): boolean {
     if (dates.length < 2) return false;
     
@@ -455,35 +623,25 @@ export class PatternDetectionEngine {
     return (maxTime - minTime) <= (days * 24 * 60 * 60 * 1000);
   }
 
-  private isNonDomesticIP(ip: string): boolean {
-    // Simplified check - in practice would use IP geolocation services
-    return ip.startsWith('192.168.') || ip.startsWith('10.') || ip.startsWith('172.');
-  }
-
   private startPatternMonitoring(): void {
+    // Emerging patterns are promoted as detection runs observe them
     this.isMonitoring = true;
-    
-    // Simulate continuous monitoring
-    setInterval(() => {
-      this.updateSchemeStatistics();
-      this.promoteEmergingPatterns();
-    }, 300000); // Every 5 minutes
   }
 
-  private updateSchemeStatistics(): void {
-    // Update scheme effectiveness based on recent investigations
-    this.knownSchemes.forEach(scheme => {
-      // Simulate success rate adjustments based on investigation outcomes
-      const randomAdjustment = (Math.random() - 0.5) * 0.02;
-      scheme.successRate = Math.max(0.1, Math.min(0.99, scheme.successRate + randomAdjustment));
-    });
+  /**
+   * Update a scheme's success rate from an investigation outcome. The rate
+   * moves only on recorded outcomes, so detection confidence is repeatable.
+   */
+  recordInvestigationOutcome(schemeId: string, confirmedFraud: boolean): void {
+    const scheme = this.knownSchemes.find(s => s.id === schemeId);
+    if (!scheme) return;
+    const adjustment = ((confirmedFraud ? 1 : 0) - scheme.successRate) * 0.02;
+    scheme.successRate = Math.max(0.1, Math.min(0.99, scheme.successRate + adjustment));
   }
 
   private promoteEmergingPatterns(): void {
     // Check if emerging patterns should be promoted to known schemes
     for (const [patternId, pattern] of this.emergingPatterns.entries()) {
-      pattern.observations++;
-      
       if (pattern.observations >= 5 && pattern.cluster.suspiciousScore > 0.8) {
         // Promote to known scheme
         const newScheme: FraudScheme = {
@@ -494,7 +652,7 @@ export class PatternDetectionEngine {
           severity: pattern.cluster.suspiciousScore > 0.9 ? 'HIGH' : 'MEDIUM',
           detectionRules: [() => true], // Placeholder rule
           firstDetected: pattern.firstDetected,
-          lastDetected: new Date().toISOString(),
+          lastDetected: this.env.clock.now().toISOString(),
           occurrenceCount: pattern.observations,
           successRate: 0.5 // Initial estimate
         };
@@ -521,9 +679,9 @@ export class PatternDetectionEngine {
   addCustomScheme(scheme: Omit<FraudScheme, 'id' | 'firstDetected' | 'lastDetected' | 'occurrenceCount'>): void {
     const newScheme: FraudScheme = {
       ...scheme,
-      id: `CUSTOM_${Date.now()}`,
-      firstDetected: new Date().toISOString(),
-      lastDetected: new Date().toISOString(),
+      id: `CUSTOM_${this.env.clock.now().getTime()}`,
+      firstDetected: this.env.clock.now().toISOString(),
+      lastDetected: this.env.clock.now().toISOString(),
       occurrenceCount: 0
     };
     this.knownSchemes.push(newScheme);
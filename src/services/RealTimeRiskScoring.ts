@@ -1,10 +1,11 @@
-import { BenefitsClaim, ClaimantProfile, RiskAssessmentResult } from '@/types/enterprise';
+import { BenefitsClaim, ClaimantProfile, RiskAssessmentResult, RiskFactor, ScoreContribution } from '@/types/enterprise';
+import { createScoringEnvironment, ScoringEnvironment } from './scoringEnvironment';
 
 interface RiskPattern {
   id: string;
   name: string;
   weight: number;
-  conditions: Array<(claim: BenefitsClaim, claimant: ClaimantProfile, context?: any) => boolean>;
+  conditions: Array<(claim: BenefitsClaim, claimant: ClaimantProfile, context?: RealTimeContext) => boolean>;
   emergingThreat: boolean;
   lastSeen: string;
   frequency: number;
@@ -21,15 +22,48 @@ interface BehavioralMetrics {
   timeOfDayPattern: number[];
 }
 
+interface GeoPoint {
+  lat: number;
+  lng: number;
+}
+
+// A claim whose outcome is known, compared by benefit amount and claimant risk
+interface OutcomeReference {
+  weeklyBenefitAmount: number;
+  riskScore: number;
+}
+
+/**
+ * What the scorer knows about a claim beyond the claim itself. The scoring
+ * pipeline builds the claim history, cross-reference, device and identity
+ * fields; location, session behavior and known outcomes come only from a
+ * live intake, and checks without their data do not fire.
+ */
+export interface RealTimeContext {
+  // The claimant's other claims
+  recentClaims: Pick<BenefitsClaim, 'createdDate'>[];
+  // Other claimants cross-matched on the claim's address and phone
+  crossReferenceFlags: { shared_address_count: number; shared_phone_count: number };
+  // 0-1, how far the application session was from normal use
+  deviceMetrics?: { unusualBehavior: number };
+  // 0-1, how little of the identity could be verified
+  identityVerification?: { syntheticScore?: number };
+  currentLocation?: GeoPoint;
+  historicalLocations?: GeoPoint[];
+  behavioralMetrics?: BehavioralMetrics;
+  recentFraudConfirmations?: OutcomeReference[];
+  recentFalsePositives?: OutcomeReference[];
+}
+
 export class RealTimeRiskScoring {
   private riskPatterns: RiskPattern[] = [];
   private behavioralProfiles: Map<string, BehavioralMetrics[]> = new Map();
   private emergingThreats: Set<string> = new Set();
+  private patternOutcomes: Map<string, { confirmed: number; dismissed: number }> = new Map();
   private continuousLearning: boolean = true;
 
-  constructor() {
+  constructor(private env: ScoringEnvironment = createScoringEnvironment()) {
     this.initializeRiskPatterns();
-    this.startContinuousLearning();
   }
 
   private initializeRiskPatterns(): void {
@@ -40,14 +74,18 @@ export class RealTimeRiskScoring {
         weight: 85,
         conditions: [
           (claim, claimant, context) => {
+            // Claims in the 24 hours up to this one
+            const filed = Date.parse(claim.createdDate);
+            const reference = isNaN(filed) ? this.env.clock.now().getTime() : filed;
             const recentClaims = context?.recentClaims || [];
-            return recentClaims.filter((c: any) => 
-              new Date(c.createdDate).getTime() > Date.now() - 24 * 60 * 60 * 1000
-            ).length > 2;
+            return recentClaims.filter(c => {
+              const createdAt = new Date(c.createdDate).getTime();
+              return createdAt > reference - 24 * 60 * 60 * 1000 && createdAt <= reference;
+            }).length > 2;
           }
         ],
         emergingThreat: false,
-        lastSeen: new Date().toISOString(),
+        lastSeen: this.env.clock.now().toISOString(),
         frequency: 45
       },
       {
@@ -57,11 +95,11 @@ export class RealTimeRiskScoring {
         conditions: [
           (claim, claimant, context) => {
             const deviceMetrics = context?.deviceMetrics;
-            return deviceMetrics?.unusualBehavior > 0.7;
+            return (deviceMetrics?.unusualBehavior ?? 0) > 0.7;
           }
         ],
         emergingThreat: true,
-        lastSeen: new Date().toISOString(),
+        lastSeen: this.env.clock.now().toISOString(),
         frequency: 23
       },
       {
@@ -75,7 +113,7 @@ export class RealTimeRiskScoring {
           }
         ],
         emergingThreat: true,
-        lastSeen: new Date().toISOString(),
+        lastSeen: this.env.clock.now().toISOString(),
         frequency: 12
       },
       {
@@ -88,14 +126,14 @@ export class RealTimeRiskScoring {
             const historicalLocations = context?.historicalLocations || [];
             if (!currentLocation || historicalLocations.length === 0) return false;
             
-            const averageDistance = historicalLocations.reduce((sum: number, loc: any) => 
+            const averageDistance = historicalLocations.reduce((sum, loc) => 
               sum + this.calculateDistance(currentLocation, loc), 0) / historicalLocations.length;
             
             return averageDistance > 500; // More than 500 miles from average
           }
         ],
         emergingThreat: false,
-        lastSeen: new Date().toISOString(),
+        lastSeen: this.env.clock.now().toISOString(),
         frequency: 34
       }
     ];
@@ -107,15 +145,15 @@ export class RealTimeRiskScoring {
   async scoreRiskRealTime(
     claim: BenefitsClaim,
     claimant: ClaimantProfile,
-    context?: any
+    context?: RealTimeContext
   ): Promise<RiskAssessmentResult> {
-    const startTime = Date.now();
+    const startTime = this.env.clock.now().getTime();
     
     // Get behavioral metrics
     const behavioralRisk = await this.analyzeBehavioralPatterns(claimant.claimantId, context);
     
     // Pattern matching with emerging threat detection
-    const patternRisk = this.detectPatterns(claim, claimant, context);
+    const { score: patternRisk, threats, matched } = this.detectPatterns(claim, claimant, context);
     
     // Anomaly detection
     const anomalyRisk = await this.detectAnomalies(claim, claimant, context);
@@ -125,37 +163,62 @@ export class RealTimeRiskScoring {
     
     const baseScore = behavioralRisk + patternRisk + anomalyRisk + learningAdjustment;
     const finalScore = Math.min(1000, Math.max(0, baseScore));
+    const riskLevel = this.determineRiskLevel(finalScore);
     
-    const processingTime = Date.now() - startTime;
+    const now = this.env.clock.now();
+    const processingTime = now.getTime() - startTime;
     
     const riskFactors = this.generateRiskFactors(
       behavioralRisk, 
       patternRisk, 
       anomalyRisk, 
-      learningAdjustment
+      learningAdjustment,
+      threats
     );
 
     return {
-      assessmentId: `REALTIME_${claim.claimId}_${Date.now()}`,
+      assessmentId: `REALTIME_${claim.claimId}_${now.getTime()}`,
       claimId: claim.claimId,
       claimantId: claimant.claimantId,
-      assessmentDate: new Date().toISOString(),
+      assessmentDate: now.toISOString(),
       overallRiskScore: finalScore,
-      riskLevel: this.determineRiskLevel(finalScore),
+      riskLevel,
       riskFactors,
-      recommendedActions: this.generateRecommendations(finalScore, riskFactors),
-      requiresInvestigation: finalScore >= 100,
+      recommendedActions: this.generateRecommendations(finalScore, riskFactors, threats),
+      requiresInvestigation: riskLevel === 'HIGH' || riskLevel === 'CRITICAL',
       autoApprovalEligible: finalScore < 50,
       modelVersion: 'REALTIME_v2.1',
       confidenceScore: this.calculateConfidence(riskFactors),
+      provenance: [{ component: 'Real-time risk scoring', source: 'RULES', model: 'REALTIME_v2.1' }],
+      degraded: false,
       processingTimeMs: processingTime,
-      emergingThreats: Array.from(this.emergingThreats)
+      // Only this claim's threats, so earlier claims cannot change its result
+      emergingThreats: threats,
+      contributions: this.generateContributions(
+        [
+          { id: 'BEHAVIORAL', label: 'Behavioral anomalies', points: behavioralRisk, evidence: [
+            { name: 'sessions_compared', value: this.behavioralProfiles.get(claimant.claimantId)?.length ?? 0 }
+          ] },
+          { id: 'PATTERNS', label: 'Risk patterns', points: patternRisk, evidence: [
+            { name: 'matched_patterns', value: matched.join(', ') },
+            { name: 'emerging_threats', value: threats.join(', ') }
+          ] },
+          { id: 'ANOMALIES', label: 'Statistical anomalies', points: anomalyRisk, evidence: [
+            { name: 'claim_hour', value: new Date(claim.createdDate).getHours() },
+            { name: 'weekly_benefit_amount', value: Math.round(claim.weeklyBenefitAmount) },
+            { name: 'claimant_risk_score', value: claimant.riskScore }
+          ] },
+          { id: 'LEARNING', label: 'Learning adjustment', points: learningAdjustment, evidence: [] }
+        ],
+        baseScore,
+        finalScore
+      )
     };
   }
 
   private async analyzeBehavioralPatterns(
     claimantId: string, 
-    context?: any
+    context?: RealTimeContext
   ): Promise<number> {
     const currentMetrics = context?.behavioralMetrics;
     if (!currentMetrics) return 0;
@@ -193,9 +256,11 @@ export class RealTimeRiskScoring {
   private detectPatterns(
     claim: BenefitsClaim,
     claimant: ClaimantProfile,
-    context?: any
-  ): number {
+    context?: RealTimeContext
+  ): { score: number; threats: string[]; matched: string[] } {
     let patternScore = 0;
+    const threats: string[] = [];
+    const matched: string[] = [];
 
     for (const pattern of this.riskPatterns) {
       const matches = pattern.conditions.every(condition => 
@@ -204,22 +269,24 @@ export class RealTimeRiskScoring {
 
       if (matches) {
         patternScore += pattern.weight;
+        matched.push(pattern.id);
         
         // Mark as emerging threat if pattern frequency is increasing
         if (pattern.frequency > 20 && pattern.emergingThreat) {
           this.emergingThreats.add(pattern.id);
+          threats.push(pattern.id);
           patternScore += 20; // Additional score for emerging threats
         }
       }
     }
 
-    return patternScore;
+    return { score: patternScore, threats, matched };
   }
 
   private async detectAnomalies(
     claim: BenefitsClaim,
     claimant: ClaimantProfile,
-    context?: any
+    context?: RealTimeContext
   ): Promise<number> {
     let anomalyScore = 0;
 
@@ -236,9 +303,9 @@ export class RealTimeRiskScoring {
     if (claimant.riskScore > 70) anomalyScore += 30;
 
     // Cross-reference anomalies
-    const crossRefFlags = context?.crossReferenceFlags || {};
-    if (crossRefFlags.shared_address_count > 5) anomalyScore += 20;
-    if (crossRefFlags.shared_phone_count > 3) anomalyScore += 15;
+    const crossRefFlags = context?.crossReferenceFlags;
+    if ((crossRefFlags?.shared_address_count ?? 0) > 5) anomalyScore += 20;
+    if ((crossRefFlags?.shared_phone_count ?? 0) > 3) anomalyScore += 15;
 
     return anomalyScore;
   }
@@ -246,7 +313,7 @@ export class RealTimeRiskScoring {
   private applyContinuousLearning(
     claim: BenefitsClaim,
     claimant: ClaimantProfile,
-    context?: any
+    context?: RealTimeContext
   ): number {
     if (!this.continuousLearning) return 0;
 
@@ -257,14 +324,14 @@ export class RealTimeRiskScoring {
     let adjustment = 0;
 
     // Learn from confirmed fraud cases
-    recentFraudConfirmations.forEach((fraud: any) => {
+    recentFraudConfirmations.forEach(fraud => {
       if (this.hasSimilarCharacteristics(claim, claimant, fraud)) {
         adjustment += 10;
       }
     });
 
     // Learn from false positives
-    falsePositives.forEach((fp: any) => {
+    falsePositives.forEach(fp => {
       if (this.hasSimilarCharacteristics(claim, claimant, fp)) {
         adjustment -= 5;
       }
@@ -276,7 +343,7 @@ export class RealTimeRiskScoring {
   private hasSimilarCharacteristics(
     claim: BenefitsClaim,
     claimant: ClaimantProfile,
-    reference: any
+    reference: OutcomeReference
   ): boolean {
     // Simplified similarity check
     const amountSimilar = Math.abs(claim.weeklyBenefitAmount - reference.weeklyBenefitAmount) < 50;
@@ -285,13 +352,35 @@ export class RealTimeRiskScoring {
     return amountSimilar && riskSimilar;
   }
 
+  // One entry per scoring component, plus the clamp to 0-1000, summing to the score
+  private generateContributions(
+    components: Array<Omit<ScoreContribution, 'contributionId' | 'source'> & { id: string }>,
+    baseScore: number,
+    finalScore: number
+  ): ScoreContribution[] {
+    const contributions: ScoreContribution[] = components
+      .filter(component => component.points !== 0)
+      .map(({ id, ...component }) => ({ contributionId: `REALTIME_${id}`, source: 'REALTIME', ...component }));
+    if (finalScore !== baseScore) {
+      contributions.push({
+        contributionId: 'REALTIME_CAP',
+        source: 'ADJUSTMENT',
+        label: 'Real-time score cap',
+        points: finalScore - baseScore,
+        evidence: [{ name: 'uncapped_score', value: baseScore }]
+      });
+    }
+    return contributions;
+  }
+
   private generateRiskFactors(
     behavioralRisk: number,
     patternRisk: number,
     anomalyRisk: number,
-    learningAdjustment: number
-  ): any[] {
-    const factors = [];
+    learningAdjustment: number,
+    threats: string[]
+  ): RiskFactor[] {
+    const factors: RiskFactor[] = [];
 
     if (behavioralRisk > 20) {
       factors.push({
@@ -313,7 +402,7 @@ export class RealTimeRiskScoring {
         impact: patternRisk,
         confidence: 0.90,
         description: 'Matches known fraudulent behavior patterns',
-        evidence: Array.from(this.emergingThreats).map(threat => `Pattern: ${threat}`)
+        evidence: threats.map(threat => `Pattern: ${threat}`)
       });
     }
 
@@ -346,21 +435,22 @@ export class RealTimeRiskScoring {
     return factors;
   }
 
-  private generateRecommendations(score: number, riskFactors: any[]): string[] {
+  private generateRecommendations(score: number, riskFactors: RiskFactor[], threats: string[]): string[] {
     const recommendations = [];
 
-    if (score >= 200) {
+    const level = this.determineRiskLevel(score);
+    if (level === 'CRITICAL') {
       recommendations.push('Immediate manual review required');
       recommendations.push('Escalate to senior fraud investigator');
-    } else if (score >= 100) {
+    } else if (level === 'HIGH') {
       recommendations.push('Schedule comprehensive investigation');
       recommendations.push('Request additional documentation');
-    } else if (score >= 50) {
+    } else if (level === 'MEDIUM') {
       recommendations.push('Perform enhanced verification checks');
       recommendations.push('Monitor for additional risk factors');
     }
 
-    if (this.emergingThreats.size > 0) {
+    if (threats.length > 0) {
       recommendations.push('Alert: Emerging threat patterns detected');
     }
 
@@ -372,13 +462,10 @@ export class RealTimeRiskScoring {
   }
 
   private determineRiskLevel(score: number): 'LOW' | 'MEDIUM' | 'HIGH' | 'CRITICAL' {
-    if (score >= 200) return 'CRITICAL';
-    if (score >= 100) return 'HIGH';
-    if (score >= 50) return 'MEDIUM';
-    return 'LOW';
+    return this.env.calibration.levelFor(score);
   }
 
-  private calculateConfidence(riskFactors: any[]): number {
+  private calculateConfidence(riskFactors: RiskFactor[]): number {
     if (riskFactors.length === 0) return 0.5;
     
     const avgConfidence = riskFactors.reduce((sum, factor) => 
@@ -387,43 +474,55 @@ export class RealTimeRiskScoring {
     return Math.round(avgConfidence * 100) / 100;
   }
 
-  private calculateDistance(point1: any, point2: any): number {
+  private calculateDistance(point1: GeoPoint, point2: GeoPoint): number {
     // Simplified distance calculation (Haversine formula would be more accurate)
     const latDiff = point1.lat - point2.lat;
     const lngDiff = point1.lng - point2.lng;
     return Math.sqrt(latDiff * latDiff + lngDiff * lngDiff) * 69; // Approximate miles
   }
 
-  private startContinuousLearning(): void {
-    // Simulate continuous learning updates
-    setInterval(() => {
-      this.updateEmergingThreats();
-      this.adjustPatternWeights();
-    }, 60000); // Update every minute
+  private updateEmergingThreats(pattern: RiskPattern): void {
+    // Patterns confirmed often enough become emerging threats
+    if (pattern.frequency > 30 && !pattern.emergingThreat) {
+      pattern.emergingThreat = true;
+      this.emergingThreats.add(pattern.id);
+    }
   }
 
-  private updateEmergingThreats(): void {
-    // Simulate threat intelligence updates
-    this.riskPatterns.forEach(pattern => {
-      pattern.frequency += Math.floor(Math.random() * 3);
-      
-      if (pattern.frequency > 30 && !pattern.emergingThreat) {
-        pattern.emergingThreat = true;
-        this.emergingThreats.add(pattern.id);
-      }
-    });
+  private adjustPatternWeight(pattern: RiskPattern): void {
+    // Weight follows the share of matched claims confirmed as fraud
+    const outcome = this.patternOutcomes.get(pattern.id);
+    if (!outcome) return;
+    const effectiveness = outcome.confirmed / (outcome.confirmed + outcome.dismissed);
+    if (effectiveness > 0.8) {
+      pattern.weight = Math.min(100, pattern.weight + 2);
+    } else if (effectiveness < 0.3) {
+      pattern.weight = Math.max(10, pattern.weight - 1);
+    }
   }
 
-  private adjustPatternWeights(): void {
-    // Simulate weight adjustments based on effectiveness
-    this.riskPatterns.forEach(pattern => {
-      const effectiveness = Math.random();
-      if (effectiveness > 0.8) {
-        pattern.weight = Math.min(100, pattern.weight + 2);
-      } else if (effectiveness < 0.3) {
-        pattern.weight = Math.max(10, pattern.weight - 1);
+  /**
+   * Feed back an investigation outcome for the patterns a claim matched.
+   * Pattern weights and frequencies only change here, so scores move with
+   * recorded outcomes rather than with the time of day.
+   */
+  recordOutcome(patternIds: string[], confirmedFraud: boolean): void {
+    for (const pattern of this.riskPatterns.filter(p => patternIds.includes(p.id))) {
+      const outcome = this.patternOutcomes.get(pattern.id) || { confirmed: 0, dismissed: 0 };
+      if (confirmedFraud) {
+        outcome.confirmed++;
+        pattern.frequency++;
+        pattern.lastSeen = this.env.clock.now().toISOString();
+      } else {
+        outcome.dismissed++;
       }
-    });
+      this.patternOutcomes.set(pattern.id, outcome);
+
+      if (this.continuousLearning) {
+        this.updateEmergingThreats(pattern);
+        this.adjustPatternWeight(pattern);
+      }
+    }
   }
 
   // Public methods for monitoring and configuration
@@ -438,8 +537,8 @@ export class RealTimeRiskScoring {
   addCustomPattern(pattern: Omit<RiskPattern, 'id' | 'lastSeen' | 'frequency'>): void {
     const newPattern: RiskPattern = {
       ...pattern,
-      id: `CUSTOM_${Date.now()}`,
-      lastSeen: new Date().toISOString(),
+      id: `CUSTOM_${this.env.clock.now().getTime()}`,
+      lastSeen: this.env.clock.now().toISOString(),
       frequency: 0
     };
     this.riskPatterns.push(newPattern);
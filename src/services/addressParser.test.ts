@@ -0,0 +1,28 @@
+import { describe, expect, it } from 'vitest';
+import { AddressParser } from './addressParser';
+
+describe('AddressParser', () => {
+  it('parses a free-text address into its parts', () => {
+    expect(AddressParser.parse('123 Main St, Apt 4, Springfield, IL 62701')).toEqual({
+      streetAddress1: '123 Main St',
+      streetAddress2: 'Apt 4',
+      city: 'Springfield',
+      state: 'IL',
+      zipCode: '62701',
+      country: 'US'
+    });
+    expect(AddressParser.parseHistory('1 A St, Albany, NY 12207 | 2 B Ave').map(address => address.streetAddress1))
+      .toEqual(['1 A St', '2 B Ave']);
+  });
+
+  it('standardizes suffixes, directionals and units', () => {
+    expect(AddressParser.standardizeStreet('123 North Main Street, Apartment 4B')).toEqual({
+      houseNumber: '123', streetName: 'n main st', unitDesignator: 'apt', unitNumber: '4b'
+    });
+    expect(AddressParser.standardizeStreet('123 N Main St #4b')).toMatchObject({ streetName: 'n main st', unitNumber: '4b' });
+  });
+
+  it('keeps a first word that is also a suffix as the street name', () => {
+    expect(AddressParser.formatStreet(AddressParser.standardizeStreet('45 Court Street'))).toBe('45 court st');
+  });
+});
@@ -0,0 +1,141 @@
+import { Address, StandardStreet } from '../types/enterprise';
+
+const STATE_ZIP = /^(.*?)[,\s]+([A-Za-z]{2})\s+(\d{5}(?:-\d{4})?)$/;
+
+// USPS street suffix abbreviations
+const STREET_SUFFIXES: Record<string, string> = {
+  street: 'st', str: 'st',
+  avenue: 'ave', av: 'ave', avn: 'ave',
+  boulevard: 'blvd', boul: 'blvd',
+  road: 'rd',
+  drive: 'dr', drv: 'dr',
+  lane: 'ln',
+  court: 'ct',
+  circle: 'cir',
+  place: 'pl',
+  parkway: 'pkwy', pky: 'pkwy',
+  highway: 'hwy',
+  terrace: 'ter',
+  trail: 'trl',
+  square: 'sq',
+  expressway: 'expy',
+  freeway: 'fwy',
+  crossing: 'xing',
+  heights: 'hts',
+  point: 'pt',
+  center: 'ctr', centre: 'ctr',
+  plaza: 'plz',
+  alley: 'aly'
+};
+
+const DIRECTIONALS: Record<string, string> = {
+  north: 'n', south: 's', east: 'e', west: 'w',
+  northeast: 'ne', northwest: 'nw', southeast: 'se', southwest: 'sw'
+};
+
+const ORDINALS: Record<string, string> = {
+  first: '1st', second: '2nd', third: '3rd', fourth: '4th', fifth: '5th',
+  sixth: '6th', seventh: '7th', eighth: '8th', ninth: '9th', tenth: '10th'
+};
+
+// USPS secondary unit designators
+const UNIT_DESIGNATORS: Record<string, string> = {
+  apartment: 'apt', apt: 'apt',
+  suite: 'ste', ste: 'ste',
+  unit: 'unit',
+  room: 'rm', rm: 'rm',
+  floor: 'fl', fl: 'fl',
+  building: 'bldg', bldg: 'bldg',
+  lot: 'lot',
+  space: 'spc', spc: 'spc',
+  trailer: 'trlr', trlr: 'trlr',
+  '#': '#'
+};
+
+export class AddressParser {
+  /**
+   * Parse a single free-text address such as
+   * "123 Main St, Apt 4, Springfield, IL 62701". Parts that are not present
+   * are left empty; a bare street line is a valid address.
+   */
+  static parse(text: string, country = 'US'): Address {
+    const address: Address = { streetAddress1: '', city: '', state: '', zipCode: '', country };
+    let remainder = text.trim().replace(/\s+/g, ' ');
+
+    const stateZip = remainder.match(STATE_ZIP);
+    if (stateZip) {
+      remainder = stateZip[1];
+      address.state = stateZip[2].toUpperCase();
+      address.zipCode = stateZip[3];
+    }
+
+    const parts = remainder.split(',').map(part => part.trim()).filter(Boolean);
+    address.streetAddress1 = parts.shift() || '';
+
+    // With a state present, the last comma-separated part is the city
+    if (stateZip && parts.length > 0) {
+      address.city = parts.pop() || '';
+    }
+    if (parts.length > 0) {
+      address.streetAddress2 = parts.join(', ');
+    }
+
+    return address;
+  }
+
+  /**
+   * Parse a pipe-delimited address history, most recent first.
+   */
+  static parseHistory(text: string): Address[] {
+    return text.split('|').map(part => part.trim()).filter(Boolean).map(part => this.parse(part));
+  }
+
+  static format(address: Address): string {
+    const locality = [address.state, address.zipCode].filter(Boolean).join(' ');
+    return [address.streetAddress1, address.streetAddress2, address.city, locality]
+      .filter(Boolean)
+      .join(', ');
+  }
+
+  /**
+   * Standardize a street line for comparison: lowercase, USPS suffix and
+   * directional abbreviations, and the unit split off, so "123 North Main
+   * Street, Apartment 4B" and "123 N Main St #4b" compare equal but for the
+   * unit designator.
+   */
+  static standardizeStreet(line: string): StandardStreet {
+    const street: StandardStreet = { houseNumber: '', streetName: '', unitDesignator: '', unitNumber: '' };
+    const tokens = line
+      .toLowerCase()
+      .replace(/#/g, ' # ')
+      .replace(/[.,]/g, ' ')
+      .split(/\s+/)
+      .filter(Boolean);
+
+    // The unit, from the first designator on
+    const unitAt = tokens.findIndex((token, index) => index > 0 && UNIT_DESIGNATORS[token]);
+    if (unitAt !== -1) {
+      street.unitDesignator = UNIT_DESIGNATORS[tokens[unitAt]];
+      street.unitNumber = tokens.slice(unitAt + 1).filter(token => token !== '#').join('');
+      tokens.splice(unitAt);
+    }
+
+    if (/^\d+[a-z]?$/.test(tokens[0] ?? '')) {
+      street.houseNumber = tokens.shift() as string;
+    }
+    street.streetName = tokens
+      .map((token, index) => {
+        if (DIRECTIONALS[token]) return DIRECTIONALS[token];
+        if (ORDINALS[token]) return ORDINALS[token];
+        // The first word is the name itself, as in "Court Street"
+        return index > 0 && STREET_SUFFIXES[token] ? STREET_SUFFIXES[token] : token;
+      })
+      .join(' ');
+
+    return street;
+  }
+
+  static formatStreet(street: StandardStreet): string {
+    return [street.houseNumber, street.streetName, street.unitDesignator, street.unitNumber].filter(Boolean).join(' ');
+  }
+}
@@ -0,0 +1,66 @@
+import 'fake-indexeddb/auto';
+import { beforeEach, describe, expect, it } from 'vitest';
+import { createFixedClock } from '@/lib/clock';
+import { BatchCheckpointSummary } from '../types/fraud';
+import { BatchCheckpointStore } from './batchCheckpointStore';
+
+const summary = (jobId: string): BatchCheckpointSummary => ({
+  jobId,
+  label: 'claims.csv',
+  startedAt: '2024-03-01T00:00:00.000Z',
+  updatedAt: '2024-03-01T00:00:00.000Z',
+  total: 2,
+  completed: 0
+});
+
+describe('BatchCheckpointStore', () => {
+  beforeEach(() => BatchCheckpointStore.clear());
+
+  it('has nothing to resume when no run was started', async () => {
+    expect(await BatchCheckpointStore.latest()).toBeNull();
+    expect(await BatchCheckpointStore.load('JOB_1')).toBeNull();
+  });
+
+  it('returns the items and every appended result of a run', async () => {
+    const clock = createFixedClock('2024-03-01T00:05:00Z');
+    await BatchCheckpointStore.start(summary('JOB_1'), ['a', 'b']);
+    await BatchCheckpointStore.append('JOB_1', ['A'], 1, clock);
+    await BatchCheckpointStore.append('JOB_1', ['B'], 2, clock);
+
+    expect(await BatchCheckpointStore.load('JOB_1')).toEqual({ items: ['a', 'b'], results: ['A', 'B'] });
+    expect(await BatchCheckpointStore.latest()).toEqual({
+      ...summary('JOB_1'),
+      completed: 2,
+      updatedAt: '2024-03-01T00:05:00.000Z'
+    });
+  });
+
+  it('adds the items of a streamed run a chunk at a time', async () => {
+    await BatchCheckpointStore.start({ ...summary('JOB_1'), total: 0 }, []);
+    await BatchCheckpointStore.addItems('JOB_1', ['a', 'b']);
+    await BatchCheckpointStore.addItems('JOB_1', ['c']);
+
+    expect((await BatchCheckpointStore.load('JOB_1'))?.items).toEqual(['a', 'b', 'c']);
+    expect((await BatchCheckpointStore.latest())?.total).toBe(3);
+  });
+
+  it('discards the last run when a new one starts', async () => {
+    await BatchCheckpointStore.start(summary('JOB_1'), ['a']);
+    await BatchCheckpointStore.append('JOB_1', ['A'], 1);
+    await BatchCheckpointStore.start(summary('JOB_2'), ['b']);
+
+    expect((await BatchCheckpointStore.latest())?.jobId).toBe('JOB_2');
+    expect(await BatchCheckpointStore.load('JOB_1')).toBeNull();
+    expect(await BatchCheckpointStore.load('JOB_2')).toEqual({ items: ['b'], results: [] });
+  });
+
+  it('ignores writes for a run that was discarded', async () => {
+    await BatchCheckpointStore.start(summary('JOB_1'), ['a']);
+    await BatchCheckpointStore.clear();
+    await BatchCheckpointStore.append('JOB_1', ['A'], 1);
+    await BatchCheckpointStore.addItems('JOB_1', ['b']);
+
+    expect(await BatchCheckpointStore.latest()).toBeNull();
+    expect(await BatchCheckpointStore.load('JOB_1')).toBeNull();
+  });
+});
@@ -0,0 +1,111 @@
+import { BatchCheckpointSummary } from '../types/fraud';
+import { Clock, systemClock } from '@/lib/clock';
+import { openDatabase, requestResult, transactionDone } from '@/lib/indexedDb';
+
+const DB_NAME = 'fraudiq.batchJobs';
+const DB_VERSION = 2;
+
+// One record per job: the summary, read on load without touching the claims
+const JOBS = 'jobs';
+// The job's input claims, added a chunk at a time as a streamed file is read
+const ITEMS = 'items';
+// Results appended a checkpoint at a time, so a write never rewrites the run
+const RESULTS = 'results';
+
+/**
+ * IndexedDB checkpoints for a long analysis run, so a reload can pick up
+ * where it stopped. Only one run is resumable at a time; starting a new one
+ * discards the last.
+ */
+export class BatchCheckpointStore {
+  private static db: Promise<IDBDatabase> | null = null;
+
+  private static open(): Promise<IDBDatabase> {
+    if (!this.db) {
+      this.db = openDatabase(DB_NAME, DB_VERSION, db => {
+        // A checkpoint from an older version is not worth converting
+        Array.from(db.objectStoreNames).forEach(store => db.deleteObjectStore(store));
+        db.createObjectStore(JOBS, { keyPath: 'jobId' });
+        db.createObjectStore(ITEMS, { autoIncrement: true }).createIndex('jobId', 'jobId');
+        db.createObjectStore(RESULTS, { autoIncrement: true }).createIndex('jobId', 'jobId');
+      });
+      // Let a later call try again rather than caching the failure
+      this.db.catch(() => { this.db = null; });
+    }
+    return this.db;
+  }
+
+  static async start<TItem>(summary: BatchCheckpointSummary, items: TItem[]): Promise<void> {
+    const db = await this.open();
+    const transaction = db.transaction([JOBS, ITEMS, RESULTS], 'readwrite');
+    [JOBS, ITEMS, RESULTS].forEach(store => transaction.objectStore(store).clear());
+    transaction.objectStore(JOBS).put(summary);
+    if (items.length > 0) {
+      transaction.objectStore(ITEMS).add({ jobId: summary.jobId, items });
+    }
+    await transactionDone(transaction);
+  }
+
+  // More input for a running job, such as the next chunk of a streamed file
+  static async addItems<TItem>(jobId: string, items: TItem[], clock: Clock = systemClock): Promise<void> {
+    const db = await this.open();
+    const transaction = db.transaction([JOBS, ITEMS], 'readwrite');
+    const jobs = transaction.objectStore(JOBS);
+    const summary = await requestResult<BatchCheckpointSummary | undefined>(jobs.get(jobId));
+    if (!summary) return;
+
+    transaction.objectStore(ITEMS).add({ jobId, items });
+    jobs.put({ ...summary, total: summary.total + items.length, updatedAt: clock.now().toISOString() });
+    await transactionDone(transaction);
+  }
+
+  static async append<TResult>(
+    jobId: string,
+    results: TResult[],
+    completed: number,
+    clock: Clock = systemClock
+  ): Promise<void> {
+    const db = await this.open();
+    const transaction = db.transaction([JOBS, RESULTS], 'readwrite');
+    const jobs = transaction.objectStore(JOBS);
+    const summary = await requestResult<BatchCheckpointSummary | undefined>(jobs.get(jobId));
+    // The run was discarded while this write was queued
+    if (!summary) return;
+
+    if (results.length > 0) {
+      transaction.objectStore(RESULTS).add({ jobId, results });
+    }
+    jobs.put({ ...summary, completed, updatedAt: clock.now().toISOString() });
+    await transactionDone(transaction);
+  }
+
+  // The interrupted run, if there is one
+  static async latest(): Promise<BatchCheckpointSummary | null> {
+    const db = await this.open();
+    const summaries = await requestResult<BatchCheckpointSummary[]>(
+      db.transaction(JOBS).objectStore(JOBS).getAll()
+    );
+    return summaries[0] ?? null;
+  }
+
+  static async load<TItem, TResult>(jobId: string): Promise<{ items: TItem[]; results: TResult[] } | null> {
+    const db = await this.open();
+    const transaction = db.transaction([ITEMS, RESULTS]);
+    const [itemChunks, resultChunks] = await Promise.all([
+      requestResult<{ items: TItem[] }[]>(transaction.objectStore(ITEMS).index('jobId').getAll(jobId)),
+      requestResult<{ results: TResult[] }[]>(transaction.objectStore(RESULTS).index('jobId').getAll(jobId))
+    ]);
+    if (itemChunks.length === 0) return null;
+    return {
+      items: itemChunks.flatMap(chunk => chunk.items),
+      results: resultChunks.flatMap(chunk => chunk.results)
+    };
+  }
+
+  static async clear(): Promise<void> {
+    const db = await this.open();
+    const transaction = db.transaction([JOBS, ITEMS, RESULTS], 'readwrite');
+    [JOBS, ITEMS, RESULTS].forEach(store => transaction.objectStore(store).clear());
+    await transactionDone(transaction);
+  }
+}
@@ -0,0 +1,164 @@
+import { describe, expect, it } from 'vitest';
+import { BatchJobOptions } from '../types/fraud';
+import { BatchJobHandlers, BatchJobManager } from './batchJobManager';
+
+const OPTIONS: BatchJobOptions = { concurrency: 2, maxRetries: 1, updateIntervalMs: 5, checkpointIntervalMs: 5 };
+
+const tick = () => new Promise(resolve => setTimeout(resolve, 1));
+const sorted = (values: number[]) => [...values].sort((a, b) => a - b);
+
+// Doubles numbers, failing each number in `failing` that many times first
+function doubler(failing: Record<number, number> = {}) {
+  const results: number[] = [];
+  const checkpoints: number[][] = [];
+  const attempts = new Map<number, number>();
+  const handlers: BatchJobHandlers<number, number> = {
+    itemId: String,
+    process: async item => {
+      await tick();
+      const attempt = (attempts.get(item) ?? 0) + 1;
+      attempts.set(item, attempt);
+      if (attempt <= (failing[item] ?? 0)) throw new Error(`failed ${item}`);
+      return item * 2;
+    },
+    onResults: batch => results.push(...batch),
+    onCheckpoint: async batch => { checkpoints.push(batch); }
+  };
+  return { handlers, results, checkpoints, attempts };
+}
+
+describe('BatchJobManager', () => {
+  it('processes every item and reports each result once', async () => {
+    const { handlers, results, checkpoints } = doubler();
+    const progress = await new BatchJobManager('JOB', handlers, OPTIONS).run([1, 2, 3, 4, 5]);
+
+    expect(progress).toMatchObject({ status: 'COMPLETED', total: 5, completed: 5, failures: [] });
+    expect(sorted(results)).toEqual([2, 4, 6, 8, 10]);
+    expect(sorted(checkpoints.flat())).toEqual([2, 4, 6, 8, 10]);
+  });
+
+  it('never runs more items at once than its concurrency', async () => {
+    let running = 0;
+    let most = 0;
+    const job = new BatchJobManager<number, number>('JOB', {
+      itemId: String,
+      process: async item => {
+        most = Math.max(most, ++running);
+        await tick();
+        running--;
+        return item;
+      },
+      onResults: () => {}
+    }, { ...OPTIONS, concurrency: 3 });
+
+    await job.run(Array.from({ length: 10 }, (_, i) => i));
+    expect(most).toBe(3);
+  });
+
+  it('retries a failing item and records it once out of retries', async () => {
+    const { handlers, results, attempts } = doubler({ 2: 1, 3: 5 });
+    const progress = await new BatchJobManager('JOB', handlers, OPTIONS).run([1, 2, 3]);
+
+    expect(sorted(results)).toEqual([2, 4]);
+    expect(attempts.get(3)).toBe(2);
+    expect(progress.completed).toBe(2);
+    expect(progress.failures).toEqual([{ itemId: '3', attempts: 2, error: 'failed 3' }]);
+  });
+
+  it('runs failed items again on retryFailed', async () => {
+    const { handlers, results } = doubler({ 3: 2 });
+    const job = new BatchJobManager('JOB', handlers, OPTIONS);
+    await job.run([1, 3]);
+    const progress = await job.retryFailed();
+
+    expect(progress).toMatchObject({ status: 'COMPLETED', total: 2, completed: 2, failures: [] });
+    expect(sorted(results)).toEqual([2, 6]);
+  });
+
+  it('continues the count of a resumed run', async () => {
+    const { handlers } = doubler();
+    const progress = await new BatchJobManager('JOB', handlers, OPTIONS).run([1, 2], 8);
+
+    expect(progress).toMatchObject({ total: 10, completed: 10 });
+  });
+
+  it('starts nothing new once cancelled', async () => {
+    const { handlers, results } = doubler();
+    const job = new BatchJobManager('JOB', handlers, { ...OPTIONS, concurrency: 1 });
+    const finished = job.run([1, 2, 3, 4]);
+    job.cancel();
+    const progress = await finished;
+
+    expect(progress.status).toBe('CANCELLED');
+    expect(results).toEqual([2]);
+  });
+
+  it('holds its items while paused', async () => {
+    const { handlers, results } = doubler();
+    const job = new BatchJobManager('JOB', handlers, { ...OPTIONS, concurrency: 1 });
+    const finished = job.run([1, 2, 3]);
+    job.pause();
+    await new Promise(resolve => setTimeout(resolve, 20));
+    expect(job.progress).toMatchObject({ status: 'PAUSED', completed: 1 });
+
+    job.resume();
+    expect((await finished).completed).toBe(3);
+    expect(results).toEqual([2, 4, 6]);
+  });
+
+  describe('streamed', () => {
+    it('waits for items until closed', async () => {
+      const { handlers, results } = doubler();
+      const job = new BatchJobManager('JOB', handlers, OPTIONS);
+      let settled = false;
+      const finished = job.stream().then(progress => {
+        settled = true;
+        return progress;
+      });
+
+      job.enqueue([1, 2]);
+      await job.drain();
+      expect(sorted(results)).toEqual([2, 4]);
+      expect(settled).toBe(false);
+
+      job.enqueue([3]);
+      job.close();
+      expect(await finished).toMatchObject({ status: 'COMPLETED', total: 3, completed: 3 });
+    });
+
+    it('reports every enqueued result before drain resolves', async () => {
+      const { handlers, results } = doubler({ 2: 1 });
+      const job = new BatchJobManager('JOB', handlers, { ...OPTIONS, updateIntervalMs: 60000 });
+      const finished = job.stream();
+
+      job.enqueue([1, 2, 3]);
+      await job.drain();
+      expect(sorted(results)).toEqual([2, 4, 6]);
+
+      job.close();
+      await finished;
+    });
+
+    it('drops items enqueued after it is cancelled', async () => {
+      const { handlers, results } = doubler();
+      const job = new BatchJobManager('JOB', handlers, OPTIONS);
+      const finished = job.stream();
+      job.cancel();
+      job.enqueue([1]);
+      job.close();
+
+      expect(await finished).toMatchObject({ status: 'CANCELLED', total: 0 });
+      expect(results).toEqual([]);
+    });
+
+    it('refuses items once closed', async () => {
+      const { handlers } = doubler();
+      const job = new BatchJobManager('JOB', handlers, OPTIONS);
+      const finished = job.stream();
+      job.close();
+      await finished;
+
+      expect(() => job.enqueue([1])).toThrow('not accepting items');
+    });
+  });
+});
@@ -0,0 +1,309 @@
+import { BatchJobFailure, BatchJobOptions, BatchJobProgress, BatchJobStatus } from '../types/fraud';
+
+export interface BatchJobHandlers<TItem, TResult> {
+  itemId: (item: TItem) => string;
+  process: (item: TItem) => Promise<TResult>;
+  // Results finished since the last call, at most once per updateIntervalMs
+  onResults: (results: TResult[], progress: BatchJobProgress) => void;
+  // Results finished since the last checkpoint; writes never overlap
+  onCheckpoint?: (results: TResult[], progress: BatchJobProgress) => Promise<void>;
+}
+
+interface QueuedItem<TItem> {
+  item: TItem;
+  attempts: number;
+}
+
+const OPTIONS_STORAGE_KEY = 'fraudiq.batchJobOptions';
+
+/**
+ * Runs a list of items through `process` on a pool of concurrent workers.
+ * An item that throws goes to the back of the queue for another attempt,
+ * and once out of retries is recorded as a failure without holding up the
+ * rest. Results reach the UI and the checkpoint in throttled batches rather
+ * than one by one.
+ *
+ * A job can also be streamed: started empty with stream(), fed with
+ * enqueue() as its items arrive, and closed once there are no more.
+ */
+export class BatchJobManager<TItem, TResult> {
+  static defaultOptions: BatchJobOptions = {
+    concurrency: 4,
+    maxRetries: 2,
+    updateIntervalMs: 250,
+    checkpointIntervalMs: 2000
+  };
+
+  private queue: QueuedItem<TItem>[] = [];
+  private failed: TItem[] = [];
+  private failures: BatchJobFailure[] = [];
+  private status: BatchJobStatus = 'RUNNING';
+  private total = 0;
+  private completed = 0;
+  private inFlight = 0;
+  private workers = 0;
+  // A streamed job waits for more items until it is closed
+  private accepting = false;
+
+  private pendingResults: TResult[] = [];
+  private pendingCheckpoint: TResult[] = [];
+  private updateTimer: ReturnType<typeof setTimeout> | null = null;
+  private checkpointTimer: ReturnType<typeof setTimeout> | null = null;
+  private checkpointWrite: Promise<void> = Promise.resolve();
+
+  private waiters: (() => void)[] = [];
+  private resolveRun: ((progress: BatchJobProgress) => void) | null = null;
+
+  constructor(
+    readonly jobId: string,
+    private handlers: BatchJobHandlers<TItem, TResult>,
+    private options: BatchJobOptions = BatchJobManager.loadOptions()
+  ) {}
+
+  get progress(): BatchJobProgress {
+    return {
+      jobId: this.jobId,
+      status: this.status,
+      total: this.total,
+      completed: this.completed,
+      inFlight: this.inFlight,
+      retrying: this.queue.filter(queued => queued.attempts > 0).length,
+      failures: [...this.failures]
+    };
+  }
+
+  get concurrency(): number {
+    return this.options.concurrency;
+  }
+
+  /**
+   * Process every item, resolving once all have succeeded or failed, or the
+   * job is cancelled. `completedBefore` counts items already done in an
+   * earlier session, so progress continues where a resumed run left off.
+   */
+  run(items: TItem[], completedBefore = 0): Promise<BatchJobProgress> {
+    if (this.resolveRun) {
+      throw new Error(`Batch job ${this.jobId} is already running`);
+    }
+
+    this.queue = items.map(item => ({ item, attempts: 0 }));
+    this.failed = [];
+    this.failures = [];
+    this.total = completedBefore + items.length;
+    this.completed = completedBefore;
+    this.status = 'RUNNING';
+
+    return new Promise(resolve => {
+      this.resolveRun = resolve;
+      this.spawnWorkers();
+      this.settleIfDone();
+    });
+  }
+
+  /**
+   * Start a job with no items yet. Its workers wait for enqueue() until
+   * close(), and it resolves like run() once everything enqueued is done.
+   */
+  stream(completedBefore = 0): Promise<BatchJobProgress> {
+    this.accepting = true;
+    return this.run([], completedBefore);
+  }
+
+  // Add items to a streamed job; once it is cancelled they are dropped
+  enqueue(items: TItem[]): void {
+    if (!this.accepting) {
+      throw new Error(`Batch job ${this.jobId} is not accepting items`);
+    }
+    if (this.status === 'CANCELLED') return;
+
+    for (const item of items) {
+      this.queue.push({ item, attempts: 0 });
+    }
+    this.total += items.length;
+    this.scheduleUpdate();
+    this.notify();
+  }
+
+  // No more items are coming; the job finishes with the ones it has
+  close(): void {
+    this.accepting = false;
+    this.notify();
+  }
+
+  /**
+   * Resolves once every item enqueued so far has finished and its result
+   * has gone to onResults, or the job is cancelled
+   */
+  async drain(): Promise<void> {
+    while (this.status !== 'CANCELLED' && (this.queue.length > 0 || this.inFlight > 0)) {
+      await this.nextChange();
+    }
+    this.flushResults();
+  }
+
+  // Run the items that ran out of retries again, with fresh attempts
+  retryFailed(): Promise<BatchJobProgress> {
+    return this.run(this.failed, this.completed);
+  }
+
+  pause(): void {
+    if (this.status !== 'RUNNING') return;
+    this.status = 'PAUSED';
+    // Save progress now; a paused tab is often a tab about to be closed
+    this.flushResults();
+    this.flushCheckpoint();
+  }
+
+  resume(): void {
+    if (this.status !== 'PAUSED') return;
+    this.status = 'RUNNING';
+    this.scheduleUpdate();
+    this.notify();
+  }
+
+  // Claims already being analyzed finish; nothing new is started
+  cancel(): void {
+    if (this.status !== 'RUNNING' && this.status !== 'PAUSED') return;
+    this.status = 'CANCELLED';
+    this.queue = [];
+    this.scheduleUpdate();
+    this.notify();
+  }
+
+  setConcurrency(concurrency: number): void {
+    this.options = { ...this.options, concurrency: Math.max(1, Math.floor(concurrency)) };
+    if (this.resolveRun) this.spawnWorkers();
+    // Surplus workers notice on their next pass and stop
+    this.notify();
+  }
+
+  private spawnWorkers(): void {
+    const count = this.options.concurrency - this.workers;
+    for (let i = 0; i < count; i++) {
+      this.work();
+    }
+  }
+
+  private async work(): Promise<void> {
+    this.workers++;
+    try {
+      while (this.workers <= this.options.concurrency && this.status !== 'CANCELLED') {
+        if (this.status === 'PAUSED') {
+          await this.nextChange();
+          continue;
+        }
+
+        const next = this.queue.shift();
+        if (!next) {
+          if (this.inFlight === 0 && !this.accepting) break;
+          // A claim still in flight may fail and come back for a retry, and
+          // a streamed job may be sent more
+          await this.nextChange();
+          continue;
+        }
+        await this.processItem(next);
+      }
+    } finally {
+      this.workers--;
+      this.notify();
+      this.settleIfDone();
+    }
+  }
+
+  private async processItem(queued: QueuedItem<TItem>): Promise<void> {
+    this.inFlight++;
+    try {
+      const result = await this.handlers.process(queued.item);
+      this.completed++;
+      this.pendingResults.push(result);
+      if (this.handlers.onCheckpoint) this.pendingCheckpoint.push(result);
+    } catch (error) {
+      const attempts = queued.attempts + 1;
+      if (attempts <= this.options.maxRetries && this.status !== 'CANCELLED') {
+        this.queue.push({ item: queued.item, attempts });
+      } else {
+        this.failed.push(queued.item);
+        this.failures.push({
+          itemId: this.handlers.itemId(queued.item),
+          attempts,
+          error: error instanceof Error ? error.message : String(error)
+        });
+      }
+    } finally {
+      this.inFlight--;
+      this.scheduleUpdate();
+      this.scheduleCheckpoint();
+      this.notify();
+    }
+  }
+
+  private settleIfDone(): void {
+    const resolve = this.resolveRun;
+    if (this.workers > 0 || !resolve) return;
+
+    this.resolveRun = null;
+    if (this.status !== 'CANCELLED') this.status = 'COMPLETED';
+    this.flushResults();
+    this.flushCheckpoint().then(() => resolve(this.progress));
+  }
+
+  private scheduleUpdate(): void {
+    if (this.updateTimer) return;
+    this.updateTimer = setTimeout(() => this.flushResults(), this.options.updateIntervalMs);
+  }
+
+  private flushResults(): void {
+    if (this.updateTimer) clearTimeout(this.updateTimer);
+    this.updateTimer = null;
+
+    const results = this.pendingResults;
+    this.pendingResults = [];
+    this.handlers.onResults(results, this.progress);
+  }
+
+  private scheduleCheckpoint(): void {
+    if (this.checkpointTimer || !this.handlers.onCheckpoint) return;
+    this.checkpointTimer = setTimeout(() => this.flushCheckpoint(), this.options.checkpointIntervalMs);
+  }
+
+  private flushCheckpoint(): Promise<void> {
+    if (this.checkpointTimer) clearTimeout(this.checkpointTimer);
+    this.checkpointTimer = null;
+
+    const save = this.handlers.onCheckpoint;
+    if (!save) return this.checkpointWrite;
+
+    const results = this.pendingCheckpoint;
+    const progress = this.progress;
+    this.pendingCheckpoint = [];
+    // Chained so an older checkpoint can never land after a newer one
+    this.checkpointWrite = this.checkpointWrite
+      .then(() => save(results, progress))
+      .catch(error => console.warn('Failed to save batch checkpoint:', error));
+    return this.checkpointWrite;
+  }
+
+  private nextChange(): Promise<void> {
+    return new Promise(resolve => this.waiters.push(resolve));
+  }
+
+  private notify(): void {
+    const waiters = this.waiters;
+    this.waiters = [];
+    waiters.forEach(wake => wake());
+  }
+
+  static loadOptions(): BatchJobOptions {
+    try {
+      const stored: Partial<BatchJobOptions> = JSON.parse(localStorage.getItem(OPTIONS_STORAGE_KEY) || '{}');
+      return { ...this.defaultOptions, ...stored };
+    } catch (error) {
+      console.warn('Failed to load batch job options:', error);
+      return this.defaultOptions;
+    }
+  }
+
+  static saveOptions(options: BatchJobOptions): void {
+    localStorage.setItem(OPTIONS_STORAGE_KEY, JSON.stringify(options));
+  }
+}
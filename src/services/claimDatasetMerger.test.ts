@@ -0,0 +1,89 @@
+import { describe, expect, it } from 'vitest';
+import { claimRow } from '@/test/claimRow';
+import { ClaimDatasetMerger } from './claimDatasetMerger';
+
+describe('ClaimDatasetMerger', () => {
+  const first = claimRow({ Claim_ID: 'CLM-1', Claim_Amount: '4800', Claim_Date: '2024-03-01', Source_File: 'a.csv' });
+  const later = claimRow({ Claim_ID: 'CLM-1', Claim_Amount: '5200', Claim_Date: '2024-03-05', Source_File: 'b.csv' });
+  const earlier = claimRow({ Claim_ID: 'CLM-1', Claim_Amount: '3900', Claim_Date: '2024-02-20', Source_File: 'c.csv' });
+
+  it('adds claims it has not seen', () => {
+    const merger = new ClaimDatasetMerger('KEEP_FIRST');
+    const batch = merger.merge([first, claimRow({ Claim_ID: 'CLM-2' })]);
+
+    expect(batch.added.map(claim => claim.Claim_ID)).toEqual(['CLM-1', 'CLM-2']);
+    expect(batch.replaced).toEqual([]);
+    expect(merger.report.addedRows).toBe(2);
+  });
+
+  it('keeps the first copy under KEEP_FIRST and reports the duplicate', () => {
+    const merger = new ClaimDatasetMerger('KEEP_FIRST');
+    merger.merge([first]);
+    const batch = merger.merge([later]);
+
+    expect(batch.added).toEqual([]);
+    expect(batch.replaced).toEqual([]);
+    expect(merger.report.duplicates).toEqual([
+      { claimId: 'CLM-1', keptSource: 'a.csv', droppedSource: 'b.csv', differingFields: ['Claim_Amount', 'Claim_Date'] }
+    ]);
+    expect(merger.report.conflictCount).toBe(1);
+  });
+
+  it('replaces a claim with a later-dated copy under KEEP_LATEST', () => {
+    const merger = new ClaimDatasetMerger('KEEP_LATEST');
+    merger.merge([first]);
+
+    expect(merger.merge([earlier]).replaced).toEqual([]);
+    expect(merger.merge([later]).replaced).toEqual([later]);
+    expect(merger.report.replacedRows).toBe(1);
+  });
+
+  it('adds the latest copy when both arrive in one batch', () => {
+    const merger = new ClaimDatasetMerger('KEEP_LATEST');
+    const batch = merger.merge([first, later]);
+
+    expect(batch.added).toEqual([later]);
+    expect(batch.replaced).toEqual([]);
+  });
+
+  it('flags the sources of conflicting copies under FLAG_CONFLICTS', () => {
+    const merger = new ClaimDatasetMerger('FLAG_CONFLICTS');
+    merger.merge([first]);
+    merger.merge([later]);
+    const batch = merger.merge([earlier]);
+
+    expect(batch.conflicts).toEqual({ 'CLM-1': 'b.csv|c.csv' });
+  });
+
+  it('does not flag identical copies', () => {
+    const merger = new ClaimDatasetMerger('FLAG_CONFLICTS');
+    merger.merge([first]);
+    const batch = merger.merge([{ ...first, Source_File: 'copy.csv' }]);
+
+    expect(batch.conflicts).toEqual({});
+    expect(merger.report.duplicateCount).toBe(1);
+    expect(merger.report.conflictCount).toBe(0);
+  });
+
+  it('reconciles against claims already in the dataset', () => {
+    const merger = new ClaimDatasetMerger('KEEP_LATEST', [first]);
+    const batch = merger.merge([later, claimRow({ Claim_ID: 'CLM-2' })]);
+
+    expect(batch.replaced).toEqual([later]);
+    expect(batch.added.map(claim => claim.Claim_ID)).toEqual(['CLM-2']);
+  });
+
+  describe('applyBatch', () => {
+    it('swaps in replacements and marks conflicts, leaving other claims alone', () => {
+      const other = claimRow({ Claim_ID: 'CLM-2' });
+      const applied = ClaimDatasetMerger.applyBatch([first, other], [later], { 'CLM-2': 'b.csv' });
+
+      expect(applied).toEqual([later, { ...other, Conflicting_Sources: 'b.csv' }]);
+    });
+
+    it('returns the same array when there is nothing to apply', () => {
+      const claims = [first];
+      expect(ClaimDatasetMerger.applyBatch(claims, [], {})).toBe(claims);
+    });
+  });
+});
@@ -0,0 +1,148 @@
+import { DuplicateClaim, DuplicatePolicy, EnterpriseClaimRow, MergeReport } from '../types/fraud';
+import { ClaimValidator } from './claimValidator';
+
+// Provenance fields are expected to differ between copies of a claim
+const IGNORED_FIELDS = new Set(['Source_File', 'Conflicting_Sources', 'Original_Values', 'analysis']);
+
+const UNKNOWN_SOURCE = 'current dataset';
+
+export interface MergeBatch {
+  // Claims new to the dataset
+  added: EnterpriseClaimRow[];
+  // Claims that take the place of an existing claim with the same Claim_ID
+  replaced: EnterpriseClaimRow[];
+  // Conflicting_Sources for every claim flagged in this batch, by Claim_ID
+  conflicts: Record<string, string>;
+}
+
+export const DUPLICATE_POLICY_LABELS: Record<DuplicatePolicy, string> = {
+  KEEP_FIRST: 'Keep first',
+  KEEP_LATEST: 'Keep latest by Claim_Date',
+  FLAG_CONFLICTS: 'Flag conflicts'
+};
+
+/**
+ * Reconciles uploads against a dataset by Claim_ID. A merger remembers every
+ * claim it has seen, so it can be fed one file, or one streamed batch, at a
+ * time.
+ *
+ * - KEEP_FIRST keeps whichever copy arrived first.
+ * - KEEP_LATEST keeps the copy with the later Claim_Date; on a tie the later
+ *   upload wins.
+ * - FLAG_CONFLICTS keeps the first copy but, when the copies disagree, marks
+ *   it with the files holding the other versions.
+ */
+export class ClaimDatasetMerger {
+  private claims = new Map<string, EnterpriseClaimRow>();
+  private conflictSources = new Map<string, string[]>();
+  private duplicates: DuplicateClaim[] = [];
+  private counts = { incomingRows: 0, addedRows: 0, replacedRows: 0, duplicateCount: 0, conflictCount: 0 };
+
+  constructor(private policy: DuplicatePolicy, existing: EnterpriseClaimRow[] = []) {
+    existing.forEach(claim => {
+      this.claims.set(claim.Claim_ID, claim);
+      if (claim.Conflicting_Sources) {
+        this.conflictSources.set(claim.Claim_ID, claim.Conflicting_Sources.split('|'));
+      }
+    });
+  }
+
+  merge(rows: EnterpriseClaimRow[]): MergeBatch {
+    const added = new Map<string, EnterpriseClaimRow>();
+    const replaced = new Map<string, EnterpriseClaimRow>();
+    const conflicts: Record<string, string> = {};
+
+    for (const row of rows) {
+      this.counts.incomingRows++;
+      const current = this.claims.get(row.Claim_ID);
+
+      if (!current) {
+        this.claims.set(row.Claim_ID, row);
+        added.set(row.Claim_ID, row);
+        this.counts.addedRows++;
+        continue;
+      }
+
+      const differingFields = ClaimDatasetMerger.differingFields(current, row);
+      const keepIncoming = this.policy === 'KEEP_LATEST' && ClaimDatasetMerger.isSameOrLater(row, current);
+      const kept = keepIncoming ? row : current;
+      const dropped = keepIncoming ? current : row;
+
+      this.counts.duplicateCount++;
+      if (differingFields.length > 0) this.counts.conflictCount++;
+      if (this.duplicates.length < ClaimValidator.maxReportedRows) {
+        this.duplicates.push({
+          claimId: row.Claim_ID,
+          keptSource: kept.Source_File || UNKNOWN_SOURCE,
+          droppedSource: dropped.Source_File || UNKNOWN_SOURCE,
+          differingFields
+        });
+      }
+
+      if (keepIncoming) {
+        this.claims.set(row.Claim_ID, row);
+        // A claim first seen in this batch has not reached the dataset yet
+        if (added.has(row.Claim_ID)) {
+          added.set(row.Claim_ID, row);
+        } else {
+          replaced.set(row.Claim_ID, row);
+          this.counts.replacedRows++;
+        }
+      }
+
+      if (this.policy === 'FLAG_CONFLICTS' && differingFields.length > 0) {
+        const sources = this.conflictSources.get(row.Claim_ID) || [];
+        const source = row.Source_File || UNKNOWN_SOURCE;
+        if (!sources.includes(source)) sources.push(source);
+        this.conflictSources.set(row.Claim_ID, sources);
+        conflicts[row.Claim_ID] = sources.join('|');
+
+        if (added.has(row.Claim_ID)) {
+          added.set(row.Claim_ID, { ...current, Conflicting_Sources: conflicts[row.Claim_ID] });
+        }
+      }
+    }
+
+    return { added: Array.from(added.values()), replaced: Array.from(replaced.values()), conflicts };
+  }
+
+  get report(): MergeReport {
+    return { policy: this.policy, ...this.counts, duplicates: [...this.duplicates] };
+  }
+
+  /**
+   * Apply a batch to an already-analyzed dataset: swap in replacements and
+   * mark conflicts. New claims are left for the caller to append.
+   */
+  static applyBatch<T extends EnterpriseClaimRow>(
+    claims: T[],
+    replacements: T[],
+    conflicts: Record<string, string>
+  ): T[] {
+    if (replacements.length === 0 && Object.keys(conflicts).length === 0) return claims;
+
+    const byClaimId = new Map(replacements.map(claim => [claim.Claim_ID, claim]));
+    return claims.map(claim => {
+      const next = byClaimId.get(claim.Claim_ID) || claim;
+      const conflictingSources = conflicts[claim.Claim_ID];
+      return conflictingSources ? { ...next, Conflicting_Sources: conflictingSources } : next;
+    });
+  }
+
+  static differingFields(a: EnterpriseClaimRow, b: EnterpriseClaimRow): string[] {
+    const fields = new Set([...Object.keys(a), ...Object.keys(b)]);
+    return Array.from(fields).filter(field =>
+      !IGNORED_FIELDS.has(field) &&
+      JSON.stringify(a[field as keyof EnterpriseClaimRow] ?? '') !==
+        JSON.stringify(b[field as keyof EnterpriseClaimRow] ?? '')
+    );
+  }
+
+  private static isSameOrLater(incoming: EnterpriseClaimRow, current: EnterpriseClaimRow): boolean {
+    const incomingDate = Date.parse(incoming.Claim_Date);
+    const currentDate = Date.parse(current.Claim_Date);
+    if (Number.isNaN(incomingDate)) return false;
+    if (Number.isNaN(currentDate)) return true;
+    return incomingDate >= currentDate;
+  }
+}
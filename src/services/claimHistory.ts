@@ -0,0 +1,209 @@
+import { BenefitsClaim, ClaimantProfile } from '@/types/enterprise';
+
+/**
+ * Who a claim says filed it, normalized for cross-matching. Fields the
+ * claim did not supply are empty, and never match.
+ */
+export interface ClaimIdentity {
+  firstName: string;
+  middleName: string;
+  lastName: string;
+  suffix: string;
+  dateOfBirth: string;
+  // Standardized, as AddressParser.formatStreet writes it
+  street: string;
+  zipCode: string;
+  // Digits only
+  phone: string;
+  email: string;
+  deviceId: string;
+  ipAddress: string;
+  // Lowercase, without a legal form such as "Inc"
+  employer: string;
+}
+
+export interface ClaimHistoryEntry {
+  claimId: string;
+  claimantId: string;
+  ssn: string;
+  // Epoch milliseconds; NaN when the claim date is missing or unparseable
+  filedAt: number;
+  // Claim_Amount; 0 when missing, and on entries saved before it was recorded
+  amount: number;
+  identity?: ClaimIdentity;
+  // Restored from an earlier session; used for cross-matching only
+  persisted?: boolean;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Keys under which a claim can be found by cross-matching and in the
+// identity graph. Names are found through date of birth and addresses
+// through ZIP code, then compared.
+function matchKeys(entry: ClaimHistoryEntry): string[] {
+  const identity = entry.identity;
+  const keys = [
+    ['claimant', entry.claimantId],
+    ['ssn', entry.ssn],
+    ['dob', identity?.dateOfBirth],
+    ['zip', identity?.zipCode],
+    ['phone', identity?.phone],
+    ['email', identity?.email],
+    ['device', identity?.deviceId],
+    ['ip', identity?.ipAddress],
+    ['address', identity?.zipCode && identity.street ? `${identity.zipCode}|${identity.street}` : ''],
+    ['employer', identity?.employer]
+  ];
+  return keys.filter(([, value]) => value).map(([kind, value]) => `${kind}:${value}`);
+}
+
+/**
+ * Every claim loaded so far, indexed by SSN and claimant. The SSN and
+ * claimant counts are made as of a claim's own filing date, so later claims
+ * do not change them; match keys are not dated, so cross-matches and the
+ * identity graph see every claim loaded, whenever it was filed. Recording a
+ * claim again replaces it rather than counting it twice.
+ *
+ * Claims restored from earlier sessions are only found by cross-matching;
+ * the counts rules use cover this session's claims alone.
+ */
+export class ClaimHistory {
+  private entries = new Map<string, ClaimHistoryEntry>();
+  private bySsn = new Map<string, Set<string>>();
+  private byClaimant = new Map<string, Set<string>>();
+  private byMatchKey = new Map<string, Set<string>>();
+  private changes = 0;
+
+  get size(): number {
+    return this.entries.size;
+  }
+
+  // Changes whenever a claim is indexed under different match keys, so
+  // anything derived from the keys knows to rebuild
+  get version(): number {
+    return this.changes;
+  }
+
+  record(claim: BenefitsClaim, claimant: ClaimantProfile, identity?: ClaimIdentity): void {
+    // A claim recorded again without its identity keeps the one it had
+    const previous = this.entries.get(claim.claimId);
+    const entry: ClaimHistoryEntry = {
+      claimId: claim.claimId,
+      claimantId: claimant.claimantId,
+      ssn: claimant.ssn,
+      filedAt: Date.parse(claim.createdDate),
+      amount: claim.maximumBenefitAmount || 0,
+      identity: identity ?? (previous?.persisted ? undefined : previous?.identity)
+    };
+
+    // Scoring records a claim again; if its keys are the same, so are the indexes
+    if (previous && !previous.persisted && matchKeys(previous).join() === matchKeys(entry).join()) {
+      this.entries.set(entry.claimId, entry);
+      return;
+    }
+    this.remove(claim.claimId);
+    this.add(entry);
+  }
+
+  // Claims saved by an earlier session; a claim loaded in this one wins
+  restore(entries: ClaimHistoryEntry[]): void {
+    for (const entry of entries) {
+      const current = this.entries.get(entry.claimId);
+      if (current && !current.persisted) continue;
+      this.remove(entry.claimId);
+      this.add({ ...entry, amount: entry.amount || 0, persisted: true });
+    }
+  }
+
+  get(claimId: string): ClaimHistoryEntry | undefined {
+    return this.entries.get(claimId);
+  }
+
+  // Every claim, restored ones included, in claim ID order
+  allEntries(): ClaimHistoryEntry[] {
+    return Array.from(this.entries.values()).sort((a, b) => a.claimId.localeCompare(b.claimId));
+  }
+
+  // The match keys a claim is indexed under
+  keysOf(claimId: string): string[] {
+    const entry = this.entries.get(claimId);
+    return entry ? matchKeys(entry) : [];
+  }
+
+  // This session's claims, as saved for the next
+  sessionEntries(): ClaimHistoryEntry[] {
+    return Array.from(this.entries.values()).filter(entry => !entry.persisted);
+  }
+
+  remove(claimId: string): void {
+    const entry = this.entries.get(claimId);
+    if (!entry) return;
+    this.changes++;
+    this.entries.delete(claimId);
+    this.bySsn.get(entry.ssn)?.delete(claimId);
+    this.byClaimant.get(entry.claimantId)?.delete(claimId);
+    for (const key of matchKeys(entry)) this.byMatchKey.get(key)?.delete(claimId);
+  }
+
+  // Forgets this session's claims; restored ones stay
+  clear(): void {
+    for (const entry of this.sessionEntries()) this.remove(entry.claimId);
+  }
+
+  /**
+   * Claims, from this session or restored, under a match key such as
+   * "phone:5551234567", in claim ID order
+   */
+  claimsWithKey(key: string): ClaimHistoryEntry[] {
+    return this.lookup(this.byMatchKey.get(key)).sort((a, b) => a.claimId.localeCompare(b.claimId));
+  }
+
+  // The claimant's claims this session, in claim ID order
+  claimantEntries(claimantId: string): ClaimHistoryEntry[] {
+    return this.lookup(this.byClaimant.get(claimantId)).sort((a, b) => a.claimId.localeCompare(b.claimId));
+  }
+
+  /**
+   * Claims filed under an SSN in the `days` up to and including `asOf`,
+   * counting the claim being scored.
+   */
+  ssnUsageCount(ssn: string, asOf: string, days: number): number {
+    if (!ssn) return 1;
+    return Math.max(1, this.inWindow(this.bySsn.get(ssn), asOf, days).length);
+  }
+
+  // Claims a claimant filed in the `days` up to and including `asOf`
+  claimantClaimCount(claimantId: string, asOf: string, days: number): number {
+    return Math.max(1, this.inWindow(this.byClaimant.get(claimantId), asOf, days).length);
+  }
+
+
+  private inWindow(claimIds: Set<string> | undefined, asOf: string, days: number): ClaimHistoryEntry[] {
+    const end = Date.parse(asOf);
+    const entries = this.lookup(claimIds);
+    // Without a date to measure from, every recorded claim counts
+    if (isNaN(end)) return entries;
+    const start = end - days * DAY_MS;
+    return entries.filter(entry => entry.filedAt > start && entry.filedAt <= end);
+  }
+
+  private lookup(claimIds: Set<string> | undefined): ClaimHistoryEntry[] {
+    return Array.from(claimIds || [], id => this.entries.get(id)).filter(Boolean) as ClaimHistoryEntry[];
+  }
+
+  private add(entry: ClaimHistoryEntry): void {
+    this.changes++;
+    this.entries.set(entry.claimId, entry);
+    for (const key of matchKeys(entry)) this.addToIndex(this.byMatchKey, key, entry.claimId);
+    if (entry.persisted) return;
+    // Claims without an SSN must not all look like one shared identity
+    if (entry.ssn) this.addToIndex(this.bySsn, entry.ssn, entry.claimId);
+    this.addToIndex(this.byClaimant, entry.claimantId, entry.claimId);
+  }
+
+  private addToIndex(index: Map<string, Set<string>>, key: string, claimId: string): void {
+    const ids = index.get(key) || new Set<string>();
+    ids.add(claimId);
+    index.set(key, ids);
+  }
+}
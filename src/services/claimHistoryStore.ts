@@ -0,0 +1,48 @@
+import { openDatabase, requestResult, transactionDone } from '@/lib/indexedDb';
+import { ClaimHistoryEntry } from './claimHistory';
+
+const DB_NAME = 'fraudiq.claimHistory';
+const DB_VERSION = 1;
+
+// One record per claim; saving a claim again replaces it
+const CLAIMS = 'claims';
+
+/**
+ * IndexedDB copy of every claim analyzed, so later sessions can cross-match
+ * new claimants against earlier ones.
+ */
+export class ClaimHistoryStore {
+  private static db: Promise<IDBDatabase> | null = null;
+
+  private static open(): Promise<IDBDatabase> {
+    if (!this.db) {
+      this.db = openDatabase(DB_NAME, DB_VERSION, db => {
+        db.createObjectStore(CLAIMS, { keyPath: 'claimId' });
+      });
+      // Let a later call try again rather than caching the failure
+      this.db.catch(() => { this.db = null; });
+    }
+    return this.db;
+  }
+
+  static async append(entries: ClaimHistoryEntry[]): Promise<void> {
+    if (entries.length === 0) return;
+    const db = await this.open();
+    const transaction = db.transaction(CLAIMS, 'readwrite');
+    const claims = transaction.objectStore(CLAIMS);
+    for (const { persisted, ...entry } of entries) claims.put(entry);
+    await transactionDone(transaction);
+  }
+
+  static async loadAll(): Promise<ClaimHistoryEntry[]> {
+    const db = await this.open();
+    return requestResult<ClaimHistoryEntry[]>(db.transaction(CLAIMS).objectStore(CLAIMS).getAll());
+  }
+
+  static async clear(): Promise<void> {
+    const db = await this.open();
+    const transaction = db.transaction(CLAIMS, 'readwrite');
+    transaction.objectStore(CLAIMS).clear();
+    await transactionDone(transaction);
+  }
+}
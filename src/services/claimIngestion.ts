@@ -0,0 +1,324 @@
+import readXlsxFile, { Sheet } from 'read-excel-file/browser';
+import { ColumnMapping, ParsedClaims, RejectedRow } from '../types/fraud';
+import { CSVParser } from './csvParser';
+import { ClaimValidator } from './claimValidator';
+
+export type ClaimFileFormat = 'csv' | 'xlsx' | 'json' | 'ndjson';
+
+export interface ClaimFilePreview {
+  headers: string[];
+  sampleRows: Record<string, string>[];
+}
+
+export interface ClaimFileOptions {
+  mapping?: ColumnMapping;
+  // Worksheet to read, for formats that have more than one
+  sheet?: string;
+}
+
+/**
+ * One supported upload format. Every parser hands its records to the same
+ * cleaning and validation stage, so the resulting rows and report do not
+ * depend on the format the file came in.
+ */
+export interface ClaimFileParser {
+  format: ClaimFileFormat;
+  label: string;
+  extensions: string[];
+  mimeTypes: string[];
+  // Whether large files can go through CSVParser.streamCSV
+  streamable: boolean;
+  listSheets?: (file: File) => Promise<string[]>;
+  readHeaders: (file: File, options?: ClaimFileOptions, sampleSize?: number) => Promise<ClaimFilePreview>;
+  parse: (file: File, options?: ClaimFileOptions) => Promise<ParsedClaims>;
+}
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value) && !(value instanceof Date);
+
+// Spreadsheet and JSON cells carry real types; rows are handled as text like CSV cells
+const toText = (value: unknown): string => {
+  if (value === null || value === undefined) return '';
+  if (value instanceof Date) {
+    return Number.isNaN(value.getTime()) ? '' : value.toISOString().split('T')[0];
+  }
+  if (Array.isArray(value)) return value.map(toText).join('|');
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+};
+
+const toTextRecord = (record: Record<string, unknown>): Record<string, string> =>
+  Object.fromEntries(Object.entries(record).map(([key, value]) => [key, toText(value)]));
+
+const collectHeaders = (records: Record<string, string>[]): string[] =>
+  Array.from(new Set(records.flatMap(record => Object.keys(record))));
+
+const applyMapping = (record: Record<string, string>, mapping?: ColumnMapping): Record<string, string> =>
+  mapping
+    ? Object.fromEntries(Object.entries(record).map(([key, value]) => [CSVParser.mapHeader(mapping, key), value]))
+    : record;
+
+const preview = (records: Record<string, string>[], sampleSize: number): ClaimFilePreview => ({
+  headers: collectHeaders(records),
+  sampleRows: records.slice(0, sampleSize)
+});
+
+/**
+ * The shared back half of every parser: map columns, check headers, clean
+ * and validate. `rowNumbers` overrides the 1-based position reported for
+ * each record, for formats where that differs from the record index.
+ */
+const toParsedClaims = (
+  records: Record<string, string>[],
+  label: string,
+  mapping?: ColumnMapping,
+  rowNumbers?: number[]
+): ParsedClaims => {
+  if (records.length === 0) {
+    throw new Error(`${label} file is empty`);
+  }
+
+  const mapped = records.map(record => applyMapping(record, mapping));
+  CSVParser.validateHeaders(collectHeaders(mapped));
+
+  const cleanedRows = mapped.map(row => CSVParser.cleanRow(row));
+  const parsed = new ClaimValidator().validate(cleanedRows, mapped);
+  const { report } = parsed;
+
+  if (rowNumbers) {
+    report.rejected.forEach(row => { row.rowNumber = rowNumbers[row.rowNumber - 1]; });
+    report.warned.forEach(row => { row.rowNumber = rowNumbers[row.rowNumber - 1]; });
+  }
+
+  return { rows: parsed.accepted, report };
+};
+
+class CSVFileParser implements ClaimFileParser {
+  format: ClaimFileFormat = 'csv';
+  label = 'CSV';
+  extensions = ['.csv'];
+  mimeTypes = ['text/csv', 'application/vnd.ms-excel'];
+  streamable = true;
+
+  readHeaders(file: File, _options?: ClaimFileOptions, sampleSize = 3) {
+    return CSVParser.readHeaders(file, sampleSize);
+  }
+
+  parse(file: File, options: ClaimFileOptions = {}) {
+    return CSVParser.parseCSV(file, options.mapping);
+  }
+}
+
+class XLSXFileParser implements ClaimFileParser {
+  format: ClaimFileFormat = 'xlsx';
+  label = 'Excel';
+  extensions = ['.xlsx'];
+  mimeTypes = ['application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'];
+  streamable = false;
+
+  // Workbooks are unzipped once per file, however many times they are read
+  private workbooks = new WeakMap<File, Promise<Sheet[]>>();
+
+  async listSheets(file: File): Promise<string[]> {
+    const sheets = await this.readWorkbook(file);
+    return sheets.map(sheet => sheet.sheet);
+  }
+
+  async readHeaders(file: File, options: ClaimFileOptions = {}, sampleSize = 3): Promise<ClaimFilePreview> {
+    const { records } = await this.readRecords(file, options.sheet);
+    return preview(records, sampleSize);
+  }
+
+  async parse(file: File, options: ClaimFileOptions = {}): Promise<ParsedClaims> {
+    const { records, rowNumbers } = await this.readRecords(file, options.sheet);
+    return toParsedClaims(records, this.label, options.mapping, rowNumbers);
+  }
+
+  private readWorkbook(file: File): Promise<Sheet[]> {
+    let workbook = this.workbooks.get(file);
+    if (!workbook) {
+      workbook = readXlsxFile(file).catch((error: unknown) => {
+        this.workbooks.delete(file);
+        throw new Error(`Excel parsing error: ${error instanceof Error ? error.message : String(error)}`);
+      });
+      this.workbooks.set(file, workbook);
+    }
+    return workbook;
+  }
+
+  /**
+   * Read a worksheet, taking its first row as the header. Blank rows are
+   * skipped but still counted, so row numbers match the sheet's data rows.
+   */
+  private async readRecords(file: File, sheetName?: string) {
+    const sheets = await this.readWorkbook(file);
+    const sheet = sheetName ? sheets.find(s => s.sheet === sheetName) : sheets[0];
+    if (!sheet) {
+      throw new Error(`Worksheet "${sheetName}" not found`);
+    }
+
+    const [headerRow = [], ...dataRows] = sheet.data;
+    const headers = headerRow.map((cell, index) => toText(cell).trim() || `Column_${index + 1}`);
+
+    const records: Record<string, string>[] = [];
+    const rowNumbers: number[] = [];
+    dataRows.forEach((cells, index) => {
+      const values = cells.map(toText);
+      if (values.every(value => !value.trim())) return;
+      records.push(Object.fromEntries(headers.map((header, column) => [header, values[column] ?? ''])));
+      rowNumbers.push(index + 1);
+    });
+
+    return { records, rowNumbers };
+  }
+}
+
+class JSONFileParser implements ClaimFileParser {
+  format: ClaimFileFormat = 'json';
+  label = 'JSON';
+  extensions = ['.json'];
+  mimeTypes = ['application/json'];
+  streamable = false;
+
+  async readHeaders(file: File, _options?: ClaimFileOptions, sampleSize = 3): Promise<ClaimFilePreview> {
+    return preview(await this.readRecords(file), sampleSize);
+  }
+
+  async parse(file: File, options: ClaimFileOptions = {}): Promise<ParsedClaims> {
+    return toParsedClaims(await this.readRecords(file), this.label, options.mapping);
+  }
+
+  /**
+   * Accepts a top-level array of claim objects, or an object with the
+   * array under a `claims` key.
+   */
+  private async readRecords(file: File): Promise<Record<string, string>[]> {
+    let document: unknown;
+    try {
+      document = JSON.parse(await file.text());
+    } catch (error) {
+      throw new Error(`JSON parsing error: ${error instanceof Error ? error.message : String(error)}`);
+    }
+
+    const items = Array.isArray(document)
+      ? document
+      : isPlainObject(document) && Array.isArray(document.claims)
+        ? document.claims
+        : null;
+
+    if (!items) {
+      throw new Error('JSON file must contain an array of claims');
+    }
+
+    return items.map((item, index) => {
+      if (!isPlainObject(item)) {
+        throw new Error(`JSON claim ${index + 1} is not an object`);
+      }
+      return toTextRecord(item);
+    });
+  }
+}
+
+class NDJSONFileParser implements ClaimFileParser {
+  format: ClaimFileFormat = 'ndjson';
+  label = 'NDJSON';
+  extensions = ['.ndjson', '.jsonl'];
+  mimeTypes = ['application/x-ndjson'];
+  streamable = false;
+
+  async readHeaders(file: File, _options?: ClaimFileOptions, sampleSize = 3): Promise<ClaimFilePreview> {
+    const { records } = await this.readLines(file);
+    return preview(records, sampleSize);
+  }
+
+  /**
+   * Lines that are not a JSON object are rejected like any other bad row,
+   * rather than failing the file. Rows are numbered by line.
+   */
+  async parse(file: File, options: ClaimFileOptions = {}): Promise<ParsedClaims> {
+    const { records, lineNumbers, malformed } = await this.readLines(file);
+
+    if (records.length === 0 && malformed.length === 0) {
+      throw new Error(`${this.label} file is empty`);
+    }
+
+    const parsed: ParsedClaims = records.length > 0
+      ? toParsedClaims(records, this.label, options.mapping, lineNumbers)
+      : { rows: [], report: ClaimValidator.emptyReport() };
+
+    if (malformed.length > 0) {
+      const { report } = parsed;
+      report.totalRows += malformed.length;
+      report.rejectedCount += malformed.length;
+      report.rejected = report.rejected
+        .concat(malformed)
+        .sort((a, b) => a.rowNumber - b.rowNumber)
+        .slice(0, ClaimValidator.maxReportedRows);
+    }
+
+    return parsed;
+  }
+
+  private async readLines(file: File) {
+    const records: Record<string, string>[] = [];
+    const lineNumbers: number[] = [];
+    const malformed: RejectedRow[] = [];
+
+    (await file.text()).split(/\r?\n/).forEach((line, index) => {
+      if (!line.trim()) return;
+
+      const rowNumber = index + 1;
+      try {
+        const item: unknown = JSON.parse(line);
+        if (!isPlainObject(item)) throw new Error('not an object');
+        records.push(toTextRecord(item));
+        lineNumbers.push(rowNumber);
+      } catch {
+        malformed.push({
+          rowNumber,
+          raw: { Line: line },
+          issues: [{ field: '', message: `Line ${rowNumber} is not a valid JSON object` }]
+        });
+      }
+    });
+
+    return { records, lineNumbers, malformed };
+  }
+}
+
+export class ClaimIngestion {
+  static parsers: ClaimFileParser[] = [
+    new CSVFileParser(),
+    new XLSXFileParser(),
+    new JSONFileParser(),
+    new NDJSONFileParser()
+  ];
+
+  /**
+   * Dropzone `accept` map covering every registered format.
+   */
+  static get accept(): Record<string, string[]> {
+    const accept: Record<string, string[]> = {};
+    for (const parser of this.parsers) {
+      for (const mimeType of parser.mimeTypes) {
+        accept[mimeType] = Array.from(new Set([...(accept[mimeType] || []), ...parser.extensions]));
+      }
+    }
+    return accept;
+  }
+
+  static get supportedExtensions(): string[] {
+    return this.parsers.flatMap(parser => parser.extensions);
+  }
+
+  static parserFor(file: File): ClaimFileParser {
+    const name = file.name.toLowerCase();
+    const parser = this.parsers.find(p => p.extensions.some(extension => name.endsWith(extension)));
+    if (!parser) {
+      throw new Error(
+        `Unsupported file type: ${file.name}. Supported formats: ${this.supportedExtensions.join(', ')}`
+      );
+    }
+    return parser;
+  }
+}
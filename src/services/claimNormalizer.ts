@@ -0,0 +1,151 @@
+import { EnterpriseClaimRow, NormalizedField } from '../types/fraud';
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+
+const ISO_DATE = /^(\d{4})[-/.](\d{1,2})[-/.](\d{1,2})$/;
+const ISO_DATE_TIME = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})?$/;
+// Month first unless the first part cannot be a month, as in 31/01/2024
+const NUMERIC_DATE = /^(\d{1,2})[-/](\d{1,2})[-/](\d{2}|\d{4})$/;
+// European dotted dates are always day first
+const DOTTED_DATE = /^(\d{1,2})\.(\d{1,2})\.(\d{4})$/;
+const MONTH_NAME_FIRST = /^([a-z]{3,9})\.?[\s-]+(\d{1,2})(?:st|nd|rd|th)?,?[\s-]+(\d{4})$/i;
+const DAY_FIRST = /^(\d{1,2})(?:st|nd|rd|th)?[\s-]+([a-z]{3,9})\.?,?[\s-]+(\d{4})$/i;
+
+const AMOUNT = /^-?(\d{1,3}(,\d{3})+|\d+)(\.\d+)?$/;
+const CURRENCY = /US\$|USD|[$€£¥\s]/gi;
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+// Two-digit years 00-49 are read as 20xx, 50-99 as 19xx
+const expandYear = (year: string) => {
+  const value = Number(year);
+  if (year.length === 4) return value;
+  return value < 50 ? 2000 + value : 1900 + value;
+};
+
+const monthFromName = (name: string) => MONTHS.indexOf(name.slice(0, 3).toLowerCase()) + 1;
+
+const buildDate = (year: number, month: number, day: number): string | undefined => {
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (date.getUTCFullYear() !== year || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) {
+    return undefined;
+  }
+  return `${year}-${pad(month)}-${pad(day)}`;
+};
+
+const titleCase = (value: string) =>
+  value.toLowerCase().replace(/(^|[\s'-])([a-z])/g, (_, separator: string, letter: string) => separator + letter.toUpperCase());
+
+export class ClaimNormalizer {
+  /**
+   * Normalize the free-form fields of a cleaned row. Any value that changes
+   * is kept in Original_Values; values that cannot be read are left as they
+   * were rather than guessed at.
+   */
+  static normalize(row: EnterpriseClaimRow): EnterpriseClaimRow {
+    const normalized: EnterpriseClaimRow = { ...row };
+    const originals: Partial<Record<NormalizedField, string>> = { ...row.Original_Values };
+
+    const apply = (field: NormalizedField, normalize: (value: string) => string | undefined) => {
+      const value = row[field];
+      if (!value) return;
+      const next = normalize(value);
+      if (next !== undefined && next !== value) {
+        normalized[field] = next;
+        originals[field] = originals[field] ?? value;
+      }
+    };
+
+    apply('Claim_Date', value => this.toISODate(value));
+    apply('DOB', value => this.toISODate(value));
+    apply('Phone', value => this.toE164(value));
+    apply('Wage_Reported', value => this.toAmount(value));
+    apply('Claim_Amount', value => this.toAmount(value));
+    apply('Name', value => this.toName(value));
+    apply('Email', value => this.toEmail(value));
+
+    if (Object.keys(originals).length > 0) {
+      normalized.Original_Values = originals;
+    }
+    return normalized;
+  }
+
+  /**
+   * YYYY-MM-DD for date-only values; timestamps that are already ISO 8601
+   * pass through unchanged.
+   */
+  static toISODate(value: string): string | undefined {
+    const text = value.trim();
+    let match: RegExpMatchArray | null;
+
+    if (ISO_DATE_TIME.test(text)) {
+      return Number.isNaN(Date.parse(text)) ? undefined : text;
+    }
+    if ((match = text.match(ISO_DATE))) {
+      return buildDate(Number(match[1]), Number(match[2]), Number(match[3]));
+    }
+    if ((match = text.match(NUMERIC_DATE))) {
+      const [first, second] = [Number(match[1]), Number(match[2])];
+      const year = expandYear(match[3]);
+      return first > 12 ? buildDate(year, second, first) : buildDate(year, first, second);
+    }
+    if ((match = text.match(DOTTED_DATE))) {
+      return buildDate(Number(match[3]), Number(match[2]), Number(match[1]));
+    }
+    if ((match = text.match(MONTH_NAME_FIRST))) {
+      const month = monthFromName(match[1]);
+      return month ? buildDate(Number(match[3]), month, Number(match[2])) : undefined;
+    }
+    if ((match = text.match(DAY_FIRST))) {
+      const month = monthFromName(match[2]);
+      return month ? buildDate(Number(match[3]), month, Number(match[1])) : undefined;
+    }
+    return undefined;
+  }
+
+  /**
+   * E.164 form of a phone number. Numbers without a country code are read
+   * as North American; short local numbers are left alone.
+   */
+  static toE164(value: string): string | undefined {
+    const text = value.trim().replace(/\s*(?:x|ext\.?)\s*\d+$/i, '');
+    const digits = text.replace(/\D/g, '');
+
+    if (text.startsWith('+') || text.startsWith('00')) {
+      const international = text.startsWith('00') ? digits.slice(2) : digits;
+      return international.length >= 8 && international.length <= 15 ? `+${international}` : undefined;
+    }
+    if (digits.length === 10) return `+1${digits}`;
+    if (digits.length === 11 && digits.startsWith('1')) return `+${digits}`;
+    return undefined;
+  }
+
+  /**
+   * Plain decimal string with currency symbols and thousands separators
+   * removed. Accounting-style parentheses are read as a negative amount.
+   */
+  static toAmount(value: string): string | undefined {
+    let text = value.trim();
+    const parenthesized = /^\(.*\)$/.test(text);
+    if (parenthesized) text = text.slice(1, -1);
+    text = text.replace(CURRENCY, '');
+
+    if (!AMOUNT.test(text)) return undefined;
+    const amount = Number(text.replace(/,/g, ''));
+    return String(parenthesized ? -amount : amount);
+  }
+
+  /**
+   * Collapse whitespace, and title-case names given entirely in upper or
+   * lower case. Mixed-case names such as "McDonald" are kept as written.
+   */
+  static toName(value: string): string {
+    const text = value.trim().replace(/\s+/g, ' ');
+    const isSingleCase = text === text.toUpperCase() || text === text.toLowerCase();
+    return isSingleCase ? titleCase(text) : text;
+  }
+
+  static toEmail(value: string): string {
+    return value.trim().toLowerCase();
+  }
+}
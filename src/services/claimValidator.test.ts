@@ -0,0 +1,78 @@
+import { describe, expect, it } from 'vitest';
+import { claimRow } from '@/test/claimRow';
+import { EnterpriseClaimRow } from '../types/fraud';
+import { ClaimValidator, groundTruthLabelSchema } from './claimValidator';
+
+// Validates rows as the parser would, each against itself as the raw source
+const validate = (rows: EnterpriseClaimRow[], validator = new ClaimValidator(), offset = 0) =>
+  validator.validate(rows, rows.map(row => ({ ...row })), offset);
+
+describe('ClaimValidator', () => {
+  it('accepts a complete row without warnings', () => {
+    const { accepted, report } = validate([claimRow()]);
+
+    expect(accepted).toHaveLength(1);
+    expect(report).toMatchObject({ totalRows: 1, acceptedRows: 1, rejectedCount: 0, warnedCount: 0 });
+  });
+
+  it('rejects a row missing a required field or with an unreadable date or amount', () => {
+    const { accepted, report } = validate([
+      claimRow({ Claim_ID: 'CLM-1', Claimant_ID: '' }),
+      claimRow({ Claim_ID: 'CLM-2', Claim_Date: 'someday' }),
+      claimRow({ Claim_ID: 'CLM-3', Claim_Amount: 'lots' })
+    ]);
+
+    expect(accepted).toEqual([]);
+    expect(report.rejected.map(row => [row.rowNumber, row.issues])).toEqual([
+      [1, [{ field: 'Claimant_ID', message: 'Claimant_ID is missing' }]],
+      [2, [{ field: 'Claim_Date', message: 'Claim_Date "someday" is not a valid date' }]],
+      [3, [{ field: 'Claim_Amount', message: 'Claim_Amount "lots" is not a numeric amount' }]]
+    ]);
+  });
+
+  it('keeps a row with malformed contact details but reports it', () => {
+    const { accepted, report } = validate([claimRow({ Email: 'not-an-email', Phone: '12' })]);
+
+    expect(accepted).toHaveLength(1);
+    expect(report.warned[0].issues.map(issue => issue.field)).toEqual(['Email', 'Phone']);
+  });
+
+  it('rejects a Claim_ID it has already seen, across chunks', () => {
+    const validator = new ClaimValidator();
+    validate([claimRow({ Claim_ID: 'CLM-1' })], validator);
+    const { report } = validate([claimRow({ Claim_ID: 'CLM-2' }), claimRow({ Claim_ID: 'CLM-1' })], validator, 1);
+
+    expect(report.rejected).toEqual([
+      expect.objectContaining({ rowNumber: 3, claimId: 'CLM-1', issues: [{ field: 'Claim_ID', message: 'Duplicate Claim_ID CLM-1' }] })
+    ]);
+  });
+
+  it('warns about an unknown ground truth label', () => {
+    const { report } = validate([claimRow({ Ground_Truth_Label: 'MAYBE' as never })]);
+
+    expect(report.warned[0].issues).toEqual([expect.objectContaining({ field: 'Ground_Truth_Label' })]);
+  });
+
+  it('merges chunk reports, capping the listed rows but not the counts', () => {
+    const { report } = validate([claimRow({ Claim_ID: '' }), claimRow({ Claim_ID: '' })]);
+    const original = ClaimValidator.maxReportedRows;
+    ClaimValidator.maxReportedRows = 3;
+    try {
+      const merged = ClaimValidator.mergeReports(ClaimValidator.mergeReports(ClaimValidator.emptyReport(), report), report);
+      expect(merged.rejectedCount).toBe(4);
+      expect(merged.rejected).toHaveLength(3);
+    } finally {
+      ClaimValidator.maxReportedRows = original;
+    }
+  });
+});
+
+describe('groundTruthLabelSchema', () => {
+  it('reads labels in any case and spacing', () => {
+    expect(groundTruthLabelSchema.parse(' identity_ring ')).toBe('IDENTITY_RING');
+  });
+
+  it('rejects labels that are not a scheme', () => {
+    expect(groundTruthLabelSchema.safeParse('FRAUD').success).toBe(false);
+  });
+});
@@ -0,0 +1,182 @@
+import { z } from 'zod';
+import {
+  EnterpriseClaimRow,
+  GroundTruthLabel,
+  RejectedRow,
+  RowIssue,
+  ValidationReport,
+  WarnedRow
+} from '../types/fraud';
+import { EnterpriseClaimSchema } from './enterpriseClaimSchema';
+import { ClaimNormalizer } from './claimNormalizer';
+
+const PHONE = /^\+?[\d\s().-]+$/;
+
+// Anything the normalizer can read is accepted
+const isValidDate = (value: string): boolean => ClaimNormalizer.toISODate(value) !== undefined;
+
+const isAmount = (value: string): boolean => ClaimNormalizer.toAmount(value) !== undefined;
+
+const isPhone = (value: string): boolean => {
+  const digits = value.replace(/\D/g, '').length;
+  return PHONE.test(value) && digits >= 7 && digits <= 15;
+};
+
+const isEmail = (value: string): boolean => z.string().email().safeParse(value).success;
+
+const GROUND_TRUTH_LABELS = [
+  'LEGITIMATE',
+  'IDENTITY_RING',
+  'EMPLOYER_COLLUSION',
+  'SYNTHETIC_IDENTITY',
+  'BOT_CADENCE',
+  'DISPOSABLE_EMAIL'
+] as const satisfies readonly GroundTruthLabel[];
+
+// Labels a benchmark file may carry, in any case; CSVParser drops any other
+export const groundTruthLabelSchema = z.preprocess(
+  value => String(value ?? '').trim().toUpperCase(),
+  z.enum(GROUND_TRUTH_LABELS)
+);
+
+/**
+ * A text column that must be present and, when a check is given, well formed.
+ */
+const field = (label: string, check?: (value: string) => boolean, problem = 'is malformed') =>
+  z.string().optional().superRefine((value, ctx) => {
+    if (!value) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: `${label} is missing` });
+    } else if (check && !check(value)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: `${label} "${value}" ${problem}` });
+    }
+  });
+
+// Failing any of these rejects the row
+const claimRowSchema = z.object({
+  Claim_ID: field('Claim_ID'),
+  Claimant_ID: field('Claimant_ID'),
+  Claim_Date: field('Claim_Date', isValidDate, 'is not a valid date'),
+  Claim_Amount: field('Claim_Amount', isAmount, 'is not a numeric amount')
+});
+
+// Failing these keeps the row but reports it
+const claimRowWarningSchema = z.object({
+  Name: field('Name'),
+  DOB: field('DOB', isValidDate, 'is not a valid date'),
+  SSN_Hash: field('SSN_Hash'),
+  Email: field('Email', isEmail, 'is not a valid email address'),
+  Phone: field('Phone', isPhone, 'is not a valid phone number'),
+  Employer_Name: field('Employer_Name'),
+  Wage_Reported: field('Wage_Reported', isAmount, 'is not a numeric amount'),
+  Ground_Truth_Label: z.string().optional().refine(
+    value => !value || groundTruthLabelSchema.safeParse(value).success,
+    value => ({
+      message: `Ground_Truth_Label "${value}" is not one of ${GROUND_TRUTH_LABELS.join(', ')}; the label is ignored`
+    })
+  )
+});
+
+const enterpriseWarningSchema = z.object(
+  Object.fromEntries(
+    EnterpriseClaimSchema.columns.map(column => [
+      column.name,
+      z.unknown().refine(
+        value => !value || EnterpriseClaimSchema.coerceValue(column, value) !== undefined,
+        value => ({ message: `${column.name} value "${String(value)}" is not a valid ${column.type}` })
+      )
+    ])
+  )
+);
+
+// Validate what the file actually said, before CSVParser.cleanRow fills defaults and normalizes
+const asText = (raw: Record<string, unknown>): Record<string, string> =>
+  Object.fromEntries(Object.entries(raw).map(([key, value]) => [key, String(value ?? '').trim()]));
+
+const toIssues = (error: z.ZodError): RowIssue[] =>
+  error.issues.map(issue => ({ field: String(issue.path[0] ?? ''), message: issue.message }));
+
+export class ClaimValidator {
+  // Cap on rows kept in the report lists; counts are never truncated
+  static maxReportedRows = 5000;
+
+  private seenClaimIds = new Set<string>();
+
+  static emptyReport(): ValidationReport {
+    return { totalRows: 0, acceptedRows: 0, rejectedCount: 0, warnedCount: 0, rejected: [], warned: [] };
+  }
+
+  static mergeReports(target: ValidationReport, next: ValidationReport): ValidationReport {
+    return {
+      totalRows: target.totalRows + next.totalRows,
+      acceptedRows: target.acceptedRows + next.acceptedRows,
+      rejectedCount: target.rejectedCount + next.rejectedCount,
+      warnedCount: target.warnedCount + next.warnedCount,
+      rejected: target.rejected.concat(next.rejected).slice(0, this.maxReportedRows),
+      warned: target.warned.concat(next.warned).slice(0, this.maxReportedRows)
+    };
+  }
+
+  /**
+   * Validate cleaned rows against their raw source. `offset` is the number of
+   * rows already validated, so row numbers stay correct across chunks.
+   * Duplicate Claim_IDs are tracked for the lifetime of the validator.
+   */
+  validate(
+    rows: EnterpriseClaimRow[],
+    rawRows: Record<string, unknown>[],
+    offset = 0
+  ): { accepted: EnterpriseClaimRow[]; report: ValidationReport } {
+    const accepted: EnterpriseClaimRow[] = [];
+    const rejected: RejectedRow[] = [];
+    const warned: WarnedRow[] = [];
+
+    rows.forEach((row, index) => {
+      const rowNumber = offset + index + 1;
+      const source = asText(rawRows[index]);
+      const errors: RowIssue[] = [];
+
+      const result = claimRowSchema.safeParse(source);
+      if (!result.success) {
+        errors.push(...toIssues(result.error));
+      }
+
+      if (row.Claim_ID && this.seenClaimIds.has(row.Claim_ID)) {
+        errors.push({ field: 'Claim_ID', message: `Duplicate Claim_ID ${row.Claim_ID}` });
+      }
+
+      if (errors.length > 0) {
+        rejected.push({ rowNumber, claimId: row.Claim_ID || undefined, raw: rawRows[index], issues: errors });
+        return;
+      }
+
+      this.seenClaimIds.add(row.Claim_ID);
+      accepted.push(row);
+
+      const warnings: RowIssue[] = [];
+      const warningResult = claimRowWarningSchema.safeParse(source);
+      if (!warningResult.success) {
+        warnings.push(...toIssues(warningResult.error));
+      }
+      const enterpriseResult = enterpriseWarningSchema.safeParse(source);
+      if (!enterpriseResult.success) {
+        warnings.push(...toIssues(enterpriseResult.error));
+      }
+
+      if (warnings.length > 0) {
+        warned.push({ rowNumber, claimId: row.Claim_ID, issues: warnings });
+      }
+    });
+
+    return {
+      accepted,
+      report: {
+        totalRows: rows.length,
+        acceptedRows: accepted.length,
+        rejectedCount: rejected.length,
+        warnedCount: warned.length,
+        rejected: rejected.slice(0, ClaimValidator.maxReportedRows),
+        warned: warned.slice(0, ClaimValidator.maxReportedRows)
+      }
+    };
+  }
+}
@@ -0,0 +1,78 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { ColumnMapper } from './columnMapper';
+import { CSVParser } from './csvParser';
+
+describe('ColumnMapper', () => {
+  describe('suggest', () => {
+    it('maps headers that differ only in case and punctuation', () => {
+      expect(ColumnMapper.suggest(['claim id', 'CLAIM-DATE'])).toEqual([
+        { source: 'claim id', target: 'Claim_ID', confidence: 1 },
+        { source: 'CLAIM-DATE', target: 'Claim_Date', confidence: 1 }
+      ]);
+    });
+
+    it('maps known aliases from upstream exports', () => {
+      const mapping = ColumnMapper.toMapping(ColumnMapper.suggest(['Claim Number', 'Date of Birth', 'Salary']));
+      expect(mapping).toEqual({ 'Claim Number': 'Claim_ID', 'Date of Birth': 'DOB', 'Salary': 'Wage_Reported' });
+    });
+
+    it('maps near-misses by edit distance', () => {
+      const [suggestion] = ColumnMapper.suggest(['Employer_Nam']);
+      expect(suggestion.target).toBe('Employer_Name');
+      expect(suggestion.confidence).toBeGreaterThanOrEqual(ColumnMapper.matchThreshold);
+      expect(suggestion.confidence).toBeLessThan(1);
+    });
+
+    it('leaves headers that match nothing unmapped', () => {
+      expect(ColumnMapper.suggest(['Favourite Colour'])).toEqual([
+        { source: 'Favourite Colour', target: null, confidence: 0 }
+      ]);
+    });
+
+    it('assigns each target once, to the best match', () => {
+      const mapping = ColumnMapper.toMapping(ColumnMapper.suggest(['Claim_Dat', 'Claim Date']));
+      expect(mapping).toEqual({ 'Claim_Dat': null, 'Claim Date': 'Claim_Date' });
+    });
+  });
+
+  it('lists required fields nothing is mapped to', () => {
+    const mapping = Object.fromEntries(CSVParser.requiredHeaders.map(header => [header, header]));
+    expect(ColumnMapper.missingRequired(mapping)).toEqual([]);
+    expect(ColumnMapper.missingRequired({ ...mapping, Phone: null })).toEqual(['Phone']);
+  });
+
+  it('lists targets more than one column is mapped to', () => {
+    expect(ColumnMapper.duplicateTargets({ a: 'Name', b: 'Name', c: 'DOB', d: null })).toEqual(['Name']);
+  });
+
+  it('recognizes a file that already uses the expected headers', () => {
+    expect(ColumnMapper.isIdentity({ Claim_ID: 'Claim_ID', Notes: null })).toBe(true);
+    expect(ColumnMapper.isIdentity({ 'Claim Number': 'Claim_ID' })).toBe(false);
+  });
+
+  describe('profiles', () => {
+    beforeEach(() => {
+      const stored = new Map<string, string>();
+      vi.stubGlobal('localStorage', {
+        getItem: (key: string) => stored.get(key) ?? null,
+        setItem: (key: string, value: string) => stored.set(key, value)
+      });
+    });
+    afterEach(() => vi.unstubAllGlobals());
+
+    it('finds a saved profile covering every header in the file', () => {
+      ColumnMapper.saveProfile('Legacy', ['Claim Number', 'Salary', 'Notes'], { 'Claim Number': 'Claim_ID' });
+
+      expect(ColumnMapper.findProfileFor(['Claim Number', 'Salary'])?.name).toBe('Legacy');
+      expect(ColumnMapper.findProfileFor(['Claim Number', 'Other'])).toBeUndefined();
+    });
+
+    it('replaces a profile saved again under the same name', () => {
+      ColumnMapper.saveProfile('Legacy', ['A'], { A: 'Name' });
+      ColumnMapper.saveProfile('Legacy', ['B'], { B: 'Name' });
+      ColumnMapper.deleteProfile('Other');
+
+      expect(ColumnMapper.loadProfiles().map(profile => profile.sourceHeaders)).toEqual([['B']]);
+    });
+  });
+});
@@ -0,0 +1,145 @@
+import { ColumnMapping, ColumnMappingProfile, ColumnSuggestion } from '../types/fraud';
+import { levenshteinSimilarity } from '@/lib/stringSimilarity';
+import { CSVParser } from './csvParser';
+import { EnterpriseClaimSchema } from './enterpriseClaimSchema';
+
+const PROFILE_STORAGE_KEY = 'fraudiq.columnMappingProfiles';
+
+// Header spellings seen in upstream exports, compared after normalization
+const FIELD_ALIASES: Record<string, string[]> = {
+  Claim_ID: ['claimnumber', 'claimno', 'claimnum', 'claimref', 'claimreference'],
+  Claimant_ID: ['claimantnumber', 'claimantno', 'personid', 'applicantid', 'customerid'],
+  Name: ['fullname', 'claimantname', 'applicantname'],
+  DOB: ['dateofbirth', 'birthdate', 'birthdt'],
+  SSN_Hash: ['ssn', 'hashedssn', 'ssnhashed', 'socialsecurityhash'],
+  Email: ['emailaddress', 'mail'],
+  Phone: ['phonenumber', 'telephone', 'mobile', 'phoneno'],
+  IP_Address: ['ip', 'clientip', 'sourceip', 'ipaddr'],
+  Device_ID: ['device', 'deviceidentifier'],
+  Employer_Name: ['employer', 'company', 'companyname'],
+  Employment_Status: ['empstatus', 'separationtype'],
+  Wage_Reported: ['wages', 'wage', 'reportedwage', 'annualwage', 'salary'],
+  Claim_Amount: ['amount', 'benefitamount', 'claimamt'],
+  Claim_Date: ['filedate', 'filingdate', 'datefiled', 'submitteddate'],
+  Justification_Text: ['justification', 'reason', 'separationreason', 'narrative']
+};
+
+export class ColumnMapper {
+  // Below this similarity a source column is left unmapped
+  static matchThreshold = 0.8;
+
+  static get targetFields(): string[] {
+    return [
+      ...CSVParser.requiredHeaders,
+      'Justification_Text',
+      ...EnterpriseClaimSchema.headers,
+      ...CSVParser.groundTruthHeaders
+    ];
+  }
+
+  static normalize(header: string): string {
+    return header.toLowerCase().replace(/[^a-z0-9]/g, '');
+  }
+
+  /**
+   * Suggest a target field for every source header. Each target is assigned
+   * at most once, to the source column that matches it best.
+   */
+  static suggest(sourceHeaders: string[]): ColumnSuggestion[] {
+    const candidates: ColumnSuggestion[] = [];
+
+    for (const source of sourceHeaders) {
+      for (const target of this.targetFields) {
+        const confidence = this.scoreMatch(source, target);
+        if (confidence >= this.matchThreshold) {
+          candidates.push({ source, target, confidence });
+        }
+      }
+    }
+
+    candidates.sort((a, b) => b.confidence - a.confidence);
+
+    const assigned = new Map<string, ColumnSuggestion>();
+    const usedTargets = new Set<string>();
+    for (const candidate of candidates) {
+      if (assigned.has(candidate.source) || usedTargets.has(candidate.target)) continue;
+      assigned.set(candidate.source, candidate);
+      usedTargets.add(candidate.target);
+    }
+
+    return sourceHeaders.map(source => assigned.get(source) || { source, target: null, confidence: 0 });
+  }
+
+  static toMapping(suggestions: ColumnSuggestion[]): ColumnMapping {
+    return Object.fromEntries(suggestions.map(s => [s.source, s.target]));
+  }
+
+  static missingRequired(mapping: ColumnMapping): string[] {
+    const mapped = new Set(Object.values(mapping));
+    return CSVParser.requiredHeaders.filter(header => !mapped.has(header));
+  }
+
+  static duplicateTargets(mapping: ColumnMapping): string[] {
+    const counts: Record<string, number> = {};
+    Object.values(mapping).forEach(target => {
+      if (target) counts[target] = (counts[target] || 0) + 1;
+    });
+    return Object.keys(counts).filter(target => counts[target] > 1);
+  }
+
+  /**
+   * True when the file already uses the expected header names and the
+   * mapping step can be skipped.
+   */
+  static isIdentity(mapping: ColumnMapping): boolean {
+    return Object.entries(mapping).every(([source, target]) => target === null || target === source);
+  }
+
+  // Saved profiles, keyed by the source system they were built for
+
+  static loadProfiles(): ColumnMappingProfile[] {
+    try {
+      const stored = localStorage.getItem(PROFILE_STORAGE_KEY);
+      return stored ? JSON.parse(stored) : [];
+    } catch (error) {
+      console.warn('Failed to load column mapping profiles:', error);
+      return [];
+    }
+  }
+
+  static saveProfile(name: string, sourceHeaders: string[], mapping: ColumnMapping): ColumnMappingProfile {
+    const profile: ColumnMappingProfile = {
+      name,
+      sourceHeaders: [...sourceHeaders],
+      mapping,
+      savedAt: new Date().toISOString()
+    };
+    const profiles = this.loadProfiles().filter(p => p.name !== name);
+    profiles.push(profile);
+    localStorage.setItem(PROFILE_STORAGE_KEY, JSON.stringify(profiles));
+    return profile;
+  }
+
+  static deleteProfile(name: string): void {
+    const profiles = this.loadProfiles().filter(p => p.name !== name);
+    localStorage.setItem(PROFILE_STORAGE_KEY, JSON.stringify(profiles));
+  }
+
+  /**
+   * Find a saved profile whose source headers cover every header in the file.
+   */
+  static findProfileFor(sourceHeaders: string[]): ColumnMappingProfile | undefined {
+    return this.loadProfiles().find(profile =>
+      sourceHeaders.every(header => profile.sourceHeaders.includes(header))
+    );
+  }
+
+  private static scoreMatch(source: string, target: string): number {
+    const normalizedSource = this.normalize(source);
+    const names = [this.normalize(target), ...(FIELD_ALIASES[target] || [])];
+
+    if (names.includes(normalizedSource)) return 1;
+
+    return Math.max(...names.map(name => levenshteinSimilarity(normalizedSource, name)));
+  }
+}
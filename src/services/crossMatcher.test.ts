@@ -0,0 +1,85 @@
+import { describe, expect, it } from 'vitest';
+import { distinctRow, recordRow } from '@/test/claimHistory';
+import { createFixedClock } from '@/lib/clock';
+import { EnterpriseClaimRow } from '../types/fraud';
+import { AddressParser } from './addressParser';
+import { ClaimHistory } from './claimHistory';
+import { CrossMatcher, maskValue } from './crossMatcher';
+
+const matcherFor = (rows: Partial<EnterpriseClaimRow>[]) => {
+  const history = new ClaimHistory();
+  rows.forEach(row => recordRow(history, row));
+  return new CrossMatcher(history, createFixedClock('2024-07-01T00:00:00Z'));
+};
+
+describe('CrossMatcher', () => {
+  it('matches other claimants on a shared value, strongest evidence first', () => {
+    const matcher = matcherFor([
+      distinctRow(1),
+      { ...distinctRow(2), SSN_Hash: 'ssn-1', Phone: '(555) 300-1001' }
+    ]);
+    const results = matcher.match('CLT-1');
+
+    expect(results.map(result => [result.sourceType, result.matchType, result.matchConfidence])).toEqual([
+      ['SSN', 'EXACT', 0.99],
+      ['PHONE', 'EXACT', 0.9]
+    ]);
+    expect(results[1].relatedEntities).toEqual([
+      expect.objectContaining({ entityType: 'CLAIMANT', entityId: 'CLT-2', relationshipType: 'SAME_PHONE' }),
+      expect.objectContaining({ entityType: 'CLAIM', entityId: 'CLM-2' })
+    ]);
+    expect(results[1].sourceValue).toBe(maskValue('5553001001'));
+    expect(results[0].identifiedDate).toBe('2024-07-01T00:00:00.000Z');
+  });
+
+  it('reaches the same mailbox through tags and Gmail dots', () => {
+    const matcher = matcherFor([
+      { ...distinctRow(1), Email: 'jane.doe@gmail.com' },
+      { ...distinctRow(2), Email: 'JaneDoe+claims@gmail.com' }
+    ]);
+
+    expect(matcher.match('CLT-1').map(result => result.sourceType)).toEqual(['EMAIL']);
+  });
+
+  it('never matches on placeholders', () => {
+    const matcher = matcherFor([
+      { ...distinctRow(1), Phone: '000-000-0000', Email: 'unknown@example.com', Device_ID: 'N/A' },
+      { ...distinctRow(2), Phone: '000-000-0000', Email: 'unknown@example.com', Device_ID: 'N/A' }
+    ]);
+
+    expect(matcher.match('CLT-1')).toEqual([]);
+  });
+
+  it('matches names alike only among claims with the same date of birth', () => {
+    const matcher = matcherFor([
+      { ...distinctRow(1), Name: 'Robert Smith', DOB: '1980-05-05' },
+      { ...distinctRow(2), Name: 'Bob Smith', DOB: '1980-05-05' },
+      { ...distinctRow(3), Name: 'Bob Smith', DOB: '1981-05-05' }
+    ]);
+    const [name] = matcher.match('CLT-1');
+
+    expect(name).toMatchObject({ sourceType: 'NAME', matchType: 'FUZZY' });
+    expect(name.relatedEntities.map(entity => entity.entityId)).toEqual(['CLT-2', 'CLM-2']);
+  });
+
+  it('matches standardized street addresses within a ZIP code', () => {
+    const matcher = matcherFor([
+      { ...distinctRow(1), Address_History: [AddressParser.parse('12 North Oak Street, Apt 3, Springfield, IL 62701')] },
+      { ...distinctRow(2), Address_History: [AddressParser.parse('12 N Oak St #3, Springfield, IL 62701')] },
+      { ...distinctRow(3), Address_History: [AddressParser.parse('12 N Oak St #3, Peoria, IL 61602')] }
+    ]);
+
+    expect(matcher.match('CLT-1').map(result => [result.sourceType, result.relatedEntities[0].entityId]))
+      .toEqual([['ADDRESS', 'CLT-2']]);
+  });
+
+  it('discounts an IP address the more claimants share it', () => {
+    const shared = (count: number) =>
+      matcherFor(Array.from({ length: count }, (_, i) => ({ ...distinctRow(i + 1), IP_Address: '203.0.113.9' })))
+        .match('CLT-1')[0].matchConfidence;
+
+    expect(shared(2)).toBe(0.6);
+    expect(shared(4)).toBe(0.3);
+    expect(shared(8)).toBe(0.2);
+  });
+});
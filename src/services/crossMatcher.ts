@@ -0,0 +1,307 @@
+import {
+  BenefitsClaim,
+  ClaimantProfile,
+  CrossMatchResult,
+  EmployerRecord,
+  IdentityMatchCandidate,
+  PersonName,
+  RelatedEntity
+} from '@/types/enterprise';
+import { EnterpriseClaimRow } from '../types/fraud';
+import { Clock } from '@/lib/clock';
+import { isPlaceholderEmail, isPlaceholderPhone, isPlaceholderSsn, isPlaceholderText } from '@/lib/placeholders';
+import { discountForSharing } from '@/lib/sharing';
+import { AddressParser } from './addressParser';
+import { ClaimHistory, ClaimHistoryEntry, ClaimIdentity } from './claimHistory';
+import { IdentityMatcher } from './identityMatcher';
+import { NameParser } from './nameParser';
+
+type SourceType = CrossMatchResult['sourceType'];
+type MatchType = CrossMatchResult['matchType'];
+
+// One other claim that shares something with the claimant's
+interface ClaimMatch {
+  entry: ClaimHistoryEntry;
+  sourceType: SourceType;
+  matchType: MatchType;
+  confidence: number;
+}
+
+// Results are listed strongest evidence first
+const SOURCE_ORDER: SourceType[] = ['SSN', 'NAME', 'PHONE', 'EMAIL', 'ADDRESS', 'DEVICE_ID', 'IP_ADDRESS'];
+const MATCH_TYPE_ORDER: MatchType[] = ['EXACT', 'FUZZY', 'PHONETIC'];
+
+// A shared value, before anything else is compared. IPs are shared by
+// households and offices, so count least.
+const EXACT_CONFIDENCE: Record<SourceType, number> = {
+  SSN: 0.99,
+  NAME: 0.95,
+  EMAIL: 0.95,
+  PHONE: 0.9,
+  DEVICE_ID: 0.85,
+  ADDRESS: 0.8,
+  IP_ADDRESS: 0.6
+};
+
+// Values shared by many claimants, such as a public Wi-Fi IP or a filing
+// agent's email, say little about any two of them. Past two claimants an
+// exact match on these counts less the more claimants share the value.
+const COMMONLY_SHARED: SourceType[] = ['EMAIL', 'IP_ADDRESS'];
+
+// Placeholders stand in for a missing value; no one shares them
+const PLACEHOLDER_CHECKS: Partial<Record<SourceType, (value: string) => boolean>> = {
+  SSN: isPlaceholderSsn,
+  PHONE: isPlaceholderPhone,
+  EMAIL: isPlaceholderEmail
+};
+
+// Weakest name or street match worth reporting
+const MIN_NAME_SCORE = 0.8;
+const MIN_STREET_SCORE = 0.75;
+
+const RISK_IMPLICATIONS: Record<SourceType, string[]> = {
+  SSN: ['Identity theft risk', 'Multiple claim fraud'],
+  NAME: ['Related party fraud', 'Organized fraud ring'],
+  ADDRESS: ['Address farming', 'Mail fraud scheme'],
+  PHONE: ['Contact fraud', 'Phone number sharing'],
+  EMAIL: ['Account takeover', 'Email fraud pattern'],
+  DEVICE_ID: ['Shared filing device', 'Organized fraud ring'],
+  IP_ADDRESS: ['Shared network', 'Coordinated filing']
+};
+
+const isPlaceholderValue = (sourceType: SourceType, value: string) =>
+  isPlaceholderText(value) || (PLACEHOLDER_CHECKS[sourceType]?.(value) ?? false);
+
+const normalizeText = (value: unknown) =>
+  String(value ?? '').toLowerCase().replace(/[^a-z0-9@.+\s-]/g, '').replace(/\s+/g, ' ').trim();
+
+// Placeholders such as "N/A" are left empty
+const normalizeIdentifier = (sourceType: SourceType, value: unknown) => {
+  const text = normalizeText(value);
+  return isPlaceholderValue(sourceType, text) ? '' : text;
+};
+
+const normalizePhone = (value: unknown) => {
+  const digits = String(value ?? '').replace(/\D/g, '').slice(-10);
+  return digits.length === 10 && !isPlaceholderPhone(digits) ? digits : '';
+};
+
+// Tags after "+" reach the same mailbox, as do dots in a Gmail address
+const normalizeEmail = (value: unknown) => {
+  const [local, domain] = String(value ?? '').trim().toLowerCase().split('@');
+  if (!local || !domain || isPlaceholderValue('EMAIL', `${local}@${domain}`)) return '';
+  const mailbox = local.split('+')[0];
+  return `${domain === 'gmail.com' || domain === 'googlemail.com' ? mailbox.replace(/\./g, '') : mailbox}@${domain}`;
+};
+
+const normalizeDate = (value: unknown) => {
+  const parsed = Date.parse(String(value ?? ''));
+  return isNaN(parsed) ? '' : new Date(parsed).toISOString().slice(0, 10);
+};
+
+const personName = (identity: ClaimIdentity): PersonName => ({
+  prefix: '',
+  first: identity.firstName,
+  middle: identity.middleName ? identity.middleName.split(' ') : [],
+  last: identity.lastName,
+  suffix: identity.suffix
+});
+
+// Legal forms that vary between filings for the same employer
+const normalizeEmployer = (value: unknown) =>
+  normalizeText(value)
+    .replace(/[.,]/g, '')
+    .replace(/\s+(inc|llc|llp|ltd|corp|corporation|co|company|incorporated)$/, '')
+    .trim();
+
+// Keeps an email's domain, or the last four characters of anything else,
+// enough to tell values apart on screen
+export const maskValue = (value: string) => {
+  const at = value.indexOf('@');
+  if (at > 0) return `${value[0]}***${value.slice(at)}`;
+  return value.length <= 4 ? '****' : `${'*'.repeat(Math.min(8, value.length - 4))}${value.slice(-4)}`;
+};
+
+/**
+ * Finds other claimants whose claims share an identity detail with this
+ * claimant's: SSN, phone, email, device and IP by exact value; names, by
+ * IdentityMatcher, among claims with the same date of birth; standardized
+ * street addresses within the same ZIP code. Searches every claim in the
+ * history, including claims restored from earlier sessions.
+ */
+export class CrossMatcher {
+  constructor(private history: ClaimHistory, private clock: Clock) {}
+
+  // Converted claims carry placeholders for missing values; read the original row when there is one
+  static identityOf(
+    claim: BenefitsClaim,
+    claimant: ClaimantProfile,
+    contextData: Record<string, unknown>,
+    employer?: EmployerRecord
+  ): ClaimIdentity {
+    const row = contextData.legacy_claim_data as Partial<EnterpriseClaimRow> | undefined;
+    const name = row
+      ? NameParser.parse(String(row.Name ?? ''))
+      : NameParser.parse([claimant.firstName, claimant.middleName, claimant.lastName].filter(Boolean).join(' '));
+    const address = row ? row.Address_History?.[0] : claimant.residenceAddress;
+    const streetLine = [address?.streetAddress1, address?.streetAddress2].filter(Boolean).join(', ');
+
+    return {
+      firstName: name.first.toLowerCase(),
+      middleName: name.middle.join(' ').toLowerCase(),
+      lastName: name.last.toLowerCase(),
+      suffix: name.suffix,
+      dateOfBirth: normalizeDate(row ? row.DOB : claimant.dateOfBirth),
+      street: streetLine ? AddressParser.formatStreet(AddressParser.standardizeStreet(streetLine)) : '',
+      zipCode: String(address?.zipCode ?? '').replace(/\D/g, '').slice(0, 5).replace(/^0+$/, ''),
+      phone: normalizePhone(row ? row.Phone : claimant.phoneNumber),
+      email: normalizeEmail(row ? row.Email : claimant.emailAddress),
+      deviceId: normalizeIdentifier('DEVICE_ID', row ? row.Device_ID : contextData.device_id),
+      ipAddress: normalizeIdentifier('IP_ADDRESS', row ? row.IP_Address : claim.ipAddress),
+      employer: normalizeEmployer(row ? row.Employer_Name : employer?.legalName)
+    };
+  }
+
+  match(claimantId: string): CrossMatchResult[] {
+    // Best match per other claim and source type
+    const best = new Map<string, ClaimMatch>();
+    for (const entry of this.history.claimantEntries(claimantId)) {
+      for (const match of this.matchesFor(entry)) {
+        if (match.entry.claimantId === claimantId) continue;
+        const key = `${match.sourceType}:${match.entry.claimId}`;
+        if ((best.get(key)?.confidence ?? 0) < match.confidence) best.set(key, match);
+      }
+    }
+
+    const groups = new Map<string, ClaimMatch[]>();
+    for (const match of best.values()) {
+      const key = `${match.sourceType}:${match.matchType}`;
+      groups.set(key, [...(groups.get(key) || []), match]);
+    }
+
+    const identifiedDate = this.clock.now().toISOString();
+    return Array.from(groups.values())
+      .sort((a, b) =>
+        SOURCE_ORDER.indexOf(a[0].sourceType) - SOURCE_ORDER.indexOf(b[0].sourceType) ||
+        MATCH_TYPE_ORDER.indexOf(a[0].matchType) - MATCH_TYPE_ORDER.indexOf(b[0].matchType)
+      )
+      .map(matches => {
+        const { sourceType, matchType } = matches[0];
+        return {
+          matchId: `MATCH_${claimantId}_${sourceType}_${matchType}`,
+          sourceType,
+          sourceValue: sourceType === 'SSN' ? 'MASKED_SSN' : maskValue(this.valueOf(claimantId, sourceType)),
+          matchType,
+          matchConfidence: Math.max(...matches.map(match => match.confidence)),
+          relatedEntities: this.relatedEntities(matches),
+          riskImplications: RISK_IMPLICATIONS[sourceType],
+          identifiedDate
+        };
+      });
+  }
+
+  private matchesFor(entry: ClaimHistoryEntry): ClaimMatch[] {
+    const identity = entry.identity;
+    const matches: ClaimMatch[] = [];
+    // Claims restored from before placeholders were left empty may still carry them
+    const exact = (sourceType: SourceType, key: string, value: string | undefined) => {
+      if (!value || isPlaceholderValue(sourceType, value)) return;
+      const others = this.history.claimsWithKey(`${key}:${value}`);
+      const confidence = this.exactConfidence(sourceType, new Set(others.map(other => other.claimantId)).size);
+      for (const other of others) {
+        matches.push({ entry: other, sourceType, matchType: 'EXACT', confidence });
+      }
+    };
+
+    exact('SSN', 'ssn', entry.ssn);
+    if (!identity) return matches;
+    exact('PHONE', 'phone', identity.phone);
+    exact('EMAIL', 'email', identity.email);
+    exact('DEVICE_ID', 'device', identity.deviceId);
+    exact('IP_ADDRESS', 'ip', identity.ipAddress);
+
+    if (identity.dateOfBirth && identity.firstName && identity.lastName) {
+      for (const other of this.history.claimsWithKey(`dob:${identity.dateOfBirth}`)) {
+        const match = other.identity && this.compareNames(identity, other.identity);
+        if (match) matches.push({ entry: other, sourceType: 'NAME', ...match });
+      }
+    }
+
+    if (identity.zipCode && identity.street) {
+      for (const other of this.history.claimsWithKey(`zip:${identity.zipCode}`)) {
+        const match = other.identity?.street && IdentityMatcher.compareStreets(identity.street, other.identity.street);
+        if (match && match.score >= MIN_STREET_SCORE) {
+          matches.push({ entry: other, sourceType: 'ADDRESS', ...this.confidenceOf('ADDRESS', match) });
+        }
+      }
+    }
+
+    return matches;
+  }
+
+  // Names are only compared between claims with the same date of birth
+  private compareNames(a: ClaimIdentity, b: ClaimIdentity): Pick<ClaimMatch, 'matchType' | 'confidence'> | null {
+    const match = IdentityMatcher.compareNames(personName(a), personName(b));
+    return match && match.score >= MIN_NAME_SCORE ? this.confidenceOf('NAME', match) : null;
+  }
+
+  // See COMMONLY_SHARED; discounted as the identity graph weighs its links
+  private exactConfidence(sourceType: SourceType, claimants: number): number {
+    const confidence = EXACT_CONFIDENCE[sourceType];
+    if (!COMMONLY_SHARED.includes(sourceType)) return confidence;
+    return Math.round(discountForSharing(confidence, claimants) * 100) / 100;
+  }
+
+  // An exact match is as sure as its source; others in proportion to their score
+  private confidenceOf(sourceType: SourceType, match: IdentityMatchCandidate): Pick<ClaimMatch, 'matchType' | 'confidence'> {
+    return {
+      matchType: match.matchType,
+      confidence: Math.round(match.score * EXACT_CONFIDENCE[sourceType] * 100) / 100
+    };
+  }
+
+  // One entity per related claimant and one per matching claim
+  private relatedEntities(matches: ClaimMatch[]): RelatedEntity[] {
+    const relationship = `${matches[0].matchType === 'EXACT' ? 'SAME' : 'SIMILAR'}_${matches[0].sourceType}`;
+    const lastActivity = (filedAt: number) => (isNaN(filedAt) ? '' : new Date(filedAt).toISOString());
+    const sorted = [...matches].sort((a, b) => a.entry.claimId.localeCompare(b.entry.claimId));
+
+    const claimants = new Map<string, ClaimMatch[]>();
+    for (const match of sorted) {
+      claimants.set(match.entry.claimantId, [...(claimants.get(match.entry.claimantId) || []), match]);
+    }
+
+    return [
+      ...Array.from(claimants, ([relatedId, related]) => ({
+        entityType: 'CLAIMANT' as const,
+        entityId: relatedId,
+        relationshipType: relationship,
+        strength: Math.max(...related.map(match => match.confidence)),
+        lastActivity: lastActivity(Math.max(...related.map(match => match.entry.filedAt || 0)) || NaN)
+      })),
+      ...sorted.map(match => ({
+        entityType: 'CLAIM' as const,
+        entityId: match.entry.claimId,
+        relationshipType: relationship,
+        strength: match.confidence,
+        lastActivity: lastActivity(match.entry.filedAt)
+      }))
+    ];
+  }
+
+  // The claimant's own value that matched, for display
+  private valueOf(claimantId: string, sourceType: SourceType): string {
+    const entry = this.history.claimantEntries(claimantId).find(candidate => candidate.identity);
+    const identity = entry?.identity;
+    if (!identity) return '';
+    switch (sourceType) {
+      case 'NAME': return `${identity.firstName} ${identity.lastName}`;
+      case 'ADDRESS': return identity.street;
+      case 'PHONE': return identity.phone;
+      case 'EMAIL': return identity.email;
+      case 'DEVICE_ID': return identity.deviceId;
+      case 'IP_ADDRESS': return identity.ipAddress;
+      default: return '';
+    }
+  }
+}
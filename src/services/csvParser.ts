@@ -1,5 +1,32 @@
 import Papa from 'papaparse';
-import { ClaimData } from '../types/fraud';
+import { ColumnMapping, EnterpriseClaimRow, ParsedClaims, ValidationReport } from '../types/fraud';
+import { EnterpriseClaimSchema } from './enterpriseClaimSchema';
+import { ClaimValidator, groundTruthLabelSchema } from './claimValidator';
+import { ClaimNormalizer } from './claimNormalizer';
+
+export interface CSVStreamProgress {
+  rowsParsed: number;
+  bytesRead: number;
+  totalBytes: number;
+}
+
+export interface CSVStreamHandlers {
+  onBatch: (
+    rows: EnterpriseClaimRow[],
+    progress: CSVStreamProgress,
+    report: ValidationReport
+  ) => void | Promise<void>;
+}
+
+// Messages exchanged with workers/csvStream.worker.ts
+export type CSVWorkerRequest =
+  | { type: 'start'; file: File; chunkSize: number; mapping?: ColumnMapping }
+  | { type: 'ack' };
+
+export type CSVWorkerMessage =
+  | { type: 'batch'; rows: EnterpriseClaimRow[]; progress: CSVStreamProgress; report: ValidationReport }
+  | { type: 'complete'; rowCount: number }
+  | { type: 'error'; message: string };
 
 export class CSVParser {
   static requiredHeaders = [
@@ -19,58 +46,40 @@ export class CSVParser {
     'Claim_Date'
   ];
 
-  static parseCSV(file: File): Promise<ClaimData[]> {
+  // Label columns written by SyntheticClaimGenerator
+  static groundTruthHeaders = ['Ground_Truth_Label', 'Ground_Truth_Group'];
+
+  // Files above this size are parsed in a worker and analyzed batch by batch
+  static streamingThreshold = 5 * 1024 * 1024;
+  static streamChunkSize = 1024 * 1024;
+
+  /**
+   * Parse and validate a whole CSV in memory. Rows that fail validation are
+   * reported rather than failing the file; only a missing header or an empty
+   * file rejects.
+   */
+  static parseCSV(file: File, mapping?: ColumnMapping): Promise<ParsedClaims> {
     return new Promise((resolve, reject) => {
       Papa.parse(file, {
         header: true,
         skipEmptyLines: true,
+        transformHeader: mapping ? header => this.mapHeader(mapping, header) : undefined,
         complete: (results) => {
           try {
-            const data = results.data as any[];
+            const data = results.data as Record<string, unknown>[];
             
             // Validate headers
             if (data.length === 0) {
               throw new Error('CSV file is empty');
             }
             
-            const headers = Object.keys(data[0]);
-            const missingHeaders = this.requiredHeaders.filter(
-              header => !headers.includes(header)
-            );
-            
-            if (missingHeaders.length > 0) {
-              throw new Error(`Missing required headers: ${missingHeaders.join(', ')}`);
-            }
+            this.validateHeaders(Object.keys(data[0]));
             
             // Validate and clean data
-            const validatedData = data.map((row, index) => {
-              const cleanedRow: ClaimData = {
-                Claim_ID: String(row.Claim_ID || '').trim(),
-                Claimant_ID: String(row.Claimant_ID || '').trim(),
-                Name: String(row.Name || '').trim(),
-                DOB: String(row.DOB || '').trim(),
-                SSN_Hash: String(row.SSN_Hash || '').trim(),
-                Email: String(row.Email || '').trim(),
-                Phone: String(row.Phone || '').trim(),
-                IP_Address: String(row.IP_Address || '').trim(),
-                Device_ID: String(row.Device_ID || '').trim(),
-                Employer_Name: String(row.Employer_Name || '').trim(),
-                Employment_Status: String(row.Employment_Status || '').trim(),
-                Wage_Reported: String(row.Wage_Reported || '0').trim(),
-                Claim_Amount: String(row.Claim_Amount || '0').trim(),
-                Claim_Date: String(row.Claim_Date || '').trim(),
-                Justification_Text: String(row.Justification_Text || '').trim()
-              };
-              
-              // Basic validation
-              if (!cleanedRow.Claim_ID) {
-                throw new Error(`Row ${index + 1}: Missing Claim_ID`);
-              }
-              
-              return cleanedRow;
-            });
+            const cleanedRows = data.map(row => this.cleanRow(row));
+            const { accepted, report } = new ClaimValidator().validate(cleanedRows, data);
             
-            resolve(validatedData);
+            resolve({ rows: accepted, report });
           } catch (error) {
             reject(error);
           }
@@ -82,6 +91,152 @@ export class CSVParser {
     });
   }
 
+  /**
+   * Parse a large CSV in a Web Worker, handing cleaned rows to `onBatch` one
+   * chunk at a time. The worker waits for each batch to be handled before
+   * reading the next chunk, so the parser never holds the raw file or the
+   * full row set in memory; a handler that analyzes each batch as it arrives
+   * keeps the import to one chunk at a time. Resolves with the total row
+   * count.
+   */
+  static streamCSV(file: File, handlers: CSVStreamHandlers, mapping?: ColumnMapping): Promise<number> {
+    return new Promise((resolve, reject) => {
+      const worker = new Worker(new URL('../workers/csvStream.worker.ts', import.meta.url), {
+        type: 'module'
+      });
+
+      const fail = (error: Error) => {
+        worker.terminate();
+        reject(error);
+      };
+
+      worker.onmessage = async (event: MessageEvent<CSVWorkerMessage>) => {
+        const message = event.data;
+
+        switch (message.type) {
+          case 'batch':
+            try {
+              await handlers.onBatch(message.rows, message.progress, message.report);
+              const ack: CSVWorkerRequest = { type: 'ack' };
+              worker.postMessage(ack);
+            } catch (error) {
+              fail(error instanceof Error ? error : new Error(String(error)));
+            }
+            break;
+          case 'complete':
+            worker.terminate();
+            resolve(message.rowCount);
+            break;
+          case 'error':
+            fail(new Error(message.message));
+            break;
+        }
+      };
+
+      worker.onerror = (event) => {
+        fail(new Error(`CSV worker error: ${event.message}`));
+      };
+
+      const start: CSVWorkerRequest = { type: 'start', file, chunkSize: this.streamChunkSize, mapping };
+      worker.postMessage(start);
+    });
+  }
+
+  /**
+   * Read just the header row and a few sample rows, for column mapping.
+   */
+  static readHeaders(file: File, sampleSize = 3): Promise<{ headers: string[]; sampleRows: Record<string, string>[] }> {
+    return new Promise((resolve, reject) => {
+      Papa.parse<Record<string, string>>(file, {
+        header: true,
+        skipEmptyLines: true,
+        preview: sampleSize,
+        complete: (results) => {
+          resolve({ headers: results.meta.fields || [], sampleRows: results.data });
+        },
+        error: (error) => {
+          reject(new Error(`CSV parsing error: ${error.message}`));
+        }
+      });
+    });
+  }
+
+  /**
+   * Rename a source header according to a column mapping. Ignored columns get
+   * a prefix so they can never collide with a mapped field.
+   */
+  static mapHeader(mapping: ColumnMapping, header: string): string {
+    if (!(header in mapping)) return header;
+    const target = mapping[header];
+    return target === null ? `__ignored__${header}` : target;
+  }
+
+  static validateHeaders(headers: string[]): void {
+    const missingHeaders = this.requiredHeaders.filter(
+      header => !headers.includes(header)
+    );
+    
+    if (missingHeaders.length > 0) {
+      throw new Error(`Missing required headers: ${missingHeaders.join(', ')}`);
+    }
+  }
+
+  /**
+   * Trim the core fields, coerce the enterprise columns and normalize dates,
+   * phones, amounts, names and emails. Validation runs against the raw row,
+   * so nothing here can hide a bad value.
+   */
+  static cleanRow(row: Record<string, unknown>): EnterpriseClaimRow {
+    return ClaimNormalizer.normalize({
+      Claim_ID: String(row.Claim_ID || '').trim(),
+      Claimant_ID: String(row.Claimant_ID || '').trim(),
+      Name: String(row.Name || '').trim(),
+      DOB: String(row.DOB || '').trim(),
+      SSN_Hash: String(row.SSN_Hash || '').trim(),
+      Email: String(row.Email || '').trim(),
+      Phone: String(row.Phone || '').trim(),
+      IP_Address: String(row.IP_Address || '').trim(),
+      Device_ID: String(row.Device_ID || '').trim(),
+      Employer_Name: String(row.Employer_Name || '').trim(),
+      Employment_Status: String(row.Employment_Status || '').trim(),
+      Wage_Reported: String(row.Wage_Reported || '0').trim(),
+      Claim_Amount: String(row.Claim_Amount || '0').trim(),
+      Claim_Date: String(row.Claim_Date || '').trim(),
+      Justification_Text: String(row.Justification_Text || '').trim(),
+      ...EnterpriseClaimSchema.coerce(row),
+      ...this.readGroundTruth(row)
+    });
+  }
+
+  // Benchmark files carry their labels through to the export. An unknown
+  // label is dropped here; the validator reports it.
+  private static readGroundTruth(row: Record<string, unknown>): Partial<EnterpriseClaimRow> {
+    const label = groundTruthLabelSchema.safeParse(row.Ground_Truth_Label);
+    if (!label.success) return {};
+    const group = String(row.Ground_Truth_Group || '').trim();
+    return {
+      Ground_Truth_Label: label.data,
+      ...(group ? { Ground_Truth_Group: group } : {})
+    };
+  }
+
+  /**
+   * Build a CSV of rejected rows in their original columns, with the reasons
+   * appended, so they can be corrected and re-uploaded.
+   */
+  static buildRejectsCSV(report: ValidationReport): string {
+    const rows = report.rejected.map(rejected => ({
+      ...(rejected.sourceFile ? { Source_File: rejected.sourceFile } : {}),
+      ...rejected.raw,
+      Rejection_Reasons: rejected.issues.map(issue => issue.message).join('; ')
+    }));
+    // Rows from different files may not share the same columns
+    const fields = Array.from(new Set(rows.flatMap(row => Object.keys(row))))
+      .filter(field => field !== 'Rejection_Reasons')
+      .concat('Rejection_Reasons');
+    return Papa.unparse({ fields, data: rows });
+  }
+
   static generateSampleCSV(): string {
     const sampleData = [
       {
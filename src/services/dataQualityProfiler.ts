@@ -0,0 +1,311 @@
+import {
+  ColumnProfile,
+  DataQualityIssue,
+  DataQualityIssueKind,
+  DataQualityProfile,
+  EnterpriseClaimRow,
+  ValueCount
+} from '../types/fraud';
+import { Clock, systemClock } from '@/lib/clock';
+import {
+  isPlaceholderDate,
+  isPlaceholderEmail,
+  isPlaceholderPhone,
+  isPlaceholderSsn,
+  isPlaceholderText
+} from '@/lib/placeholders';
+import { CaseManagementService } from './CaseManagementService';
+import { CSVParser } from './csvParser';
+import { EnterpriseClaimSchema } from './enterpriseClaimSchema';
+
+type ColumnKind = ColumnProfile['kind'];
+
+interface ProfiledColumn {
+  name: string;
+  kind: ColumnKind;
+  required: boolean;
+}
+
+// A column's tallies so far, finalized into a ColumnProfile
+interface ColumnTally {
+  column: ProfiledColumn;
+  counts: Map<string, number>;
+  numbers: { value: number; claimId: string }[];
+  examples: Set<string>;
+  nullCount: number;
+  placeholderCount: number;
+  futureDateCount: number;
+}
+
+const TOP_VALUE_COUNT = 5;
+const EXAMPLE_COUNT = 5;
+// Quartiles are meaningless on a handful of values
+const MIN_VALUES_FOR_OUTLIERS = 8;
+
+const CORE_KINDS: Record<string, ColumnKind> = {
+  DOB: 'date',
+  Claim_Date: 'date',
+  Wage_Reported: 'number',
+  Claim_Amount: 'number'
+};
+
+const isPlaceholder = (column: string, value: string): boolean => {
+  if (isPlaceholderText(value)) return true;
+  if (column === 'Phone') return isPlaceholderPhone(value);
+  if (column === 'Email') return isPlaceholderEmail(value);
+  if (CORE_KINDS[column] === 'date') return isPlaceholderDate(value);
+  if (column === 'SSN_Hash') return isPlaceholderSsn(value);
+  return false;
+};
+
+const quantile = (sorted: number[], q: number) => {
+  const position = (sorted.length - 1) * q;
+  const lower = Math.floor(position);
+  const upper = Math.ceil(position);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (position - lower);
+};
+
+const SEVERITY_ORDER: Record<DataQualityIssue['severity'], number> = { LOW: 0, MEDIUM: 1, HIGH: 2, CRITICAL: 3 };
+
+const percent = (rate: number) => `${(rate * 100).toFixed(rate < 0.01 && rate > 0 ? 1 : 0)}%`;
+
+export class DataQualityProfiler {
+  // Rates above these raise an issue
+  static thresholds: Record<DataQualityIssueKind, number> & { optionalNullRate: number } = {
+    NULL_RATE: 0.05,
+    optionalNullRate: 0.5,
+    PLACEHOLDER: 0.02,
+    OUTLIER: 0.05,
+    FUTURE_DATE: 0
+  };
+
+  static get columns(): ProfiledColumn[] {
+    const required = new Set(CSVParser.requiredHeaders);
+    const core = [...CSVParser.requiredHeaders, 'Justification_Text'].map(name => ({
+      name,
+      kind: CORE_KINDS[name] || 'text',
+      required: required.has(name)
+    }));
+    const enterprise = EnterpriseClaimSchema.columns.map(column => ({
+      name: column.name,
+      kind: (column.type === 'number' ? 'number'
+        : column.type === 'boolean' ? 'boolean'
+        : column.type.endsWith('List') ? 'list'
+        : 'text') as ColumnKind,
+      required: false
+    }));
+    return [...core, ...enterprise];
+  }
+
+  /**
+   * Profile a loaded dataset column by column and list every threshold
+   * breach. The clock's time is the cut-off for future dates.
+   */
+  static profile(rows: EnterpriseClaimRow[], clock: Clock = systemClock): DataQualityProfile {
+    const builder = new DataQualityProfileBuilder(clock);
+    builder.add(rows);
+    return builder.finish();
+  }
+
+  // Every threshold breach across the profiled columns, worst first
+  static findAllIssues(columns: ColumnProfile[], rowCount: number): DataQualityIssue[] {
+    return this.columns
+      .flatMap((column, index) => this.findIssues(column, columns[index], rowCount))
+      .sort((a, b) => SEVERITY_ORDER[b.severity] - SEVERITY_ORDER[a.severity] || b.rate - a.rate);
+  }
+
+  /**
+   * Raise a DATA_QUALITY alert for each issue in the profile. Resolves with
+   * the new alert IDs.
+   */
+  static async raiseAlerts(profile: DataQualityProfile, caseManagement: CaseManagementService): Promise<string[]> {
+    const alertIds: string[] = [];
+    for (const issue of profile.issues) {
+      alertIds.push(await caseManagement.createSystemAlert({
+        alertType: 'DATA_QUALITY',
+        severity: issue.severity,
+        title: `Data quality: ${issue.column}`,
+        description: issue.message,
+        entityType: 'DATASET',
+        entityId: profile.profileId,
+        triggeredBy: 'DATA_QUALITY_PROFILER',
+        metadata: {
+          column: issue.column,
+          kind: issue.kind,
+          affectedRows: issue.affectedRows,
+          rate: issue.rate,
+          threshold: issue.threshold,
+          rowCount: profile.rowCount
+        }
+      }));
+    }
+    return alertIds;
+  }
+
+  private static findIssues(column: ProfiledColumn, profile: ColumnProfile, rowCount: number): DataQualityIssue[] {
+    if (rowCount === 0) return [];
+    const issues: DataQualityIssue[] = [];
+
+    const check = (kind: DataQualityIssueKind, affectedRows: number, threshold: number, describe: string) => {
+      const rate = affectedRows / rowCount;
+      if (affectedRows === 0 || rate <= threshold) return;
+      issues.push({
+        column: column.name,
+        kind,
+        severity: this.severityFor(kind, rate, threshold, column),
+        affectedRows,
+        rate,
+        threshold,
+        message: `${column.name}: ${affectedRows} of ${rowCount} rows (${percent(rate)}) ${describe}` +
+          (threshold > 0 ? `, above the ${percent(threshold)} threshold` : '')
+      });
+    };
+
+    const nullThreshold = column.required ? this.thresholds.NULL_RATE : this.thresholds.optionalNullRate;
+    check('NULL_RATE', profile.nullCount, nullThreshold, 'are empty');
+    check('PLACEHOLDER', profile.placeholderCount, this.thresholds.PLACEHOLDER, 'hold placeholder values');
+    check('OUTLIER', profile.outlierCount, this.thresholds.OUTLIER, 'are statistical outliers');
+    check('FUTURE_DATE', profile.futureDateCount, this.thresholds.FUTURE_DATE, 'are dated in the future');
+
+    return issues;
+  }
+
+  private static severityFor(
+    kind: DataQualityIssueKind,
+    rate: number,
+    threshold: number,
+    column: ProfiledColumn
+  ): DataQualityIssue['severity'] {
+    if (kind === 'FUTURE_DATE') return rate >= 0.05 ? 'HIGH' : 'MEDIUM';
+    if (kind === 'NULL_RATE' && column.required && rate >= 0.5) return 'CRITICAL';
+    if (rate >= Math.max(threshold * 4, 0.2)) return 'HIGH';
+    if (rate >= threshold * 2) return 'MEDIUM';
+    return 'LOW';
+  }
+}
+
+
+/**
+ * Profiles a dataset a batch at a time, so a streamed file is profiled
+ * chunk by chunk as it is analyzed, without keeping its rows. What it keeps
+ * is a count per distinct value and the numbers behind the outlier fences,
+ * and the profile matches one taken over all the rows at once.
+ */
+export class DataQualityProfileBuilder {
+  private tallies: ColumnTally[];
+  private rowCount = 0;
+  private sources = new Set<string>();
+  private now: Date;
+
+  constructor(private clock: Clock = systemClock) {
+    this.now = clock.now();
+    this.tallies = DataQualityProfiler.columns.map(column => ({
+      column,
+      counts: new Map(),
+      numbers: [],
+      examples: new Set(),
+      nullCount: 0,
+      placeholderCount: 0,
+      futureDateCount: 0
+    }));
+  }
+
+  add(rows: EnterpriseClaimRow[]): void {
+    this.rowCount += rows.length;
+    for (const row of rows) {
+      if (row.Source_File) this.sources.add(row.Source_File);
+    }
+    for (const tally of this.tallies) this.tallyColumn(tally, rows);
+  }
+
+  finish(): DataQualityProfile {
+    const columns = this.tallies.map(tally => this.finishColumn(tally));
+    return {
+      profileId: `DQ_${this.now.getTime()}`,
+      profiledAt: this.now.toISOString(),
+      sources: Array.from(this.sources),
+      rowCount: this.rowCount,
+      columns,
+      issues: DataQualityProfiler.findAllIssues(columns, this.rowCount)
+    };
+  }
+
+  private tallyColumn(tally: ColumnTally, rows: EnterpriseClaimRow[]): void {
+    const { column, counts, numbers, examples } = tally;
+    for (const row of rows) {
+      const raw = row[column.name as keyof EnterpriseClaimRow];
+      if (raw === undefined || raw === null || raw === '') {
+        tally.nullCount++;
+        continue;
+      }
+
+      const values = column.kind === 'list'
+        ? (raw as unknown[]).map(item => (typeof item === 'object' ? JSON.stringify(item) : String(item)))
+        : [String(raw)];
+      values.forEach(value => counts.set(value, (counts.get(value) || 0) + 1));
+
+      if (column.kind === 'list') continue;
+      const text = values[0];
+
+      if (isPlaceholder(column.name, text)) {
+        tally.placeholderCount++;
+        if (examples.size < EXAMPLE_COUNT) examples.add(row.Claim_ID);
+      }
+
+      if (column.kind === 'number') {
+        const value = typeof raw === 'number' ? raw : parseFloat(text);
+        if (Number.isFinite(value)) numbers.push({ value, claimId: row.Claim_ID });
+      }
+
+      if (column.kind === 'date' && Date.parse(text) > this.now.getTime()) {
+        tally.futureDateCount++;
+        if (examples.size < EXAMPLE_COUNT) examples.add(row.Claim_ID);
+      }
+    }
+  }
+
+  private finishColumn(tally: ColumnTally): ColumnProfile {
+    const { column, counts, numbers } = tally;
+    const examples = new Set(tally.examples);
+    const topValues: ValueCount[] = Array.from(counts.entries())
+      .sort((a, b) => b[1] - a[1])
+      .slice(0, TOP_VALUE_COUNT)
+      .map(([value, count]) => ({ value, count }));
+
+    const profile: ColumnProfile = {
+      column: column.name,
+      kind: column.kind,
+      nullCount: tally.nullCount,
+      nullRate: this.rowCount ? tally.nullCount / this.rowCount : 0,
+      distinctCount: counts.size,
+      topValues,
+      outlierCount: 0,
+      placeholderCount: tally.placeholderCount,
+      futureDateCount: tally.futureDateCount,
+      exampleClaimIds: []
+    };
+
+    if (numbers.length > 0) {
+      const sorted = numbers.map(n => n.value).sort((a, b) => a - b);
+      profile.min = sorted[0];
+      profile.max = sorted[sorted.length - 1];
+      profile.mean = sorted.reduce((sum, value) => sum + value, 0) / sorted.length;
+      profile.median = quantile(sorted, 0.5);
+
+      // Tukey's fences: more than 1.5 IQR outside the middle half
+      if (sorted.length >= MIN_VALUES_FOR_OUTLIERS) {
+        const q1 = quantile(sorted, 0.25);
+        const q3 = quantile(sorted, 0.75);
+        const fence = 1.5 * (q3 - q1);
+        const outliers = numbers.filter(n => n.value < q1 - fence || n.value > q3 + fence);
+        profile.outlierCount = outliers.length;
+        outliers.forEach(n => {
+          if (examples.size < EXAMPLE_COUNT) examples.add(n.claimId);
+        });
+      }
+    }
+
+    profile.exampleClaimIds = Array.from(examples);
+    return profile;
+  }
+}
\ No newline at end of file
@@ -0,0 +1,168 @@
+import { DocumentType, EnterpriseClaimFields } from '../types/fraud';
+import { Address } from '../types/enterprise';
+import { AddressParser } from './addressParser';
+
+// List columns hold pipe-delimited values, e.g. "Driver_License|Passport"
+type ColumnType = 'string' | 'number' | 'boolean' | 'enum' | 'stringList' | 'documentList' | 'addressList';
+
+export type EnterpriseFieldValue = string | number | boolean | string[] | Address[];
+
+export interface EnterpriseColumnSpec {
+  name: keyof EnterpriseClaimFields;
+  type: ColumnType;
+  values?: readonly string[];
+}
+
+const VERIFICATION_STATUSES = ['VERIFIED', 'PENDING', 'FAILED'] as const;
+const RISK_TIERS = ['LOW', 'MEDIUM', 'HIGH'] as const;
+
+const DOCUMENT_TYPES: readonly DocumentType[] = [
+  'DRIVER_LICENSE',
+  'STATE_ID',
+  'PASSPORT',
+  'SOCIAL_SECURITY_CARD',
+  'BIRTH_CERTIFICATE',
+  'W2_FORM',
+  'PAY_STUB',
+  'UTILITY_BILL',
+  'OTHER'
+];
+
+// Other spellings seen in source systems, after upper-casing
+const DOCUMENT_ALIASES: Record<string, DocumentType> = {
+  DRIVERS_LICENSE: 'DRIVER_LICENSE',
+  DRIVER_LICENCE: 'DRIVER_LICENSE',
+  DL: 'DRIVER_LICENSE',
+  ID: 'STATE_ID',
+  STATE_ID_CARD: 'STATE_ID',
+  SSN_CARD: 'SOCIAL_SECURITY_CARD',
+  SOCIAL_SECURITY: 'SOCIAL_SECURITY_CARD',
+  W2: 'W2_FORM',
+  W_2: 'W2_FORM',
+  W_2_FORM: 'W2_FORM',
+  PAYSTUB: 'PAY_STUB'
+};
+
+const splitList = (text: string) => text.split('|').map(item => item.trim()).filter(Boolean);
+
+export class EnterpriseClaimSchema {
+  // Column order matches public/sample_enterprise_claims.csv
+  static columns: EnterpriseColumnSpec[] = [
+    { name: 'Identity_Verification_Status', type: 'enum', values: VERIFICATION_STATUSES },
+    { name: 'Document_Types_Provided', type: 'documentList' },
+    { name: 'Identity_Score', type: 'number' },
+    { name: 'Previous_Employers', type: 'stringList' },
+    { name: 'Employment_History_Verified', type: 'boolean' },
+    { name: 'Employment_Gap_Months', type: 'number' },
+    { name: 'Termination_Reason_Code', type: 'string' },
+    { name: 'Address_History', type: 'addressList' },
+    { name: 'IP_Geolocation', type: 'string' },
+    { name: 'Address_Verification_Status', type: 'enum', values: VERIFICATION_STATUSES },
+    { name: 'Geographic_Risk_Score', type: 'number' },
+    { name: 'Bank_Account_Age_Months', type: 'number' },
+    {
+      name: 'Payment_Method',
+      type: 'enum',
+      values: ['BANK_TRANSFER', 'DIRECT_DEPOSIT', 'CHECK', 'PREPAID_CARD', 'MONEY_ORDER', 'CRYPTOCURRENCY']
+    },
+    { name: 'Financial_Institution_Risk_Level', type: 'enum', values: RISK_TIERS },
+    { name: 'Device_Fingerprint', type: 'string' },
+    {
+      name: 'Login_Pattern_Analysis',
+      type: 'enum',
+      values: ['NORMAL', 'ABNORMAL', 'SUSPICIOUS', 'HIGHLY_SUSPICIOUS', 'FRAUDULENT']
+    },
+    { name: 'Application_Behavior_Score', type: 'number' },
+    { name: 'Session_Duration_Minutes', type: 'number' },
+    { name: 'Family_Members_Claims', type: 'number' },
+    { name: 'Shared_Address_Count', type: 'number' },
+    { name: 'Shared_Phone_Count', type: 'number' },
+    { name: 'Known_Associates_Risk', type: 'enum', values: RISK_TIERS },
+    { name: 'Employer_Risk_Score', type: 'number' },
+    { name: 'Industry_Risk_Level', type: 'enum', values: RISK_TIERS },
+    { name: 'Employer_Audit_History', type: 'enum', values: ['PASSED', 'REVIEW', 'FAILED', 'INVESTIGATION'] },
+    { name: 'Mass_Layoff_Event', type: 'boolean' }
+  ];
+
+  static get headers(): string[] {
+    return this.columns.map(column => column.name);
+  }
+
+  /**
+   * Coerce the enterprise columns of a raw parsed row. Blank or unrecognised
+   * values are left undefined rather than guessed at.
+   */
+  static coerce(row: Record<string, unknown>): EnterpriseClaimFields {
+    const fields: Record<string, EnterpriseFieldValue> = {};
+
+    for (const column of this.columns) {
+      const value = this.coerceValue(column, row[column.name]);
+      if (value !== undefined) {
+        fields[column.name] = value;
+      }
+    }
+
+    return fields as EnterpriseClaimFields;
+  }
+
+  static coerceValue(column: EnterpriseColumnSpec, raw: unknown): EnterpriseFieldValue | undefined {
+    if (raw === undefined || raw === null) return undefined;
+    const text = String(raw).trim();
+    if (!text) return undefined;
+
+    switch (column.type) {
+      case 'number': {
+        const parsed = Number(text.replace(/,/g, ''));
+        return Number.isFinite(parsed) ? parsed : undefined;
+      }
+      case 'boolean': {
+        const normalized = text.toUpperCase();
+        if (['TRUE', 'YES', 'Y', '1'].includes(normalized)) return true;
+        if (['FALSE', 'NO', 'N', '0'].includes(normalized)) return false;
+        return undefined;
+      }
+      case 'enum': {
+        const normalized = text.toUpperCase().replace(/[\s-]+/g, '_');
+        return column.values?.includes(normalized) ? normalized : undefined;
+      }
+      case 'stringList':
+        return splitList(text);
+      case 'documentList':
+        return this.parseDocuments(text);
+      case 'addressList':
+        return AddressParser.parseHistory(text);
+      default:
+        return text;
+    }
+  }
+
+  /**
+   * Document types in a list column. "None" means no documents were given;
+   * types we don't recognise are kept as OTHER.
+   */
+  static parseDocuments(text: string): DocumentType[] {
+    const documents = splitList(text)
+      .map(item => item.toUpperCase().replace(/'/g, '').replace(/[\s-]+/g, '_'))
+      .filter(item => item !== 'NONE')
+      .map(item => DOCUMENT_ALIASES[item] || (DOCUMENT_TYPES.includes(item as DocumentType) ? item as DocumentType : 'OTHER'));
+    return Array.from(new Set(documents));
+  }
+
+  /**
+   * Write a coerced value back out as it would appear in a CSV cell.
+   */
+  static toText(column: EnterpriseColumnSpec, value: EnterpriseFieldValue | undefined): string {
+    if (value === undefined) return '';
+    switch (column.type) {
+      case 'documentList':
+      case 'stringList':
+        return (value as string[]).join('|');
+      case 'addressList':
+        return (value as Address[]).map(address => AddressParser.format(address)).join('|');
+      case 'boolean':
+        return value ? 'TRUE' : 'FALSE';
+      default:
+        return String(value);
+    }
+  }
+}
@@ -0,0 +1,59 @@
+import { describe, expect, it } from 'vitest';
+import { distinctRow, recordRow } from '@/test/claimHistory';
+import { createFixedClock } from '@/lib/clock';
+import { FraudRingDetector } from './fraudRingDetector';
+import { createScoringEnvironment } from './scoringEnvironment';
+
+// Four claimants filing from one device for one employer within a week, and
+// a pair sharing a phone
+function detector() {
+  const env = createScoringEnvironment({ clock: createFixedClock('2024-07-01T00:00:00Z') });
+  for (let n = 1; n <= 4; n++) {
+    recordRow(env.history, {
+      ...distinctRow(n),
+      Device_ID: 'DEV-RING',
+      Employer_Name: 'Shell Co',
+      Claim_Date: `2024-03-0${n}T10:00:00Z`,
+      Claim_Amount: '4800'
+    });
+  }
+  recordRow(env.history, distinctRow(5));
+  recordRow(env.history, { ...distinctRow(6), Phone: '555-300-1005' });
+  return new FraudRingDetector(env);
+}
+
+describe('FraudRingDetector', () => {
+  it('finds a ring of three or more linked claimants, and scores it', () => {
+    const rings = detector().detect();
+
+    expect(rings).toHaveLength(1);
+    expect(rings[0]).toMatchObject({
+      ringId: 'RING_CLM-1',
+      claimIds: ['CLM-1', 'CLM-2', 'CLM-3', 'CLM-4'],
+      claimantIds: ['CLT-1', 'CLT-2', 'CLT-3', 'CLT-4'],
+      employers: ['shell'],
+      metrics: {
+        claimantCount: 4,
+        claimCount: 4,
+        density: 1,
+        filingSpanDays: 3,
+        claimsPerWeek: 4,
+        sharedEmployerCount: 1,
+        exposure: 19200
+      },
+      riskScore: 65,
+      riskLevel: 'HIGH',
+      detectedAt: '2024-07-01T00:00:00.000Z'
+    });
+    expect(rings[0].sharedAttributes.map(node => node.nodeType)).toEqual(['DEVICE', 'EMPLOYER']);
+  });
+
+  it('keeps the case a ring was opened as when it is found again', () => {
+    const rings = detector();
+    const [ring] = rings.detect();
+    rings.attachCase(ring.ringId, 'CASE-1');
+
+    expect(rings.detect()[0].caseId).toBe('CASE-1');
+    expect(() => rings.attachCase('RING_NONE', 'CASE-2')).toThrow('Unknown fraud ring: RING_NONE');
+  });
+});
@@ -0,0 +1,148 @@
+import { FraudRing, FraudRingMetrics } from '@/types/enterprise';
+import { louvain } from '@/lib/communityDetection';
+import { ClaimHistoryEntry } from './claimHistory';
+import { ScoringEnvironment } from './scoringEnvironment';
+
+// Fewer claimants than this is a household or a pair, not a ring
+const MIN_RING_CLAIMANTS = 3;
+
+// How much each trait adds to a ring's risk score; they sum to 1
+const SCORE_WEIGHTS = {
+  size: 0.2,
+  density: 0.25,
+  velocity: 0.2,
+  employers: 0.15,
+  exposure: 0.2
+};
+
+// Each trait scores in full at these values
+const FULL_SIZE_CLAIMANTS = 10;
+const FULL_VELOCITY_PER_WEEK = 3;
+const FULL_SHARED_EMPLOYERS = 2;
+const FULL_EXPOSURE = 50000;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const riskLevelOf = (score: number): FraudRing['riskLevel'] =>
+  score >= 75 ? 'CRITICAL' : score >= 50 ? 'HIGH' : score >= 25 ? 'MEDIUM' : 'LOW';
+
+/**
+ * Finds fraud rings: groups of claimants more tightly linked to each other
+ * than to anyone else, by Louvain community detection over the identity
+ * graph folded onto claimants. Each ring is scored on its size, how densely
+ * its members are linked, how fast they filed, the employers they share and
+ * the benefits they claimed.
+ */
+export class FraudRingDetector {
+  private rings = new Map<string, FraudRing>();
+
+  constructor(private env: ScoringEnvironment) {}
+
+  // Rebuilds the rings from the claim history; a ring found again keeps its case
+  detect(): FraudRing[] {
+    const links = this.env.graph.claimantLinks();
+    const claimantIds = Array.from(new Set(links.flatMap(link => [link.source, link.target]))).sort();
+    const communities = louvain(claimantIds, links);
+
+    const members = new Map<number, string[]>();
+    communities.forEach((community, claimantId) => {
+      members.set(community, [...(members.get(community) ?? []), claimantId]);
+    });
+
+    const entriesByClaimant = new Map<string, ClaimHistoryEntry[]>();
+    for (const entry of this.env.history.allEntries()) {
+      entriesByClaimant.set(entry.claimantId, [...(entriesByClaimant.get(entry.claimantId) ?? []), entry]);
+    }
+
+    const linked = new Set(links.map(link => `${link.source}|${link.target}`));
+    const detectedAt = this.env.clock.now().toISOString();
+    const previous = this.rings;
+    this.rings = new Map();
+    for (const ringClaimants of Array.from(members.values())) {
+      if (ringClaimants.length < MIN_RING_CLAIMANTS) continue;
+      const entries = ringClaimants.flatMap(claimantId => entriesByClaimant.get(claimantId) ?? []);
+      const ring = this.buildRing(ringClaimants, entries, linked, detectedAt);
+      ring.caseId = previous.get(ring.ringId)?.caseId;
+      this.rings.set(ring.ringId, ring);
+    }
+    return this.getRings();
+  }
+
+  // Riskiest first
+  getRings(): FraudRing[] {
+    return Array.from(this.rings.values()).sort((a, b) => b.riskScore - a.riskScore || a.ringId.localeCompare(b.ringId));
+  }
+
+  getRing(ringId: string): FraudRing | undefined {
+    return this.rings.get(ringId);
+  }
+
+  // Records the case a ring was opened as
+  attachCase(ringId: string, caseId: string): void {
+    const ring = this.rings.get(ringId);
+    if (!ring) throw new Error(`Unknown fraud ring: ${ringId}`);
+    ring.caseId = caseId;
+  }
+
+  private buildRing(claimantIds: string[], entries: ClaimHistoryEntry[], linked: Set<string>, detectedAt: string): FraudRing {
+    const claimIds = entries.map(entry => entry.claimId).sort();
+
+    // Pairs are keyed in claimant ID order, as the graph links them
+    let linkedPairs = 0;
+    for (let i = 0; i < claimantIds.length; i++) {
+      for (let j = i + 1; j < claimantIds.length; j++) {
+        if (linked.has(`${claimantIds[i]}|${claimantIds[j]}`)) linkedPairs++;
+      }
+    }
+    const pairs = (claimantIds.length * (claimantIds.length - 1)) / 2;
+
+    const filed = entries.map(entry => entry.filedAt).filter(time => !isNaN(time));
+    const filingSpanDays = filed.length > 0 ? Math.round((Math.max(...filed) - Math.min(...filed)) / DAY_MS) : 0;
+
+    // Claimants naming each employer
+    const employerClaimants = new Map<string, Set<string>>();
+    for (const entry of entries) {
+      const employer = entry.identity?.employer;
+      if (!employer) continue;
+      employerClaimants.set(employer, (employerClaimants.get(employer) ?? new Set()).add(entry.claimantId));
+    }
+
+    const metrics: FraudRingMetrics = {
+      claimantCount: claimantIds.length,
+      claimCount: claimIds.length,
+      density: Math.round((linkedPairs / pairs) * 100) / 100,
+      filingSpanDays,
+      // A ring filing everything within a week files it all in one week
+      claimsPerWeek: Math.round((claimIds.length / Math.max(1, filingSpanDays / 7)) * 10) / 10,
+      sharedEmployerCount: Array.from(employerClaimants.values()).filter(sharing => sharing.size > 1).length,
+      exposure: Math.round(entries.reduce((sum, entry) => sum + (entry.amount || 0), 0) * 100) / 100
+    };
+    const riskScore = this.scoreOf(metrics);
+
+    return {
+      ringId: `RING_${claimIds[0]}`,
+      claimIds,
+      claimantIds,
+      sharedAttributes: this.env.graph.sharedAttributes(claimIds),
+      employers: Array.from(employerClaimants.keys()).sort(),
+      metrics,
+      riskScore,
+      riskLevel: riskLevelOf(riskScore),
+      detectedAt
+    };
+  }
+
+  // 0-100; see SCORE_WEIGHTS
+  private scoreOf(metrics: FraudRingMetrics): number {
+    const traits = {
+      size: (metrics.claimantCount - MIN_RING_CLAIMANTS + 1) / (FULL_SIZE_CLAIMANTS - MIN_RING_CLAIMANTS + 1),
+      density: metrics.density,
+      velocity: metrics.claimsPerWeek / FULL_VELOCITY_PER_WEEK,
+      employers: metrics.sharedEmployerCount / FULL_SHARED_EMPLOYERS,
+      exposure: metrics.exposure / FULL_EXPOSURE
+    };
+    const score = (Object.keys(SCORE_WEIGHTS) as (keyof typeof SCORE_WEIGHTS)[])
+      .reduce((sum, trait) => sum + SCORE_WEIGHTS[trait] * Math.min(1, traits[trait]), 0);
+    return Math.round(score * 100);
+  }
+}
@@ -0,0 +1,84 @@
+import { describe, expect, it } from 'vitest';
+import { distinctRow, recordRow } from '@/test/claimHistory';
+import { EnterpriseClaimRow } from '../types/fraud';
+import { ClaimHistory } from './claimHistory';
+import { IdentityGraph } from './identityGraph';
+
+const graphOf = (rows: Partial<EnterpriseClaimRow>[]) => {
+  const history = new ClaimHistory();
+  rows.forEach(row => recordRow(history, row));
+  return { history, graph: new IdentityGraph(history) };
+};
+
+// Claimants 1 and 2 share a device and a phone; 3 works where 1 does
+const ring = () => graphOf([
+  distinctRow(1),
+  { ...distinctRow(2), Device_ID: 'DEV-1', Phone: '555-300-1001' },
+  { ...distinctRow(3), Employer_Name: 'Employer 1 Inc' }
+]);
+
+describe('IdentityGraph', () => {
+  it('weighs an attribute by its type, less the more claimants share it', () => {
+    const { graph } = graphOf(Array.from({ length: 4 }, (_, i) => ({ ...distinctRow(i + 1), IP_Address: '203.0.113.9', Device_ID: i < 2 ? 'DEV-0' : `DEV-${i}` })));
+
+    expect(graph.weightOf('device:dev-0')).toBe(0.9);
+    expect(graph.weightOf('ip:203.0.113.9')).toBe(0.25);
+    expect(graph.weightOf('claimant:CLT-1')).toBe(1);
+  });
+
+  it('joins claims into a component through strong links only', () => {
+    const { graph } = ring();
+    const component = graph.componentOf('CLM-2');
+
+    expect(component).toMatchObject({ componentId: 'NET_CLM-1', claimIds: ['CLM-1', 'CLM-2'], claimantIds: ['CLT-1', 'CLT-2'] });
+    expect(component?.sharedAttributes.map(node => node.nodeType)).toEqual(['DEVICE', 'PHONE']);
+    expect(graph.componentOf('CLM-3')?.claimIds).toEqual(['CLM-3']);
+    expect(graph.components().map(found => found.componentId)).toEqual(['NET_CLM-1']);
+    expect(graph.componentOf('CLM-9')).toBeUndefined();
+  });
+
+  it('rebuilds components when a claim is recorded', () => {
+    const { history, graph } = ring();
+    expect(graph.componentOf('CLM-3')?.claimIds).toEqual(['CLM-3']);
+
+    recordRow(history, { ...distinctRow(4), SSN_Hash: 'ssn-3', Device_ID: 'DEV-1' });
+
+    expect(graph.componentOf('CLM-3')?.claimIds).toEqual(['CLM-1', 'CLM-2', 'CLM-3', 'CLM-4']);
+  });
+
+  it('walks a neighborhood hop by hop, skipping weak links', () => {
+    const { graph } = ring();
+    const nodes = (options: Parameters<IdentityGraph['neighborhood']>[1]) =>
+      graph.neighborhood('CLM-1', options).nodes.filter(node => node.nodeType === 'CLAIM').map(node => node.label).sort();
+
+    expect(nodes({ hops: 1 })).toEqual(['CLM-1']);
+    expect(nodes({ hops: 2 })).toEqual(['CLM-1', 'CLM-2', 'CLM-3']);
+    expect(nodes({ hops: 2, minWeight: 0.3 })).toEqual(['CLM-1', 'CLM-2']);
+    expect(nodes({ hops: 2, types: ['EMPLOYER'] })).toEqual(['CLM-1', 'CLM-3']);
+    expect(graph.neighborhood('CLM-9')).toEqual({ rootId: 'claim:CLM-9', nodes: [], edges: [] });
+  });
+
+  it('links claimants by the summed weight of what they share', () => {
+    const { graph } = ring();
+
+    const links = graph.claimantLinks();
+
+    expect(links).toEqual([expect.objectContaining({ source: 'CLT-1', target: 'CLT-2' })]);
+    expect(links[0].weight).toBeCloseTo(1.7);
+  });
+
+  it('counts the claimants a claim shares each attribute with', () => {
+    const { graph } = ring();
+
+    expect(graph.featuresFor('CLM-1')).toMatchObject({
+      network_component_claimants: 2,
+      network_component_claims: 2,
+      network_linked_claimants: 2,
+      network_link_strength: 1.1,
+      network_shared_device_claimants: 1,
+      network_shared_phone_claimants: 1,
+      network_shared_employer_claimants: 1,
+      network_shared_ssn_claimants: 0
+    });
+  });
+});
@@ -0,0 +1,336 @@
+import {
+  IdentityComponent,
+  IdentityEdge,
+  IdentityNode,
+  IdentityNodeType,
+  IdentitySubgraph,
+  NetworkFeatures
+} from '@/types/enterprise';
+import { WeightedLink } from '@/lib/communityDetection';
+import { discountForSharing } from '@/lib/sharing';
+import { ClaimHistory } from './claimHistory';
+import { maskValue } from './crossMatcher';
+
+// Match key kinds that are attribute nodes; date of birth and ZIP only narrow comparisons
+const ATTRIBUTE_TYPES: Record<string, IdentityNodeType> = {
+  claimant: 'CLAIMANT',
+  ssn: 'SSN',
+  device: 'DEVICE',
+  ip: 'IP_ADDRESS',
+  phone: 'PHONE',
+  email: 'EMAIL',
+  address: 'ADDRESS',
+  employer: 'EMPLOYER'
+};
+
+// How much sharing one attribute says two claims are linked, before rarity.
+// Households share IPs and addresses; thousands share an employer.
+const TYPE_WEIGHTS: Record<string, number> = {
+  CLAIMANT: 1,
+  SSN: 1,
+  DEVICE: 0.9,
+  PHONE: 0.8,
+  EMAIL: 0.8,
+  ADDRESS: 0.6,
+  IP_ADDRESS: 0.5,
+  EMPLOYER: 0.2
+};
+
+// Links at least this strong join claims into one component
+const MIN_COMPONENT_WEIGHT = 0.3;
+// Links weaker than this are too common to count a claimant as linked
+export const MIN_LINK_WEIGHT = 0.1;
+
+const CLAIM_PREFIX = 'claim:';
+
+// Lowercase, to read within a sentence
+export const IDENTITY_NODE_LABELS: Record<IdentityNodeType, string> = {
+  CLAIM: 'claim',
+  CLAIMANT: 'claimant',
+  SSN: 'SSN',
+  DEVICE: 'device',
+  IP_ADDRESS: 'IP address',
+  PHONE: 'phone',
+  EMAIL: 'email',
+  ADDRESS: 'address',
+  EMPLOYER: 'employer'
+};
+
+const kindOf = (key: string) => key.slice(0, key.indexOf(':'));
+const valueOf = (key: string) => key.slice(key.indexOf(':') + 1);
+
+const SHARED_FEATURES: Partial<Record<IdentityNodeType, keyof NetworkFeatures>> = {
+  SSN: 'network_shared_ssn_claimants',
+  DEVICE: 'network_shared_device_claimants',
+  IP_ADDRESS: 'network_shared_ip_claimants',
+  PHONE: 'network_shared_phone_claimants',
+  EMAIL: 'network_shared_email_claimants',
+  ADDRESS: 'network_shared_address_claimants',
+  EMPLOYER: 'network_shared_employer_claimants'
+};
+
+/**
+ * Claims linked through the claimants, SSNs, devices, IPs, phones, emails,
+ * addresses and employers they share, read from the claim history's match
+ * keys, so it grows as claims are recorded and includes restored claims.
+ * Each claim is a node joined to a node per attribute, and each edge is
+ * weighted by the attribute's type and by how few claimants share it: a
+ * device used by two claimants links them far more than an IP used by
+ * fifty.
+ *
+ * Claimants per attribute, weights and components are cached until the
+ * history's match keys change.
+ */
+export class IdentityGraph {
+  private cachedVersion = -1;
+  private claimantCache = new Map<string, Set<string>>();
+  private weightCache = new Map<string, number>();
+  // By claim ID; every claim in a component shares one object
+  private componentCache = new Map<string, IdentityComponent>();
+
+  constructor(private history: ClaimHistory) {}
+
+  // 0-1; see TYPE_WEIGHTS
+  weightOf(attributeId: string): number {
+    this.syncCache();
+    const cached = this.weightCache.get(attributeId);
+    if (cached !== undefined) return cached;
+
+    const type = ATTRIBUTE_TYPES[kindOf(attributeId)];
+    const base = TYPE_WEIGHTS[type] ?? 0;
+    const claimants = type === 'CLAIMANT' ? 1 : this.claimantsWith(attributeId).size;
+    const weight = Math.round(discountForSharing(base, claimants) * 1000) / 1000;
+    this.weightCache.set(attributeId, weight);
+    return weight;
+  }
+
+  /**
+   * Everything within `hops` edges of a claim: one hop reaches its
+   * attributes, two the other claims sharing them, and so on. Links weaker
+   * than `minWeight`, or through attributes not among `types`, are not
+   * followed.
+   */
+  neighborhood(
+    claimId: string,
+    { hops = 2, minWeight = 0, types }: { hops?: number; minWeight?: number; types?: IdentityNodeType[] } = {}
+  ): IdentitySubgraph {
+    const rootId = `${CLAIM_PREFIX}${claimId}`;
+    if (!this.history.get(claimId)) return { rootId, nodes: [], edges: [] };
+
+    const distances = new Map<string, number>([[rootId, 0]]);
+    const edges = new Map<string, IdentityEdge>();
+    let frontier = [rootId];
+    for (let distance = 1; distance <= hops && frontier.length > 0; distance++) {
+      const next: string[] = [];
+      for (const nodeId of frontier) {
+        for (const edge of this.edgesOf(nodeId, minWeight)) {
+          if (types && !types.includes(ATTRIBUTE_TYPES[kindOf(edge.attributeNodeId)])) continue;
+          edges.set(`${edge.claimNodeId}|${edge.attributeNodeId}`, edge);
+          const neighbor = edge.claimNodeId === nodeId ? edge.attributeNodeId : edge.claimNodeId;
+          if (distances.has(neighbor)) continue;
+          distances.set(neighbor, distance);
+          next.push(neighbor);
+        }
+      }
+      frontier = next;
+    }
+
+    // Edges into the outermost ring only reach nodes that were found
+    return {
+      rootId,
+      nodes: Array.from(distances, ([nodeId, distance]) => this.nodeOf(nodeId, distance)),
+      edges: Array.from(edges.values()).filter(edge => distances.has(edge.claimNodeId) && distances.has(edge.attributeNodeId))
+    };
+  }
+
+  // The claims strongly linked to this one, or undefined for a claim not in the history
+  componentOf(claimId: string): IdentityComponent | undefined {
+    if (!this.history.get(claimId)) return undefined;
+    this.syncCache();
+    const cached = this.componentCache.get(claimId);
+    if (cached) return cached;
+
+    const claimIds = new Set([claimId]);
+    const attributes = new Set<string>();
+    const queue = [claimId];
+    while (queue.length > 0) {
+      const current = queue.shift() as string;
+      for (const attributeId of this.attributesOf(current)) {
+        if (attributes.has(attributeId) || this.weightOf(attributeId) < MIN_COMPONENT_WEIGHT) continue;
+        attributes.add(attributeId);
+        for (const entry of this.history.claimsWithKey(attributeId)) {
+          if (claimIds.has(entry.claimId)) continue;
+          claimIds.add(entry.claimId);
+          queue.push(entry.claimId);
+        }
+      }
+    }
+
+    const sortedClaims = Array.from(claimIds).sort();
+    const claimantIds = Array.from(new Set(sortedClaims.map(id => this.history.get(id)?.claimantId ?? ''))).sort();
+    const sharedAttributes = Array.from(attributes)
+      .filter(attributeId => kindOf(attributeId) !== 'claimant' && this.claimantsWith(attributeId).size > 1)
+      .sort()
+      .map(attributeId => this.nodeOf(attributeId, 0));
+
+    const component = { componentId: `NET_${sortedClaims[0]}`, claimIds: sortedClaims, claimantIds, sharedAttributes };
+    sortedClaims.forEach(id => this.componentCache.set(id, component));
+    return component;
+  }
+
+  // Components linking at least `minClaimants` claimants, largest first
+  components(minClaimants = 2): IdentityComponent[] {
+    const seen = new Set<string>();
+    const components: IdentityComponent[] = [];
+    for (const entry of this.history.allEntries()) {
+      if (seen.has(entry.claimId)) continue;
+      const component = this.componentOf(entry.claimId);
+      if (!component) continue;
+      component.claimIds.forEach(id => seen.add(id));
+      if (component.claimantIds.length >= minClaimants) components.push(component);
+    }
+    return components.sort((a, b) =>
+      b.claimantIds.length - a.claimantIds.length || a.componentId.localeCompare(b.componentId)
+    );
+  }
+
+  /**
+   * The graph folded onto claimants: two claimants are linked by the summed
+   * weights of the attributes they share. Only attributes strong enough to
+   * join a component count, so coworkers are not linked by employer alone.
+   */
+  claimantLinks(): WeightedLink[] {
+    const attributes = new Set<string>();
+    for (const entry of this.history.allEntries()) {
+      this.attributesOf(entry.claimId).forEach(attributeId => attributes.add(attributeId));
+    }
+
+    const links = new Map<string, WeightedLink>();
+    for (const attributeId of Array.from(attributes).sort()) {
+      if (kindOf(attributeId) === 'claimant') continue;
+      const weight = this.weightOf(attributeId);
+      if (weight < MIN_COMPONENT_WEIGHT) continue;
+      const claimantIds = Array.from(this.claimantsWith(attributeId)).sort();
+      for (let i = 0; i < claimantIds.length; i++) {
+        for (let j = i + 1; j < claimantIds.length; j++) {
+          const key = `${claimantIds[i]}|${claimantIds[j]}`;
+          const link = links.get(key) ?? { source: claimantIds[i], target: claimantIds[j], weight: 0 };
+          link.weight += weight;
+          links.set(key, link);
+        }
+      }
+    }
+    return Array.from(links.values());
+  }
+
+  // Attributes at least two of these claims' claimants share, masked as node labels
+  sharedAttributes(claimIds: string[]): IdentityNode[] {
+    const claimants = new Map<string, Set<string>>();
+    for (const claimId of claimIds) {
+      const claimantId = this.history.get(claimId)?.claimantId;
+      if (!claimantId) continue;
+      for (const attributeId of this.attributesOf(claimId)) {
+        if (kindOf(attributeId) === 'claimant') continue;
+        const sharing = claimants.get(attributeId) ?? new Set<string>();
+        sharing.add(claimantId);
+        claimants.set(attributeId, sharing);
+      }
+    }
+    return Array.from(claimants)
+      .filter(([, sharing]) => sharing.size > 1)
+      .map(([attributeId]) => attributeId)
+      .sort()
+      .map(attributeId => this.nodeOf(attributeId, 0));
+  }
+
+  featuresFor(claimId: string): NetworkFeatures {
+    const features: NetworkFeatures = {
+      network_component_claimants: 0,
+      network_component_claims: 0,
+      network_linked_claimants: 0,
+      network_link_strength: 0,
+      network_shared_ssn_claimants: 0,
+      network_shared_device_claimants: 0,
+      network_shared_ip_claimants: 0,
+      network_shared_phone_claimants: 0,
+      network_shared_email_claimants: 0,
+      network_shared_address_claimants: 0,
+      network_shared_employer_claimants: 0
+    };
+    const entry = this.history.get(claimId);
+    if (!entry) return features;
+
+    const component = this.componentOf(claimId);
+    features.network_component_claimants = component?.claimantIds.length ?? 0;
+    features.network_component_claims = component?.claimIds.length ?? 0;
+
+    // Strongest link to each other claimant
+    const links = new Map<string, number>();
+    for (const attributeId of this.attributesOf(claimId)) {
+      const feature = SHARED_FEATURES[ATTRIBUTE_TYPES[kindOf(attributeId)]];
+      if (!feature) continue;
+      const others = Array.from(this.claimantsWith(attributeId)).filter(claimantId => claimantId !== entry.claimantId);
+      features[feature] = others.length;
+
+      const weight = this.weightOf(attributeId);
+      if (weight < MIN_LINK_WEIGHT) continue;
+      others.forEach(claimantId => links.set(claimantId, Math.max(links.get(claimantId) ?? 0, weight)));
+    }
+    features.network_linked_claimants = links.size;
+    features.network_link_strength = Math.round(Array.from(links.values()).reduce((sum, weight) => sum + weight, 0) * 100) / 100;
+    return features;
+  }
+
+  private attributesOf(claimId: string): string[] {
+    return this.history.keysOf(claimId).filter(key => ATTRIBUTE_TYPES[kindOf(key)]);
+  }
+
+  private claimantsWith(attributeId: string): ReadonlySet<string> {
+    this.syncCache();
+    let claimants = this.claimantCache.get(attributeId);
+    if (!claimants) {
+      claimants = new Set(this.history.claimsWithKey(attributeId).map(entry => entry.claimantId));
+      this.claimantCache.set(attributeId, claimants);
+    }
+    return claimants;
+  }
+
+  private syncCache(): void {
+    if (this.cachedVersion === this.history.version) return;
+    this.cachedVersion = this.history.version;
+    this.claimantCache.clear();
+    this.weightCache.clear();
+    this.componentCache.clear();
+  }
+
+  private edgesOf(nodeId: string, minWeight: number): IdentityEdge[] {
+    if (nodeId.startsWith(CLAIM_PREFIX)) {
+      return this.attributesOf(valueOf(nodeId))
+        .map(attributeId => ({ claimNodeId: nodeId, attributeNodeId: attributeId, weight: this.weightOf(attributeId) }))
+        .filter(edge => edge.weight >= minWeight);
+    }
+    const weight = this.weightOf(nodeId);
+    if (weight < minWeight) return [];
+    return this.history.claimsWithKey(nodeId).map(entry => ({
+      claimNodeId: `${CLAIM_PREFIX}${entry.claimId}`,
+      attributeNodeId: nodeId,
+      weight
+    }));
+  }
+
+  private nodeOf(nodeId: string, distance: number): IdentityNode {
+    if (nodeId.startsWith(CLAIM_PREFIX)) {
+      return { nodeId, nodeType: 'CLAIM', label: valueOf(nodeId), distance };
+    }
+    const nodeType = ATTRIBUTE_TYPES[kindOf(nodeId)];
+    const value = valueOf(nodeId);
+    const label = nodeType === 'SSN'
+      ? 'MASKED_SSN'
+      : nodeType === 'PHONE' || nodeType === 'EMAIL'
+        ? maskValue(value)
+        : nodeType === 'ADDRESS'
+          ? value.split('|').reverse().join(', ')
+          : value;
+    return { nodeId, nodeType, label, distance };
+  }
+}
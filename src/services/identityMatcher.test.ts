@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest';
+import { IdentityMatcher } from './identityMatcher';
+
+describe('IdentityMatcher', () => {
+  describe('compareNames', () => {
+    it('records how each part of a name matched', () => {
+      expect(IdentityMatcher.compareNames('Robert Smith', 'Bob Smith')?.methods).toEqual(['NICKNAME', 'EXACT']);
+      expect(IdentityMatcher.compareNames('Thomas Smith', 'Tomas Smith')?.methods).toEqual(['JARO_WINKLER', 'EXACT']);
+      expect(IdentityMatcher.compareNames('James Smith', 'J Smith')?.methods).toEqual(['INITIAL', 'EXACT']);
+      expect(IdentityMatcher.compareNames('Maria Garcia', 'Maria Garcia-Lopez')?.methods).toEqual(['EXACT', 'PARTIAL_SURNAME']);
+    });
+
+    it('calls a match phonetic when sound decided it', () => {
+      expect(IdentityMatcher.compareNames('Catherine Smyth', 'Kathryn Smith')).toMatchObject({
+        matchType: 'PHONETIC',
+        methods: ['DOUBLE_METAPHONE', 'LEVENSHTEIN']
+      });
+    });
+
+    it('matches first and last names entered the wrong way round, for less', () => {
+      expect(IdentityMatcher.compareNames('Smith John', 'John Smith')).toMatchObject({ score: 0.9, methods: ['TRANSPOSED'] });
+    });
+
+    it('discounts middle names that disagree', () => {
+      expect(IdentityMatcher.compareNames('John A Smith', 'John B Smith')).toMatchObject({ matchType: 'EXACT', score: 0.9 });
+      expect(IdentityMatcher.compareNames('John A Smith', 'John Smith')?.score).toBe(1);
+    });
+
+    it('does not match different people', () => {
+      expect(IdentityMatcher.compareNames('John Smith Jr', 'John Smith Sr')).toBeNull();
+      expect(IdentityMatcher.compareNames('John Smith', 'Mary Jones')).toBeNull();
+      expect(IdentityMatcher.compareNames('Cher', 'Cher')).toBeNull();
+    });
+  });
+
+  describe('compareStreets', () => {
+    it('matches street lines written differently', () => {
+      expect(IdentityMatcher.compareStreets('123 North Main Street, Apartment 4B', '123 N Main St #4b'))
+        .toMatchObject({ matchType: 'EXACT', score: 1 });
+      expect(IdentityMatcher.compareStreets('123 Main St', '123 Mane St')?.methods).toEqual(['JARO_WINKLER']);
+    });
+
+    it('matches another unit at the address weakly', () => {
+      expect(IdentityMatcher.compareStreets('123 Main St Apt 1', '123 Main St Apt 2'))
+        .toMatchObject({ score: 0.6, methods: ['EXACT', 'UNIT_DIFFERS'] });
+      expect(IdentityMatcher.compareStreets('123 Main St', '123 Main St Apt 2'))
+        .toMatchObject({ score: 0.9, methods: ['EXACT', 'UNIT_MISSING'] });
+    });
+
+    it('never matches another house number', () => {
+      expect(IdentityMatcher.compareStreets('123 Main St', '125 Main St')).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,173 @@
+import { IdentityMatchCandidate, IdentityMatchMethod, PersonName } from '../types/enterprise';
+import { doubleMetaphone, jaroWinkler, levenshteinSimilarity, soundex } from '@/lib/stringSimilarity';
+import { areNicknames } from '@/lib/nicknames';
+import { AddressParser } from './addressParser';
+import { NameParser } from './nameParser';
+
+// How one part of a name, or a street name, matched
+interface PartMatch {
+  score: number;
+  method: IdentityMatchMethod;
+}
+
+// Scores for each way two parts can match; edit distances score their similarity
+const NICKNAME_SCORE = 0.95;
+const INITIAL_SCORE = 0.8;
+const METAPHONE_SCORE = 0.85;
+const SOUNDEX_SCORE = 0.8;
+const PARTIAL_SURNAME_FACTOR = 0.95;
+const TRANSPOSED_FACTOR = 0.9;
+const MIDDLE_CONFLICT_FACTOR = 0.9;
+
+// Minimum similarity for an edit-distance match
+const JARO_WINKLER_THRESHOLD = 0.9;
+const LEVENSHTEIN_THRESHOLD = 0.8;
+
+// The surname says more about who someone is than the first name
+const LAST_NAME_WEIGHT = 0.55;
+
+// Two units at one address, or one left off
+const UNIT_DIFFERS_FACTOR = 0.6;
+const UNIT_MISSING_FACTOR = 0.9;
+
+const PHONETIC_METHODS: IdentityMatchMethod[] = ['DOUBLE_METAPHONE', 'SOUNDEX'];
+
+// Lowercase letters only, accents removed; hyphens and spaces kept in surnames
+const normalize = (value: string, keepSeparators = false) =>
+  value
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(keepSeparators ? /[^a-z\s-]/g : /[^a-z]/g, '')
+    .trim();
+
+const round = (value: number) => Math.round(value * 1000) / 1000;
+
+function soundsAlike(a: string, b: string): PartMatch | null {
+  const codesA = doubleMetaphone(a).filter(Boolean);
+  const codesB = doubleMetaphone(b).filter(Boolean);
+  if (codesA.some(code => codesB.includes(code))) return { score: METAPHONE_SCORE, method: 'DOUBLE_METAPHONE' };
+  if (soundex(a) && soundex(a) === soundex(b)) return { score: SOUNDEX_SCORE, method: 'SOUNDEX' };
+  return null;
+}
+
+// Misspellings first, then sound, so "Jon" and "John" count as a spelling match
+function spelledAlike(a: string, b: string): PartMatch | null {
+  if (a === b) return { score: 1, method: 'EXACT' };
+  const jaro = jaroWinkler(a, b);
+  if (jaro >= JARO_WINKLER_THRESHOLD) return { score: jaro, method: 'JARO_WINKLER' };
+  const edits = levenshteinSimilarity(a, b);
+  if (edits >= LEVENSHTEIN_THRESHOLD) return { score: edits, method: 'LEVENSHTEIN' };
+  return soundsAlike(a, b);
+}
+
+function compareFirstNames(a: string, b: string): PartMatch | null {
+  if (!a || !b) return null;
+  if (a === b) return { score: 1, method: 'EXACT' };
+  if (areNicknames(a, b)) return { score: NICKNAME_SCORE, method: 'NICKNAME' };
+  // "J" filed for "James"
+  if ((a.length === 1 || b.length === 1) && a[0] === b[0]) return { score: INITIAL_SCORE, method: 'INITIAL' };
+  return spelledAlike(a, b);
+}
+
+// A compound surname filed as one of its parts still matches, for a little less
+function compareLastNames(a: string, b: string): PartMatch | null {
+  if (!a || !b) return null;
+  const whole = spelledAlike(a.replace(/[\s-]/g, ''), b.replace(/[\s-]/g, ''));
+  if (whole?.method === 'EXACT') return whole;
+
+  const partsA = NameParser.surnameParts(a);
+  const partsB = NameParser.surnameParts(b);
+  const partial = partsA.length > 1 || partsB.length > 1
+    ? partsA.some(part => partsB.includes(part))
+    : false;
+  if (partial && (!whole || whole.score < PARTIAL_SURNAME_FACTOR)) {
+    return { score: PARTIAL_SURNAME_FACTOR, method: 'PARTIAL_SURNAME' };
+  }
+  return whole;
+}
+
+// EXACT only when nothing but exact comparisons matched; PHONETIC when sound did
+function matchTypeOf(methods: IdentityMatchMethod[]): IdentityMatchCandidate['matchType'] {
+  if (methods.every(method => method === 'EXACT')) return 'EXACT';
+  return methods.some(method => PHONETIC_METHODS.includes(method)) ? 'PHONETIC' : 'FUZZY';
+}
+
+function candidate(
+  field: IdentityMatchCandidate['field'],
+  score: number,
+  methods: IdentityMatchMethod[]
+): IdentityMatchCandidate {
+  const distinct = Array.from(new Set(methods));
+  return { field, matchType: matchTypeOf(distinct), score: round(score), methods: distinct };
+}
+
+/**
+ * Compares names and street addresses that may belong to the same person,
+ * scoring how alike they are and recording how they matched: exactly, by
+ * nickname or initial, by spelling (Jaro-Winkler, Levenshtein) or by sound
+ * (Double Metaphone, Soundex). Cross-matching, business rules and pattern
+ * detection share it, so they agree on what counts as the same identity.
+ */
+export class IdentityMatcher {
+  // Names or parsed names; null when they are not the same person's
+  static compareNames(a: PersonName | string, b: PersonName | string): IdentityMatchCandidate | null {
+    const nameA = typeof a === 'string' ? NameParser.parse(a) : a;
+    const nameB = typeof b === 'string' ? NameParser.parse(b) : b;
+    const firstA = normalize(nameA.first);
+    const firstB = normalize(nameB.first);
+    const lastA = normalize(nameA.last, true);
+    const lastB = normalize(nameB.last, true);
+    if (!firstA || !firstB || !lastA || !lastB) return null;
+
+    // Jr and Sr at one address are two people
+    if (nameA.suffix && nameB.suffix && nameA.suffix !== nameB.suffix) return null;
+
+    let match = this.combine(compareFirstNames(firstA, firstB), compareLastNames(lastA, lastB));
+    if (!match) {
+      // First and last name entered the wrong way round
+      const swapped = this.combine(compareFirstNames(firstA, normalize(nameB.last)), compareLastNames(lastA, normalize(nameB.first)));
+      if (!swapped || swapped.methods.some(method => method !== 'EXACT')) return null;
+      match = { score: swapped.score * TRANSPOSED_FACTOR, methods: ['TRANSPOSED'] };
+    }
+
+    // Middle names that disagree, rather than one being left off
+    const middleA = normalize(nameA.middle.join(''));
+    const middleB = normalize(nameB.middle.join(''));
+    const score = middleA && middleB && middleA[0] !== middleB[0] ? match.score * MIDDLE_CONFLICT_FACTOR : match.score;
+
+    return candidate('NAME', score, match.methods);
+  }
+
+  /**
+   * Street lines, standardized before comparing. Different house numbers
+   * never match; different units at one address match weakly.
+   */
+  static compareStreets(a: string, b: string): IdentityMatchCandidate | null {
+    const streetA = AddressParser.standardizeStreet(a);
+    const streetB = AddressParser.standardizeStreet(b);
+    if (!streetA.streetName || !streetB.streetName) return null;
+    if (streetA.houseNumber !== streetB.houseNumber) return null;
+
+    const name = spelledAlike(streetA.streetName, streetB.streetName);
+    // Street names that only sound alike are different streets
+    if (!name || PHONETIC_METHODS.includes(name.method)) return null;
+
+    const methods: IdentityMatchMethod[] = [name.method];
+    let score = name.score;
+    if (streetA.unitNumber !== streetB.unitNumber) {
+      const missing = !streetA.unitNumber || !streetB.unitNumber;
+      methods.push(missing ? 'UNIT_MISSING' : 'UNIT_DIFFERS');
+      score *= missing ? UNIT_MISSING_FACTOR : UNIT_DIFFERS_FACTOR;
+    }
+    return candidate('ADDRESS', score, methods);
+  }
+
+  private static combine(first: PartMatch | null, last: PartMatch | null): { score: number; methods: IdentityMatchMethod[] } | null {
+    if (!first || !last) return null;
+    return {
+      score: first.score * (1 - LAST_NAME_WEIGHT) + last.score * LAST_NAME_WEIGHT,
+      methods: [first.method, last.method]
+    };
+  }
+}
@@ -0,0 +1,245 @@
+import { Clock, systemClock } from '@/lib/clock';
+import { forEachCursor, openDatabase, requestResult, transactionDone } from '@/lib/indexedDb';
+
+export interface InferenceCacheOptions {
+  enabled: boolean;
+  // Answers older than this are fetched again, in case the model changed
+  ttlHours: number;
+  maxEntries: number;
+  maxMegabytes: number;
+}
+
+export interface InferenceCacheStats {
+  entries: number;
+  // Approximate: the length of each answer as JSON
+  bytes: number;
+  // The counters below cover this session only
+  hits: number;
+  misses: number;
+  expired: number;
+  evicted: number;
+}
+
+interface CacheEntry {
+  key: string;
+  modelId: string;
+  value: unknown;
+  storedAt: number;
+  size: number;
+}
+
+const DB_NAME = 'fraudiq.inferenceCache';
+const DB_VERSION = 1;
+const ENTRIES = 'entries';
+
+const HOUR_MS = 60 * 60 * 1000;
+const MEGABYTE = 1024 * 1024;
+
+// Whitespace and Unicode form differences should not cost a model call
+const normalizeInput = (input: string) => input.normalize('NFC').replace(/\s+/g, ' ').trim();
+
+const toHex = (buffer: ArrayBuffer) =>
+  Array.from(new Uint8Array(buffer), byte => byte.toString(16).padStart(2, '0')).join('');
+
+/**
+ * Model answers stored in IndexedDB under a SHA-256 of the endpoint, the
+ * model and its input, so re-scoring the same claims does not call the model again.
+ * Storage problems never fail a call: the cache is skipped and the model
+ * asked directly.
+ */
+export class InferenceCache {
+  static defaultOptions: InferenceCacheOptions = {
+    enabled: true,
+    ttlHours: 24 * 7,
+    maxEntries: 5000,
+    maxMegabytes: 50
+  };
+
+  private db: Promise<IDBDatabase> | null = null;
+  // Running totals, counted from the store on first use
+  private totals: Promise<{ entries: number; bytes: number }> | null = null;
+  // Identical calls made while the first is still running share its answer
+  private inFlight = new Map<string, Promise<unknown>>();
+  private counters = { hits: 0, misses: 0, expired: 0, evicted: 0 };
+  private writes: Promise<void> = Promise.resolve();
+  private warned = false;
+
+  constructor(
+    private options: InferenceCacheOptions = InferenceCache.defaultOptions,
+    private clock: Clock = systemClock
+  ) {}
+
+  configure(options: InferenceCacheOptions): void {
+    this.options = options;
+  }
+
+  // Two servers may host different models under the same name, so the endpoint is part of the key
+  static async keyFor(endpoint: string, modelId: string, input: string): Promise<string> {
+    const data = new TextEncoder().encode(`${endpoint.replace(/\/+$/, '')}\n${modelId}\n${normalizeInput(input)}`);
+    return toHex(await crypto.subtle.digest('SHA-256', data));
+  }
+
+  /**
+   * The stored answer for this model and input, or `compute`'s answer,
+   * stored for next time. A failed `compute` is thrown and nothing stored.
+   * `endpoint` is the base URL the model is served from, or empty for a
+   * model run in the browser.
+   */
+  async resolve<T>(endpoint: string, modelId: string, input: string, compute: () => Promise<T>): Promise<T> {
+    if (!this.options.enabled) return compute();
+
+    let key: string;
+    try {
+      key = await InferenceCache.keyFor(endpoint, modelId, input);
+    } catch (error) {
+      // crypto.subtle is only available in secure contexts
+      this.warn(error);
+      return compute();
+    }
+
+    const pending = this.inFlight.get(key) as Promise<T> | undefined;
+    if (pending) {
+      this.counters.hits++;
+      return pending;
+    }
+
+    const lookup = this.lookup(key, modelId, compute);
+    this.inFlight.set(key, lookup);
+    try {
+      return await lookup;
+    } finally {
+      this.inFlight.delete(key);
+    }
+  }
+
+  async stats(): Promise<InferenceCacheStats> {
+    const totals = await this.loadTotals().catch(() => ({ entries: 0, bytes: 0 }));
+    return { ...totals, ...this.counters };
+  }
+
+  async clear(): Promise<void> {
+    const db = await this.open();
+    const transaction = db.transaction(ENTRIES, 'readwrite');
+    transaction.objectStore(ENTRIES).clear();
+    await transactionDone(transaction);
+    this.totals = Promise.resolve({ entries: 0, bytes: 0 });
+  }
+
+  private async lookup<T>(key: string, modelId: string, compute: () => Promise<T>): Promise<T> {
+    const cached = await this.read(key).catch(error => {
+      this.warn(error);
+      return undefined;
+    });
+    if (cached !== undefined) {
+      this.counters.hits++;
+      return cached as T;
+    }
+
+    this.counters.misses++;
+    const value = await compute();
+    // One write at a time, so the running totals stay accurate
+    this.writes = this.writes
+      .then(() => this.write(key, modelId, value))
+      .catch(error => this.warn(error));
+    await this.writes;
+    return value;
+  }
+
+  // An expired answer counts as a miss; the fresh one overwrites it
+  private async read(key: string): Promise<unknown> {
+    const db = await this.open();
+    const entry = await requestResult<CacheEntry | undefined>(
+      db.transaction(ENTRIES).objectStore(ENTRIES).get(key)
+    );
+    if (!entry) return undefined;
+
+    if (this.isExpired(entry)) {
+      this.counters.expired++;
+      return undefined;
+    }
+    return entry.value;
+  }
+
+  private async write(key: string, modelId: string, value: unknown): Promise<void> {
+    const entry: CacheEntry = {
+      key,
+      modelId,
+      value,
+      storedAt: this.clock.now().getTime(),
+      size: JSON.stringify(value)?.length ?? 0
+    };
+
+    const totals = await this.loadTotals();
+    const db = await this.open();
+    const transaction = db.transaction(ENTRIES, 'readwrite');
+    const store = transaction.objectStore(ENTRIES);
+    const previous = await requestResult<CacheEntry | undefined>(store.get(key));
+    store.put(entry);
+
+    let entries = totals.entries + (previous ? 0 : 1);
+    let bytes = totals.bytes + entry.size - (previous?.size ?? 0);
+    const maxBytes = this.options.maxMegabytes * MEGABYTE;
+
+    // Oldest first, dropping expired answers and then whatever is over the limits
+    if (entries > this.options.maxEntries || bytes > maxBytes) {
+      await forEachCursor(store.index('storedAt').openCursor(), cursor => {
+        const stored = cursor.value as CacheEntry;
+        const overLimit = entries > this.options.maxEntries || bytes > maxBytes;
+        if (!overLimit && !this.isExpired(stored)) return false;
+        if (stored.key === key) return;
+
+        cursor.delete();
+        entries--;
+        bytes -= stored.size;
+        if (this.isExpired(stored)) {
+          this.counters.expired++;
+        } else {
+          this.counters.evicted++;
+        }
+      });
+    }
+
+    await transactionDone(transaction);
+    this.totals = Promise.resolve({ entries, bytes });
+  }
+
+  private isExpired(entry: CacheEntry): boolean {
+    return this.clock.now().getTime() - entry.storedAt > this.options.ttlHours * HOUR_MS;
+  }
+
+  private loadTotals(): Promise<{ entries: number; bytes: number }> {
+    if (!this.totals) {
+      this.totals = this.open().then(async db => {
+        const totals = { entries: 0, bytes: 0 };
+        await forEachCursor(db.transaction(ENTRIES).objectStore(ENTRIES).openCursor(), cursor => {
+          totals.entries++;
+          totals.bytes += (cursor.value as CacheEntry).size;
+        });
+        return totals;
+      });
+      this.totals.catch(() => { this.totals = null; });
+    }
+    return this.totals;
+  }
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.db) {
+      this.db = openDatabase(DB_NAME, DB_VERSION, db => {
+        db.createObjectStore(ENTRIES, { keyPath: 'key' }).createIndex('storedAt', 'storedAt');
+      });
+      // Let a later call try again rather than caching the failure
+      this.db.catch(() => { this.db = null; });
+    }
+    return this.db;
+  }
+
+  // Once per session; a missing IndexedDB would otherwise warn on every claim
+  private warn(error: unknown): void {
+    if (this.warned) return;
+    this.warned = true;
+    console.warn('Inference cache unavailable, calling models directly:', error);
+  }
+}
+
+// Shared by every registry, so all analyzers read and fill the same cache
+export const inferenceCache = new InferenceCache();
@@ -0,0 +1,317 @@
+export type ModelProviderKind = 'huggingface' | 'openai' | 'browser' | 'offline';
+
+export interface ClassificationScore {
+  label: string;
+  score: number;
+}
+
+export interface GenerationOptions {
+  maxTokens?: number;
+}
+
+/**
+ * A backend that runs models. Model names are whatever the backend itself
+ * expects. Failures are thrown; callers decide whether to fall back.
+ */
+export interface ModelProvider {
+  kind: ModelProviderKind;
+  label: string;
+  // Scores for each label, highest first
+  classify(model: string, text: string): Promise<ClassificationScore[]>;
+  generate(model: string, prompt: string, options?: GenerationOptions): Promise<string>;
+}
+
+export interface ModelEndpoint {
+  baseUrl: string;
+  apiKey: string;
+}
+
+// Where the in-browser provider loads model and runtime files from
+export interface LocalModelSettings {
+  // Served from our own host; each model is a subfolder named as configured
+  modelPath: string;
+  // onnxruntime-web .wasm files, so the runtime is not fetched from a CDN
+  wasmPath: string;
+}
+
+// Messages exchanged with workers/transformers.worker.ts
+export type TransformersWorkerRequest =
+  | { type: 'classify'; id: number; model: string; text: string; settings: LocalModelSettings }
+  | { type: 'generate'; id: number; model: string; prompt: string; maxTokens?: number; settings: LocalModelSettings };
+
+export type TransformersWorkerMessage =
+  | { type: 'classified'; id: number; scores: ClassificationScore[] }
+  | { type: 'generated'; id: number; text: string }
+  | { type: 'error'; id: number; message: string };
+
+const byScore = (scores: ClassificationScore[]) => [...scores].sort((a, b) => b.score - a.score);
+
+/**
+ * A provider answered with an error status. Rate limiting, overload and
+ * Hugging Face's "model is loading" reply are worth retrying; anything
+ * else will fail the same way again.
+ */
+export class ModelRequestError extends Error {
+  constructor(
+    message: string,
+    readonly status: number,
+    // How long the server asked us to wait, when it said
+    readonly retryAfterMs?: number
+  ) {
+    super(message);
+    this.name = 'ModelRequestError';
+  }
+
+  get retryable(): boolean {
+    return this.status === 429 || this.status === 502 || this.status === 503 || this.status === 504;
+  }
+}
+
+// Retry-After in seconds, or Hugging Face's estimated model load time
+async function retryDelayOf(response: Response): Promise<number | undefined> {
+  const retryAfter = Number(response.headers.get('Retry-After'));
+  if (retryAfter > 0) return retryAfter * 1000;
+
+  try {
+    const body: { estimated_time?: number } = await response.json();
+    if (Number(body?.estimated_time) > 0) return Number(body.estimated_time) * 1000;
+  } catch {
+    // Not JSON; no hint to go on
+  }
+  return undefined;
+}
+
+async function postJSON<T>(url: string, body: unknown, apiKey: string, provider: string): Promise<T> {
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: {
+      ...(apiKey ? { 'Authorization': `Bearer ${apiKey}` } : {}),
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(body),
+  });
+
+  if (!response.ok) {
+    throw new ModelRequestError(
+      `${provider} request failed with status ${response.status}`,
+      response.status,
+      await retryDelayOf(response)
+    );
+  }
+  return response.json();
+}
+
+/**
+ * Hugging Face Inference API.
+ */
+export class HuggingFaceProvider implements ModelProvider {
+  kind = 'huggingface' as const;
+  label = 'Hugging Face Inference API';
+
+  constructor(private endpoint: ModelEndpoint) {}
+
+  async classify(model: string, text: string): Promise<ClassificationScore[]> {
+    const response = await this.query<ClassificationScore[] | ClassificationScore[][]>(model, { inputs: text });
+    // Single inputs come back either flat or wrapped in a one-element batch
+    const scores = Array.isArray(response?.[0]) ? response[0] : response;
+    if (!Array.isArray(scores)) {
+      throw new Error(`Unexpected classification response from ${model}`);
+    }
+    return byScore((scores as ClassificationScore[]).map(item => ({ label: String(item.label), score: Number(item.score) })));
+  }
+
+  async generate(model: string, prompt: string, options: GenerationOptions = {}): Promise<string> {
+    const response = await this.query<{ generated_text?: string }[]>(model, {
+      inputs: prompt,
+      ...(options.maxTokens ? { parameters: { max_new_tokens: options.maxTokens } } : {})
+    });
+    return String(response?.[0]?.generated_text ?? '');
+  }
+
+  private query<T>(model: string, body: unknown): Promise<T> {
+    if (!this.endpoint.apiKey) {
+      throw new Error('No Hugging Face API token configured');
+    }
+    return postJSON<T>(`${this.endpoint.baseUrl.replace(/\/$/, '')}/${model}`, body, this.endpoint.apiKey, 'Hugging Face');
+  }
+}
+
+/**
+ * Any server speaking the OpenAI chat completions API, such as a local
+ * vLLM, llama.cpp or Ollama instance. Classification is done by prompting
+ * for a JSON verdict over the expected labels.
+ */
+export class OpenAICompatibleProvider implements ModelProvider {
+  kind = 'openai' as const;
+  label = 'OpenAI-compatible endpoint';
+
+  constructor(private endpoint: ModelEndpoint, private labels: string[] = ['FRAUD', 'LEGIT']) {}
+
+  async classify(model: string, text: string): Promise<ClassificationScore[]> {
+    const prompt =
+      `Classify the following unemployment claim text as one of: ${this.labels.join(', ')}. ` +
+      'Reply with JSON only, in the form {"label": "<label>", "score": <confidence 0-1>}.\n\n' +
+      `Text: ${text}`;
+    const reply = await this.generate(model, prompt, { maxTokens: 50 });
+
+    const match = reply.match(/\{[\s\S]*\}/);
+    const verdict = match ? JSON.parse(match[0]) : null;
+    const label = String(verdict?.label || '').toUpperCase();
+    const score = Number(verdict?.score);
+    if (!this.labels.includes(label) || !(score >= 0 && score <= 1)) {
+      throw new Error(`Unparseable classification reply from ${model}`);
+    }
+
+    // Spread the remaining confidence evenly over the other labels
+    const rest = (1 - score) / Math.max(this.labels.length - 1, 1);
+    return byScore(this.labels.map(l => ({ label: l, score: l === label ? score : rest })));
+  }
+
+  async generate(model: string, prompt: string, options: GenerationOptions = {}): Promise<string> {
+    const response = await postJSON<{ choices?: { message?: { content?: string } }[] }>(
+      `${this.endpoint.baseUrl.replace(/\/$/, '')}/chat/completions`,
+      {
+        model,
+        messages: [{ role: 'user', content: prompt }],
+        temperature: 0,
+        ...(options.maxTokens ? { max_tokens: options.maxTokens } : {})
+      },
+      this.endpoint.apiKey,
+      'OpenAI-compatible endpoint'
+    );
+    return String(response?.choices?.[0]?.message?.content ?? '').trim();
+  }
+}
+
+type PendingRequest = {
+  resolve: (message: TransformersWorkerMessage) => void;
+  reject: (error: Error) => void;
+};
+
+/**
+ * Transformers.js running in a dedicated Web Worker, on model files hosted
+ * alongside the app. Nothing is sent over the network except requests for
+ * those files, so claim text stays on the workstation. A loaded model stays
+ * in the worker for later calls; terminate() releases it.
+ */
+export class BrowserWorkerProvider implements ModelProvider {
+  kind = 'browser' as const;
+  label = 'In-browser (Web Worker)';
+
+  private worker: Worker | null = null;
+  private pending = new Map<number, PendingRequest>();
+  private nextId = 0;
+
+  constructor(private settings: LocalModelSettings) {}
+
+  async classify(model: string, text: string): Promise<ClassificationScore[]> {
+    const reply = await this.request(id => ({ type: 'classify', id, model, text, settings: this.settings }));
+    if (reply.type !== 'classified') {
+      throw new Error(`Unexpected classification reply from ${model}`);
+    }
+    return byScore(reply.scores);
+  }
+
+  async generate(model: string, prompt: string, options: GenerationOptions = {}): Promise<string> {
+    const reply = await this.request(id => ({
+      type: 'generate', id, model, prompt, maxTokens: options.maxTokens, settings: this.settings
+    }));
+    if (reply.type !== 'generated') {
+      throw new Error(`Unexpected generation reply from ${model}`);
+    }
+    return reply.text.trim();
+  }
+
+  terminate(): void {
+    this.worker?.terminate();
+    this.worker = null;
+    this.failAll(new Error('In-browser model worker was terminated'));
+  }
+
+  private request(build: (id: number) => TransformersWorkerRequest): Promise<TransformersWorkerMessage> {
+    const worker = this.ensureWorker();
+    const message = build(this.nextId++);
+    return new Promise((resolve, reject) => {
+      this.pending.set(message.id, { resolve, reject });
+      worker.postMessage(message);
+    });
+  }
+
+  private ensureWorker(): Worker {
+    if (this.worker) return this.worker;
+
+    const worker = new Worker(new URL('../workers/transformers.worker.ts', import.meta.url), {
+      type: 'module'
+    });
+
+    worker.onmessage = (event: MessageEvent<TransformersWorkerMessage>) => {
+      const message = event.data;
+      const request = this.pending.get(message.id);
+      if (!request) return;
+      this.pending.delete(message.id);
+
+      if (message.type === 'error') {
+        request.reject(new Error(message.message));
+      } else {
+        request.resolve(message);
+      }
+    };
+
+    // A worker that fails to start cannot answer anything; start afresh next call
+    worker.onerror = (event) => {
+      worker.terminate();
+      this.worker = null;
+      this.failAll(new Error(`In-browser model worker error: ${event.message}`));
+    };
+
+    this.worker = worker;
+    return worker;
+  }
+
+  private failAll(error: Error): void {
+    this.pending.forEach(request => request.reject(error));
+    this.pending.clear();
+  }
+}
+
+// Wording that the offline stub treats as a fraud signal
+const OFFLINE_FRAUD_CUES = [
+  'cash', 'urgent', 'immediately', 'mutual agreement', 'retaliation', 'whistleblower', 'verbal',
+  'no paperwork', 'paid under the table', 'multiple', 'temporary', 'contract ended', 'quit'
+];
+
+// FNV-1a, for stable pseudo-random jitter
+const hashText = (text: string) => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+/**
+ * Deterministic stand-in that never touches the network. The same text
+ * always gets the same score, so air-gapped runs are reproducible. It does
+ * not write prose: generate() returns an empty string and callers use their
+ * own templated wording.
+ */
+export class OfflineProvider implements ModelProvider {
+  kind = 'offline' as const;
+  label = 'Offline stub';
+
+  async classify(_model: string, text: string): Promise<ClassificationScore[]> {
+    const lower = (text || '').toLowerCase();
+    const cues = OFFLINE_FRAUD_CUES.filter(cue => lower.includes(cue)).length;
+    const jitter = (hashText(lower) % 1000) / 10000;
+    const fraud = Math.min(0.95, 0.1 + cues * 0.2 + jitter);
+    return byScore([
+      { label: 'FRAUD', score: fraud },
+      { label: 'LEGIT', score: 1 - fraud }
+    ]);
+  }
+
+  async generate(): Promise<string> {
+    return '';
+  }
+}
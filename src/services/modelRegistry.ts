@@ -0,0 +1,243 @@
+import {
+  BrowserWorkerProvider,
+  ClassificationScore,
+  GenerationOptions,
+  HuggingFaceProvider,
+  LocalModelSettings,
+  ModelEndpoint,
+  ModelProvider,
+  ModelProviderKind,
+  OfflineProvider,
+  OpenAICompatibleProvider
+} from './modelProviders';
+import { InferenceCache, InferenceCacheOptions, inferenceCache } from './inferenceCache';
+import { CircuitBreaker, DEFAULT_RETRY_POLICY, RetryPolicy, withRetry } from './modelResilience';
+import { ResultProvenance } from '@/types/enterprise';
+
+export type ModelTask = 'fraudClassification' | 'flagGeneration' | 'explanation';
+
+// Providers reached over the network; the other two run in the browser
+export type RemoteProviderKind = Exclude<ModelProviderKind, 'browser' | 'offline'>;
+
+export interface ModelTaskConfig {
+  provider: ModelProviderKind;
+  model: string;
+}
+
+// An answer together with where it came from
+export interface ModelAnswer<T> {
+  value: T;
+  provenance: ResultProvenance;
+}
+
+export interface ModelConfig {
+  endpoints: Record<RemoteProviderKind, ModelEndpoint>;
+  localModels: LocalModelSettings;
+  cache: InferenceCacheOptions;
+  tasks: Record<ModelTask, ModelTaskConfig>;
+}
+
+export const MODEL_TASK_LABELS: Record<ModelTask, string> = {
+  fraudClassification: 'Justification text classification',
+  flagGeneration: 'Fraud flag generation',
+  explanation: 'Score explanation'
+};
+
+export const MODEL_PROVIDER_LABELS: Record<ModelProviderKind, string> = {
+  huggingface: 'Hugging Face Inference API',
+  openai: 'OpenAI-compatible endpoint',
+  browser: 'In-browser (Web Worker)',
+  offline: 'Offline stub'
+};
+
+const CONFIG_STORAGE_KEY = 'fraudiq.modelConfig';
+
+/**
+ * Routes each model task to the provider and model configured for it.
+ * Answers are looked up in the inference cache before a provider is called.
+ * Transient failures are retried with backoff, and a model that keeps
+ * failing is cut off by its circuit breaker for a while. A task whose
+ * provider still fails falls back to the offline stub, so analysis always
+ * completes, and the answer's provenance says so.
+ */
+export class ModelRegistry {
+  static defaultConfig: ModelConfig = {
+    endpoints: {
+      huggingface: { baseUrl: 'https://api-inference.huggingface.co/models/', apiKey: '' },
+      openai: { baseUrl: 'http://localhost:8000/v1', apiKey: '' }
+    },
+    localModels: { modelPath: '/models/', wasmPath: '/models/wasm/' },
+    cache: InferenceCache.defaultOptions,
+    tasks: {
+      fraudClassification: {
+        provider: 'huggingface',
+        model: 'laiyer/deberta-v3-base-turbo-finetuned-text-classification-fraud-detection'
+      },
+      flagGeneration: { provider: 'huggingface', model: 'google/flan-t5-base' },
+      explanation: { provider: 'huggingface', model: 'google/flan-t5-base' }
+    }
+  };
+
+  private offline = new OfflineProvider();
+  // Kept across calls so its worker does not reload models every time
+  private browser: BrowserWorkerProvider | null = null;
+  // One per provider and model, so one failing model does not cut off others
+  private breakers = new Map<string, CircuitBreaker>();
+  retryPolicy: RetryPolicy = DEFAULT_RETRY_POLICY;
+
+  constructor(
+    private config: ModelConfig = ModelRegistry.loadConfig(),
+    readonly cache: InferenceCache = inferenceCache
+  ) {
+    cache.configure(config.cache);
+  }
+
+  get configuration(): ModelConfig {
+    return this.config;
+  }
+
+  configure(config: ModelConfig): void {
+    // Models load from the configured path, so a new path needs a new worker
+    if (JSON.stringify(config.localModels) !== JSON.stringify(this.config.localModels)) {
+      this.browser?.terminate();
+      this.browser = null;
+    }
+    this.config = config;
+    this.cache.configure(config.cache);
+  }
+
+  setEndpoint(kind: RemoteProviderKind, endpoint: Partial<ModelEndpoint>): void {
+    this.config = {
+      ...this.config,
+      endpoints: { ...this.config.endpoints, [kind]: { ...this.config.endpoints[kind], ...endpoint } }
+    };
+  }
+
+  providerFor(task: ModelTask): ModelProvider {
+    const { provider } = this.config.tasks[task];
+    switch (provider) {
+      case 'huggingface':
+        // Without a token there is nothing to call: demo mode, as before
+        return this.config.endpoints.huggingface.apiKey
+          ? new HuggingFaceProvider(this.config.endpoints.huggingface)
+          : this.offline;
+      case 'openai': return new OpenAICompatibleProvider(this.config.endpoints.openai);
+      case 'browser':
+        if (!this.browser) this.browser = new BrowserWorkerProvider(this.config.localModels);
+        return this.browser;
+      case 'offline': return this.offline;
+    }
+  }
+
+  async classify(task: ModelTask, text: string): Promise<ModelAnswer<ClassificationScore[]>> {
+    const { model } = this.config.tasks[task];
+    return this.answer(
+      task,
+      `${model}:classify`,
+      text,
+      provider => provider.classify(model, text),
+      () => this.offline.classify(model, text)
+    );
+  }
+
+  async generate(task: ModelTask, prompt: string, options?: GenerationOptions): Promise<ModelAnswer<string>> {
+    const { model } = this.config.tasks[task];
+    return this.answer(
+      task,
+      `${model}:generate:${options?.maxTokens ?? ''}`,
+      prompt,
+      provider => provider.generate(model, prompt, options),
+      () => this.offline.generate()
+    );
+  }
+
+  private async answer<T>(
+    task: ModelTask,
+    cacheId: string,
+    input: string,
+    run: (provider: ModelProvider) => Promise<T>,
+    fallback: () => Promise<T>
+  ): Promise<ModelAnswer<T>> {
+    const { model } = this.config.tasks[task];
+    const provider = this.providerFor(task);
+    const component = MODEL_TASK_LABELS[task];
+
+    // The stub answers instantly and cannot fail, so it is neither cached nor retried
+    if (provider === this.offline) {
+      return { value: await run(provider), provenance: { component, source: 'STUB', provider: provider.kind, model } };
+    }
+
+    let attempts = 0;
+    try {
+      const endpoint = provider.kind === 'huggingface' || provider.kind === 'openai'
+        ? this.config.endpoints[provider.kind].baseUrl
+        : '';
+      const value = await this.cache.resolve(endpoint, `${provider.kind}:${cacheId}`, input, () =>
+        this.breakerFor(provider, model).call(() =>
+          withRetry(attempt => {
+            attempts = attempt;
+            return run(provider);
+          }, this.retryPolicy)
+        )
+      );
+      // No attempts means the cache answered
+      return {
+        value,
+        provenance: attempts > 0
+          ? { component, source: 'MODEL', provider: provider.kind, model, attempts }
+          : { component, source: 'CACHE', provider: provider.kind, model }
+      };
+    } catch (error) {
+      console.warn(`${component} unavailable, using offline stub:`, error);
+      return {
+        value: await fallback(),
+        provenance: {
+          component,
+          source: 'FALLBACK',
+          provider: provider.kind,
+          model,
+          attempts,
+          error: error instanceof Error ? error.message : String(error)
+        }
+      };
+    }
+  }
+
+  private breakerFor(provider: ModelProvider, model: string): CircuitBreaker {
+    const name = `${provider.label} (${model})`;
+    let breaker = this.breakers.get(name);
+    if (!breaker) {
+      breaker = new CircuitBreaker(name);
+      this.breakers.set(name, breaker);
+    }
+    return breaker;
+  }
+
+  // Score of one label, matched case-insensitively; 0 when absent
+  static scoreOf(scores: ClassificationScore[], label: string): number {
+    return scores.find(s => s.label.toUpperCase() === label.toUpperCase())?.score ?? 0;
+  }
+
+  /**
+   * Stored configuration over the defaults, so tasks added since it was
+   * saved still get a provider.
+   */
+  static loadConfig(): ModelConfig {
+    try {
+      const stored: Partial<ModelConfig> = JSON.parse(localStorage.getItem(CONFIG_STORAGE_KEY) || '{}');
+      return {
+        endpoints: { ...this.defaultConfig.endpoints, ...stored.endpoints },
+        localModels: { ...this.defaultConfig.localModels, ...stored.localModels },
+        cache: { ...this.defaultConfig.cache, ...stored.cache },
+        tasks: { ...this.defaultConfig.tasks, ...stored.tasks }
+      };
+    } catch (error) {
+      console.warn('Failed to load model configuration:', error);
+      return this.defaultConfig;
+    }
+  }
+
+  static saveConfig(config: ModelConfig): void {
+    localStorage.setItem(CONFIG_STORAGE_KEY, JSON.stringify(config));
+  }
+}
@@ -0,0 +1,110 @@
+import { Clock, systemClock } from '@/lib/clock';
+import { RandomSource } from '@/lib/random';
+import { ModelRequestError } from './modelProviders';
+
+export interface RetryPolicy {
+  // Attempts after the first
+  maxRetries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+export interface CircuitBreakerOptions {
+  // Consecutive failed calls that open the circuit
+  failureThreshold: number;
+  // How long an open circuit rejects calls before letting one through
+  cooldownMs: number;
+}
+
+export type CircuitState = 'CLOSED' | 'OPEN' | 'HALF_OPEN';
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxRetries: 3,
+  baseDelayMs: 500,
+  maxDelayMs: 20000
+};
+
+export const DEFAULT_CIRCUIT_BREAKER_OPTIONS: CircuitBreakerOptions = {
+  failureThreshold: 5,
+  cooldownMs: 30000
+};
+
+const sleep = (ms: number) => new Promise<void>(resolve => setTimeout(resolve, ms));
+
+// fetch reports a network failure as a TypeError
+export const isRetryable = (error: unknown): boolean =>
+  error instanceof ModelRequestError ? error.retryable : error instanceof TypeError;
+
+/**
+ * Call `run`, retrying retryable failures with exponential backoff. A delay
+ * the server asked for is honoured, within maxDelayMs. Jitter spreads out
+ * concurrent callers that were rate limited together.
+ */
+export async function withRetry<T>(
+  run: (attempt: number) => Promise<T>,
+  policy: RetryPolicy = DEFAULT_RETRY_POLICY,
+  random: RandomSource = Math.random,
+  wait: (ms: number) => Promise<void> = sleep
+): Promise<T> {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await run(attempt);
+    } catch (error) {
+      if (attempt > policy.maxRetries || !isRetryable(error)) throw error;
+
+      const backoff = policy.baseDelayMs * 2 ** (attempt - 1) * (0.5 + random() / 2);
+      const requested = error instanceof ModelRequestError ? error.retryAfterMs ?? 0 : 0;
+      await wait(Math.min(policy.maxDelayMs, Math.max(backoff, requested)));
+    }
+  }
+}
+
+/**
+ * Stops calling a model that keeps failing. After failureThreshold failures
+ * in a row every call is rejected at once until the cooldown passes; then
+ * one trial call decides whether the circuit closes again or stays open.
+ */
+export class CircuitBreaker {
+  private state: CircuitState = 'CLOSED';
+  private failures = 0;
+  private openedAt = 0;
+  private trialInFlight = false;
+
+  constructor(
+    readonly name: string,
+    private options: CircuitBreakerOptions = DEFAULT_CIRCUIT_BREAKER_OPTIONS,
+    private clock: Clock = systemClock
+  ) {}
+
+  get currentState(): CircuitState {
+    if (this.state === 'OPEN' && this.clock.now().getTime() - this.openedAt >= this.options.cooldownMs) {
+      return 'HALF_OPEN';
+    }
+    return this.state;
+  }
+
+  async call<T>(run: () => Promise<T>): Promise<T> {
+    const state = this.currentState;
+    if (state === 'OPEN' || (state === 'HALF_OPEN' && this.trialInFlight)) {
+      throw new Error(`Circuit open for ${this.name} after ${this.failures} consecutive failures`);
+    }
+
+    this.state = state;
+    this.trialInFlight = state === 'HALF_OPEN';
+    try {
+      const result = await run();
+      this.state = 'CLOSED';
+      this.failures = 0;
+      return result;
+    } catch (error) {
+      this.failures++;
+      if (this.state === 'HALF_OPEN' || this.failures >= this.options.failureThreshold) {
+        this.state = 'OPEN';
+        this.openedAt = this.clock.now().getTime();
+      }
+      throw error;
+    } finally {
+      if (state === 'HALF_OPEN') this.trialInFlight = false;
+    }
+  }
+}
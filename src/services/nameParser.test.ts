@@ -0,0 +1,26 @@
+import { describe, expect, it } from 'vitest';
+import { NameParser } from './nameParser';
+
+describe('NameParser', () => {
+  it('splits prefix, compound surname and suffix', () => {
+    expect(NameParser.parse('Dr. Mary-Ann de la Cruz Jr.')).toEqual({
+      prefix: 'Dr', first: 'Mary-Ann', middle: [], last: 'de la Cruz', suffix: 'JR'
+    });
+  });
+
+  it('reads "Last, First Middle" order by its comma', () => {
+    expect(NameParser.parse('Cruz, Mary Ann, Jr')).toEqual({
+      prefix: '', first: 'Mary', middle: ['Ann'], last: 'Cruz', suffix: 'JR'
+    });
+    expect(NameParser.parse('Mary Cruz, Jr')).toMatchObject({ first: 'Mary', last: 'Cruz', suffix: 'JR' });
+  });
+
+  it('takes a single word as a first name', () => {
+    expect(NameParser.parse('Cher')).toMatchObject({ first: 'Cher', last: '' });
+  });
+
+  it('splits a surname into the parts that may be filed alone', () => {
+    expect(NameParser.surnameParts('Garcia-Lopez')).toEqual(['Garcia', 'Lopez']);
+    expect(NameParser.surnameParts('van der Berg')).toEqual(['Berg']);
+  });
+});
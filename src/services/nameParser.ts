@@ -0,0 +1,77 @@
+import { PersonName } from '../types/enterprise';
+
+const PREFIXES = new Set(['mr', 'mrs', 'ms', 'miss', 'mx', 'dr', 'rev', 'prof', 'sir', 'hon']);
+
+const SUFFIXES: Record<string, string> = {
+  jr: 'JR', junior: 'JR',
+  sr: 'SR', senior: 'SR',
+  ii: 'II', iii: 'III', iv: 'IV', v: 'V',
+  '2nd': 'II', '3rd': 'III', '4th': 'IV',
+  md: 'MD', phd: 'PHD', esq: 'ESQ', dds: 'DDS', cpa: 'CPA'
+};
+
+// Words that start a compound surname, as in "van der Berg" or "de la Cruz"
+const SURNAME_PARTICLES = new Set(['de', 'del', 'della', 'der', 'den', 'di', 'da', 'do', 'dos', 'du', 'la', 'le', 'van', 'von', 'st', 'ter', 'bin', 'ibn', 'al', 'el']);
+
+const suffixOf = (token: string) => SUFFIXES[token.toLowerCase()] ?? '';
+
+export class NameParser {
+  /**
+   * Split a full name such as "Dr. Mary-Ann de la Cruz Jr." into its
+   * parts. "Last, First Middle" order is recognized by its comma. A single
+   * word is taken as a first name. Case is kept as given.
+   */
+  static parse(text: string): PersonName {
+    const name: PersonName = { prefix: '', first: '', middle: [], last: '', suffix: '' };
+    const cleaned = String(text ?? '').replace(/\./g, ' ').replace(/\s+/g, ' ').trim();
+    if (!cleaned) return name;
+
+    // "Cruz, Mary Ann, Jr" puts the surname first; "Mary Cruz, Jr" does not
+    const [head, ...rest] = cleaned.split(',').map(part => part.trim()).filter(Boolean);
+    if (rest.length > 0 && !rest.every(part => part.split(' ').every(suffixOf))) {
+      const [given, ...suffixes] = rest;
+      const surname = head.split(' ');
+      return this.fromTokens([...given.split(' '), ...surname, ...suffixes.flatMap(part => part.split(' '))], name, surname.length);
+    }
+    return this.fromTokens([...head.split(' '), ...rest.flatMap(part => part.split(' '))], name);
+  }
+
+  static format(name: PersonName): string {
+    return [name.prefix, name.first, ...name.middle, name.last, name.suffix].filter(Boolean).join(' ');
+  }
+
+  // The parts of a surname that may each be filed alone: "Garcia-Lopez" is Garcia and Lopez
+  static surnameParts(last: string): string[] {
+    return last
+      .split(/[\s-]+/)
+      .filter(part => part && !SURNAME_PARTICLES.has(part.toLowerCase()));
+  }
+
+  private static fromTokens(tokens: string[], name: PersonName, surnameLength?: number): PersonName {
+    const words = [...tokens];
+    while (words.length > 1 && PREFIXES.has(words[0].toLowerCase())) {
+      name.prefix = [name.prefix, words.shift()].filter(Boolean).join(' ');
+    }
+    const suffixes: string[] = [];
+    while (words.length > 1 && suffixOf(words[words.length - 1])) {
+      suffixes.unshift(suffixOf(words.pop() as string));
+    }
+    name.suffix = suffixes.join(' ');
+
+    if (words.length === 1) {
+      name.first = words[0];
+      return name;
+    }
+
+    let lastStart = Math.max(1, words.length - (surnameLength ?? 1));
+    // Without a comma to say where it starts, the surname takes any particles before its last word
+    if (surnameLength === undefined) {
+      while (lastStart > 1 && SURNAME_PARTICLES.has(words[lastStart - 1].toLowerCase())) lastStart--;
+    }
+
+    name.first = words[0];
+    name.middle = words.slice(1, lastStart);
+    name.last = words.slice(lastStart).join(' ');
+    return name;
+  }
+}
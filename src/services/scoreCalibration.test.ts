@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'vitest';
+import { CalibrationSample, ScoreCalibration } from './scoreCalibration';
+
+describe('ScoreCalibration', () => {
+  const calibration = new ScoreCalibration();
+
+  it('puts 50, 100 and 200 points on the default band edges', () => {
+    expect(calibration.probability(50)).toBe(0.25);
+    expect(calibration.probability(100)).toBe(0.5);
+    expect(calibration.probability(200)).toBe(0.9);
+    expect([49, 50, 100, 199, 200].map(points => calibration.levelFor(points)))
+      .toEqual(['LOW', 'MEDIUM', 'HIGH', 'HIGH', 'CRITICAL']);
+    expect(calibration.labelFor(200)).toBe('Severe');
+  });
+
+  it('inverts the curve to the points a band starts at', () => {
+    expect(calibration.pointsFor(0.5)).toBeCloseTo(100);
+    expect(calibration.pointsFor(0.9)).toBeCloseTo(200);
+  });
+
+  it('fits the curve to labeled outcomes and keeps the bands', () => {
+    // Outcomes drawn from the default curve
+    const samples: CalibrationSample[] = [];
+    for (let points = 0; points <= 300; points += 25) {
+      const positives = Math.round(calibration.probability(points) * 100);
+      for (let i = 0; i < 100; i++) samples.push({ points, fraud: i < positives });
+    }
+    const fitted = ScoreCalibration.fit(samples, undefined, '2024-07-01T00:00:00.000Z');
+
+    expect(fitted.probability(100)).toBeCloseTo(0.5, 1);
+    expect(fitted.pointsFor(0.9)).toBeGreaterThan(180);
+    expect(fitted.pointsFor(0.9)).toBeLessThan(220);
+    expect(fitted.configuration.bands).toEqual(ScoreCalibration.defaultConfig.bands);
+    expect(fitted.configuration.parameters).toMatchObject({ fittedAt: '2024-07-01T00:00:00.000Z', sampleSize: samples.length });
+  });
+
+  it('refuses to fit outcomes that are all one way', () => {
+    expect(() => ScoreCalibration.fit([{ points: 10, fraud: true }, { points: 90, fraud: true }]))
+      .toThrow('Calibration needs both fraudulent and legitimate outcomes');
+  });
+});
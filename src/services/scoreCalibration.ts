@@ -0,0 +1,150 @@
+import { RiskAssessmentResult } from '@/types/enterprise';
+import { fitLogistic, sigmoid } from '@/lib/logistic';
+import { FraudAnalysis } from '../types/fraud';
+
+export type RiskLevel = RiskAssessmentResult['riskLevel'];
+export type FraudLabel = FraudAnalysis['fraud_label'];
+
+// Logistic curve from risk points to fraud probability
+export interface CalibrationParameters {
+  intercept: number;
+  // Per risk point
+  slope: number;
+  // Set when fitted from labeled outcomes
+  fittedAt?: string;
+  sampleSize?: number;
+}
+
+// Calibrated probability at which each band starts
+export interface RiskBands {
+  medium: number;
+  high: number;
+  critical: number;
+}
+
+export interface ScoreCalibrationConfig {
+  parameters: CalibrationParameters;
+  bands: RiskBands;
+}
+
+// A scored claim whose outcome is known
+export interface CalibrationSample {
+  points: number;
+  fraud: boolean;
+}
+
+export const RISK_LEVEL_LABELS: Record<RiskLevel, FraudLabel> = {
+  LOW: 'Low',
+  MEDIUM: 'Medium',
+  HIGH: 'High',
+  CRITICAL: 'Severe'
+};
+
+const STORAGE_KEY = 'fraudiq.scoreCalibration';
+
+// Risk points are fitted in hundreds, which keeps the fit well conditioned
+const POINT_SCALE = 100;
+// Keeps the fit finite when outcomes separate perfectly by score
+const RIDGE = 0.01;
+
+/**
+ * Turns raw risk points into a calibrated fraud probability, and that
+ * probability into a risk band. Every service and chart bands scores
+ * through this, so a claim shows the same level wherever it appears.
+ *
+ * The default curve puts 50, 100 and 200 points exactly on the default
+ * band edges (0.25, 0.5 and 0.9), matching the thresholds used before
+ * calibration. fit() replaces it with one learned from labeled outcomes.
+ */
+export class ScoreCalibration {
+  static defaultConfig: ScoreCalibrationConfig = {
+    parameters: { intercept: -2 * Math.log(3), slope: Math.log(3) / 50 },
+    bands: { medium: 0.25, high: 0.5, critical: 0.9 }
+  };
+
+  constructor(private config: ScoreCalibrationConfig = ScoreCalibration.defaultConfig) {}
+
+  get configuration(): ScoreCalibrationConfig {
+    return this.config;
+  }
+
+  // Rounded so that scores on a band edge land in the band they start
+  probability(points: number): number {
+    const { intercept, slope } = this.config.parameters;
+    return Math.round(sigmoid(intercept + slope * points) * 10000) / 10000;
+  }
+
+  levelFor(points: number): RiskLevel {
+    return this.levelForProbability(this.probability(points));
+  }
+
+  levelForProbability(probability: number): RiskLevel {
+    const { bands } = this.config;
+    if (probability >= bands.critical) return 'CRITICAL';
+    if (probability >= bands.high) return 'HIGH';
+    if (probability >= bands.medium) return 'MEDIUM';
+    return 'LOW';
+  }
+
+  labelFor(points: number): FraudLabel {
+    return RISK_LEVEL_LABELS[this.levelFor(points)];
+  }
+
+  // Points at which a band starts under the current curve
+  pointsFor(probability: number): number {
+    const { intercept, slope } = this.config.parameters;
+    return (Math.log(probability / (1 - probability)) - intercept) / slope;
+  }
+
+  /**
+   * Fit the curve to claims whose outcome is known, by logistic regression
+   * with a small ridge penalty. Bands are kept, so the
+   * same probability still means the same level.
+   */
+  static fit(
+    samples: CalibrationSample[],
+    bands: RiskBands = this.defaultConfig.bands,
+    fittedAt: string = new Date().toISOString()
+  ): ScoreCalibration {
+    const positives = samples.filter(sample => sample.fraud).length;
+    if (positives === 0 || positives === samples.length) {
+      throw new Error('Calibration needs both fraudulent and legitimate outcomes');
+    }
+
+    const [a, b] = fitLogistic(
+      samples.map(sample => [sample.points / POINT_SCALE]),
+      samples.map(sample => sample.fraud),
+      RIDGE
+    );
+
+    return new ScoreCalibration({
+      parameters: { intercept: a, slope: b / POINT_SCALE, fittedAt, sampleSize: samples.length },
+      bands
+    });
+  }
+
+  static load(): ScoreCalibration {
+    try {
+      const stored: Partial<ScoreCalibrationConfig> = JSON.parse(localStorage.getItem(STORAGE_KEY) || '{}');
+      return new ScoreCalibration({
+        parameters: { ...this.defaultConfig.parameters, ...stored.parameters },
+        bands: { ...this.defaultConfig.bands, ...stored.bands }
+      });
+    } catch (error) {
+      // Also reached outside a browser, where there is no localStorage
+      return new ScoreCalibration();
+    }
+  }
+
+  static save(calibration: ScoreCalibration): void {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(calibration.configuration));
+  }
+
+  static reset(): void {
+    localStorage.removeItem(STORAGE_KEY);
+  }
+}
+
+// High and Severe claims are the ones flagged for review
+export const isFlagged = (analysis: FraudAnalysis) =>
+  analysis.fraud_label === 'High' || analysis.fraud_label === 'Severe';
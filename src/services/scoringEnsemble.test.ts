@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest';
+import { EnsembleSample, ScoringEnsemble } from './scoringEnsemble';
+import { ScoreCalibration } from './scoreCalibration';
+
+describe('ScoringEnsemble', () => {
+  const calibration = new ScoreCalibration();
+
+  it('weighs each engine at its weight', () => {
+    const ensemble = new ScoringEnsemble();
+
+    expect(ensemble.weigh('rules', 80)).toBe(80);
+    expect(ensemble.weigh('realtime', 80)).toBe(20);
+    expect(ensemble.weigh('pattern', 81)).toBe(41);
+  });
+
+  it('learns the weights the outcomes were drawn with, on the calibration curve', () => {
+    // Outcomes drawn from the default calibration of rules + 0.5 * realtime;
+    // pattern scores carry no signal
+    const samples: EnsembleSample[] = [];
+    for (const rules of [0, 50, 100, 150]) {
+      for (const realtime of [0, 100, 200]) {
+        for (const pattern of [0, 100]) {
+          const positives = Math.round(calibration.probability(rules + 0.5 * realtime) * 100);
+          for (let i = 0; i < 100; i++) samples.push({ scores: { rules, realtime, pattern }, fraud: i < positives });
+        }
+      }
+    }
+    const { weights, sampleSize } = ScoringEnsemble.fit(samples, calibration).configuration;
+
+    expect(weights.rules).toBeCloseTo(1, 1);
+    expect(weights.realtime).toBeCloseTo(0.5, 1);
+    expect(weights.pattern).toBeCloseTo(0, 1);
+    expect(sampleSize).toBe(samples.length);
+  });
+
+  it('refuses to learn from outcomes that are all one way', () => {
+    const samples = [{ scores: { rules: 10, realtime: 0, pattern: 0 }, fraud: false }];
+
+    expect(() => ScoringEnsemble.fit(samples, calibration))
+      .toThrow('Learning weights needs both fraudulent and legitimate outcomes');
+  });
+});
@@ -0,0 +1,118 @@
+import { EnsembleEngineName } from '@/types/enterprise';
+import { fitLogistic } from '@/lib/logistic';
+import { ScoreCalibration } from './scoreCalibration';
+
+export interface ScoringEnsembleConfig {
+  // Multiplies each engine's points before they are added to the score
+  weights: Record<EnsembleEngineName, number>;
+  // Set when the weights were learned from labeled outcomes
+  fittedAt?: string;
+  sampleSize?: number;
+}
+
+// Engine scores of a claim whose outcome is known
+export interface EnsembleSample {
+  scores: Record<EnsembleEngineName, number>;
+  fraud: boolean;
+}
+
+export const ENSEMBLE_ENGINES: EnsembleEngineName[] = ['rules', 'realtime', 'pattern'];
+
+export const ENSEMBLE_ENGINE_LABELS: Record<EnsembleEngineName, string> = {
+  rules: 'Business rules',
+  realtime: 'Real-time scoring',
+  pattern: 'Pattern detection'
+};
+
+const STORAGE_KEY = 'fraudiq.scoringEnsemble';
+
+// Engine scores are fitted in hundreds, as in the score calibration
+const POINT_SCALE = 100;
+const RIDGE = 0.01;
+const MAX_WEIGHT = 5;
+
+/**
+ * Combines the business rules engine, real-time scoring and batch pattern
+ * detection into one score: each engine's points at its weight, summed.
+ * The weights are set by hand or learned from labeled outcomes.
+ */
+export class ScoringEnsemble {
+  static defaultConfig: ScoringEnsembleConfig = {
+    weights: { rules: 1, realtime: 0.25, pattern: 0.5 }
+  };
+
+  constructor(private config: ScoringEnsembleConfig = ScoringEnsemble.defaultConfig) {}
+
+  get configuration(): ScoringEnsembleConfig {
+    return this.config;
+  }
+
+  weightOf(engine: EnsembleEngineName): number {
+    return this.config.weights[engine] ?? 0;
+  }
+
+  // Points an engine adds to the combined score
+  weigh(engine: EnsembleEngineName, points: number): number {
+    return Math.round(points * this.weightOf(engine));
+  }
+
+  /**
+   * Learn the weights by logistic regression of outcomes on engine scores.
+   * The intercept is held at the calibration's, the one applied to the
+   * combined score, and each coefficient is divided by the calibration's
+   * slope, so the combined points keep meaning what the calibration says
+   * they mean.
+   */
+  static fit(
+    samples: EnsembleSample[],
+    calibration: ScoreCalibration,
+    fittedAt: string = new Date().toISOString()
+  ): ScoringEnsemble {
+    const positives = samples.filter(sample => sample.fraud).length;
+    if (positives === 0 || positives === samples.length) {
+      throw new Error('Learning weights needs both fraudulent and legitimate outcomes');
+    }
+    const { intercept, slope } = calibration.configuration.parameters;
+    if (slope <= 0) {
+      throw new Error('Score calibration must rise with risk points to learn weights');
+    }
+
+    const [, ...coefficients] = fitLogistic(
+      samples.map(sample => ENSEMBLE_ENGINES.map(engine => sample.scores[engine] / POINT_SCALE)),
+      samples.map(sample => sample.fraud),
+      RIDGE,
+      intercept
+    );
+
+    const weights = Object.fromEntries(
+      ENSEMBLE_ENGINES.map((engine, index) => {
+        const weight = coefficients[index] / POINT_SCALE / slope;
+        // An engine that points away from fraud is switched off rather than inverted
+        return [engine, Math.round(Math.min(MAX_WEIGHT, Math.max(0, weight)) * 100) / 100];
+      })
+    ) as Record<EnsembleEngineName, number>;
+
+    return new ScoringEnsemble({ weights, fittedAt, sampleSize: samples.length });
+  }
+
+  static load(): ScoringEnsemble {
+    try {
+      const stored: Partial<ScoringEnsembleConfig> = JSON.parse(localStorage.getItem(STORAGE_KEY) || '{}');
+      return new ScoringEnsemble({
+        ...stored,
+        weights: { ...this.defaultConfig.weights, ...stored.weights }
+      });
+    } catch (error) {
+      // Also reached outside a browser, where there is no localStorage
+      return new ScoringEnsemble();
+    }
+  }
+
+  static save(ensemble: ScoringEnsemble): void {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(ensemble.configuration));
+  }
+
+  static reset(): void {
+    localStorage.removeItem(STORAGE_KEY);
+  }
+}
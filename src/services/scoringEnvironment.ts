@@ -0,0 +1,63 @@
+import { Clock, systemClock } from '@/lib/clock';
+import { RandomSource } from '@/lib/random';
+import { ClaimHistory } from './claimHistory';
+import { IdentityGraph } from './identityGraph';
+import { ScoreCalibration } from './scoreCalibration';
+import { ScoringEnsemble } from './scoringEnsemble';
+
+/**
+ * Death Master File lookup by SSN hash. Empty until a registry extract is
+ * loaded, in which case no claim matches.
+ */
+export class DeathRegistry {
+  private ssns: Set<string>;
+
+  constructor(ssns: Iterable<string> = []) {
+    this.ssns = new Set(ssns);
+  }
+
+  get size(): number {
+    return this.ssns.size;
+  }
+
+  load(ssns: Iterable<string>): void {
+    for (const ssn of ssns) this.ssns.add(ssn);
+  }
+
+  isDeceased(ssn: string): boolean {
+    return !!ssn && this.ssns.has(ssn);
+  }
+}
+
+/**
+ * Everything outside a claim that scoring reads. Services share one
+ * environment so their lookups agree; replacing the clock and random source
+ * makes a whole run reproducible, down to IDs and timestamps.
+ */
+export interface ScoringEnvironment {
+  clock: Clock;
+  // Used for identifiers only, never for scores
+  random: RandomSource;
+  history: ClaimHistory;
+  // Links claims through shared attributes; reads the same history
+  graph: IdentityGraph;
+  deathRegistry: DeathRegistry;
+  // Maps risk points to a fraud probability and risk level
+  calibration: ScoreCalibration;
+  // How the scoring engines' points are weighted into one score
+  ensemble: ScoringEnsemble;
+}
+
+export function createScoringEnvironment(overrides: Partial<ScoringEnvironment> = {}): ScoringEnvironment {
+  const history = overrides.history ?? new ClaimHistory();
+  return {
+    clock: systemClock,
+    random: Math.random,
+    history,
+    graph: new IdentityGraph(history),
+    deathRegistry: new DeathRegistry(),
+    calibration: ScoreCalibration.load(),
+    ensemble: ScoringEnsemble.load(),
+    ...overrides
+  };
+}
@@ -0,0 +1,529 @@
+import {
+  BenefitsClaim,
+  ClaimantProfile,
+  ClaimScoringResult,
+  CrossMatchResult,
+  EmployerRecord,
+  EnsembleEngineName,
+  NetworkFeatures,
+  RiskFactor,
+  ScoreContribution,
+  ScoringStageName
+} from '@/types/enterprise';
+import { ClaimData } from '../types/fraud';
+import { BusinessRulesEngine } from './BusinessRulesEngine';
+import { CaseManagementService } from './CaseManagementService';
+import { CrossMatcher } from './crossMatcher';
+import { RealTimeContext, RealTimeRiskScoring } from './RealTimeRiskScoring';
+import { PatternDetectionEngine } from './PatternDetectionEngine';
+import { ModelRegistry } from './modelRegistry';
+import { ScoringResultAdapter } from './scoringResultAdapter';
+import { ScoringEnvironment } from './scoringEnvironment';
+
+export interface ScoringInput {
+  claim: BenefitsClaim;
+  claimant: ClaimantProfile;
+  employer?: EmployerRecord;
+  contextData: Record<string, unknown>;
+}
+
+export interface ScoringRunOptions {
+  // Stages switched off for this run are recorded as skipped
+  stages: Record<ScoringStageName, boolean>;
+  // Ask the flag generation model for extra indicators
+  modelFlags: boolean;
+  // Have the explanation model write the explanation instead of the template
+  modelExplanation: boolean;
+  // Open a fraud case for high-risk claims that need investigation
+  openCases: boolean;
+}
+
+export interface ScoringServices {
+  rules: BusinessRulesEngine;
+  cases: CaseManagementService;
+  models: ModelRegistry;
+  realtime: RealTimeRiskScoring;
+  patterns: PatternDetectionEngine;
+}
+
+export const SCORING_STAGE_LABELS: Record<ScoringStageName, string> = {
+  validate: 'Input validation',
+  features: 'Feature extraction',
+  rules: 'Business rules',
+  ml: 'AI text analysis',
+  crossMatch: 'Cross-matching',
+  realtime: 'Real-time scoring',
+  pattern: 'Pattern detection',
+  decision: 'Decision',
+  explanation: 'Explanation'
+};
+
+const PIPELINE_VERSION = 'PIPELINE_v1.0';
+const PATTERN_ENGINE_VERSION = 'PATTERN_v1.0';
+
+const HIGH_CLAIM_AMOUNT = 10000;
+// Points for a certain cross-match; less sure matches add proportionally fewer
+const CROSS_MATCH_POINTS = 25;
+
+// One claim on its way through the stages
+interface ScoringRun {
+  input: ScoringInput;
+  options: ScoringRunOptions;
+  result: ClaimScoringResult;
+  // Identity graph features, shared by the feature and rules stages
+  network: NetworkFeatures;
+}
+
+interface ScoringStage {
+  name: ScoringStageName;
+  run: (run: ScoringRun) => Promise<void>;
+}
+
+/**
+ * Scores a claim by running it through named stages in a fixed order, each
+ * adding to one ClaimScoringResult. A stage that throws is recorded as
+ * failed and the rest still run; the result is then marked degraded and
+ * sent for manual review.
+ */
+export class ScoringPipeline {
+  static defaultOptions: ScoringRunOptions = {
+    stages: {
+      validate: true,
+      features: true,
+      rules: true,
+      ml: true,
+      crossMatch: true,
+      realtime: true,
+      pattern: true,
+      decision: true,
+      explanation: true
+    },
+    modelFlags: false,
+    modelExplanation: false,
+    openCases: true
+  };
+
+  private stages: ScoringStage[] = [
+    { name: 'validate', run: run => this.validate(run) },
+    { name: 'features', run: run => this.extractFeatures(run) },
+    { name: 'rules', run: run => this.applyRules(run) },
+    { name: 'ml', run: run => this.analyzeText(run) },
+    { name: 'crossMatch', run: run => this.crossMatch(run) },
+    { name: 'realtime', run: run => this.scoreRealTime(run) },
+    { name: 'pattern', run: run => this.detectPatterns(run) },
+    { name: 'decision', run: run => this.decide(run) },
+    { name: 'explanation', run: run => this.explain(run) }
+  ];
+
+  constructor(private services: ScoringServices, private env: ScoringEnvironment) {}
+
+  get stageNames(): ScoringStageName[] {
+    return this.stages.map(stage => stage.name);
+  }
+
+  async score(input: ScoringInput, options: Partial<ScoringRunOptions> = {}): Promise<ClaimScoringResult> {
+    const runOptions: ScoringRunOptions = {
+      ...ScoringPipeline.defaultOptions,
+      ...options,
+      stages: { ...ScoringPipeline.defaultOptions.stages, ...options.stages }
+    };
+    const now = this.env.clock.now();
+
+    // History lookups see this claim even if it was never indexed
+    this.env.history.record(
+      input.claim,
+      input.claimant,
+      CrossMatcher.identityOf(input.claim, input.claimant, input.contextData, input.employer)
+    );
+
+    const run: ScoringRun = {
+      input,
+      options: runOptions,
+      network: this.env.graph.featuresFor(input.claim.claimId),
+      result: {
+        resultId: `RISK_${input.claim.claimId}_${now.getTime()}`,
+        claimId: input.claim.claimId,
+        claimantId: input.claimant.claimantId,
+        scoredAt: now.toISOString(),
+        validationIssues: [],
+        features: {},
+        riskScore: 0,
+        fraudProbability: 0,
+        riskLevel: 'LOW',
+        riskFactors: [],
+        contributions: [],
+        engineScores: [],
+        crossMatches: [],
+        emergingThreats: [],
+        modelFlags: [],
+        recommendedActions: [],
+        requiresInvestigation: false,
+        autoApprovalEligible: false,
+        explanation: '',
+        confidence: 0,
+        modelVersion: PIPELINE_VERSION,
+        provenance: [],
+        degraded: false,
+        stages: []
+      }
+    };
+
+    for (const stage of this.stages) {
+      await this.runStage(stage, run);
+    }
+
+    run.result.degraded = run.result.provenance.some(part => part.source === 'FALLBACK');
+    return run.result;
+  }
+
+  private async runStage(stage: ScoringStage, run: ScoringRun): Promise<void> {
+    if (!run.options.stages[stage.name]) {
+      run.result.stages.push({ stage: stage.name, status: 'SKIPPED', durationMs: 0 });
+      return;
+    }
+
+    const startedAt = this.env.clock.now().getTime();
+    try {
+      await stage.run(run);
+      run.result.stages.push({
+        stage: stage.name,
+        status: 'COMPLETED',
+        durationMs: this.env.clock.now().getTime() - startedAt
+      });
+    } catch (error) {
+      console.error(`Scoring stage ${stage.name} failed for claim ${run.result.claimId}:`, error);
+      const message = error instanceof Error ? error.message : String(error);
+      run.result.stages.push({
+        stage: stage.name,
+        status: 'FAILED',
+        durationMs: this.env.clock.now().getTime() - startedAt,
+        error: message
+      });
+      run.result.provenance.push({
+        component: SCORING_STAGE_LABELS[stage.name],
+        source: 'FALLBACK',
+        model: PIPELINE_VERSION,
+        error: message
+      });
+    }
+  }
+
+  private async validate({ input, result }: ScoringRun): Promise<void> {
+    const { claim, claimant, employer, contextData } = input;
+    // Converted claims carry placeholders for missing values; check the original row
+    const row = contextData.legacy_claim_data as Partial<ClaimData> | undefined;
+    const required: Record<string, unknown> = row
+      ? {
+          'Claim ID': row.Claim_ID,
+          'Claimant ID': row.Claimant_ID,
+          'Name': row.Name,
+          'Date of Birth': row.DOB,
+          'SSN Hash': row.SSN_Hash,
+          'Email': row.Email,
+          'Phone': row.Phone,
+          'Employer Name': row.Employer_Name
+        }
+      : {
+          'Claim ID': claim.claimId,
+          'Claimant ID': claimant.claimantId,
+          'Name': `${claimant.firstName} ${claimant.lastName}`.trim(),
+          'Date of Birth': claimant.dateOfBirth,
+          'SSN Hash': claimant.ssn,
+          'Email': claimant.emailAddress,
+          'Phone': claimant.phoneNumber,
+          'Employer Name': employer?.legalName
+        };
+
+    result.validationIssues = Object.entries(required)
+      .filter(([, value]) => !value)
+      .map(([field]) => `Missing ${field}`);
+    if (claim.maximumBenefitAmount > HIGH_CLAIM_AMOUNT) {
+      result.validationIssues.push('High Claim Amount');
+    }
+  }
+
+  private async extractFeatures({ input, result, network }: ScoringRun): Promise<void> {
+    const { claim, claimant, contextData } = input;
+    const history = this.env.history;
+    const crossReference = (contextData.cross_reference_flags || {}) as Record<string, unknown>;
+
+    const features: Record<string, unknown> = {
+      claim_amount: claim.maximumBenefitAmount,
+      weekly_benefit_amount: claim.weeklyBenefitAmount,
+      ssn_claims_365d: history.ssnUsageCount(claimant.ssn, claim.createdDate, 365),
+      claimant_claims_30d: history.claimantClaimCount(claimant.claimantId, claim.createdDate, 30),
+      justification_length: String(contextData.justification_text || '').length,
+      identity_score: contextData.identity_score,
+      employer_risk_score: contextData.employer_risk_score,
+      geographic_risk_score: contextData.geographic_risk_score,
+      bank_account_age_months: contextData.bank_account_age_months,
+      employment_gap_months: contextData.employment_gap_months,
+      document_count: contextData.document_count,
+      address_count: contextData.address_count,
+      previous_employer_count: contextData.previous_employer_count,
+      application_behavior_score: contextData.application_behavior_score,
+      session_duration_minutes: contextData.session_duration_minutes,
+      family_members_claims: crossReference.family_members_claims,
+      shared_address_count: crossReference.shared_address_count,
+      shared_phone_count: crossReference.shared_phone_count,
+      ...network
+    };
+
+    // Only values the claim actually has
+    result.features = Object.fromEntries(
+      Object.entries(features).filter(([, value]) => typeof value === 'number' && isFinite(value))
+    ) as Record<string, number>;
+  }
+
+  private async applyRules({ input, result, network }: ScoringRun): Promise<void> {
+    const assessment = await this.services.rules.evaluateRules(
+      input.claim,
+      input.claimant,
+      input.employer,
+      input.contextData,
+      network
+    );
+
+    this.addEngineScore(result, 'rules', assessment.overallRiskScore, assessment.contributions ?? []);
+    result.riskFactors.push(...assessment.riskFactors);
+    result.recommendedActions = assessment.recommendedActions;
+    result.requiresInvestigation = assessment.requiresInvestigation;
+    result.autoApprovalEligible = assessment.autoApprovalEligible;
+    result.confidence = assessment.confidenceScore;
+    result.provenance.push(...assessment.provenance);
+  }
+
+  private async analyzeText({ input, options, result }: ScoringRun): Promise<void> {
+    const { models } = this.services;
+    const justificationText = String(input.contextData.justification_text || '');
+
+    if (justificationText) {
+      // Use AI to analyze justification text for fraud indicators
+      const { value: scores, provenance } = await models.classify('fraudClassification', justificationText);
+      const fraudScore = ModelRegistry.scoreOf(scores, 'FRAUD');
+      result.provenance.push(provenance);
+
+      if (fraudScore > 0.5) {
+        const impact = Math.floor(fraudScore * 100);
+        result.riskScore += impact;
+        result.contributions.push({
+          contributionId: 'AI_TEXT_ANALYSIS',
+          source: 'MODEL',
+          label: 'AI text analysis',
+          points: impact,
+          evidence: [
+            { name: 'fraud_confidence', value: fraudScore },
+            { name: 'model', value: provenance.model },
+            { name: 'source', value: provenance.source }
+          ]
+        });
+        result.riskFactors.push({
+          factorId: 'AI_TEXT_ANALYSIS',
+          factorName: 'AI Text Analysis - Fraud Indicators',
+          category: 'AI_ANALYSIS',
+          impact,
+          confidence: fraudScore,
+          description: 'AI model detected potential fraud indicators in claim justification',
+          evidence: [
+            `AI fraud confidence: ${(fraudScore * 100).toFixed(1)}%`,
+            ...(provenance.source === 'FALLBACK' ? ['Scored by the offline stub; the model was unavailable'] : [])
+          ]
+        });
+      }
+    }
+
+    if (options.modelFlags) {
+      const claimDetails = JSON.stringify(input.contextData.legacy_claim_data ?? input.claim);
+      const prompt = `Identify potential fraud indicators in the following claim: ${claimDetails}. Focus on inconsistencies and suspicious details.`;
+      const { value: generated, provenance } = await models.generate('flagGeneration', prompt);
+      result.provenance.push(provenance);
+      result.modelFlags = generated.split(',').map(flag => flag.trim()).filter(Boolean);
+    }
+  }
+
+  private async crossMatch({ input, result }: ScoringRun): Promise<void> {
+    const crossMatches = await this.services.cases.performCrossMatch(input.claimant.claimantId);
+    result.crossMatches = crossMatches;
+    if (crossMatches.length === 0) return;
+
+    // A match counts in proportion to how sure it is
+    const points = crossMatches.map(match => Math.round(CROSS_MATCH_POINTS * match.matchConfidence));
+    const total = points.reduce((sum, value) => sum + value, 0);
+    result.riskFactors.push({
+      factorId: 'CROSS_MATCH',
+      factorName: 'Cross-System Matches Found',
+      category: 'CROSS_REFERENCE',
+      impact: total,
+      confidence: Math.max(...crossMatches.map(match => match.matchConfidence)),
+      description: `Found ${crossMatches.length} potential matches across systems`,
+      evidence: crossMatches.map(m => `${m.sourceType}: ${m.matchType} match`)
+    });
+    crossMatches.forEach((match, index) => {
+      result.contributions.push({
+        contributionId: `CROSS_MATCH_${match.matchId}`,
+        source: 'CROSS_MATCH',
+        label: `${match.sourceType} cross-match`,
+        points: points[index],
+        evidence: [
+          { name: 'match_type', value: match.matchType },
+          { name: 'match_confidence', value: match.matchConfidence },
+          { name: 'related_entities', value: match.relatedEntities.length }
+        ]
+      });
+    });
+    result.riskScore += total;
+  }
+
+  // Behavioral, risk pattern and anomaly scoring of this claim on its own
+  private async scoreRealTime(run: ScoringRun): Promise<void> {
+    const { input, result } = run;
+    const assessment = await this.services.realtime.scoreRiskRealTime(
+      input.claim,
+      input.claimant,
+      this.realTimeContext(run)
+    );
+    result.emergingThreats = assessment.emergingThreats ?? [];
+    result.features.realtime_risk_score = assessment.overallRiskScore;
+    this.addEngineScore(result, 'realtime', assessment.overallRiskScore, assessment.contributions ?? []);
+    result.provenance.push(...assessment.provenance);
+  }
+
+  // What the real-time scorer checks, from the claim history, the claim's
+  // cross-matches and the row it was loaded from
+  private realTimeContext({ input, result }: ScoringRun): RealTimeContext {
+    const { claim, claimant, contextData } = input;
+    const sharedWith = (sourceType: CrossMatchResult['sourceType']) => new Set(
+      result.crossMatches
+        .filter(match => match.sourceType === sourceType)
+        .flatMap(match => match.relatedEntities)
+        .filter(entity => entity.entityType === 'CLAIMANT')
+        .map(entity => entity.entityId)
+    ).size;
+    // Both 0-100, where higher is more normal
+    const behaviorScore = contextData.application_behavior_score;
+    const identityScore = contextData.identity_score;
+
+    return {
+      recentClaims: this.env.history.claimantEntries(claimant.claimantId)
+        .filter(entry => entry.claimId !== claim.claimId && !isNaN(entry.filedAt))
+        .map(entry => ({ createdDate: new Date(entry.filedAt).toISOString() })),
+      crossReferenceFlags: {
+        shared_address_count: sharedWith('ADDRESS'),
+        shared_phone_count: sharedWith('PHONE')
+      },
+      deviceMetrics: typeof behaviorScore === 'number' ? { unusualBehavior: 1 - behaviorScore / 100 } : undefined,
+      identityVerification: typeof identityScore === 'number' ? { syntheticScore: 1 - identityScore / 100 } : undefined
+    };
+  }
+
+  // Schemes and clusters found across the batch the claim was indexed with
+  private async detectPatterns({ input, result }: ScoringRun): Promise<void> {
+    const patternScore = this.services.patterns.scoreFor(input.claim.claimId);
+    // Scored outside a batch, so there was nothing to compare it against
+    if (!patternScore) return;
+
+    result.features.pattern_risk_score = patternScore.score;
+    this.addEngineScore(result, 'pattern', patternScore.score, patternScore.contributions);
+    result.provenance.push({ component: 'Pattern detection', source: 'RULES', model: PATTERN_ENGINE_VERSION });
+  }
+
+  // Adds an engine's points at its ensemble weight, keeping the attribution exact
+  private addEngineScore(
+    result: ClaimScoringResult,
+    engine: EnsembleEngineName,
+    score: number,
+    contributions: ScoreContribution[]
+  ): void {
+    const { ensemble } = this.env;
+    const weighted = contributions
+      .map(contribution => ({ ...contribution, points: ensemble.weigh(engine, contribution.points) }))
+      .filter(contribution => contribution.points !== 0);
+    const points = weighted.reduce((sum, contribution) => sum + contribution.points, 0);
+
+    result.contributions.push(...weighted);
+    result.riskScore += points;
+    result.engineScores.push({ engine, score, weight: ensemble.weightOf(engine), points });
+  }
+
+  private async decide(run: ScoringRun): Promise<void> {
+    const { input, options, result } = run;
+    const capped = Math.min(1000, Math.max(0, result.riskScore));
+    if (capped !== result.riskScore) {
+      // Keeps the contributions summing to the score
+      result.contributions.push({
+        contributionId: 'SCORE_CAP',
+        source: 'ADJUSTMENT',
+        label: 'Score cap',
+        points: capped - result.riskScore,
+        evidence: [{ name: 'uncapped_score', value: result.riskScore }]
+      });
+      result.riskScore = capped;
+    }
+    const { calibration } = this.env;
+    result.fraudProbability = calibration.probability(result.riskScore);
+    result.riskLevel = calibration.levelForProbability(result.fraudProbability);
+    // The other engines can raise a claim the rules alone would have cleared
+    if (result.riskLevel !== 'LOW') result.autoApprovalEligible = false;
+
+    // A claim not fully scored cannot be cleared automatically
+    const failed = result.stages.filter(stage => stage.status === 'FAILED');
+    if (failed.length > 0) {
+      result.riskFactors.push(this.systemErrorFactor(failed.map(stage => SCORING_STAGE_LABELS[stage.stage])));
+      result.requiresInvestigation = true;
+      result.autoApprovalEligible = false;
+      result.recommendedActions = [...result.recommendedActions, 'Manual review required due to system error'];
+    }
+
+    if (
+      options.openCases &&
+      result.requiresInvestigation &&
+      (result.riskLevel === 'HIGH' || result.riskLevel === 'CRITICAL')
+    ) {
+      const fraudCase = await this.services.cases.createFraudCase(
+        ScoringResultAdapter.toRiskAssessment(result),
+        input.claim,
+        input.claimant,
+        'FRAUD_DETECTION_SYSTEM'
+      );
+      result.caseId = fraudCase.caseId;
+    }
+  }
+
+  private async explain({ input, options, result }: ScoringRun): Promise<void> {
+    const template = this.describeContributions(result.riskScore, result.contributions);
+    result.explanation = template;
+    if (!options.modelExplanation) return;
+
+    const score = result.fraudProbability;
+    const flags = ScoringResultAdapter.flagsOf(result);
+    const claimDetails = JSON.stringify(input.contextData.legacy_claim_data ?? input.claim);
+    const prompt = `Explain why the following claim has a fraud score of ${score} and the following flags: ${flags.join(', ')}. Claim details: ${claimDetails}`;
+    const { value: generated, provenance } = await this.services.models.generate('explanation', prompt);
+    result.provenance.push(provenance);
+    // The offline stub writes nothing, so the template stands
+    if (generated) result.explanation = generated;
+  }
+
+  // e.g. "Scored 100 points: Duplicate SSN Usage +75 (ssn_usage_count = 2); SSN cross-match +25 (...)"
+  private describeContributions(score: number, contributions: ScoreContribution[]): string {
+    if (contributions.length === 0) return `Scored ${score} points: no rule, model or match added risk`;
+    const parts = contributions.map(contribution => {
+      const sign = contribution.points >= 0 ? '+' : '';
+      const evidence = contribution.evidence.map(item => `${item.name} = ${item.value}`).join(', ');
+      return `${contribution.label} ${sign}${contribution.points}${evidence ? ` (${evidence})` : ''}`;
+    });
+    return `Scored ${score} points: ${parts.join('; ')}`;
+  }
+
+  private systemErrorFactor(failedStages: string[]): RiskFactor {
+    return {
+      factorId: 'SYSTEM_ERROR',
+      factorName: 'Analysis System Error',
+      category: 'TECHNICAL',
+      impact: 0,
+      confidence: 0,
+      description: 'Fraud analysis system encountered an error',
+      evidence: failedStages.map(stage => `${stage} stage failed`)
+    };
+  }
+}
@@ -0,0 +1,58 @@
+import { ClaimScoringResult, RiskAssessmentResult } from '@/types/enterprise';
+import { FraudAnalysis } from '../types/fraud';
+import { RISK_LEVEL_LABELS } from './scoreCalibration';
+
+/**
+ * Converts the pipeline's ClaimScoringResult into the older result shapes
+ * still read by the case management service and the dashboard.
+ */
+export class ScoringResultAdapter {
+  static toRiskAssessment(result: ClaimScoringResult): RiskAssessmentResult {
+    return {
+      assessmentId: result.resultId,
+      claimId: result.claimId,
+      claimantId: result.claimantId,
+      assessmentDate: result.scoredAt,
+      overallRiskScore: result.riskScore,
+      riskLevel: result.riskLevel,
+      riskFactors: result.riskFactors,
+      recommendedActions: result.recommendedActions,
+      requiresInvestigation: result.requiresInvestigation,
+      autoApprovalEligible: result.autoApprovalEligible,
+      modelVersion: result.modelVersion,
+      confidenceScore: result.confidence,
+      processingTimeMs: result.stages.reduce((sum, stage) => sum + stage.durationMs, 0),
+      emergingThreats: result.emergingThreats,
+      provenance: result.provenance,
+      degraded: result.degraded,
+      contributions: result.contributions
+    };
+  }
+
+  static toFraudAnalysis(result: ClaimScoringResult): FraudAnalysis {
+    return {
+      claim_id: result.claimId,
+      fraud_score: result.fraudProbability,
+      fraud_label: RISK_LEVEL_LABELS[result.riskLevel],
+      risk_points: result.riskScore,
+      contributions: result.contributions,
+      engine_scores: result.engineScores,
+      explanation: result.explanation,
+      flags: this.flagsOf(result),
+      recommendation: result.recommendedActions.join('; '),
+      confidence: result.confidence,
+      analyzed_at: result.scoredAt,
+      provenance: result.provenance,
+      degraded: result.degraded
+    };
+  }
+
+  // Everything worth flagging to a reviewer, input problems first
+  static flagsOf(result: ClaimScoringResult): string[] {
+    return [
+      ...result.validationIssues,
+      ...result.riskFactors.map(f => f.factorName),
+      ...result.modelFlags
+    ];
+  }
+}
@@ -0,0 +1,52 @@
+import Papa from 'papaparse';
+import { describe, expect, it } from 'vitest';
+import { CSVParser } from './csvParser';
+import { SyntheticClaimGenerator, SyntheticDatasetOptions } from './syntheticClaimGenerator';
+
+const generate = (options: Partial<SyntheticDatasetOptions> = {}) =>
+  new SyntheticClaimGenerator({ ...SyntheticClaimGenerator.defaultOptions, claimCount: 500, ...options }).generate();
+
+describe('SyntheticClaimGenerator', () => {
+  it('generates the same dataset from the same seed', () => {
+    expect(generate({ seed: 7 })).toEqual(generate({ seed: 7 }));
+    expect(generate({ seed: 7 }).rows).not.toEqual(generate({ seed: 8 }).rows);
+  });
+
+  it('injects each scheme at its rate, in labeled groups', () => {
+    const { rows, labelCounts, groupCount } = generate({
+      schemeRates: { IDENTITY_RING: 0.04, EMPLOYER_COLLUSION: 0.04, SYNTHETIC_IDENTITY: 0.02, BOT_CADENCE: 0.02, DISPOSABLE_EMAIL: 0 }
+    });
+
+    expect(labelCounts).toEqual({
+      LEGITIMATE: 440,
+      IDENTITY_RING: 20,
+      EMPLOYER_COLLUSION: 20,
+      SYNTHETIC_IDENTITY: 10,
+      BOT_CADENCE: 10,
+      DISPOSABLE_EMAIL: 0
+    });
+    const groups = new Set(rows.filter(row => row.Ground_Truth_Label !== 'LEGITIMATE').map(row => row.Ground_Truth_Group));
+    expect(groups.size).toBe(groupCount);
+  });
+
+  it('files claims within the date range, numbered in filing order', () => {
+    const { rows } = generate({ startDate: '2024-02-01', endDate: '2024-02-29' });
+    const dates = rows.map(row => row.Claim_Date);
+
+    expect(dates).toEqual([...dates].sort());
+    expect(dates[0] >= '2024-02-01').toBe(true);
+    expect(dates[dates.length - 1] < '2024-03-01').toBe(true);
+    expect(rows.slice(0, 2).map(row => row.Claim_ID)).toEqual(['CLM-000001', 'CLM-000002']);
+  });
+
+  it('writes a CSV the parser reads back into the same rows', () => {
+    const { rows } = generate({ claimCount: 50 });
+    const parsed = Papa.parse<Record<string, unknown>>(SyntheticClaimGenerator.toCSV(rows), { header: true, skipEmptyLines: true });
+    // An empty list is written as an empty cell, which reads back as no value
+    const written = rows.map(row =>
+      Object.fromEntries(Object.entries(row).filter(([, value]) => !(Array.isArray(value) && value.length === 0)))
+    );
+
+    expect(parsed.data.map(row => CSVParser.cleanRow(row))).toEqual(written);
+  });
+});
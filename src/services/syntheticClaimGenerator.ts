@@ -0,0 +1,579 @@
+import Papa from 'papaparse';
+import { createSeededRandom } from '../lib/random';
+import {
+  DocumentType,
+  EnterpriseClaimRow,
+  FraudScheme,
+  GroundTruthLabel,
+  LoginPattern,
+  PaymentMethod,
+  RiskTier
+} from '../types/fraud';
+import { Address } from '../types/enterprise';
+import { CSVParser } from './csvParser';
+import { EnterpriseClaimSchema } from './enterpriseClaimSchema';
+
+export interface SyntheticDatasetOptions {
+  claimCount: number;
+  seed: number;
+  // Claim dates fall between these, inclusive (YYYY-MM-DD)
+  startDate: string;
+  endDate: string;
+  // Share of all claims injected as each scheme, 0 to 1
+  schemeRates: Record<FraudScheme, number>;
+}
+
+export interface SyntheticDataset {
+  rows: EnterpriseClaimRow[];
+  labelCounts: Record<GroundTruthLabel, number>;
+  groupCount: number;
+}
+
+export const FRAUD_SCHEME_LABELS: Record<FraudScheme, string> = {
+  IDENTITY_RING: 'Identity rings sharing IP/device',
+  EMPLOYER_COLLUSION: 'Employer collusion bursts',
+  SYNTHETIC_IDENTITY: 'Synthetic identities',
+  BOT_CADENCE: 'Bot-cadence filing',
+  DISPOSABLE_EMAIL: 'Disposable-email clusters'
+};
+
+// Claims per injected group, inclusive
+const GROUP_SIZES: Record<FraudScheme, [number, number]> = {
+  IDENTITY_RING: [4, 8],
+  EMPLOYER_COLLUSION: [8, 15],
+  SYNTHETIC_IDENTITY: [1, 3],
+  BOT_CADENCE: [6, 12],
+  DISPOSABLE_EMAIL: [5, 10]
+};
+
+const FIRST_NAMES = [
+  'James', 'Mary', 'Robert', 'Patricia', 'John', 'Jennifer', 'Michael', 'Linda', 'David', 'Elizabeth',
+  'William', 'Barbara', 'Richard', 'Susan', 'Joseph', 'Jessica', 'Thomas', 'Sarah', 'Carlos', 'Karen',
+  'Daniel', 'Lisa', 'Matthew', 'Nancy', 'Anthony', 'Maria', 'Mark', 'Sandra', 'Luis', 'Ashley',
+  'Steven', 'Kimberly', 'Andrew', 'Emily', 'Kevin', 'Donna', 'Brian', 'Michelle', 'Wei', 'Aisha'
+];
+
+const LAST_NAMES = [
+  'Smith', 'Johnson', 'Williams', 'Brown', 'Jones', 'Garcia', 'Miller', 'Davis', 'Rodriguez', 'Martinez',
+  'Hernandez', 'Lopez', 'Gonzalez', 'Wilson', 'Anderson', 'Thomas', 'Taylor', 'Moore', 'Jackson', 'Martin',
+  'Lee', 'Perez', 'Thompson', 'White', 'Harris', 'Sanchez', 'Clark', 'Ramirez', 'Lewis', 'Robinson',
+  'Walker', 'Young', 'Allen', 'King', 'Wright', 'Scott', 'Nguyen', 'Hill', 'Chen', 'Patel'
+];
+
+const EMAIL_DOMAINS = ['gmail.com', 'yahoo.com', 'outlook.com', 'icloud.com', 'aol.com', 'email.com', 'hotmail.com'];
+const DISPOSABLE_DOMAINS = ['tempmail.com', '10minutemail.com', 'guerrillamail.com', 'mailinator.com', 'throwawaymail.com'];
+
+const CITIES: { city: string; state: string; zipPrefix: string; areaCodes: string[] }[] = [
+  { city: 'New York', state: 'NY', zipPrefix: '100', areaCodes: ['212', '646', '718'] },
+  { city: 'Los Angeles', state: 'CA', zipPrefix: '900', areaCodes: ['213', '310', '323'] },
+  { city: 'Chicago', state: 'IL', zipPrefix: '606', areaCodes: ['312', '773'] },
+  { city: 'Houston', state: 'TX', zipPrefix: '770', areaCodes: ['713', '832'] },
+  { city: 'Phoenix', state: 'AZ', zipPrefix: '850', areaCodes: ['602', '480'] },
+  { city: 'Philadelphia', state: 'PA', zipPrefix: '191', areaCodes: ['215', '267'] },
+  { city: 'Columbus', state: 'OH', zipPrefix: '432', areaCodes: ['614'] },
+  { city: 'Atlanta', state: 'GA', zipPrefix: '303', areaCodes: ['404', '678'] },
+  { city: 'Seattle', state: 'WA', zipPrefix: '981', areaCodes: ['206'] },
+  { city: 'Miami', state: 'FL', zipPrefix: '331', areaCodes: ['305', '786'] }
+];
+
+const STREETS = ['Main', 'Oak', 'Pine', 'Maple', 'Cedar', 'Elm', 'Washington', 'Lake', 'Hill', 'Park', 'River', 'Sunset'];
+const STREET_SUFFIXES = ['St', 'Ave', 'Rd', 'Blvd', 'Ln', 'Dr', 'Ct'];
+
+const EMPLOYER_PREFIXES = [
+  'Summit', 'Riverside', 'Pioneer', 'Keystone', 'Atlas', 'Harbor', 'Evergreen', 'Northwind', 'Bluebird', 'Granite',
+  'Liberty', 'Cascade', 'Meridian', 'Redwood', 'Silverline', 'Horizon'
+];
+const EMPLOYER_INDUSTRIES: { suffix: string; industryRisk: RiskTier }[] = [
+  { suffix: 'Manufacturing', industryRisk: 'MEDIUM' },
+  { suffix: 'Health Services', industryRisk: 'LOW' },
+  { suffix: 'Logistics', industryRisk: 'MEDIUM' },
+  { suffix: 'Retail Group', industryRisk: 'MEDIUM' },
+  { suffix: 'Software', industryRisk: 'LOW' },
+  { suffix: 'Restaurants', industryRisk: 'HIGH' },
+  { suffix: 'Construction', industryRisk: 'HIGH' },
+  { suffix: 'Hospitality', industryRisk: 'HIGH' }
+];
+const SHELL_EMPLOYER_NAMES = ['Staffing Solutions', 'Consulting Group', 'Enterprises', 'Holdings', 'Workforce Partners'];
+
+const SEPARATIONS: { status: string; reason: string; texts: string[] }[] = [
+  {
+    status: 'Laid Off',
+    reason: 'LAYOFF',
+    texts: ['Laid off due to company downsizing', 'Position eliminated in reduction in force', 'Laid off after loss of major contract']
+  },
+  {
+    status: 'Terminated',
+    reason: 'BUSINESS_CLOSURE',
+    texts: ['Business closed permanently', 'Location shut down', 'Company ceased operations']
+  },
+  {
+    status: 'Terminated',
+    reason: 'RESTRUCTURING',
+    texts: ['Position eliminated due to restructuring', 'Department merged and role removed']
+  },
+  { status: 'Terminated', reason: 'SEASONAL', texts: ['Seasonal work ended', 'End of seasonal contract'] },
+  { status: 'Terminated', reason: 'CONTRACT_END', texts: ['Temporary contract ended', 'Fixed-term assignment completed'] },
+  { status: 'Reduced Hours', reason: 'REDUCED_HOURS', texts: ['Hours cut from full-time to part-time', 'Shifts reduced due to low demand'] }
+];
+
+const LEGITIMATE_DOCUMENTS: DocumentType[] = ['DRIVER_LICENSE', 'STATE_ID', 'PASSPORT', 'SOCIAL_SECURITY_CARD', 'W2_FORM', 'PAY_STUB'];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const emptySchemeCounts = (): Record<FraudScheme, number> => ({
+  IDENTITY_RING: 0,
+  EMPLOYER_COLLUSION: 0,
+  SYNTHETIC_IDENTITY: 0,
+  BOT_CADENCE: 0,
+  DISPOSABLE_EMAIL: 0
+});
+
+interface Employer {
+  name: string;
+  riskScore: number;
+  industryRisk: RiskTier;
+  auditHistory: 'PASSED' | 'REVIEW' | 'FAILED' | 'INVESTIGATION';
+  massLayoff: boolean;
+  // Relative share of legitimate claims
+  weight: number;
+}
+
+interface Person {
+  name: string;
+  dob: string;
+  ssnHash: string;
+  email: string;
+  phone: string;
+  address: Address;
+  location: string;
+}
+
+/**
+ * Seeded generator for benchmark datasets: legitimate claims drawn from
+ * plausible distributions, with labeled fraud schemes injected at
+ * configurable rates. The same options always produce the same file.
+ */
+export class SyntheticClaimGenerator {
+  static defaultOptions: SyntheticDatasetOptions = {
+    claimCount: 1000,
+    seed: 42,
+    startDate: '2024-01-01',
+    endDate: '2024-06-30',
+    schemeRates: {
+      IDENTITY_RING: 0.02,
+      EMPLOYER_COLLUSION: 0.02,
+      SYNTHETIC_IDENTITY: 0.02,
+      BOT_CADENCE: 0.02,
+      DISPOSABLE_EMAIL: 0.02
+    }
+  };
+
+  private random: () => number;
+  private employers: Employer[];
+  private totalEmployerWeight: number;
+  private start: number;
+  private span: number;
+  private claimantCount = 0;
+  private groupCounts = emptySchemeCounts();
+
+  constructor(private options: SyntheticDatasetOptions = SyntheticClaimGenerator.defaultOptions) {
+    this.random = createSeededRandom(options.seed);
+    this.start = Date.parse(`${options.startDate}T00:00:00Z`);
+    this.span = Math.max(Date.parse(`${options.endDate}T00:00:00Z`) - this.start + DAY_MS, DAY_MS);
+    this.employers = this.buildEmployers(40);
+    this.totalEmployerWeight = this.employers.reduce((sum, employer) => sum + employer.weight, 0);
+  }
+
+  generate(): SyntheticDataset {
+    const { claimCount, schemeRates } = this.options;
+    const rows: EnterpriseClaimRow[] = [];
+
+    for (const scheme of Object.keys(FRAUD_SCHEME_LABELS) as FraudScheme[]) {
+      const target = Math.min(Math.round(claimCount * (schemeRates[scheme] || 0)), claimCount - rows.length);
+      let injected = 0;
+      while (injected < target) {
+        const [min, max] = GROUP_SIZES[scheme];
+        const group = this.injectScheme(scheme, Math.min(this.int(min, max), target - injected));
+        rows.push(...group);
+        injected += group.length;
+      }
+    }
+
+    while (rows.length < claimCount) {
+      rows.push(this.legitimateClaim());
+    }
+
+    // Number claims in filing order so IDs and row order give nothing away
+    rows.sort((a, b) => a.Claim_Date.localeCompare(b.Claim_Date));
+    rows.forEach((row, index) => {
+      row.Claim_ID = `CLM-${String(index + 1).padStart(6, '0')}`;
+    });
+
+    const labelCounts = { LEGITIMATE: 0, ...emptySchemeCounts() } as Record<GroundTruthLabel, number>;
+    rows.forEach(row => labelCounts[row.Ground_Truth_Label]++);
+
+    return {
+      rows,
+      labelCounts,
+      groupCount: Object.values(this.groupCounts).reduce((sum, count) => sum + count, 0)
+    };
+  }
+
+  /**
+   * CSV in the enterprise extract layout, with the two ground-truth columns
+   * last. List columns are written pipe-delimited.
+   */
+  static toCSV(rows: EnterpriseClaimRow[]): string {
+    const fields = [
+      ...CSVParser.requiredHeaders,
+      'Justification_Text',
+      ...EnterpriseClaimSchema.headers,
+      ...CSVParser.groundTruthHeaders
+    ];
+    const data = rows.map(row => ({
+      ...row,
+      ...Object.fromEntries(
+        EnterpriseClaimSchema.columns.map(column => [column.name, EnterpriseClaimSchema.toText(column, row[column.name])])
+      )
+    }));
+    return Papa.unparse({ fields, data });
+  }
+
+  private injectScheme(scheme: FraudScheme, size: number): EnterpriseClaimRow[] {
+    this.groupCounts[scheme]++;
+    const group = `${scheme}-${String(this.groupCounts[scheme]).padStart(3, '0')}`;
+    const claims = this.buildScheme(scheme, size);
+    return claims.map(claim => ({ ...claim, Ground_Truth_Label: scheme, Ground_Truth_Group: group }));
+  }
+
+  private buildScheme(scheme: FraudScheme, size: number): EnterpriseClaimRow[] {
+    switch (scheme) {
+      case 'IDENTITY_RING': return this.identityRing(size);
+      case 'EMPLOYER_COLLUSION': return this.employerCollusion(size);
+      case 'SYNTHETIC_IDENTITY': return this.syntheticIdentities(size);
+      case 'BOT_CADENCE': return this.botCadence(size);
+      case 'DISPOSABLE_EMAIL': return this.disposableEmailCluster(size);
+    }
+  }
+
+  // Distinct identities filed from one device and IP within a week, often
+  // from the same address
+  private identityRing(size: number): EnterpriseClaimRow[] {
+    const ip = this.ipAddress();
+    const deviceId = this.deviceId();
+    const fingerprint = this.fingerprint();
+    const sharedAddress = this.person().address;
+    const windowStart = this.dateInRange();
+
+    return Array.from({ length: size }, () => {
+      const claim = this.legitimateClaim(this.timestampNear(windowStart, 7 * DAY_MS));
+      const sharesAddress = this.chance(0.7);
+      return {
+        ...claim,
+        IP_Address: ip,
+        Device_ID: deviceId,
+        Device_Fingerprint: fingerprint,
+        Address_History: sharesAddress ? [sharedAddress, ...claim.Address_History.slice(1)] : claim.Address_History,
+        Shared_Address_Count: sharesAddress ? size : claim.Shared_Address_Count,
+        Known_Associates_Risk: this.pick<RiskTier>(['MEDIUM', 'HIGH', 'HIGH']),
+        Login_Pattern_Analysis: this.pick<LoginPattern>(['NORMAL', 'ABNORMAL', 'SUSPICIOUS']),
+        Claim_Amount: String(Math.round(Number(claim.Wage_Reported) * this.uniform(0.28, 0.32)))
+      };
+    });
+  }
+
+  // A burst of claims from one little-known employer over a few days, with
+  // inflated, near-identical wages and the same story
+  private employerCollusion(size: number): EnterpriseClaimRow[] {
+    const employerName = `${this.pick(EMPLOYER_PREFIXES)} ${this.pick(SHELL_EMPLOYER_NAMES)} LLC`;
+    const wage = this.int(80, 110) * 1000;
+    const justification = this.pick(SEPARATIONS[0].texts);
+    const windowStart = this.dateInRange();
+    const riskScore = this.int(65, 95);
+    const auditHistory = this.pick<Employer['auditHistory']>(['REVIEW', 'FAILED', 'INVESTIGATION']);
+
+    return Array.from({ length: size }, () => {
+      const claim = this.legitimateClaim(this.timestampNear(windowStart, 3 * DAY_MS));
+      const wageReported = Math.round((wage * this.uniform(0.98, 1.02)) / 100) * 100;
+      return {
+        ...claim,
+        Employer_Name: employerName,
+        Employment_Status: 'Laid Off',
+        Termination_Reason_Code: 'LAYOFF',
+        Justification_Text: justification,
+        Wage_Reported: String(wageReported),
+        Claim_Amount: String(Math.round(wageReported * 0.3)),
+        Previous_Employers: [employerName],
+        Employment_History_Verified: this.chance(0.2),
+        Employer_Risk_Score: riskScore,
+        Industry_Risk_Level: 'HIGH' as RiskTier,
+        Employer_Audit_History: auditHistory,
+        Mass_Layoff_Event: false
+      };
+    });
+  }
+
+  // Fabricated identities built on one SSN, with thin files: no employment
+  // history, new bank accounts and little documentation
+  private syntheticIdentities(size: number): EnterpriseClaimRow[] {
+    const ssnHash = this.hex(12);
+
+    return Array.from({ length: size }, () => {
+      const claim = this.legitimateClaim();
+      const handle = `${this.pick(FIRST_NAMES).toLowerCase()}${this.int(1000, 99999)}`;
+      return {
+        ...claim,
+        SSN_Hash: ssnHash,
+        DOB: this.dateOfBirth(19, 30),
+        Email: `${handle}@${this.pick(['gmail.com', 'outlook.com', 'yahoo.com'])}`,
+        Identity_Verification_Status: this.pick(['PENDING', 'FAILED', 'FAILED'] as const),
+        Identity_Score: this.int(25, 60),
+        Document_Types_Provided: this.chance(0.5) ? [] : [this.pick<DocumentType>(['UTILITY_BILL', 'OTHER'])],
+        Previous_Employers: [],
+        Employment_History_Verified: false,
+        Address_History: claim.Address_History.slice(0, 1),
+        Address_Verification_Status: this.pick(['PENDING', 'FAILED'] as const),
+        Bank_Account_Age_Months: this.int(0, 3),
+        Payment_Method: this.pick<PaymentMethod>(['PREPAID_CARD', 'PREPAID_CARD', 'DIRECT_DEPOSIT']),
+        Financial_Institution_Risk_Level: this.pick<RiskTier>(['MEDIUM', 'HIGH'])
+      };
+    });
+  }
+
+  // One actor scripting applications at a fixed interval, rotating
+  // addresses within a single subnet
+  private botCadence(size: number): EnterpriseClaimRow[] {
+    const subnet = this.ipAddress().split('.').slice(0, 3).join('.');
+    const intervalMs = this.int(60, 180) * 1000;
+    const first = this.dateInRange() + this.int(0, 4) * 60 * 60 * 1000;
+
+    return Array.from({ length: size }, (_, index) => {
+      const filedAt = first + index * intervalMs + this.int(-2, 2) * 1000;
+      const claim = this.legitimateClaim(filedAt);
+      return {
+        ...claim,
+        IP_Address: `${subnet}.${this.int(2, 254)}`,
+        Session_Duration_Minutes: this.int(0, 1),
+        Application_Behavior_Score: this.int(5, 30),
+        Login_Pattern_Analysis: this.pick<LoginPattern>(['SUSPICIOUS', 'HIGHLY_SUSPICIOUS']),
+        Payment_Method: this.pick<PaymentMethod>(['PREPAID_CARD', 'BANK_TRANSFER'])
+      };
+    });
+  }
+
+  // Claims using throwaway mailboxes on one provider, filed over two weeks
+  private disposableEmailCluster(size: number): EnterpriseClaimRow[] {
+    const domain = this.pick(DISPOSABLE_DOMAINS);
+    const windowStart = this.dateInRange();
+
+    return Array.from({ length: size }, () => {
+      const claim = this.legitimateClaim(this.timestampNear(windowStart, 14 * DAY_MS));
+      const [first, last] = claim.Name.toLowerCase().split(' ');
+      return {
+        ...claim,
+        Email: `${first}${last}${this.int(10, 99)}@${domain}`,
+        Bank_Account_Age_Months: this.int(1, 12),
+        Payment_Method: this.pick<PaymentMethod>(['PREPAID_CARD', 'DIRECT_DEPOSIT'])
+      };
+    });
+  }
+
+  private legitimateClaim(filedAt = this.businessHoursTimestamp()): EnterpriseClaimRow {
+    const person = this.person();
+    const employer = this.weightedEmployer();
+    const separation = this.pick(SEPARATIONS);
+    const wage = this.annualWage();
+    const claimAmount = Math.round(wage * this.uniform(0.2, 0.3));
+    const claimantId = `CLT-${String(++this.claimantCount).padStart(6, '0')}`;
+    const previousAddresses = Array.from({ length: this.int(0, 2) }, () => this.person().address);
+
+    return {
+      Claim_ID: '',
+      Claimant_ID: claimantId,
+      Name: person.name,
+      DOB: person.dob,
+      SSN_Hash: person.ssnHash,
+      Email: person.email,
+      Phone: person.phone,
+      IP_Address: this.ipAddress(),
+      Device_ID: this.deviceId(),
+      Employer_Name: employer.name,
+      Employment_Status: separation.status,
+      Wage_Reported: String(wage),
+      Claim_Amount: String(claimAmount),
+      Claim_Date: new Date(filedAt).toISOString().replace(/\.\d{3}Z$/, 'Z'),
+      Justification_Text: this.pick(separation.texts),
+      Identity_Verification_Status: this.chance(0.9) ? 'VERIFIED' : this.pick(['PENDING', 'PENDING', 'FAILED'] as const),
+      Document_Types_Provided: this.sample(LEGITIMATE_DOCUMENTS, this.int(2, 3)),
+      Identity_Score: this.clamp(Math.round(this.normal(88, 6)), 50, 100),
+      Previous_Employers: [employer.name, ...this.sample(this.employers, this.int(0, 2)).map(e => e.name)]
+        .filter((name, index, names) => names.indexOf(name) === index),
+      Employment_History_Verified: this.chance(0.92),
+      Employment_Gap_Months: this.chance(0.7) ? 0 : this.int(1, 6),
+      Termination_Reason_Code: separation.reason,
+      Address_History: [person.address, ...previousAddresses],
+      IP_Geolocation: person.location,
+      Address_Verification_Status: this.chance(0.9) ? 'VERIFIED' : 'PENDING',
+      Geographic_Risk_Score: this.int(5, 40),
+      Bank_Account_Age_Months: this.int(12, 240),
+      Payment_Method: this.pick<PaymentMethod>(['DIRECT_DEPOSIT', 'DIRECT_DEPOSIT', 'BANK_TRANSFER', 'CHECK']),
+      Financial_Institution_Risk_Level: this.chance(0.9) ? 'LOW' : 'MEDIUM',
+      Device_Fingerprint: this.fingerprint(),
+      Login_Pattern_Analysis: this.chance(0.95) ? 'NORMAL' : 'ABNORMAL',
+      Application_Behavior_Score: this.clamp(Math.round(this.normal(85, 7)), 40, 100),
+      Session_Duration_Minutes: this.int(12, 60),
+      Family_Members_Claims: this.chance(0.9) ? 0 : 1,
+      Shared_Address_Count: this.chance(0.85) ? 1 : 2,
+      Shared_Phone_Count: 1,
+      Known_Associates_Risk: this.chance(0.93) ? 'LOW' : 'MEDIUM',
+      Employer_Risk_Score: employer.riskScore,
+      Industry_Risk_Level: employer.industryRisk,
+      Employer_Audit_History: employer.auditHistory,
+      Mass_Layoff_Event: employer.massLayoff,
+      Ground_Truth_Label: 'LEGITIMATE'
+    };
+  }
+
+  private buildEmployers(count: number): Employer[] {
+    const names = new Set<string>();
+    return Array.from({ length: count }, (_, rank) => {
+      const industry = this.pick(EMPLOYER_INDUSTRIES);
+      let name = '';
+      do {
+        name = `${this.pick(EMPLOYER_PREFIXES)} ${industry.suffix}`;
+      } while (names.has(name) && names.size < EMPLOYER_PREFIXES.length * EMPLOYER_INDUSTRIES.length);
+      names.add(name);
+
+      return {
+        name,
+        riskScore: this.int(10, 45),
+        industryRisk: industry.industryRisk,
+        auditHistory: this.chance(0.85) ? 'PASSED' : 'REVIEW',
+        massLayoff: this.chance(0.2),
+        // Zipf-like: a few large employers account for most claims
+        weight: 1 / (rank + 1)
+      };
+    });
+  }
+
+  private person(): Person {
+    const first = this.pick(FIRST_NAMES);
+    const last = this.pick(LAST_NAMES);
+    const place = this.pick(CITIES);
+    const separator = this.pick(['.', '_', '']);
+    const suffix = this.chance(0.4) ? String(this.int(1, 99)) : '';
+
+    return {
+      name: `${first} ${last}`,
+      dob: this.dateOfBirth(20, 64),
+      ssnHash: this.hex(12),
+      email: `${first.toLowerCase()}${separator}${last.toLowerCase()}${suffix}@${this.pick(EMAIL_DOMAINS)}`,
+      // Already E.164, as ClaimNormalizer would leave it
+      phone: `+1${this.pick(place.areaCodes)}${this.int(200, 999)}${String(this.int(0, 9999)).padStart(4, '0')}`,
+      address: {
+        streetAddress1: `${this.int(10, 9999)} ${this.pick(STREETS)} ${this.pick(STREET_SUFFIXES)}`,
+        ...(this.chance(0.2) ? { streetAddress2: `Apt ${this.int(1, 40)}` } : {}),
+        city: place.city,
+        state: place.state,
+        zipCode: `${place.zipPrefix}${String(this.int(1, 99)).padStart(2, '0')}`,
+        country: 'US'
+      },
+      location: `${place.city.replace(/ /g, '_')}_${place.state}`
+    };
+  }
+
+  private weightedEmployer(): Employer {
+    let remaining = this.random() * this.totalEmployerWeight;
+    for (const employer of this.employers) {
+      remaining -= employer.weight;
+      if (remaining <= 0) return employer;
+    }
+    return this.employers[this.employers.length - 1];
+  }
+
+  // Log-normal around a $48k median, rounded to the nearest $100
+  private annualWage(): number {
+    const wage = Math.exp(this.normal(Math.log(48000), 0.4));
+    return Math.round(this.clamp(wage, 18000, 180000) / 100) * 100;
+  }
+
+  private dateOfBirth(minAge: number, maxAge: number): string {
+    const age = this.uniform(minAge, maxAge);
+    return new Date(this.start - age * 365.25 * DAY_MS).toISOString().slice(0, 10);
+  }
+
+  // Start of a random day in the date range
+  private dateInRange(): number {
+    return this.start + Math.floor(this.random() * (this.span / DAY_MS)) * DAY_MS;
+  }
+
+  // Weekdays between 8am and 6pm UTC, where most genuine filings land
+  private businessHoursTimestamp(): number {
+    let day = this.dateInRange();
+    while ([0, 6].includes(new Date(day).getUTCDay()) && this.chance(0.8)) {
+      day = this.dateInRange();
+    }
+    return day + this.int(8 * 3600, 18 * 3600) * 1000;
+  }
+
+  // A time within `windowMs` after `from`, kept inside the date range
+  private timestampNear(from: number, windowMs: number): number {
+    const latest = this.start + this.span - 1000;
+    return Math.min(from + Math.floor(this.random() * windowMs), latest);
+  }
+
+  private ipAddress(): string {
+    // Public first octets only
+    return [this.pick([24, 45, 67, 73, 98, 104, 142, 162, 173, 198, 208]), this.int(0, 255), this.int(0, 255), this.int(1, 254)]
+      .join('.');
+  }
+
+  private deviceId(): string {
+    return `DEV-${this.hex(8).toUpperCase()}`;
+  }
+
+  private fingerprint(): string {
+    return `FP-${this.hex(12)}`;
+  }
+
+  private hex(length: number): string {
+    return Array.from({ length }, () => Math.floor(this.random() * 16).toString(16)).join('');
+  }
+
+  private pick<T>(items: readonly T[]): T {
+    return items[Math.floor(this.random() * items.length)];
+  }
+
+  // `count` distinct items, in random order
+  private sample<T>(items: readonly T[], count: number): T[] {
+    const pool = [...items];
+    const picked: T[] = [];
+    while (picked.length < count && pool.length > 0) {
+      picked.push(pool.splice(Math.floor(this.random() * pool.length), 1)[0]);
+    }
+    return picked;
+  }
+
+  private chance(probability: number): boolean {
+    return this.random() < probability;
+  }
+
+  private int(min: number, max: number): number {
+    return min + Math.floor(this.random() * (max - min + 1));
+  }
+
+  private uniform(min: number, max: number): number {
+    return min + this.random() * (max - min);
+  }
+
+  // Box-Muller
+  private normal(mean: number, deviation: number): number {
+    const u = 1 - this.random();
+    const v = this.random();
+    return mean + deviation * Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v);
+  }
+
+  private clamp(value: number, min: number, max: number): number {
+    return Math.min(Math.max(value, min), max);
+  }
+}
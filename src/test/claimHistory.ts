@@ -0,0 +1,27 @@
+import { BenefitsClaim, ClaimantProfile } from '@/types/enterprise';
+import { EnterpriseClaimRow } from '@/types/fraud';
+import { ClaimHistory } from '@/services/claimHistory';
+import { CrossMatcher } from '@/services/crossMatcher';
+import { claimRow } from './claimRow';
+
+// Records a row the way scoring does, with the identity read from the row itself
+export function recordRow(history: ClaimHistory, overrides: Partial<EnterpriseClaimRow>): void {
+  const row = claimRow(overrides);
+  const claim = { claimId: row.Claim_ID, createdDate: row.Claim_Date, maximumBenefitAmount: Number(row.Claim_Amount) } as BenefitsClaim;
+  const claimant = { claimantId: row.Claimant_ID, ssn: row.SSN_Hash } as ClaimantProfile;
+  history.record(claim, claimant, CrossMatcher.identityOf(claim, claimant, { legacy_claim_data: row }));
+}
+
+// A row of the nth claimant, sharing nothing with any other unless a test says so
+export const distinctRow = (n: number): Partial<EnterpriseClaimRow> => ({
+  Claim_ID: `CLM-${n}`,
+  Claimant_ID: `CLT-${n}`,
+  Name: `Person${n} Other${n}`,
+  DOB: `19${50 + n}-01-01`,
+  SSN_Hash: `ssn-${n}`,
+  Email: `person${n}@mail.com`,
+  Phone: `555-300-${String(1000 + n)}`,
+  IP_Address: `10.1.0.${n}`,
+  Device_ID: `DEV-${n}`,
+  Employer_Name: `Employer ${n} LLC`
+});
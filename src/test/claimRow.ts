@@ -0,0 +1,22 @@
+import { EnterpriseClaimRow } from '@/types/fraud';
+
+// A complete, unremarkable claim row; tests override what they are about
+export function claimRow(overrides: Partial<EnterpriseClaimRow> = {}): EnterpriseClaimRow {
+  return {
+    Claim_ID: 'CLM-1',
+    Claimant_ID: 'CLT-1',
+    Name: 'Jane Doe',
+    DOB: '1985-04-12',
+    SSN_Hash: 'ssn-1',
+    Email: 'jane.doe@mail.com',
+    Phone: '555-201-3344',
+    IP_Address: '10.0.0.1',
+    Device_ID: 'DEV-1',
+    Employer_Name: 'Acme Corp',
+    Employment_Status: 'Laid off',
+    Wage_Reported: '52000',
+    Claim_Amount: '4800',
+    Claim_Date: '2024-03-01T10:00:00Z',
+    ...overrides
+  };
+}
@@ -35,6 +35,10 @@ export interface ClaimantProfile {
   alternatePhone?: string;
   mailingAddress: Address;
   residenceAddress: Address;
+  // Prior residences, most recent first, including the current one
+  addressHistory?: Address[];
+  previousEmployers?: string[];
+  identityDocuments?: string[];
   preferredLanguage: string;
   riskScore: number;
   riskFlags: string[];
@@ -54,6 +58,27 @@ export interface Address {
   country: string;
 }
 
+// A full name split into its parts; parts that are not present are empty
+export interface PersonName {
+  prefix: string;
+  first: string;
+  middle: string[];
+  // Compound and hyphenated surnames whole, e.g. "de la Cruz", "Garcia-Lopez"
+  last: string;
+  // Normalized: JR, SR, II, III, IV, MD, PHD, ESQ
+  suffix: string;
+}
+
+// A street line in USPS abbreviations, lowercase, for comparison
+export interface StandardStreet {
+  houseNumber: string;
+  // e.g. "n main st"
+  streetName: string;
+  // e.g. "apt", "ste", "#"
+  unitDesignator: string;
+  unitNumber: string;
+}
+
 export interface EmployerRecord {
   employerId: string;
   federalEin: string;
@@ -209,6 +234,121 @@ export interface RiskAssessmentResult {
   confidenceScore: number;
   processingTimeMs?: number;
   emergingThreats?: string[];
+  // Which engine or model produced each part of the score
+  provenance: ResultProvenance[];
+  // Some part fell back to a stub because its model could not be reached
+  degraded: boolean;
+  // Points behind overallRiskScore, for engines that can attribute them
+  contributions?: ScoreContribution[];
+}
+
+/**
+ * Points one rule, model, cross-match or pattern added to a risk score.
+ * A result's contributions sum exactly to its score; an ADJUSTMENT entry
+ * accounts for the score being capped.
+ */
+export interface ScoreContribution {
+  contributionId: string;
+  source: 'RULE' | 'MODEL' | 'CROSS_MATCH' | 'REALTIME' | 'PATTERN' | 'ADJUSTMENT';
+  label: string;
+  points: number;
+  // The values that produced the points, e.g. the fields a rule tested
+  evidence: ContributionEvidence[];
+}
+
+export interface ContributionEvidence {
+  name: string;
+  value: string | number | boolean | null;
+}
+
+// The scoring engines combined by the ensemble
+export type EnsembleEngineName = 'rules' | 'realtime' | 'pattern';
+
+/**
+ * One engine's part in a claim's score: its own score, and the points it
+ * added to the combined score at its ensemble weight.
+ */
+export interface EngineSubScore {
+  engine: EnsembleEngineName;
+  // 0-1000, before weighting
+  score: number;
+  weight: number;
+  points: number;
+}
+
+/**
+ * Where one part of a result came from. STUB means the offline stub was
+ * configured; FALLBACK means it stood in for a model that failed.
+ */
+export interface ResultProvenance {
+  component: string;
+  source: 'MODEL' | 'CACHE' | 'RULES' | 'STUB' | 'FALLBACK';
+  // Set for model-backed parts
+  provider?: string;
+  // Model name, or the engine version for rule-based parts
+  model: string;
+  attempts?: number;
+  // Why the fallback was used
+  error?: string;
+}
+
+export type ScoringStageName =
+  | 'validate'
+  | 'features'
+  | 'rules'
+  | 'ml'
+  | 'crossMatch'
+  | 'realtime'
+  | 'pattern'
+  | 'decision'
+  | 'explanation';
+
+export interface ScoringStageOutcome {
+  stage: ScoringStageName;
+  status: 'COMPLETED' | 'SKIPPED' | 'FAILED';
+  durationMs: number;
+  error?: string;
+}
+
+/**
+ * Everything the scoring pipeline concluded about one claim. The older
+ * RiskAssessmentResult and FraudAnalysis shapes are derived from this.
+ */
+export interface ClaimScoringResult {
+  resultId: string;
+  claimId: string;
+  claimantId: string;
+  scoredAt: string;
+  // Missing or out-of-range input found before scoring
+  validationIssues: string[];
+  // Numeric signals extracted from the claim and its history
+  features: Record<string, number>;
+  // 0-1000
+  riskScore: number;
+  // riskScore through the score calibration, 0-1
+  fraudProbability: number;
+  riskLevel: 'LOW' | 'MEDIUM' | 'HIGH' | 'CRITICAL';
+  riskFactors: RiskFactor[];
+  // Sum exactly to riskScore
+  contributions: ScoreContribution[];
+  // Each engine that ran, in the order it ran
+  engineScores: EngineSubScore[];
+  crossMatches: CrossMatchResult[];
+  emergingThreats: string[];
+  // Indicators suggested by the flag generation model
+  modelFlags: string[];
+  recommendedActions: string[];
+  requiresInvestigation: boolean;
+  autoApprovalEligible: boolean;
+  // Set when this claim opened a fraud case
+  caseId?: string;
+  explanation: string;
+  confidence: number;
+  modelVersion: string;
+  provenance: ResultProvenance[];
+  degraded: boolean;
+  // In the order they ran
+  stages: ScoringStageOutcome[];
 }
 
 export interface RiskFactor {
@@ -273,4 +413,155 @@ export interface RelatedEntity {
   relationshipType: string;
   strength: number;
   lastActivity: string;
+}
+
+// How two identity values were found to match
+export type IdentityMatchMethod =
+  | 'EXACT'
+  | 'NICKNAME'
+  | 'INITIAL'
+  | 'JARO_WINKLER'
+  | 'LEVENSHTEIN'
+  | 'DOUBLE_METAPHONE'
+  | 'SOUNDEX'
+  | 'TRANSPOSED'
+  | 'PARTIAL_SURNAME'
+  | 'UNIT_DIFFERS'
+  | 'UNIT_MISSING';
+
+// Two names or addresses that may belong to the same person
+export interface IdentityMatchCandidate {
+  field: 'NAME' | 'ADDRESS';
+  matchType: CrossMatchResult['matchType'];
+  // 0-1
+  score: number;
+  // Each way the parts matched, e.g. NICKNAME for the first name and EXACT for the last
+  methods: IdentityMatchMethod[];
+}
+
+// Identity graph: claims linked through the attributes they share
+export type IdentityNodeType =
+  | 'CLAIM'
+  | 'CLAIMANT'
+  | 'SSN'
+  | 'DEVICE'
+  | 'IP_ADDRESS'
+  | 'PHONE'
+  | 'EMAIL'
+  | 'ADDRESS'
+  | 'EMPLOYER';
+
+export interface IdentityNode {
+  nodeId: string;
+  nodeType: IdentityNodeType;
+  // Masked where the value identifies a person
+  label: string;
+  // Edges from the node a query started at
+  distance: number;
+}
+
+// Every edge joins a claim to one of its attributes
+export interface IdentityEdge {
+  claimNodeId: string;
+  attributeNodeId: string;
+  // 0-1: the attribute type's weight, less the more claimants share it
+  weight: number;
+}
+
+export interface IdentitySubgraph {
+  rootId: string;
+  nodes: IdentityNode[];
+  edges: IdentityEdge[];
+}
+
+// Claims joined by strong links, directly or through each other
+export interface IdentityComponent {
+  componentId: string;
+  claimIds: string[];
+  claimantIds: string[];
+  // Attribute nodes linking two or more of its claimants
+  sharedAttributes: IdentityNode[];
+}
+
+// Per-claim features derived from the identity graph
+export interface NetworkFeatures {
+  network_component_claimants: number;
+  network_component_claims: number;
+  // Other claimants sharing an attribute with this claim that is rare enough to mean something
+  network_linked_claimants: number;
+  // Strongest link to each linked claimant, summed
+  network_link_strength: number;
+  network_shared_ssn_claimants: number;
+  network_shared_device_claimants: number;
+  network_shared_ip_claimants: number;
+  network_shared_phone_claimants: number;
+  network_shared_email_claimants: number;
+  network_shared_address_claimants: number;
+  network_shared_employer_claimants: number;
+}
+
+
+// What makes a fraud ring look organized; see FraudRingDetector
+export interface FraudRingMetrics {
+  claimantCount: number;
+  claimCount: number;
+  // Share of member claimant pairs directly linked, 0-1
+  density: number;
+  // Days from the first member claim filed to the last
+  filingSpanDays: number;
+  claimsPerWeek: number;
+  // Employers two or more members claim to have worked for
+  sharedEmployerCount: number;
+  // Claim_Amount summed over member claims
+  exposure: number;
+}
+
+// Claimants that community detection grouped together
+export interface FraudRing {
+  ringId: string;
+  claimIds: string[];
+  claimantIds: string[];
+  // Attribute nodes linking two or more of its claimants
+  sharedAttributes: IdentityNode[];
+  employers: string[];
+  metrics: FraudRingMetrics;
+  // 0-100
+  riskScore: number;
+  riskLevel: 'LOW' | 'MEDIUM' | 'HIGH' | 'CRITICAL';
+  detectedAt: string;
+  // Set once the ring is opened as an ORGANIZED_FRAUD case
+  caseId?: string;
+}
+
+// How often and how usefully one business rule has fired
+export interface RulePerformance {
+  ruleId: string;
+  ruleName: string;
+  triggerCount: number;
+  // Share of its triggers on claims that went on to a case, 0-1
+  effectiveness: number;
+}
+
+export interface FraudReport {
+  reportId: string;
+  dateRange: { start: string; end: string };
+  summary: {
+    totalCases: number;
+    openCases: number;
+    highPriorityCases: number;
+    totalPotentialLoss: number;
+    actualLoss: number;
+    recoveredAmount: number;
+  };
+  casesByType: Record<string, number>;
+  // Most frequently triggered rules
+  topRiskFactors: { factor: string; frequency: number }[];
+  businessRulesPerformance: {
+    totalRules: number;
+    activeRules: number;
+    // Over rules that have fired at least once
+    averageEffectiveness: number;
+    topPerformingRules: RulePerformance[];
+  };
+  recommendations: string[];
 }
\ No newline at end of file
@@ -1,3 +1,4 @@
+import { Address, EngineSubScore, ResultProvenance, ScoreContribution } from './enterprise';
 
 export interface ClaimData {
   Claim_ID: string;
@@ -17,25 +18,188 @@ export interface ClaimData {
   Justification_Text?: string;
 }
 
+export type VerificationStatus = 'VERIFIED' | 'PENDING' | 'FAILED';
+export type RiskTier = 'LOW' | 'MEDIUM' | 'HIGH';
+export type PaymentMethod =
+  | 'BANK_TRANSFER'
+  | 'DIRECT_DEPOSIT'
+  | 'CHECK'
+  | 'PREPAID_CARD'
+  | 'MONEY_ORDER'
+  | 'CRYPTOCURRENCY';
+export type LoginPattern = 'NORMAL' | 'ABNORMAL' | 'SUSPICIOUS' | 'HIGHLY_SUSPICIOUS' | 'FRAUDULENT';
+export type EmployerAuditOutcome = 'PASSED' | 'REVIEW' | 'FAILED' | 'INVESTIGATION';
+export type DocumentType =
+  | 'DRIVER_LICENSE'
+  | 'STATE_ID'
+  | 'PASSPORT'
+  | 'SOCIAL_SECURITY_CARD'
+  | 'BIRTH_CERTIFICATE'
+  | 'W2_FORM'
+  | 'PAY_STUB'
+  | 'UTILITY_BILL'
+  | 'OTHER';
+
+// Enterprise extract columns, coerced to their native types at parse time.
+// Every field is optional so that plain ClaimData files still load.
+export interface EnterpriseClaimFields {
+  Identity_Verification_Status?: VerificationStatus;
+  Document_Types_Provided?: DocumentType[];
+  Identity_Score?: number;
+  Previous_Employers?: string[];
+  Employment_History_Verified?: boolean;
+  Employment_Gap_Months?: number;
+  Termination_Reason_Code?: string;
+  // Most recent first
+  Address_History?: Address[];
+  IP_Geolocation?: string;
+  Address_Verification_Status?: VerificationStatus;
+  Geographic_Risk_Score?: number;
+  Bank_Account_Age_Months?: number;
+  Payment_Method?: PaymentMethod;
+  Financial_Institution_Risk_Level?: RiskTier;
+  Device_Fingerprint?: string;
+  Login_Pattern_Analysis?: LoginPattern;
+  Application_Behavior_Score?: number;
+  Session_Duration_Minutes?: number;
+  Family_Members_Claims?: number;
+  Shared_Address_Count?: number;
+  Shared_Phone_Count?: number;
+  Known_Associates_Risk?: RiskTier;
+  Employer_Risk_Score?: number;
+  Industry_Risk_Level?: RiskTier;
+  Employer_Audit_History?: EmployerAuditOutcome;
+  Mass_Layoff_Event?: boolean;
+}
+
+// Fields rewritten into a canonical form at ingest; see ClaimNormalizer
+export type NormalizedField = 'Claim_Date' | 'DOB' | 'Phone' | 'Email' | 'Name' | 'Wage_Reported' | 'Claim_Amount';
+
+export interface EnterpriseClaimRow extends ClaimData, EnterpriseClaimFields {
+  // Name of the uploaded file the claim was read from
+  Source_File?: string;
+  // Pipe-delimited files holding a different version of this claim
+  Conflicting_Sources?: string;
+  // Values as submitted, for fields that normalization changed
+  Original_Values?: Partial<Record<NormalizedField, string>>;
+  // Known answer for benchmark datasets; see SyntheticClaimGenerator
+  Ground_Truth_Label?: GroundTruthLabel;
+  // Claims injected together as one instance of a scheme share a group
+  Ground_Truth_Group?: string;
+}
+
+export type FraudScheme =
+  | 'IDENTITY_RING'
+  | 'EMPLOYER_COLLUSION'
+  | 'SYNTHETIC_IDENTITY'
+  | 'BOT_CADENCE'
+  | 'DISPOSABLE_EMAIL';
+
+export type GroundTruthLabel = 'LEGITIMATE' | FraudScheme;
+
 export interface FraudAnalysis {
   claim_id: string;
+  // Calibrated fraud probability, 0-1
   fraud_score: number;
+  // Raw risk points the probability was calibrated from, 0-1000
+  risk_points: number;
+  // What each rule, model and match added to risk_points
+  contributions: ScoreContribution[];
+  // Rules engine, real-time scoring and pattern detection sub-scores
+  engine_scores: EngineSubScore[];
   fraud_label: 'Low' | 'Medium' | 'High' | 'Severe';
   explanation: string;
   flags: string[];
   recommendation: string;
   confidence: number;
   analyzed_at: string;
+  provenance: ResultProvenance[];
+  // Scored while a model was unavailable, using its fallback
+  degraded: boolean;
+}
+
+// Source column -> target field; null means the column is ignored
+export type ColumnMapping = Record<string, string | null>;
+
+export interface ColumnSuggestion {
+  source: string;
+  target: string | null;
+  confidence: number;
+}
+
+export interface ColumnMappingProfile {
+  name: string;
+  sourceHeaders: string[];
+  mapping: ColumnMapping;
+  savedAt: string;
+}
+
+export interface RowIssue {
+  field: string;
+  message: string;
+}
+
+export interface RejectedRow {
+  rowNumber: number;
+  sourceFile?: string;
+  claimId?: string;
+  raw: Record<string, unknown>;
+  issues: RowIssue[];
+}
+
+export interface WarnedRow {
+  rowNumber: number;
+  sourceFile?: string;
+  claimId: string;
+  issues: RowIssue[];
+}
+
+// Row-level outcome of an import. `rejected` and `warned` may be truncated
+// on very large files; the counts always cover every row.
+export interface ValidationReport {
+  totalRows: number;
+  acceptedRows: number;
+  rejectedCount: number;
+  warnedCount: number;
+  rejected: RejectedRow[];
+  warned: WarnedRow[];
+}
+
+export interface ParsedClaims {
+  rows: EnterpriseClaimRow[];
+  report: ValidationReport;
+}
+
+export type DuplicatePolicy = 'KEEP_FIRST' | 'KEEP_LATEST' | 'FLAG_CONFLICTS';
+
+export interface ImportOptions {
+  policy: DuplicatePolicy;
+  // Add to the claims already loaded instead of replacing them
+  append: boolean;
+}
+
+export interface DuplicateClaim {
+  claimId: string;
+  keptSource: string;
+  droppedSource: string;
+  // Empty when the two records are identical
+  differingFields: string[];
 }
 
-export interface AnalyzedClaim extends ClaimData {
+// Outcome of merging uploads into the dataset. `duplicates` may be
+// truncated; the counts always cover every duplicate.
+export interface MergeReport {
+  policy: DuplicatePolicy;
+  incomingRows: number;
+  addedRows: number;
+  replacedRows: number;
+  duplicateCount: number;
+  conflictCount: number;
+  duplicates: DuplicateClaim[];
+}
+
+export interface AnalyzedClaim extends EnterpriseClaimRow {
   analysis: FraudAnalysis;
-  // Enterprise fields for UI display
-  Identity_Verification_Status?: string;
-  Employer_Risk_Score?: string;
-  Geographic_Risk_Score?: string;
-  Device_Fingerprint?: string;
-  Financial_Institution_Risk_Level?: string;
 }
 
 export interface DashboardStats {
@@ -74,3 +238,93 @@ export interface EmployerRisk {
   claim_count: number;
   total_amount: number;
 }
+
+export type DataQualityIssueKind = 'NULL_RATE' | 'PLACEHOLDER' | 'OUTLIER' | 'FUTURE_DATE';
+
+export interface ValueCount {
+  value: string;
+  count: number;
+}
+
+export interface ColumnProfile {
+  column: string;
+  kind: 'text' | 'number' | 'date' | 'boolean' | 'list';
+  nullCount: number;
+  nullRate: number;
+  distinctCount: number;
+  // Most frequent values, most common first
+  topValues: ValueCount[];
+  min?: number;
+  max?: number;
+  mean?: number;
+  median?: number;
+  outlierCount: number;
+  placeholderCount: number;
+  futureDateCount: number;
+  // A few Claim_IDs per problem, for follow-up
+  exampleClaimIds: string[];
+}
+
+export interface DataQualityIssue {
+  column: string;
+  kind: DataQualityIssueKind;
+  severity: 'LOW' | 'MEDIUM' | 'HIGH' | 'CRITICAL';
+  affectedRows: number;
+  rate: number;
+  threshold: number;
+  message: string;
+}
+
+export interface DataQualityProfile {
+  profileId: string;
+  profiledAt: string;
+  // Source_File values of the profiled rows
+  sources: string[];
+  rowCount: number;
+  columns: ColumnProfile[];
+  // Threshold breaches, worst first
+  issues: DataQualityIssue[];
+  // DATA_QUALITY alerts raised for the issues
+  alertIds?: string[];
+}
+
+export type BatchJobStatus = 'RUNNING' | 'PAUSED' | 'CANCELLED' | 'COMPLETED';
+
+export interface BatchJobOptions {
+  // Claims analyzed at the same time
+  concurrency: number;
+  // Further attempts for a claim that fails before it is given up on
+  maxRetries: number;
+  // Shortest gap between result hand-offs to the UI
+  updateIntervalMs: number;
+  // Shortest gap between checkpoint writes
+  checkpointIntervalMs: number;
+}
+
+export interface BatchJobFailure {
+  itemId: string;
+  attempts: number;
+  error: string;
+}
+
+export interface BatchJobProgress {
+  jobId: string;
+  status: BatchJobStatus;
+  total: number;
+  // Includes claims finished before a resume
+  completed: number;
+  inFlight: number;
+  // Failed at least once and waiting for another attempt
+  retrying: number;
+  failures: BatchJobFailure[];
+}
+
+// What is known about an interrupted run without loading its claims
+export interface BatchCheckpointSummary {
+  jobId: string;
+  label: string;
+  startedAt: string;
+  updatedAt: string;
+  total: number;
+  completed: number;
+}
@@ -0,0 +1,87 @@
+import Papa from 'papaparse';
+import { CSVParser, CSVWorkerMessage, CSVWorkerRequest } from '../services/csvParser';
+import { ColumnMapping } from '../types/fraud';
+import { ClaimValidator } from '../services/claimValidator';
+
+let activeParser: Papa.Parser | null = null;
+let rowsParsed = 0;
+let headersChecked = false;
+let failed = false;
+let validator = new ClaimValidator();
+
+const post = (message: CSVWorkerMessage) => self.postMessage(message);
+
+const fail = (error: unknown) => {
+  failed = true;
+  activeParser?.abort();
+  activeParser = null;
+  post({ type: 'error', message: error instanceof Error ? error.message : String(error) });
+};
+
+const start = (file: File, chunkSize: number, mapping?: ColumnMapping) => {
+  rowsParsed = 0;
+  headersChecked = false;
+  failed = false;
+  validator = new ClaimValidator();
+
+  Papa.parse<Record<string, unknown>>(file, {
+    header: true,
+    skipEmptyLines: true,
+    chunkSize,
+    transformHeader: mapping ? header => CSVParser.mapHeader(mapping, header) : undefined,
+    chunk: (results, parser) => {
+      activeParser = parser;
+
+      try {
+        if (!headersChecked) {
+          CSVParser.validateHeaders(results.meta.fields || []);
+          headersChecked = true;
+        }
+
+        const cleanedRows = results.data.map(row => CSVParser.cleanRow(row));
+        const { accepted, report } = validator.validate(cleanedRows, results.data, rowsParsed);
+        rowsParsed += cleanedRows.length;
+
+        // Wait for the main thread to acknowledge before reading further
+        parser.pause();
+        post({
+          type: 'batch',
+          rows: accepted,
+          report,
+          progress: {
+            rowsParsed,
+            bytesRead: Math.min(results.meta.cursor, file.size),
+            totalBytes: file.size
+          }
+        });
+      } catch (error) {
+        fail(error);
+      }
+    },
+    complete: () => {
+      if (failed) return;
+      if (rowsParsed === 0) {
+        post({ type: 'error', message: 'CSV file is empty' });
+        return;
+      }
+      activeParser = null;
+      post({ type: 'complete', rowCount: rowsParsed });
+    },
+    error: (error) => {
+      fail(new Error(`CSV parsing error: ${error.message}`));
+    }
+  });
+};
+
+self.onmessage = (event: MessageEvent<CSVWorkerRequest>) => {
+  const message = event.data;
+
+  switch (message.type) {
+    case 'start':
+      start(message.file, message.chunkSize, message.mapping);
+      break;
+    case 'ack':
+      activeParser?.resume();
+      break;
+  }
+};
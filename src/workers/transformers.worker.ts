@@ -0,0 +1,79 @@
+import { env, pipeline, Text2TextGenerationPipeline, TextClassificationPipeline } from '@huggingface/transformers';
+import {
+  ClassificationScore,
+  LocalModelSettings,
+  TransformersWorkerMessage,
+  TransformersWorkerRequest
+} from '../services/modelProviders';
+
+// Model files come from our own host only, never from the Hugging Face Hub
+env.allowRemoteModels = false;
+env.allowLocalModels = true;
+
+// The overloads for every task are too large for the compiler to check here
+const createPipeline = pipeline as unknown as <T>(task: string, model: string) => Promise<T>;
+
+// Loading is slow, so each model is loaded once and reused
+const classifiers = new Map<string, Promise<TextClassificationPipeline>>();
+const generators = new Map<string, Promise<Text2TextGenerationPipeline>>();
+
+const post = (message: TransformersWorkerMessage) => self.postMessage(message);
+
+const applySettings = (settings: LocalModelSettings) => {
+  env.localModelPath = settings.modelPath;
+  if (env.backends.onnx.wasm) {
+    env.backends.onnx.wasm.wasmPaths = settings.wasmPath;
+  }
+};
+
+// A failed load is dropped so the next request retries it
+const load = <T>(cache: Map<string, Promise<T>>, key: string, create: () => Promise<T>): Promise<T> => {
+  let loading = cache.get(key);
+  if (!loading) {
+    loading = create();
+    loading.catch(() => cache.delete(key));
+    cache.set(key, loading);
+  }
+  return loading;
+};
+
+const classify = async (model: string, text: string, settings: LocalModelSettings): Promise<ClassificationScore[]> => {
+  const classifier = await load(classifiers, `${settings.modelPath}|${model}`, () =>
+    createPipeline<TextClassificationPipeline>('text-classification', model)
+  );
+  // top_k: null returns every label rather than just the best one
+  const output = await classifier(text, { top_k: null });
+  const scores = (Array.isArray(output[0]) ? output[0] : output) as { label: string; score: number }[];
+  return scores.map(item => ({ label: String(item.label), score: Number(item.score) }));
+};
+
+const generate = async (model: string, prompt: string, settings: LocalModelSettings, maxTokens?: number): Promise<string> => {
+  const generator = await load(generators, `${settings.modelPath}|${model}`, () =>
+    createPipeline<Text2TextGenerationPipeline>('text2text-generation', model)
+  );
+  const output = await generator(prompt, maxTokens ? { max_new_tokens: maxTokens } : {});
+  const first = (Array.isArray(output) ? output[0] : output) as { generated_text?: string };
+  return String(first?.generated_text ?? '');
+};
+
+self.onmessage = async (event: MessageEvent<TransformersWorkerRequest>) => {
+  const message = event.data;
+  applySettings(message.settings);
+
+  try {
+    switch (message.type) {
+      case 'classify':
+        post({ type: 'classified', id: message.id, scores: await classify(message.model, message.text, message.settings) });
+        break;
+      case 'generate':
+        post({
+          type: 'generated',
+          id: message.id,
+          text: await generate(message.model, message.prompt, message.settings, message.maxTokens)
+        });
+        break;
+    }
+  } catch (error) {
+    post({ type: 'error', id: message.id, message: error instanceof Error ? error.message : String(error) });
+  }
+};